@@ -4,6 +4,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import { useOutboxSync } from "@/hooks/useOutbox";
+import { RealtimeProvider } from "@/components/RealtimeProvider";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
@@ -16,6 +18,9 @@ import Post from "./pages/Post";
 import User from "./pages/User";
 import Admin from "./pages/Admin";
 import Notifications from "./pages/Notifications";
+import Tag from "./pages/Tag";
+import Channels from "./pages/Channels";
+import JoinConversation from "./pages/JoinConversation";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -34,87 +39,127 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   return user ? <>{children}</> : <Navigate to="/login" replace />;
 };
 
+// Sends chat messages that were queued while offline, in any conversation
+const OutboxSync = () => {
+  useOutboxSync();
+  return null;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/admin" element={<Admin />} />
-            <Route 
-              path="/feed" 
-              element={
-                <ProtectedRoute>
-                  <Feed />
-                </ProtectedRoute>
-              } 
-            />
-            <Route 
-              path="/explore" 
-              element={
-                <ProtectedRoute>
-                  <Explore />
-                </ProtectedRoute>
-              } 
-            />
-            <Route 
-              path="/create" 
-              element={
-                <ProtectedRoute>
-                  <Create />
-                </ProtectedRoute>
-              } 
-            />
-            <Route 
-              path="/profile" 
-              element={
-                <ProtectedRoute>
-                  <Profile />
-                </ProtectedRoute>
-              } 
-            />
-            <Route 
-              path="/messages" 
-              element={
-                <ProtectedRoute>
-                  <Messages />
-                </ProtectedRoute>
-              } 
-            />
-            <Route 
-              path="/post/:id" 
-              element={
-                <ProtectedRoute>
-                  <Post />
-                </ProtectedRoute>
-              } 
-            />
-            <Route 
-              path="/user/:username" 
-              element={
-                <ProtectedRoute>
-                  <User />
-                </ProtectedRoute>
-              } 
-            />
-            <Route 
-              path="/notifications" 
-              element={
-                <ProtectedRoute>
-                  <Notifications />
-                </ProtectedRoute>
-              } 
-            />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <RealtimeProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <OutboxSync />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route 
+                path="/admin" 
+                element={
+                  <ProtectedRoute>
+                    <Admin />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/feed" 
+                element={
+                  <ProtectedRoute>
+                    <Feed />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/explore" 
+                element={
+                  <ProtectedRoute>
+                    <Explore />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/create" 
+                element={
+                  <ProtectedRoute>
+                    <Create />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/profile" 
+                element={
+                  <ProtectedRoute>
+                    <Profile />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/messages" 
+                element={
+                  <ProtectedRoute>
+                    <Messages />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/post/:id" 
+                element={
+                  <ProtectedRoute>
+                    <Post />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/user/:username" 
+                element={
+                  <ProtectedRoute>
+                    <User />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/notifications" 
+                element={
+                  <ProtectedRoute>
+                    <Notifications />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/tag/:name" 
+                element={
+                  <ProtectedRoute>
+                    <Tag />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/channels" 
+                element={
+                  <ProtectedRoute>
+                    <Channels />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/join/:code" 
+                element={
+                  <ProtectedRoute>
+                    <JoinConversation />
+                  </ProtectedRoute>
+                } 
+              />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </RealtimeProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ArrowLeft, Ban, VolumeX } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useBlockedUsers } from '@/hooks/useBlockedUsers';
+import { supabase } from '@/integrations/supabase/client';
+import { stripUserDigits } from '@/lib/utils';
+
+interface RestrictedProfile {
+  id: string;
+  display_name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+interface BlockedAccountsListProps {
+  onBack: () => void;
+}
+
+const BlockedAccountsList = ({ onBack }: BlockedAccountsListProps) => {
+  const { user } = useAuth();
+  const { blockedIds, mutedIds, unblockUser, unmuteUser } = useBlockedUsers();
+  const [blocked, setBlocked] = useState<RestrictedProfile[]>([]);
+  const [muted, setMuted] = useState<RestrictedProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      if (!user) return;
+
+      try {
+        const [blockedResult, mutedResult] = await Promise.all([
+          supabase
+            .from('blocked_users')
+            .select(`
+              blocked:profiles!blocked_users_blocked_id_fkey (
+                id,
+                display_name,
+                username,
+                avatar_url
+              )
+            `)
+            .eq('blocker_id', user.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('muted_users')
+            .select(`
+              muted:profiles!muted_users_muted_id_fkey (
+                id,
+                display_name,
+                username,
+                avatar_url
+              )
+            `)
+            .eq('muter_id', user.id)
+            .order('created_at', { ascending: false }),
+        ]);
+
+        if (blockedResult.error) throw blockedResult.error;
+        if (mutedResult.error) throw mutedResult.error;
+
+        setBlocked((blockedResult.data || []).map(row => row.blocked).filter(Boolean) as RestrictedProfile[]);
+        setMuted((mutedResult.data || []).map(row => row.muted).filter(Boolean) as RestrictedProfile[]);
+      } catch (error) {
+        console.error('Error loading blocked accounts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProfiles();
+  }, [user]);
+
+  const handleUnblock = async (profileId: string) => {
+    setUpdating(profileId);
+    await unblockUser(profileId);
+    setUpdating(null);
+  };
+
+  const handleUnmute = async (profileId: string) => {
+    setUpdating(profileId);
+    await unmuteUser(profileId);
+    setUpdating(null);
+  };
+
+  // Rows stay in sync with the hook after unblocking/unmuting without refetching the profiles
+  const visibleBlocked = blocked.filter(profile => blockedIds.has(profile.id));
+  const visibleMuted = muted.filter(profile => mutedIds.has(profile.id));
+
+  const renderProfile = (profile: RestrictedProfile, actionLabel: string, onAction: (id: string) => void) => (
+    <div key={profile.id} className="flex items-center space-x-3 py-2">
+      <Avatar className="w-10 h-10">
+        <AvatarImage src={profile.avatar_url || ''} />
+        <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-sm font-semibold">
+          {stripUserDigits(profile.display_name)[0] || 'U'}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{stripUserDigits(profile.display_name)}</p>
+        <p className="text-xs text-muted-foreground truncate">@{stripUserDigits(profile.username)}</p>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="rounded-xl"
+        disabled={updating === profile.id}
+        onClick={() => onAction(profile.id)}
+      >
+        {actionLabel}
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 py-4">
+      <div className="flex items-center space-x-3">
+        <Button variant="ghost" size="sm" onClick={onBack} className="p-2">
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <h2 className="text-lg font-semibold">Contas bloqueadas</h2>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-sm font-medium">
+              <Ban className="w-4 h-4 text-destructive" />
+              <span>Bloqueadas ({visibleBlocked.length})</span>
+            </div>
+            {visibleBlocked.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Você não bloqueou ninguém.</p>
+            ) : (
+              visibleBlocked.map(profile => renderProfile(profile, 'Desbloquear', handleUnblock))
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-sm font-medium">
+              <VolumeX className="w-4 h-4 text-muted-foreground" />
+              <span>Silenciadas ({visibleMuted.length})</span>
+            </div>
+            {visibleMuted.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Você não silenciou ninguém.</p>
+            ) : (
+              visibleMuted.map(profile => renderProfile(profile, 'Reativar', handleUnmute))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BlockedAccountsList;
@@ -1,17 +1,19 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { ArrowLeft, Send, Image, Smile, Play, Pause, VolumeX, Wifi, WifiOff, Settings, UserPlus, LogIn, Palette, MessageCircle, Reply, Edit, X, Keyboard } from 'lucide-react';
+import { ArrowLeft, Send, Image, Smile, Play, Pause, VolumeX, Wifi, WifiOff, Settings, UserPlus, LogIn, Palette, MessageCircle, Reply, Edit, X, Keyboard, Search } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useRealtimeChat } from '@/hooks/useRealtimeChat';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import MobileLayout from '@/components/MobileLayout';
 import MediaUpload from '@/components/MediaUpload';
+import VoiceRecorder from '@/components/VoiceRecorder';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
@@ -22,11 +24,19 @@ import { PublicChatSettings } from '@/components/PublicChatSettings';
 import { PrivateChatSettings } from '@/components/PrivateChatSettings';
 import { MessageBubble } from '@/components/MessageBubble';
 import { MessageContextMenu } from '@/components/MessageContextMenu';
+import { PinnedBannerMessage, PinnedMessagesBanner } from '@/components/PinnedMessagesBanner';
+import { ConversationSearchBar } from '@/components/ConversationSearchBar';
+import { ReportDialog } from '@/components/ReportDialog';
 import { useLongPress } from '@/hooks/useLongPress';
 import { WallpaperSettings } from '@/components/WallpaperSettings';
 import { useMessageSenders } from '@/hooks/useMessageSenders';
 import { useNewMessageIndicator } from '@/hooks/useNewMessageIndicator';
+import { usePinnedMessages } from '@/hooks/usePinnedMessages';
 import { stripUserDigits, cn } from '@/lib/utils';
+import { canEditMessage, FileMetadata, getMessageElementId, MediaMetadata, MESSAGE_EDIT_WINDOW_MINUTES, MessageReaction, scrollToMessage, VoiceMetadata } from '@/lib/messages';
+import { isOutboxStatus } from '@/lib/outbox';
+import { checkPublicChatStatus, joinPublicChat } from '@/lib/rooms';
+import { canPinMessages, ConversationRole, hasConversationPermission, isMuted, toConversationRole } from '@/lib/conversationRoles';
 import VirtualKeyboard from '@/components/VirtualKeyboard';
 
 interface ChatProps {
@@ -55,10 +65,23 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
     sendMessage,
     sendTypingIndicator,
     reconnectChannels,
+    reactions,
+    toggleReaction,
+    loadMessageWindow,
   } = useRealtimeChat(conversationId);
   const { markConversationAsRead } = useUnreadMessages();
   const { getSenderInfo } = useMessageSenders(messages);
   const { hasNewMessageFrom, clearIndicatorsFromSender } = useNewMessageIndicator(conversationId);
+  const { pins, isPinned, togglePin } = usePinnedMessages(conversationId);
+
+  const reactionsByMessage = useMemo(() => {
+    const grouped: Record<string, MessageReaction[]> = {};
+    reactions.forEach((reaction) => {
+      if (!grouped[reaction.message_id]) grouped[reaction.message_id] = [];
+      grouped[reaction.message_id].push(reaction);
+    });
+    return grouped;
+  }, [reactions]);
   
   const [otherUser, setOtherUser] = useState<{
     id: string;
@@ -79,9 +102,17 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
   const [hasInitialScrolled, setHasInitialScrolled] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<any>(null);
   const [contextMenuOpen, setContextMenuOpen] = useState(false);
+  const [reportMessageId, setReportMessageId] = useState<string | null>(null);
   const [isPublicChat, setIsPublicChat] = useState(false);
   const [isParticipant, setIsParticipant] = useState(true);
   const [joining, setJoining] = useState(false);
+  const [myRole, setMyRole] = useState<ConversationRole | null>(null);
+  const [mutedUntil, setMutedUntil] = useState<string | null>(null);
+  const [membersCanPin, setMembersCanPin] = useState(false);
+  const [isDirectConversation, setIsDirectConversation] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
   const [contextMenu, setContextMenu] = useState<{
     isOpen: boolean;
     position: { x: number; y: number };
@@ -133,12 +164,12 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
 
   useEffect(() => {
     if (conversationId && user) {
-      checkPublicChatStatus();
+      loadPublicChatStatus();
       fetchOtherUser();
       loadWallpaper();
       
-      // Setup realtime updates and cleanup
-      const cleanup = setupRealtimeUpdates();
+      // Follow wallpaper changes made in other tabs
+      const cleanup = watchWallpaperChanges();
       return cleanup;
     }
   }, [conversationId, user]);
@@ -169,48 +200,9 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
     setCurrentWallpaper(wallpaper);
   };
 
-  const setupRealtimeUpdates = () => {
+  const watchWallpaperChanges = () => {
     if (!conversationId) return;
 
-    // Listen for conversation updates (photo changes)
-    const conversationChannel = supabase
-      .channel(`conversation_updates:${conversationId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'conversations',
-          filter: `id=eq.${conversationId}`
-        },
-        (payload) => {
-          console.log('Conversation updated:', payload);
-          const updatedConversation = payload.new as any;
-          
-          // Update chat photo if changed
-          if (updatedConversation.photo_url !== chatPhoto) {
-            setChatPhoto(updatedConversation.photo_url);
-          }
-          
-          // Update conversation name and photo for public chats
-          if (isPublicChat) {
-            setOtherUser(prev => ({
-              id: conversationId,
-              display_name: updatedConversation.name || 'Chat Público',
-              username: updatedConversation.description || 'Chat público',
-              avatar_url: updatedConversation.photo_url || ''
-            }));
-          } else if (updatedConversation.name) {
-            // For private chats, only update name if it exists
-            setOtherUser(prev => prev ? {
-              ...prev,
-              display_name: updatedConversation.name
-            } : null);
-          }
-        }
-      )
-      .subscribe();
-
     // Listen for wallpaper changes in localStorage
     const handleStorageChange = (e: StorageEvent) => {
       if (e.key === `wallpaper_${user?.id}_${conversationId}`) {
@@ -230,22 +222,155 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
     window.addEventListener('storage', handleStorageChange);
 
     return () => {
-      supabase.removeChannel(conversationChannel);
       window.removeEventListener('storage', handleStorageChange);
     };
   };
 
-  const checkPublicChatStatus = async () => {
+  // Listen for conversation updates (photo changes)
+  useRealtimeChanges(
+    conversationId && user ? { table: 'conversations', event: 'UPDATE', filter: `id=eq.${conversationId}` } : null,
+    (payload) => {
+      console.log('Conversation updated:', payload);
+      const updatedConversation = payload.new as { name: string | null; description: string | null; photo_url: string | null; members_can_pin: boolean };
+      setMembersCanPin(updatedConversation.members_can_pin);
+      
+      // Update chat photo if changed
+      if (updatedConversation.photo_url !== chatPhoto) {
+        setChatPhoto(updatedConversation.photo_url);
+      }
+      
+      // Update conversation name and photo for public chats
+      if (isPublicChat) {
+        setOtherUser(prev => ({
+          id: conversationId,
+          display_name: updatedConversation.name || 'Chat Público',
+          username: updatedConversation.description || 'Chat público',
+          avatar_url: updatedConversation.photo_url || ''
+        }));
+      } else if (updatedConversation.name) {
+        // For private chats, only update name if it exists
+        setOtherUser(prev => prev ? {
+          ...prev,
+          display_name: updatedConversation.name
+        } : null);
+      }
+    }
+  );
+
+  const canDeleteOthersMessages = !isOneOnOneChat && hasConversationPermission(myRole, 'delete_messages');
+  const canPin = isParticipant && canPinMessages(myRole, { membersCanPin, isDirect: isDirectConversation });
+
+  // Pins whose message is loaded, newest pin first
+  const pinnedBannerMessages: PinnedBannerMessage[] = pins.flatMap(pin => {
+    const message = messages.find(m => m.id === pin.message_id);
+    if (!message) return [];
+
+    const senderName = message.sender_id === user?.id
+      ? 'Você'
+      : stripUserDigits(getSenderInfo(message.sender_id)?.display_name || otherUser?.display_name || 'Usuário');
+
+    return [{ id: message.id, content: message.content, media_type: message.media_type, senderName }];
+  });
+
+  const handleJumpToMessage = async (messageId: string) => {
+    if (scrollToMessage(messageId)) {
+      setHighlightedMessageId(messageId);
+      return;
+    }
+
+    // Not in the list (older than what was fetched, or it arrived while we were
+    // offline): load the messages around it and jump once they render
     try {
-      const { data: conversation, error } = await supabase
-        .from('conversations')
-         .select('*')
-        .eq('id', conversationId)
-        .single();
+      const found = await loadMessageWindow(messageId);
+      if (found) {
+        setPendingJumpId(messageId);
+        return;
+      }
 
-      if (error) throw error;
+      toast({
+        title: "Mensagem não encontrada",
+        description: "Ela pode ter sido apagada",
+        variant: "destructive",
+      });
+    } catch (error) {
+      console.error('Error loading messages around jump target:', error);
+      toast({
+        title: "Erro ao abrir mensagem",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!pendingJumpId || loading) return;
+
+    // Give the merged messages a moment to render and settle the scroll position first
+    const timeout = setTimeout(() => {
+      if (scrollToMessage(pendingJumpId)) {
+        setHighlightedMessageId(pendingJumpId);
+      } else {
+        toast({
+          title: "Mensagem não encontrada",
+          description: "Ela pode ter sido apagada",
+          variant: "destructive",
+        });
+      }
+      setPendingJumpId(null);
+    }, 100);
+    return () => clearTimeout(timeout);
+  }, [pendingJumpId, loading]);
+
+  // Fade the jump highlight out after a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  const handleTogglePin = async (messageId: string) => {
+    const pinned = isPinned(messageId);
+    try {
+      await togglePin(messageId);
+      toast({
+        title: pinned ? "Mensagem desafixada" : "Mensagem fixada",
+      });
+    } catch (error) {
+      console.error('Error toggling pin:', error);
+      toast({
+        title: "Erro",
+        description: pinned ? "Não foi possível desafixar a mensagem." : "Não foi possível fixar a mensagem.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Lift the mute on screen as soon as it expires
+  useEffect(() => {
+    if (!mutedUntil || !isMuted(mutedUntil)) return;
+
+    const timeout = setTimeout(() => setMutedUntil(null), new Date(mutedUntil).getTime() - Date.now());
+    return () => clearTimeout(timeout);
+  }, [mutedUntil]);
+
+  // Follow role and mute changes made by the group admins
+  useRealtimeChanges(
+    conversationId && user ? { table: 'conversation_participants', event: 'UPDATE', filter: `conversation_id=eq.${conversationId}` } : null,
+    (payload) => {
+      const updated = payload.new as { user_id: string; role: string; muted_until: string | null };
+      if (updated.user_id !== user?.id) return;
+      setMyRole(toConversationRole(updated.role));
+      setMutedUntil(updated.muted_until);
+    }
+  );
+
+  const loadPublicChatStatus = async () => {
+    if (!user || !conversationId) return;
+
+    try {
+      const { conversation, isPublic } = await checkPublicChatStatus(conversationId, user.id);
 
-      const isPublic = conversation?.is_public || false;
       setIsPublicChat(isPublic);
       setChatPhoto(conversation?.photo_url || null);
       
@@ -270,11 +395,15 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
       // Check if user is a participant
       const { data: participants, error: participantsError } = await supabase
         .from('conversation_participants')
-        .select('user_id')
+        .select('user_id, role, muted_until')
         .eq('conversation_id', conversationId);
 
       if (participantsError) throw participantsError;
 
+      const me = participants?.find(p => p.user_id === user.id);
+      setMyRole(me ? toConversationRole(me.role) : null);
+      setMutedUntil(me?.muted_until ?? null);
+
       if (isPublicChat) {
         // Check if user is already a participant
         const isUserParticipant = participants?.some(p => p.user_id === user.id) || false;
@@ -292,27 +421,18 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
     }
   };
 
-  const joinPublicChat = async () => {
+  const handleJoinPublicChat = async () => {
     if (!user || !conversationId) return;
 
     setJoining(true);
     try {
-      const { error } = await supabase
-        .from('conversation_participants')
-        .insert({
-          conversation_id: conversationId,
-          user_id: user.id
-        });
-
-      if (error) throw error;
+      await joinPublicChat(conversationId, user.id);
 
       setIsParticipant(true);
       toast({
         title: "Sucesso",
         description: "Você entrou no chat público!",
       });
-      
-      console.log('Successfully joined public chat:', conversationId);
     } catch (error) {
       console.error('Error joining public chat:', error);
       toast({
@@ -338,6 +458,9 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
 
       if (convError) throw convError;
 
+      setMembersCanPin(conversation?.members_can_pin ?? false);
+      setIsDirectConversation(!conversation?.creator_id && !conversation?.is_public);
+
       // First check how many participants are in this conversation
       const { data: allParticipants, error: participantCountError } = await supabase
         .from('conversation_participants')
@@ -440,37 +563,20 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
   }, [conversationId, messages.length]); // Também resetar quando mensagens mudarem
 
   // Realtime profile updates for the other participant
-  useEffect(() => {
-    if (!otherUser || isPublicChat) return;
-
-    const channel = supabase
-      .channel(`profile_updates:${otherUser.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'profiles',
-          filter: `id=eq.${otherUser.id}`,
-        },
-        (payload) => {
-          const updated: any = (payload as any).new;
-          setOtherUser(prev => prev ? {
-            ...prev,
-            display_name: updated.display_name,
-            username: updated.username,
-            avatar_url: updated.avatar_url,
-          } : prev);
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [otherUser, isPublicChat]);
+  useRealtimeChanges(
+    otherUser && !isPublicChat ? { table: 'profiles', event: 'UPDATE', filter: `id=eq.${otherUser.id}` } : null,
+    (payload) => {
+      const updated = payload.new as { display_name: string; username: string; avatar_url: string | null };
+      setOtherUser(prev => prev ? {
+        ...prev,
+        display_name: updated.display_name,
+        username: updated.username,
+        avatar_url: updated.avatar_url,
+      } : prev);
+    }
+  );
 
-  const handleSendMessage = async (messageContent?: string, mediaUrl?: string, mediaType?: string) => {
+  const handleSendMessage = async (messageContent?: string, mediaUrl?: string, mediaType?: string, mediaMetadata?: MediaMetadata) => {
     const content = messageContent || newMessage.trim();
     if ((!content && !mediaUrl) || sending || !user) return;
 
@@ -481,7 +587,7 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
       typingTimeoutRef.current = null;
     }
 
-    const success = await sendMessage(content, mediaUrl, mediaType, messageReplyTo?.id);
+    const success = await sendMessage(content, mediaUrl, mediaType, messageReplyTo?.id, mediaMetadata);
     if (success) {
       setNewMessage('');
       setShowMediaUpload(false);
@@ -489,8 +595,12 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
     }
   };
 
-  const handleMediaSelected = (url: string, type: 'image' | 'video') => {
-    handleSendMessage('', url, type);
+  const handleMediaSelected = (url: string, type: 'image' | 'video' | 'file', file?: FileMetadata) => {
+    handleSendMessage('', url, type, file);
+  };
+
+  const handleVoiceRecorded = (url: string, metadata: VoiceMetadata) => {
+    handleSendMessage('', url, 'audio', metadata);
   };
 
   const handleMessageChange = async (value: string) => {
@@ -535,6 +645,16 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
     };
   }, []);
 
+  const formatMutedUntil = (dateString: string | null) => {
+    if (!dateString) return '';
+    return new Date(dateString).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
   const formatMessageTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString('pt-BR', { 
@@ -644,25 +764,7 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
   const handleLeaveConversation = async () => {
     if (!user) return;
     try {
-      // Create a system message about user leaving
-      const { data: userProfile } = await supabase
-        .from('profiles')
-        .select('display_name')
-        .eq('id', user.id)
-        .single();
-
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: user.id,
-          content: `${userProfile?.display_name || 'Usuário'} saiu da conversa`,
-          message_type: 'system'
-        });
-
-      if (messageError) console.error('Error creating leave message:', messageError);
-
-      // Remove user from conversation participants
+      // Remove user from conversation participants; the leave message is posted by the database
       const { error } = await supabase
         .from('conversation_participants')
         .delete()
@@ -729,8 +831,9 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
   };
 
   const handleEditMessage = () => {
-    const message = messages.find(m => m.id === contextMenu.messageId);
-    if (message) {
+    const message = selectedMessage;
+    if (message && canEditMessage(message, user?.id)) {
+      setMessageReplyTo(null);
       setEditingMessage({
         id: message.id,
         content: message.content || ''
@@ -754,12 +857,26 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
   const handleSaveEdit = async () => {
     if (!editingMessage || !newMessage.trim()) return;
 
+    if (newMessage.trim() === editingMessage.content.trim()) {
+      handleCancelEdit();
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('messages')
         .update({ content: newMessage.trim() })
         .eq('id', editingMessage.id);
 
+      if (error?.message.includes('Edit window has expired')) {
+        handleCancelEdit();
+        toast({
+          title: "Prazo encerrado",
+          description: `Mensagens só podem ser editadas até ${MESSAGE_EDIT_WINDOW_MINUTES} minutos após o envio`,
+          variant: "destructive",
+        });
+        return;
+      }
       if (error) throw error;
 
       setEditingMessage(null);
@@ -858,6 +975,17 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
                    onReconnect={reconnectChannels}
                  />
 
+                 {isParticipant && (
+                   <Button
+                     variant="ghost"
+                     size="sm"
+                     onClick={() => setShowSearch(prev => !prev)}
+                     className="w-8 h-8 p-0"
+                   >
+                     <Search className="w-4 h-4" />
+                   </Button>
+                 )}
+
                  <Button
                    variant="ghost"
                    size="sm"
@@ -871,6 +999,25 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
           </CardHeader>
         </Card>
 
+        {/* Message search */}
+        {showSearch && isParticipant && (
+          <ConversationSearchBar
+            conversationId={conversationId}
+            onSelect={handleJumpToMessage}
+            onClose={() => setShowSearch(false)}
+          />
+        )}
+
+        {/* Pinned messages */}
+        {isParticipant && (
+          <PinnedMessagesBanner
+            messages={pinnedBannerMessages}
+            canUnpin={canPin}
+            onJump={handleJumpToMessage}
+            onUnpin={handleTogglePin}
+          />
+        )}
+
          {/* Messages - with bottom padding to account for fixed input */}
          <div 
            className="flex-1 overflow-y-auto p-4 pb-32 relative"
@@ -913,7 +1060,7 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
                   Este é um chat público. Clique em "Entrar" para participar da conversa.
                 </p>
                 <Button 
-                  onClick={joinPublicChat}
+                  onClick={handleJoinPublicChat}
                   disabled={joining}
                   size="lg"
                   className="gap-2"
@@ -950,7 +1097,14 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
                 const isSystemMessage = message.message_type === 'system';
 
                 return (
-                  <div key={message.id}>
+                  <div
+                    key={message.id}
+                    id={getMessageElementId(message.id)}
+                    className={cn(
+                      'rounded-xl transition-colors duration-700',
+                      highlightedMessageId === message.id && 'bg-primary/10'
+                    )}
+                  >
                     {showDateSeparator && (
                       <div className="flex justify-center my-4">
                         <span className="bg-muted px-3 py-1 rounded-full text-xs text-muted-foreground">
@@ -1007,9 +1161,13 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
                             isGroupChat={isPublicChat || !isOneOnOneChat}
                             senderInfo={!isOwnMessage ? getSenderInfo(message.sender_id) : undefined}
                               onLongPress={() => {
+                                // Queued messages don't exist on the server yet
+                                if (isOutboxStatus(message.message_status)) return;
                                 setSelectedMessage(message);
                                 setContextMenuOpen(true);
                               }}
+                            reactions={reactionsByMessage[message.id]}
+                            onToggleReaction={isParticipant ? (emoji) => toggleReaction(message.id, emoji) : undefined}
                           />
                          </div>
                       </div>
@@ -1027,8 +1185,20 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
           )}
         </div>
 
+        {/* Muted participants read along but cannot write until the mute ends */}
+        {isParticipant && isMuted(mutedUntil) && (
+          <Card className="card-shadow border-0 rounded-none fixed bottom-0 left-0 right-0 z-20 bg-background border-t">
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground text-center flex items-center justify-center gap-2">
+                <VolumeX className="w-4 h-4" />
+                Você foi silenciado neste chat até {formatMutedUntil(mutedUntil)}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Fixed Input - always at bottom */}
-        {isParticipant && (
+        {isParticipant && !isMuted(mutedUntil) && (
           <Card className="card-shadow border-0 rounded-none fixed bottom-0 left-0 right-0 z-20 bg-background border-t">
             <CardContent className="p-4 space-y-3">
               {/* Media Upload */}
@@ -1037,6 +1207,7 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
                   onMediaSelected={handleMediaSelected}
                   disabled={sending}
                   className="w-full"
+                  allowFiles
                 />
               )}
               
@@ -1087,10 +1258,11 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
                )}
               
                {/* Message Input */}
-               <div className="flex items-center space-x-2">
+               <div className="relative flex items-center space-x-2">
                  <MediaUpload
                    onMediaSelected={handleMediaSelected}
                    disabled={sending}
+                   allowFiles
                  />
                  
                  <Input
@@ -1111,19 +1283,26 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
                    <Keyboard className="w-4 h-4" />
                  </Button>
                  
-                 <Button
-                   onClick={(e) => {
-                     e.preventDefault();
-                     e.stopPropagation();
-                     editingMessage ? handleSaveEdit() : handleSendMessage();
-                   }}
-                   disabled={!newMessage.trim() || sending}
-                   size="sm"
-                   className="rounded-full w-9 h-9 p-0"
-                   type="button"
-                 >
-                   <Send className="w-4 h-4" />
-                 </Button>
+                 {newMessage.trim() || editingMessage ? (
+                   <Button
+                     onClick={(e) => {
+                       e.preventDefault();
+                       e.stopPropagation();
+                       editingMessage ? handleSaveEdit() : handleSendMessage();
+                     }}
+                     disabled={!newMessage.trim() || sending}
+                     size="sm"
+                     className="rounded-full w-9 h-9 p-0"
+                     type="button"
+                   >
+                     <Send className="w-4 h-4" />
+                   </Button>
+                 ) : (
+                   <VoiceRecorder
+                     onRecorded={handleVoiceRecorded}
+                     disabled={sending}
+                   />
+                 )}
                </div>
 
                  {/* Virtual Keyboard - Fixed at bottom */}
@@ -1147,6 +1326,7 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
           isOpen={showPublicSettings}
           onClose={() => setShowPublicSettings(false)}
           conversationId={conversationId}
+          onOpenMessage={handleJumpToMessage}
         />
 
         {/* Private Chat Settings Modal */}
@@ -1155,6 +1335,7 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
           onClose={() => setShowSettings(false)}
           conversationId={conversationId}
           isOneOnOneChat={isOneOnOneChat}
+          onOpenMessage={handleJumpToMessage}
         />
 
         {/* Leave Confirmation Modal */}
@@ -1200,15 +1381,16 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
               description: "Texto da mensagem copiado para a área de transferência.",
             });
           }}
+          onEdit={handleEditMessage}
           onDelete={async () => {
             if (!selectedMessage || !user) return;
             
             try {
+              // Admins may delete anyone's message; the database enforces who can
               const { error } = await supabase
                 .from('messages')
                 .delete()
-                .eq('id', selectedMessage.id)
-                .eq('sender_id', user.id);
+                .eq('id', selectedMessage.id);
 
               if (error) throw error;
 
@@ -1225,10 +1407,40 @@ const Chat = ({ conversationId, onBack }: ChatProps) => {
               });
             }
           }}
-          canDelete={selectedMessage?.sender_id === user?.id}
+          onReport={() => {
+            if (selectedMessage) {
+              setReportMessageId(selectedMessage.id);
+            }
+          }}
+          onReact={isParticipant ? (emoji) => {
+            if (selectedMessage) {
+              toggleReaction(selectedMessage.id, emoji);
+            }
+          } : undefined}
+          currentReaction={
+            selectedMessage
+              ? reactionsByMessage[selectedMessage.id]?.find(r => r.user_id === user?.id)?.emoji
+              : undefined
+          }
+          onTogglePin={canPin && selectedMessage?.message_type !== 'system' ? () => {
+            if (selectedMessage) handleTogglePin(selectedMessage.id);
+          } : undefined}
+          isPinned={!!selectedMessage && isPinned(selectedMessage.id)}
+          canDelete={selectedMessage?.sender_id === user?.id || canDeleteOthersMessages}
+          canEdit={!!selectedMessage && canEditMessage(selectedMessage, user?.id)}
           messageText={selectedMessage?.content || ''}
         />
 
+        {/* Report Message */}
+        {reportMessageId && (
+          <ReportDialog
+            open={!!reportMessageId}
+            onOpenChange={(open) => !open && setReportMessageId(null)}
+            targetType="message"
+            targetId={reportMessageId}
+          />
+        )}
+
         {/* Wallpaper Settings Modal */}
         <WallpaperSettings
           isOpen={showWallpaperSettings}
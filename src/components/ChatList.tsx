@@ -1,14 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
-import { MessageCircle, Search, Users, LogOut, Plus } from 'lucide-react';
+import { MessageCircle, Search, Users, LogOut, Plus, Compass } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useInstantConversations } from '@/hooks/useInstantConversations';
 import { type Conversation } from '@/hooks/useConversations';
 import { useAuth } from '@/hooks/useAuth';
 import Chat from '@/components/Chat';
-import InfinitePublicChat from '@/components/InfinitePublicChat';
+import PublicChat from '@/components/PublicChat';
 import MobileLayout from '@/components/MobileLayout';
 import { CreateChatModal } from '@/components/CreateChatModal';
 import ConversationItem from '@/components/ConversationItem';
@@ -28,7 +28,7 @@ const ChatList = () => {
   const [selectedConversation, setSelectedConversation] = useState<string | null>(
     searchParams.get('chat') || null
   );
-  const [showPublicChat, setShowPublicChat] = useState(false);
+  const [showPublicChat, setShowPublicChat] = useState(searchParams.get('room') === 'public');
   const [loggingOut, setLoggingOut] = useState(false);
   const [showCreateChat, setShowCreateChat] = useState(false);
 
@@ -40,6 +40,21 @@ const ChatList = () => {
     }
   }, [searchParams, selectedConversation]);
 
+  // Mention notifications from the public room link here with ?room=public
+  useEffect(() => {
+    if (searchParams.get('room') === 'public') {
+      setShowPublicChat(true);
+    }
+  }, [searchParams]);
+
+  const handleClosePublicChat = () => {
+    setShowPublicChat(false);
+    if (searchParams.has('room')) {
+      searchParams.delete('room');
+      setSearchParams(searchParams);
+    }
+  };
+
   const filteredConversations = conversations.filter(conv =>
     conv.other_user.display_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     conv.other_user.username.toLowerCase().includes(searchTerm.toLowerCase())
@@ -128,8 +143,8 @@ const ChatList = () => {
 
   if (showPublicChat) {
     return (
-      <InfinitePublicChat 
-        onBack={() => setShowPublicChat(false)}
+      <PublicChat 
+        onBack={handleClosePublicChat}
       />
     );
   }
@@ -171,6 +186,16 @@ const ChatList = () => {
           <span className="text-lg font-semibold">Chat Público</span>
         </Button>
 
+        {/* Channel Directory */}
+        <Button
+          variant="outline"
+          onClick={() => navigate('/channels')}
+          className="w-full rounded-xl mb-4 p-4"
+        >
+          <Compass className="w-5 h-5 mr-3" />
+          <span className="font-semibold">Explorar canais</span>
+        </Button>
+
         {/* Create Chat Button */}
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold">Suas Conversas</h2>
@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ArrowLeft, Search, Star } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { stripUserDigits } from '@/lib/utils';
+
+interface FriendProfile {
+  id: string;
+  display_name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+interface CloseFriendsListProps {
+  onBack: () => void;
+}
+
+// "Amigos Próximos": followers picked to see the stories shared only with close friends
+const CloseFriendsList = ({ onBack }: CloseFriendsListProps) => {
+  const { user } = useAuth();
+  const [candidates, setCandidates] = useState<FriendProfile[]>([]);
+  const [friendIds, setFriendIds] = useState<Set<string>>(new Set());
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      if (!user) return;
+
+      try {
+        const [friendsResult, followersResult] = await Promise.all([
+          supabase
+            .from('close_friends')
+            .select(`
+              friend:profiles!close_friends_friend_id_fkey (
+                id,
+                display_name,
+                username,
+                avatar_url
+              )
+            `)
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('follows')
+            .select(`
+              follower:profiles!follows_follower_id_fkey (
+                id,
+                display_name,
+                username,
+                avatar_url
+              )
+            `)
+            .eq('following_id', user.id)
+            .order('created_at', { ascending: false }),
+        ]);
+
+        if (friendsResult.error) throw friendsResult.error;
+        if (followersResult.error) throw followersResult.error;
+
+        const friends = (friendsResult.data || []).map(row => row.friend).filter(Boolean) as FriendProfile[];
+        const followers = (followersResult.data || []).map(row => row.follower).filter(Boolean) as FriendProfile[];
+
+        // Close friends first, then the remaining followers
+        const ids = new Set(friends.map(profile => profile.id));
+        setFriendIds(ids);
+        setCandidates([...friends, ...followers.filter(profile => !ids.has(profile.id))]);
+      } catch (error) {
+        console.error('Error loading close friends:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProfiles();
+  }, [user]);
+
+  const handleToggle = async (profileId: string) => {
+    if (!user) return;
+
+    const isFriend = friendIds.has(profileId);
+    setUpdating(profileId);
+    try {
+      const { error } = isFriend
+        ? await supabase
+            .from('close_friends')
+            .delete()
+            .eq('user_id', user.id)
+            .eq('friend_id', profileId)
+        : await supabase
+            .from('close_friends')
+            .insert({ user_id: user.id, friend_id: profileId });
+
+      if (error) throw error;
+
+      setFriendIds(prev => {
+        const next = new Set(prev);
+        if (isFriend) next.delete(profileId);
+        else next.add(profileId);
+        return next;
+      });
+    } catch (error) {
+      console.error('Error updating close friends:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível atualizar seus Amigos Próximos.",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleCandidates = normalizedQuery
+    ? candidates.filter(profile =>
+        profile.display_name.toLowerCase().includes(normalizedQuery)
+        || profile.username.toLowerCase().includes(normalizedQuery)
+      )
+    : candidates;
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="flex items-center space-x-3">
+        <Button variant="ghost" size="sm" onClick={onBack} className="p-2">
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <h2 className="text-lg font-semibold">Amigos Próximos</h2>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Só essas pessoas veem os stories que você compartilhar com Amigos Próximos. Ninguém é avisado quando é adicionado ou removido.
+      </p>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Buscar seguidores"
+          className="pl-9 rounded-xl"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          <div className="flex items-center space-x-2 text-sm font-medium">
+            <Star className="w-4 h-4 text-green-500 fill-green-500" />
+            <span>{friendIds.size} na sua lista</span>
+          </div>
+
+          {visibleCandidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {normalizedQuery ? 'Nenhum seguidor encontrado.' : 'Você ainda não tem seguidores.'}
+            </p>
+          ) : (
+            visibleCandidates.map(profile => {
+              const isFriend = friendIds.has(profile.id);
+              return (
+                <div key={profile.id} className="flex items-center space-x-3 py-2">
+                  <Avatar className="w-10 h-10">
+                    <AvatarImage src={profile.avatar_url || ''} />
+                    <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-sm font-semibold">
+                      {stripUserDigits(profile.display_name)[0] || 'U'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{stripUserDigits(profile.display_name)}</p>
+                    <p className="text-xs text-muted-foreground truncate">@{stripUserDigits(profile.username)}</p>
+                  </div>
+                  <Button
+                    variant={isFriend ? 'outline' : 'default'}
+                    size="sm"
+                    className={isFriend ? 'rounded-xl' : 'rounded-xl bg-green-500 text-white hover:bg-green-600'}
+                    disabled={updating === profile.id}
+                    onClick={() => handleToggle(profile.id)}
+                  >
+                    {isFriend ? 'Remover' : 'Adicionar'}
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CloseFriendsList;
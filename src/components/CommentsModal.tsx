@@ -4,13 +4,14 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sh
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Heart, MoreHorizontal, Smile, X, Reply, Trash2 } from 'lucide-react';
+import { Heart, MoreHorizontal, Smile, X, Reply, Trash2, Flag } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { usePostInteractions } from '@/hooks/usePostInteractions';
 import { stripUserDigits } from '@/lib/utils';
 import { MentionText } from '@/components/MentionText';
 import { UserMentionInput } from '@/components/UserMentionInput';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ReportDialog } from '@/components/ReportDialog';
 
 interface CommentsModalProps {
   isOpen: boolean;
@@ -24,6 +25,7 @@ export const CommentsModal = ({ isOpen, onClose, postId, postOwnerId }: Comments
   const { user } = useAuth();
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [reportCommentId, setReportCommentId] = useState<string | null>(null);
   const commentInputRef = useRef<HTMLInputElement>(null);
   
   const {
@@ -192,8 +194,8 @@ export const CommentsModal = ({ isOpen, onClose, postId, postOwnerId }: Comments
                 </button>
               </div>
               
-              {/* Comment menu for delete option */}
-              {user && ((user.id === postOwnerId) || (user.id === comment.user_id)) && (
+              {/* Comment menu for delete/report options */}
+              {user && (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button 
@@ -205,16 +207,27 @@ export const CommentsModal = ({ isOpen, onClose, postId, postOwnerId }: Comments
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end" className="bg-background border border-border shadow-lg">
-                    <DropdownMenuItem 
-                      onClick={() => onDeleteComment(comment.id, comment.user_id)}
-                      className="text-destructive focus:text-destructive focus:bg-destructive/10 cursor-pointer"
-                    >
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      {user.id === postOwnerId && user.id !== comment.user_id 
-                        ? 'Remover comentário' 
-                        : 'Deletar comentário'
-                      }
-                    </DropdownMenuItem>
+                    {((user.id === postOwnerId) || (user.id === comment.user_id)) && (
+                      <DropdownMenuItem 
+                        onClick={() => onDeleteComment(comment.id, comment.user_id)}
+                        className="text-destructive focus:text-destructive focus:bg-destructive/10 cursor-pointer"
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        {user.id === postOwnerId && user.id !== comment.user_id 
+                          ? 'Remover comentário' 
+                          : 'Deletar comentário'
+                        }
+                      </DropdownMenuItem>
+                    )}
+                    {user.id !== comment.user_id && (
+                      <DropdownMenuItem 
+                        onClick={() => setReportCommentId(comment.id)}
+                        className="text-destructive focus:text-destructive focus:bg-destructive/10 cursor-pointer"
+                      >
+                        <Flag className="w-4 h-4 mr-2" />
+                        Denunciar comentário
+                      </DropdownMenuItem>
+                    )}
                   </DropdownMenuContent>
                 </DropdownMenu>
               )}
@@ -391,6 +404,15 @@ export const CommentsModal = ({ isOpen, onClose, postId, postOwnerId }: Comments
             </div>
           </div>
         </div>
+
+        {reportCommentId && (
+          <ReportDialog
+            open={!!reportCommentId}
+            onOpenChange={(open) => !open && setReportCommentId(null)}
+            targetType="comment"
+            targetId={reportCommentId}
+          />
+        )}
       </SheetContent>
     </Sheet>
   );
@@ -0,0 +1,336 @@
+import { useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Link2, Copy, QrCode, Trash2, Plus, UserCheck, ShieldCheck } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { InviteQrCode } from '@/components/InviteQrCode';
+import { JoinRequest, useConversationInvites } from '@/hooks/useConversationInvites';
+import {
+  buildInviteUrl,
+  ConversationInvite,
+  getInviteStatus,
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MAX_USES_OPTIONS,
+  INVITE_STATUS_LABELS,
+} from '@/lib/invites';
+import { stripUserDigits } from '@/lib/utils';
+
+interface ConversationInvitesSectionProps {
+  conversationId: string;
+  // Public rooms can be joined freely, so their links never need approval
+  isPublic: boolean;
+  // Called after a join request is accepted so the participant list can reload
+  onMembersChanged?: () => void;
+}
+
+const formatInviteDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const describeInvite = (invite: ConversationInvite) => {
+  const uses = invite.max_uses ? `${invite.use_count}/${invite.max_uses} usos` : `${invite.use_count} usos`;
+  const expiry = invite.expires_at ? `expira ${formatInviteDate(invite.expires_at)}` : 'não expira';
+  return `${uses} · ${expiry}`;
+};
+
+// Invite links (with QR codes) and pending join requests, shown in the chat
+// settings to whoever can manage participants
+export const ConversationInvitesSection = ({ conversationId, isPublic, onMembersChanged }: ConversationInvitesSectionProps) => {
+  const { invites, joinRequests, createInvite, revokeInvite, respondToJoinRequest } = useConversationInvites(conversationId);
+  const [expiresInHours, setExpiresInHours] = useState('0');
+  const [maxUses, setMaxUses] = useState('0');
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [qrInvite, setQrInvite] = useState<ConversationInvite | null>(null);
+  const [inviteToRevoke, setInviteToRevoke] = useState<ConversationInvite | null>(null);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  const handleCreateInvite = async () => {
+    setCreating(true);
+    try {
+      const code = await createInvite({
+        expiresInHours: Number(expiresInHours),
+        maxUses: Number(maxUses),
+        requiresApproval: !isPublic && requiresApproval,
+      });
+
+      if (code) {
+        await navigator.clipboard.writeText(buildInviteUrl(code)).catch(() => undefined);
+      }
+
+      toast({
+        title: "Link criado",
+        description: "O link de convite foi copiado para a área de transferência.",
+      });
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível criar o link de convite.",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopyInvite = (invite: ConversationInvite) => {
+    navigator.clipboard.writeText(buildInviteUrl(invite.code));
+    toast({
+      title: "Copiado",
+      description: "Link de convite copiado para a área de transferência",
+    });
+  };
+
+  const handleRevokeInvite = async (invite: ConversationInvite) => {
+    try {
+      await revokeInvite(invite.id);
+      toast({
+        title: "Link revogado",
+        description: "Ninguém mais poderá entrar por este link.",
+      });
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível revogar o link.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The database adds the member, announces them and deletes the request (and its notifications)
+  const handleJoinRequest = async (request: JoinRequest, accept: boolean) => {
+    setRespondingId(request.id);
+    try {
+      await respondToJoinRequest(request.id, accept);
+
+      if (accept) onMembersChanged?.();
+
+      toast({
+        title: accept ? "Pedido aceito" : "Pedido recusado",
+      });
+    } catch (error) {
+      console.error('Error responding to join request:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível responder ao pedido.",
+        variant: "destructive",
+      });
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium flex items-center gap-2">
+        <Link2 className="w-4 h-4" />
+        Links de convite
+      </h3>
+
+      {/* New invite */}
+      <div className="space-y-3 p-3 bg-muted/50 rounded-lg">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">Expira em</Label>
+            <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVITE_EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.hours} value={String(option.hours)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">Limite de usos</Label>
+            <Select value={maxUses} onValueChange={setMaxUses}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVITE_MAX_USES_OPTIONS.map(option => (
+                  <SelectItem key={option.uses} value={String(option.uses)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!isPublic && (
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor={`invite-approval-${conversationId}`} className="text-xs font-medium">Exigir aprovação</Label>
+              <p className="text-xs text-muted-foreground">Um admin precisa aceitar quem usar o link</p>
+            </div>
+            <Switch
+              id={`invite-approval-${conversationId}`}
+              checked={requiresApproval}
+              onCheckedChange={setRequiresApproval}
+            />
+          </div>
+        )}
+
+        <Button size="sm" className="w-full" onClick={handleCreateInvite} disabled={creating}>
+          <Plus className="w-4 h-4 mr-2" />
+          {creating ? 'Criando...' : 'Criar link'}
+        </Button>
+      </div>
+
+      {/* Active invites */}
+      {invites.length > 0 && (
+        <div className="space-y-2">
+          {invites.map(invite => {
+            const status = getInviteStatus(invite);
+            return (
+              <div key={invite.id} className="flex items-center gap-2 p-3 rounded-lg bg-muted/30">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate flex items-center gap-1">
+                    /join/{invite.code}
+                    {invite.requires_approval && <ShieldCheck className="w-3 h-3 text-primary flex-shrink-0" />}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {status === 'valid' ? describeInvite(invite) : INVITE_STATUS_LABELS[status]}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => handleCopyInvite(invite)}
+                  disabled={status !== 'valid'}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setQrInvite(invite)}
+                  disabled={status !== 'valid'}
+                >
+                  <QrCode className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                  onClick={() => setInviteToRevoke(invite)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Pending join requests */}
+      {joinRequests.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <UserCheck className="w-3 h-3" />
+            Pedidos para entrar ({joinRequests.length})
+          </h4>
+          {joinRequests.map(request => (
+            <div key={request.id} className="flex items-center space-x-3 p-3 rounded-lg bg-muted/30">
+              <Avatar className="w-10 h-10">
+                <AvatarImage src={request.profile?.avatar_url || ''} />
+                <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-sm">
+                  {request.profile?.display_name?.[0] || '?'}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {stripUserDigits(request.profile?.display_name || 'Usuário')}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  @{stripUserDigits(request.profile?.username || 'unknown')}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                className="h-8 px-3"
+                disabled={respondingId === request.id}
+                onClick={() => handleJoinRequest(request, true)}
+              >
+                Aceitar
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 px-3"
+                disabled={respondingId === request.id}
+                onClick={() => handleJoinRequest(request, false)}
+              >
+                Recusar
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!qrInvite} onOpenChange={(open) => !open && setQrInvite(null)}>
+        <DialogContent className="sm:max-w-xs">
+          <DialogHeader>
+            <DialogTitle>QR code do convite</DialogTitle>
+            <DialogDescription>
+              Aponte a câmera para entrar no chat
+            </DialogDescription>
+          </DialogHeader>
+          {qrInvite && (
+            <div className="flex flex-col items-center gap-3">
+              <InviteQrCode value={buildInviteUrl(qrInvite.code)} size={220} className="rounded-lg" />
+              <p className="text-xs text-muted-foreground break-all text-center">
+                {buildInviteUrl(qrInvite.code)}
+              </p>
+              <Button variant="outline" size="sm" className="w-full" onClick={() => handleCopyInvite(qrInvite)}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copiar link
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!inviteToRevoke} onOpenChange={(open) => !open && setInviteToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revogar link</AlertDialogTitle>
+            <AlertDialogDescription>
+              Quem ainda não entrou não poderá mais usar este link. Quem já entrou continua no chat.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (inviteToRevoke) handleRevokeInvite(inviteToRevoke);
+                setInviteToRevoke(null);
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Revogar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
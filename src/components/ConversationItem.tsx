@@ -74,16 +74,6 @@ const ConversationItem = ({ conversation, onSelect, formatTimeAgo, formatLastMes
 
       if (error) throw error;
 
-      // Send system message that user left
-      await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversation.id,
-          sender_id: user.id,
-          content: `👋 ${stripUserDigits(user.display_name || 'Usuário')} deixou a conversa`,
-          message_type: 'system'
-        });
-
       toast({
         title: "Você saiu do chat",
         description: "Você foi removido da conversa.",
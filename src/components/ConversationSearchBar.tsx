@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Search, X } from 'lucide-react';
+import HighlightedText from '@/components/HighlightedText';
+import { ConversationSearchResult, useConversationSearch } from '@/hooks/useConversationSearch';
+import { MIN_SEARCH_LENGTH } from '@/lib/search';
+import { stripUserDigits } from '@/lib/utils';
+
+interface ConversationSearchBarProps {
+  conversationId: string | null;
+  onSelect: (messageId: string) => void;
+  onClose: () => void;
+}
+
+const formatResultDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Search field shown under a chat header, with the matches listed right below it
+export const ConversationSearchBar = ({ conversationId, onSelect, onClose }: ConversationSearchBarProps) => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [showResults, setShowResults] = useState(true);
+  const { results, loading, loadingMore, hasMore, loadMore, enabled } = useConversationSearch(conversationId, debouncedQuery);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const handleSelect = (result: ConversationSearchResult) => {
+    // Keep the query so the user can come back to the other results
+    setShowResults(false);
+    onSelect(result.message_id);
+  };
+
+  return (
+    <div className="relative border-b border-border bg-background">
+      <div className="flex items-center gap-2 px-4 py-2">
+        <Search className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+        <Input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setShowResults(true);
+          }}
+          onFocus={() => setShowResults(true)}
+          placeholder="Buscar na conversa..."
+          className="h-9 border-0 bg-muted/50 rounded-full"
+        />
+        <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {showResults && enabled && (
+        <div className="absolute left-0 right-0 top-full z-30 max-h-[50vh] overflow-y-auto bg-background border-b border-border shadow-lg">
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nenhuma mensagem encontrada</p>
+          ) : (
+            <div className="py-1">
+              <p className="px-4 py-1 text-xs text-muted-foreground">
+                {hasMore ? `Mais de ${results.length} resultados` : `${results.length} ${results.length === 1 ? 'resultado' : 'resultados'}`}
+              </p>
+              {results.map(result => (
+                <button
+                  key={result.message_id}
+                  type="button"
+                  className="w-full flex items-start gap-3 px-4 py-2 text-left hover:bg-muted/50 transition-colors"
+                  onClick={() => handleSelect(result)}
+                >
+                  <Avatar className="w-8 h-8 mt-0.5">
+                    <AvatarImage src={result.sender_avatar_url || ''} />
+                    <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-xs font-semibold">
+                      {result.sender_display_name ? stripUserDigits(result.sender_display_name)[0] : '?'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs font-semibold truncate">
+                        {stripUserDigits(result.sender_display_name || 'Usuário')}
+                      </p>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {formatResultDate(result.created_at)}
+                      </span>
+                    </div>
+                    <HighlightedText headline={result.headline} className="line-clamp-2 text-muted-foreground" />
+                  </div>
+                </button>
+              ))}
+              {hasMore && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                >
+                  {loadingMore ? 'Carregando...' : 'Carregar mais'}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {!enabled && query.trim().length > 0 && query.trim().length < MIN_SEARCH_LENGTH && (
+        <p className="px-4 pb-2 text-xs text-muted-foreground">
+          Digite pelo menos {MIN_SEARCH_LENGTH} caracteres
+        </p>
+      )}
+    </div>
+  );
+};
@@ -8,12 +8,14 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Search, Users, MessageCircle, Plus, Camera, Globe } from 'lucide-react';
 import MediaUpload from '@/components/MediaUpload';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { stripUserDigits } from '@/lib/utils';
+import { RoomCategory, ROOM_CATEGORIES, ROOM_CATEGORY_LABELS } from '@/lib/rooms';
 
 interface CreateChatModalProps {
   isOpen: boolean;
@@ -34,6 +36,7 @@ export const CreateChatModal = ({ isOpen, onClose, onChatCreated }: CreateChatMo
   const [chatType, setChatType] = useState<'public' | 'private'>('public');
   const [chatName, setChatName] = useState('');
   const [chatDescription, setChatDescription] = useState('');
+  const [chatCategory, setChatCategory] = useState<RoomCategory>('geral');
   const [chatImageUrl, setChatImageUrl] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
   const [profiles, setProfiles] = useState<Profile[]>([]);
@@ -137,7 +140,8 @@ export const CreateChatModal = ({ isOpen, onClose, onChatCreated }: CreateChatMo
           is_public: chatType === 'public',
           name: chatName,
           description: chatDescription,
-          photo_url: finalPhotoUrl
+          photo_url: finalPhotoUrl,
+          category: chatType === 'public' ? chatCategory : null
         })
         .select()
         .single();
@@ -195,6 +199,7 @@ export const CreateChatModal = ({ isOpen, onClose, onChatCreated }: CreateChatMo
     setChatType('public');
     setChatName('');
     setChatDescription('');
+    setChatCategory('geral');
     setChatImageUrl('');
     setSearchTerm('');
     setSelectedUsers(new Set());
@@ -386,6 +391,26 @@ export const CreateChatModal = ({ isOpen, onClose, onChatCreated }: CreateChatMo
                     </div>
                   </div>
 
+                  {/* Categoria */}
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Categoria</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {ROOM_CATEGORIES.map(category => (
+                        <Badge
+                          key={category}
+                          variant={chatCategory === category ? 'default' : 'secondary'}
+                          className="cursor-pointer"
+                          onClick={() => setChatCategory(category)}
+                        >
+                          {ROOM_CATEGORY_LABELS[category]}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Ajuda as pessoas a encontrarem o grupo no diretório de canais
+                    </p>
+                  </div>
+
                   <div className="p-4 bg-blue-50 dark:bg-blue-950/30 rounded-lg border border-blue-200 dark:border-blue-800">
                     <div className="flex items-start space-x-3">
                       <Globe className="w-5 h-5 text-blue-600 dark:text-blue-400 mt-0.5" />
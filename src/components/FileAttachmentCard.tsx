@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Download, Eye, File, FileArchive, FileAudio, FileSpreadsheet, FileText, Presentation } from 'lucide-react';
+import { AttachmentKind, formatFileSize, getAttachmentKind } from '@/lib/attachments';
+import { getFileNameFromUrl } from '@/lib/sharedMedia';
+import { cn } from '@/lib/utils';
+
+const KIND_ICONS: Record<AttachmentKind, typeof File> = {
+  pdf: FileText,
+  audio: FileAudio,
+  archive: FileArchive,
+  spreadsheet: FileSpreadsheet,
+  presentation: Presentation,
+  document: File,
+};
+
+export const FileKindIcon = ({ mimeType, className }: { mimeType: string | null | undefined; className?: string }) => {
+  const Icon = KIND_ICONS[getAttachmentKind(mimeType)];
+  return <Icon className={className} />;
+};
+
+interface FileAttachmentCardProps {
+  message: {
+    media_url: string | null;
+    media_name?: string | null;
+    media_size?: number | null;
+    media_mime_type?: string | null;
+  };
+  isOwnMessage: boolean;
+}
+
+// Name, size and type of a file sent in a chat, with download and, for PDFs, an inline preview
+export const FileAttachmentCard = ({ message, isOwnMessage }: FileAttachmentCardProps) => {
+  const [showPreview, setShowPreview] = useState(false);
+
+  if (!message.media_url) return null;
+
+  const name = message.media_name || getFileNameFromUrl(message.media_url);
+  const isPdf = getAttachmentKind(message.media_mime_type) === 'pdf';
+  const actionClassName = cn(
+    'w-8 h-8 flex items-center justify-center rounded-full flex-shrink-0 transition-colors',
+    isOwnMessage ? 'hover:bg-primary-foreground/15' : 'hover:bg-foreground/10'
+  );
+
+  return (
+    <>
+      <div className={cn(
+        'flex items-center gap-3 rounded-xl p-2 min-w-[200px]',
+        isOwnMessage ? 'bg-primary-foreground/10' : 'bg-background/60'
+      )}>
+        <div className={cn(
+          'w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0',
+          isOwnMessage ? 'bg-primary-foreground/15' : 'bg-primary/10 text-primary'
+        )}>
+          <FileKindIcon mimeType={message.media_mime_type} className="w-5 h-5" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate" title={name}>{name}</p>
+          {message.media_size != null && (
+            <p className={cn('text-xs', isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+              {formatFileSize(message.media_size)}
+            </p>
+          )}
+        </div>
+
+        {isPdf && (
+          <button type="button" className={actionClassName} onClick={() => setShowPreview(true)}>
+            <Eye className="w-4 h-4" />
+          </button>
+        )}
+        <a
+          href={message.media_url}
+          download={name}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={actionClassName}
+        >
+          <Download className="w-4 h-4" />
+        </a>
+      </div>
+
+      {isPdf && (
+        <Dialog open={showPreview} onOpenChange={setShowPreview}>
+          <DialogContent className="max-w-3xl h-[85vh] flex flex-col p-4">
+            <DialogHeader>
+              <DialogTitle className="truncate pr-6">{name}</DialogTitle>
+            </DialogHeader>
+            {showPreview && (
+              <iframe
+                src={message.media_url}
+                title={name}
+                className="flex-1 w-full rounded-lg border border-border bg-muted"
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+};
@@ -3,9 +3,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { ArrowLeft, Search, Users, UserPlus, UserMinus } from 'lucide-react';
+import { ArrowLeft, Search, Users, UserPlus, UserMinus, Clock } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useFollowersCache } from '@/hooks/useFollowersCache';
+import { useFollowRequests } from '@/hooks/useFollowRequests';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
@@ -21,6 +22,7 @@ const FollowersList = ({ userId, type, onBack }: FollowersListProps) => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { followers, following, followersLoading, followingLoading } = useFollowersCache(userId);
+  const { requestedIds, followUser, cancelFollowRequest } = useFollowRequests();
   const [searchQuery, setSearchQuery] = useState('');
   const [followedUsers, setFollowedUsers] = useState<Set<string>>(new Set());
   const [followLoading, setFollowLoading] = useState<Set<string>>(new Set());
@@ -67,7 +69,13 @@ const FollowersList = ({ userId, type, onBack }: FollowersListProps) => {
     try {
       const isFollowing = followedUsers.has(targetUserId);
 
-      if (isFollowing) {
+      if (requestedIds.has(targetUserId)) {
+        await cancelFollowRequest(targetUserId);
+
+        toast({
+          title: "Solicitação cancelada",
+        });
+      } else if (isFollowing) {
         const { error } = await supabase
           .from('follows')
           .delete()
@@ -87,21 +95,21 @@ const FollowersList = ({ userId, type, onBack }: FollowersListProps) => {
           description: "Usuário removido da sua lista de seguidos",
         });
       } else {
-        const { error } = await supabase
-          .from('follows')
-          .insert({
-            follower_id: user.id,
-            following_id: targetUserId,
-          });
-
-        if (error) throw error;
+        const result = await followUser(targetUserId);
 
-        setFollowedUsers(prev => new Set([...prev, targetUserId]));
+        if (result === 'requested') {
+          toast({
+            title: "Solicitação enviada",
+            description: "Você poderá ver os posts quando o pedido for aceito",
+          });
+        } else {
+          setFollowedUsers(prev => new Set([...prev, targetUserId]));
 
-        toast({
-          title: "Seguindo",
-          description: "Usuário adicionado à sua lista de seguidos",
-        });
+          toast({
+            title: "Seguindo",
+            description: "Usuário adicionado à sua lista de seguidos",
+          });
+        }
       }
     } catch (error) {
       console.error('Error following/unfollowing:', error);
@@ -217,13 +225,13 @@ const FollowersList = ({ userId, type, onBack }: FollowersListProps) => {
                   {user && user.id !== followUser.id && (
                     <Button
                       size="sm"
-                      variant={followedUsers.has(followUser.id) ? "outline" : "default"}
+                      variant={followedUsers.has(followUser.id) || requestedIds.has(followUser.id) ? "outline" : "default"}
                       disabled={followLoading.has(followUser.id)}
                       onClick={(e) => {
                         e.stopPropagation();
                         handleFollow(followUser.id);
                       }}
-                      className={`transition-all ${followedUsers.has(followUser.id) 
+                      className={`transition-all ${followedUsers.has(followUser.id) || requestedIds.has(followUser.id)
                         ? "border-primary text-primary hover:bg-primary/10" 
                         : "magic-button"
                       }`}
@@ -235,6 +243,11 @@ const FollowersList = ({ userId, type, onBack }: FollowersListProps) => {
                           <UserMinus className="w-4 h-4 mr-1" />
                           Seguindo
                         </>
+                      ) : requestedIds.has(followUser.id) ? (
+                        <>
+                          <Clock className="w-4 h-4 mr-1" />
+                          Solicitado
+                        </>
                       ) : (
                         <>
                           <UserPlus className="w-4 h-4 mr-1" />
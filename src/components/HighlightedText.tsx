@@ -0,0 +1,25 @@
+import { splitHighlights } from '@/lib/search';
+import { cn } from '@/lib/utils';
+
+interface HighlightedTextProps {
+  headline: string;
+  className?: string;
+}
+
+const HighlightedText = ({ headline, className }: HighlightedTextProps) => {
+  return (
+    <p className={cn('text-sm break-words', className)}>
+      {splitHighlights(headline).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+};
+
+export default HighlightedText;
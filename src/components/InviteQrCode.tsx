@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { encodeQrCode } from '@/lib/qrcode';
+
+interface InviteQrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+// Blank modules around the code that scanners need to find it
+const QUIET_ZONE = 4;
+
+export const InviteQrCode = ({ value, size = 200, className }: InviteQrCodeProps) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    // One unit-wide rectangle per dark module keeps the SVG small and crisp at any size
+    const segments: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) segments.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return { path: segments.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code do convite"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle, KeyRound, RefreshCw, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { stripUserDigits } from '@/lib/utils';
+
+type LegacyClaim = Database['public']['Functions']['get_pending_legacy_claims']['Returns'][number];
+
+interface LegacyClaimsQueueProps {
+  onReviewed?: () => void;
+}
+
+// Requests to link a username-only profile to an email and password. Staff confirm
+// with the owner before approving, since approval hands over the whole account
+export const LegacyClaimsQueue = ({ onReviewed }: LegacyClaimsQueueProps) => {
+  const [claims, setClaims] = useState<LegacyClaim[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  const [pending, setPending] = useState<{ claim: LegacyClaim; approve: boolean } | null>(null);
+
+  const loadClaims = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_pending_legacy_claims');
+      if (error) throw error;
+      setClaims(data || []);
+    } catch (error) {
+      console.error('Error loading legacy claims:', error);
+      toast({
+        title: "Erro ao carregar pedidos",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reviewPending = async () => {
+    if (!pending) return;
+
+    setReviewing(true);
+    try {
+      const { error } = await supabase.rpc('review_legacy_claim', {
+        p_claim_id: pending.claim.claim_id,
+        p_approve: pending.approve,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: pending.approve ? "Pedido aprovado" : "Pedido recusado",
+        description: `@${stripUserDigits(pending.claim.username)}`,
+      });
+
+      setPending(null);
+      loadClaims();
+      onReviewed?.();
+    } catch (error) {
+      console.error('Error reviewing legacy claim:', error);
+      toast({
+        title: "Erro ao analisar pedido",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  useEffect(() => {
+    loadClaims();
+  }, []);
+
+  // Claims on the same profile compete; only one can be approved
+  const claimsPerProfile = claims.reduce<Record<string, number>>((counts, claim) => {
+    counts[claim.profile_id] = (counts[claim.profile_id] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Card className="mb-6 card-shadow border-0">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <KeyRound className="w-5 h-5" />
+            <span>Contas Antigas</span>
+            {claims.length > 0 && (
+              <Badge variant="destructive">{claims.length}</Badge>
+            )}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadClaims} disabled={loading} className="w-8 h-8 p-0">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>
+          Pedidos para ligar um nome de usuário antigo a um email e senha
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && claims.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : claims.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CheckCircle className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>Nenhum pedido pendente</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {claims.map((claim) => (
+              <div key={claim.claim_id} className="p-4 rounded-lg border border-border space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">
+                    {stripUserDigits(claim.display_name)} (@{stripUserDigits(claim.username)})
+                  </p>
+                  {claimsPerProfile[claim.profile_id] > 1 && (
+                    <Badge variant="outline">{claimsPerProfile[claim.profile_id]} pedidos</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {claim.email}
+                  {' • '}
+                  {new Date(claim.created_at).toLocaleString('pt-BR')}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={reviewing}
+                    onClick={() => setPending({ claim, approve: false })}
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Recusar
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={reviewing}
+                    onClick={() => setPending({ claim, approve: true })}
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Aprovar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.approve ? 'Aprovar' : 'Recusar'} pedido?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.approve
+                ? `${pending.claim.email} passará a entrar como @${stripUserDigits(pending.claim.username)}, com todos os posts, seguidores e mensagens da conta. Os outros pedidos para esta conta serão recusados.`
+                : 'Quem fez o pedido não poderá entrar com este email.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={reviewing}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                reviewPending();
+              }}
+              disabled={reviewing}
+            >
+              Confirmar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
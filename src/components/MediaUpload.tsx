@@ -1,25 +1,48 @@
 import { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
-import { Image, Video, X, Upload } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Image, Video, X, Upload, Paperclip } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
 import { useVideoValidation } from '@/hooks/useVideoValidation';
 import VideoValidationStatus from '@/components/ui/VideoValidationStatus';
+import { FileKindIcon } from '@/components/FileAttachmentCard';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_MAX_SIZE_BYTES,
+  ATTACHMENTS_BUCKET,
+  formatFileSize,
+  getAttachmentMimeType,
+  isAttachmentFile,
+  isUploadCancelled,
+  uploadFileWithProgress,
+} from '@/lib/attachments';
+import { FileMetadata } from '@/lib/messages';
 
 interface MediaUploadProps {
-  onMediaSelected: (url: string, type: 'image' | 'video') => void;
+  onMediaSelected: (url: string, type: 'image' | 'video' | 'file', file?: FileMetadata) => void;
   className?: string;
   disabled?: boolean;
+  // Also offer documents and other files (sent as media_type 'file')
+  allowFiles?: boolean;
 }
 
-const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps) => {
+const MEDIA_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+  'video/mp4', 'video/webm', 'video/quicktime'
+];
+
+const MediaUpload = ({ onMediaSelected, className, disabled, allowFiles = false }: MediaUploadProps) => {
+  const { user } = useAuth();
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+
+  const isDocument = !!selectedFile && !MEDIA_TYPES.includes(selectedFile.type);
 
   const { validateVideo, isValidating, validationProgress } = useVideoValidation({
     maxSizeBytes: 50 * 1024 * 1024, // 50MB for messages
@@ -35,6 +58,11 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
   };
 
   const validateAndSetFile = async (file: File) => {
+    if (allowFiles && !MEDIA_TYPES.includes(file.type)) {
+      validateAndSetDocument(file);
+      return;
+    }
+
     // Basic validation
     const maxSize = 50 * 1024 * 1024; // 50MB
     if (file.size > maxSize) {
@@ -46,12 +74,7 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
       return;
     }
 
-    const validTypes = [
-      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-      'video/mp4', 'video/webm', 'video/quicktime'
-    ];
-    
-    if (!validTypes.includes(file.type)) {
+    if (!MEDIA_TYPES.includes(file.type)) {
       toast({
         title: "Tipo de arquivo inválido",
         description: "Use: JPG, PNG, GIF, WebP, MP4, WebM ou MOV",
@@ -83,46 +106,80 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
     reader.readAsDataURL(file);
   };
 
+  // Documents have no preview; the server checks the same type and size limits
+  const validateAndSetDocument = (file: File) => {
+    if (file.size > ATTACHMENT_MAX_SIZE_BYTES) {
+      toast({
+        title: "Arquivo muito grande",
+        description: `O arquivo deve ter no máximo ${formatFileSize(ATTACHMENT_MAX_SIZE_BYTES)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!isAttachmentFile(file)) {
+      toast({
+        title: "Tipo de arquivo inválido",
+        description: "Use imagens, vídeos, PDFs, documentos, planilhas, áudios ou arquivos compactados",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSelectedFile(file);
+    setPreview(null);
+  };
+
   const handleUpload = async () => {
-    if (!selectedFile) return;
+    if (!selectedFile || !user) return;
 
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
     setUploading(true);
     setUploadProgress(0);
 
     try {
       const fileExt = selectedFile.name.split('.').pop();
       const fileName = `${Date.now()}.${fileExt}`;
-      const filePath = `conversations/${fileName}`;
+      const contentType = isDocument ? getAttachmentMimeType(selectedFile) : selectedFile.type;
 
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('posts') // Using posts bucket for now
-        .upload(filePath, selectedFile, {
-          cacheControl: '3600',
-          upsert: false
-        });
+      const publicUrl = await uploadFileWithProgress(
+        isDocument ? ATTACHMENTS_BUCKET : 'posts', // Photos and videos still use the posts bucket
+        // Attachments go under the sender's folder, the only one they may upload to
+        isDocument ? `${user.id}/${fileName}` : `conversations/${fileName}`,
+        selectedFile,
+        { contentType, onProgress: setUploadProgress, signal: controller.signal }
+      );
 
-      if (uploadError) throw uploadError;
+      if (isDocument) {
+        onMediaSelected(publicUrl, 'file', {
+          name: selectedFile.name.slice(0, 255),
+          size: selectedFile.size,
+          mimeType: contentType,
+        });
+      } else {
+        onMediaSelected(publicUrl, selectedFile.type.startsWith('video/') ? 'video' : 'image');
+      }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('posts')
-        .getPublicUrl(uploadData.path);
+      const sentLabel = isDocument ? 'Arquivo enviado' : selectedFile.type.startsWith('video/') ? 'Vídeo enviado' : 'Imagem enviada';
 
-      const mediaType = selectedFile.type.startsWith('video/') ? 'video' : 'image';
-      
-      onMediaSelected(urlData.publicUrl, mediaType);
-      
       // Reset state
       setSelectedFile(null);
       setPreview(null);
       setUploadProgress(0);
-      
+
       toast({
         title: "Upload concluído",
-        description: `${mediaType === 'video' ? 'Vídeo' : 'Imagem'} enviado com sucesso!`,
+        description: `${sentLabel} com sucesso!`,
       });
       
     } catch (error) {
+      // Cancelling keeps the selection so it can be sent again
+      if (isUploadCancelled(error)) {
+        setUploadProgress(0);
+        return;
+      }
+
       console.error('Upload error:', error);
       toast({
         title: "Erro no upload",
@@ -130,10 +187,15 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
         variant: "destructive",
       });
     } finally {
+      uploadAbortRef.current = null;
       setUploading(false);
     }
   };
 
+  const cancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
   const clearSelection = () => {
     setSelectedFile(null);
     setPreview(null);
@@ -143,12 +205,17 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
     }
   };
 
-  if (selectedFile && preview) {
+  if (selectedFile && (preview || isDocument)) {
     return (
       <div className={cn("space-y-3 p-4 border rounded-lg", className)}>
         {/* Preview */}
         <div className="relative rounded-lg overflow-hidden bg-muted">
-          {selectedFile.type.startsWith('video/') ? (
+          {isDocument ? (
+            <div className="h-40 flex flex-col items-center justify-center gap-2 px-4 text-center">
+              <FileKindIcon mimeType={getAttachmentMimeType(selectedFile)} className="w-10 h-10 text-primary" />
+              <p className="text-sm font-medium break-all line-clamp-2">{selectedFile.name}</p>
+            </div>
+          ) : selectedFile.type.startsWith('video/') ? (
             <video
               src={preview}
               className="w-full h-40 object-cover"
@@ -172,6 +239,22 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
           >
             <X className="w-4 h-4" />
           </Button>
+
+          {/* Upload progress overlay */}
+          {uploading && (
+            <div className="absolute inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm">
+              <div className="flex flex-col items-center text-center">
+                <LoadingSpinner size="lg" variant="white" />
+                <div className="mt-4 bg-white/20 rounded-full h-2 w-32 overflow-hidden">
+                  <div 
+                    className="h-full bg-white transition-all duration-300"
+                    style={{ width: `${uploadProgress}%` }}
+                  />
+                </div>
+                <p className="text-white mt-2 text-sm font-medium">{Math.round(uploadProgress)}%</p>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Validation Status for Videos */}
@@ -183,22 +266,6 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
           />
         )}
 
-        {/* Upload Progress */}
-        {uploading && (
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-sm">
-              <span>Enviando...</span>
-              <span>{Math.round(uploadProgress)}%</span>
-            </div>
-            <div className="w-full bg-muted rounded-full h-2">
-              <div 
-                className="bg-primary h-2 rounded-full transition-all duration-300"
-                style={{ width: `${uploadProgress}%` }}
-              />
-            </div>
-          </div>
-        )}
-
         {/* Action Buttons */}
         <div className="flex gap-2">
           <Button
@@ -222,8 +289,7 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
           
           <Button
             variant="outline"
-            onClick={clearSelection}
-            disabled={uploading}
+            onClick={uploading ? cancelUpload : clearSelection}
             size="sm"
           >
             Cancelar
@@ -233,7 +299,7 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
         {/* File Info */}
         <div className="text-xs text-muted-foreground">
           <div>{selectedFile.name}</div>
-          <div>{(selectedFile.size / 1024 / 1024).toFixed(2)} MB</div>
+          <div>{formatFileSize(selectedFile.size)}</div>
         </div>
       </div>
     );
@@ -248,7 +314,9 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
         disabled={disabled || uploading}
         className={cn("w-9 h-9 p-0", className)}
       >
-        {selectedFile?.type.startsWith('video/') ? (
+        {allowFiles ? (
+          <Paperclip className="w-4 h-4" />
+        ) : selectedFile?.type.startsWith('video/') ? (
           <Video className="w-4 h-4" />
         ) : (
           <Image className="w-4 h-4" />
@@ -258,7 +326,7 @@ const MediaUpload = ({ onMediaSelected, className, disabled }: MediaUploadProps)
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/jpeg,image/png,image/gif,image/webp,video/mp4,video/webm,video/quicktime"
+        accept={allowFiles ? `${MEDIA_TYPES.join(',')},${ATTACHMENT_ACCEPT}` : MEDIA_TYPES.join(',')}
         onChange={handleFileSelect}
         className="hidden"
         disabled={disabled}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import { stripUserDigits } from '@/lib/utils';
+import { normalizeHashtag, stripUserDigits } from '@/lib/utils';
 
 interface MentionTextProps {
   text: string;
@@ -11,23 +11,42 @@ export const MentionText = ({ text, className = "" }: MentionTextProps) => {
   const navigate = useNavigate();
   
   const renderTextWithMentions = (text: string) => {
-    // Regex to find @mentions
-    const mentionRegex = /@(\w+)/g;
-    const parts = text.split(mentionRegex);
+    // Regex to find @mentions and #hashtags (hashtags may contain accented letters).
+    // Same boundary as extract_hashtags: a # right after a word character, & or / is
+    // part of a URL fragment or an entity (site.com/page#intro, &#39), not a tag
+    const tokenRegex = /(@\w+|(?<![\p{L}\p{N}_&/])#[\p{L}\p{N}_]{1,100})/gu;
+    const parts = text.split(tokenRegex);
     
     return parts.map((part, index) => {
-      if (index % 2 === 1) {
+      if (index % 2 === 1 && part.startsWith('@')) {
         // This is a mention (every odd index after split)
+        const username = part.slice(1);
         return (
           <span
             key={index}
             className="text-primary font-semibold cursor-pointer hover:underline animate-fade-in"
             onClick={(e) => {
               e.stopPropagation();
-              navigate(`/user/${stripUserDigits(part)}`);
+              navigate(`/user/${stripUserDigits(username)}`);
             }}
           >
-            @{stripUserDigits(part)}
+            @{stripUserDigits(username)}
+          </span>
+        );
+      }
+
+      const hashtag = index % 2 === 1 ? normalizeHashtag(part) : null;
+      if (hashtag) {
+        return (
+          <span
+            key={index}
+            className="text-primary cursor-pointer hover:underline"
+            onClick={(e) => {
+              e.stopPropagation();
+              navigate(`/tag/${encodeURIComponent(hashtag)}`);
+            }}
+          >
+            {part}
           </span>
         );
       }
@@ -40,4 +59,4 @@ export const MentionText = ({ text, className = "" }: MentionTextProps) => {
       {renderTextWithMentions(text)}
     </span>
   );
-};
\ No newline at end of file
+};
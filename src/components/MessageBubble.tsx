@@ -4,6 +4,15 @@ import { useLongPress } from '@/hooks/useLongPress';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { stripUserDigits } from '@/lib/utils';
 import { MessageReply } from '@/components/MessageReply';
+import { MessageEditedLabel } from '@/components/MessageEditedLabel';
+import { MessageReactions } from '@/components/MessageReactions';
+import { VoiceMessagePlayer } from '@/components/VoiceMessagePlayer';
+import { FileAttachmentCard } from '@/components/FileAttachmentCard';
+import { StoryMessageCard } from '@/components/StoryMessageCard';
+import { PendingMessageStatus } from '@/components/PendingMessageStatus';
+import { isOutboxStatus } from '@/lib/outbox';
+import { MessageReaction } from '@/lib/messages';
+import { isStoryMessage } from '@/lib/storyReplies';
 import { supabase } from '@/integrations/supabase/client';
 
 interface MessageBubbleProps {
@@ -16,9 +25,11 @@ interface MessageBubbleProps {
     avatar_url: string | null;
   };
   onLongPress: () => void;
+  reactions?: MessageReaction[];
+  onToggleReaction?: (emoji: string) => void;
 }
 
-export const MessageBubble = ({ message, isOwnMessage, isGroupChat, senderInfo, onLongPress }: MessageBubbleProps) => {
+export const MessageBubble = ({ message, isOwnMessage, isGroupChat, senderInfo, onLongPress, reactions = [], onToggleReaction }: MessageBubbleProps) => {
   const navigate = useNavigate();
   const [originalMessage, setOriginalMessage] = useState<any>(null);
   const [originalSenderInfo, setOriginalSenderInfo] = useState<any>(null);
@@ -115,14 +126,31 @@ export const MessageBubble = ({ message, isOwnMessage, isGroupChat, senderInfo,
           />
         )}
         
+        {/* Story this message replied or reacted to */}
+        {isStoryMessage(message) && (
+          <StoryMessageCard
+            storyId={message.story_id ?? null}
+            isReaction={message.message_type === 'story_reaction'}
+            isOwnMessage={isOwnMessage}
+          />
+        )}
+
         {message.content && (
-          <p className="text-sm leading-relaxed font-medium">{message.content}</p>
+          message.message_type === 'story_reaction' ? (
+            <p className="text-4xl leading-none">{message.content}</p>
+          ) : (
+            <p className="text-sm leading-relaxed font-medium">{message.content}</p>
+          )
         )}
         
         {/* Media Content */}
         {message.media_url && (
           <div className="mt-3">
-            {message.media_type === 'video' ? (
+            {message.media_type === 'audio' ? (
+              <VoiceMessagePlayer message={message} isOwnMessage={isOwnMessage} />
+            ) : message.media_type === 'file' ? (
+              <FileAttachmentCard message={message} isOwnMessage={isOwnMessage} />
+            ) : message.media_type === 'video' ? (
               <video
                 src={message.media_url}
                 controls
@@ -147,8 +175,18 @@ export const MessageBubble = ({ message, isOwnMessage, isGroupChat, senderInfo,
         }`}>
           <span className="font-medium">
             {formatMessageTime(message.created_at)}
+            {message.edited_at && (
+              <MessageEditedLabel
+                messageId={message.id}
+                content={message.content}
+                editedAt={message.edited_at}
+                className="ml-1 font-normal"
+              />
+            )}
           </span>
-          {isOwnMessage && (
+          {isOwnMessage && isOutboxStatus(message.message_status) ? (
+            <PendingMessageStatus messageId={message.id} status={message.message_status} />
+          ) : isOwnMessage && (
             <div className="flex items-center gap-1.5">
               {message.message_status === 'read' && (
                 <div className="w-2.5 h-2.5 bg-blue-400 rounded-full animate-pulse" />
@@ -163,6 +201,12 @@ export const MessageBubble = ({ message, isOwnMessage, isGroupChat, senderInfo,
           )}
         </div>
       </div>
+
+      <MessageReactions
+        reactions={reactions}
+        isOwnMessage={isOwnMessage}
+        onToggleReaction={onToggleReaction}
+      />
     </div>
   );
 };
\ No newline at end of file
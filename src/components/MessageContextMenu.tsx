@@ -1,15 +1,25 @@
 import React from 'react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
-import { Reply, Copy, Trash2 } from 'lucide-react';
+import { Reply, Copy, Pencil, Trash2, Flag, AtSign, Pin, PinOff } from 'lucide-react';
+import { QUICK_REACTIONS } from '@/lib/messages';
+import { cn } from '@/lib/utils';
 
 interface MessageContextMenuProps {
   isOpen: boolean;
   onClose: () => void;
   onReply: () => void;
   onCopy: () => void;
+  onMention?: () => void;
+  onEdit?: () => void;
   onDelete?: () => void;
+  onReport?: () => void;
+  onReact?: (emoji: string) => void;
+  onTogglePin?: () => void;
+  isPinned?: boolean;
+  currentReaction?: string;
   canDelete: boolean;
+  canEdit?: boolean;
   messageText: string;
 }
 
@@ -18,8 +28,16 @@ export const MessageContextMenu = ({
   onClose,
   onReply,
   onCopy,
+  onMention,
+  onEdit,
   onDelete,
+  onReport,
+  onReact,
+  onTogglePin,
+  isPinned = false,
+  currentReaction,
   canDelete,
+  canEdit = false,
   messageText
 }: MessageContextMenuProps) => {
 
@@ -34,6 +52,16 @@ export const MessageContextMenu = ({
     onClose();
   };
 
+  const handleMention = () => {
+    onMention?.();
+    onClose();
+  };
+
+  const handleEdit = () => {
+    onEdit?.();
+    onClose();
+  };
+
   const handleDelete = () => {
     if (onDelete) {
       onDelete();
@@ -41,6 +69,21 @@ export const MessageContextMenu = ({
     onClose();
   };
 
+  const handleReact = (emoji: string) => {
+    onReact?.(emoji);
+    onClose();
+  };
+
+  const handleTogglePin = () => {
+    onTogglePin?.();
+    onClose();
+  };
+
+  const handleReport = () => {
+    onReport?.();
+    onClose();
+  };
+
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent side="bottom" className="h-auto rounded-t-3xl border-0 bg-background p-0">
@@ -54,6 +97,24 @@ export const MessageContextMenu = ({
             </SheetTitle>
           </SheetHeader>
 
+          {onReact && (
+            <div className="flex items-center justify-between bg-muted rounded-full px-3 py-2 mb-4">
+              {QUICK_REACTIONS.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  className={cn(
+                    'w-10 h-10 rounded-full text-2xl flex items-center justify-center transition-transform hover:scale-125',
+                    currentReaction === emoji && 'bg-primary/20'
+                  )}
+                  onClick={() => handleReact(emoji)}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Button
               variant="ghost"
@@ -73,6 +134,39 @@ export const MessageContextMenu = ({
               Copiar texto
             </Button>
 
+            {onMention && (
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-12"
+                onClick={handleMention}
+              >
+                <AtSign className="w-5 h-5 mr-3" />
+                Mencionar
+              </Button>
+            )}
+
+            {onTogglePin && (
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-12"
+                onClick={handleTogglePin}
+              >
+                {isPinned ? <PinOff className="w-5 h-5 mr-3" /> : <Pin className="w-5 h-5 mr-3" />}
+                {isPinned ? 'Desafixar mensagem' : 'Fixar mensagem'}
+              </Button>
+            )}
+
+            {canEdit && onEdit && (
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-12"
+                onClick={handleEdit}
+              >
+                <Pencil className="w-5 h-5 mr-3" />
+                Editar mensagem
+              </Button>
+            )}
+
             {canDelete && (
               <Button
                 variant="ghost"
@@ -83,6 +177,17 @@ export const MessageContextMenu = ({
                 Deletar mensagem
               </Button>
             )}
+
+            {!canDelete && onReport && (
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-12 text-destructive hover:text-destructive"
+                onClick={handleReport}
+              >
+                <Flag className="w-5 h-5 mr-3" />
+                Denunciar
+              </Button>
+            )}
           </div>
         </div>
       </SheetContent>
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+type MessageRevision = Pick<Tables<'message_revisions'>, 'id' | 'content' | 'created_at'>;
+
+interface MessageEditedLabelProps {
+  messageId: string;
+  content: string | null;
+  editedAt: string;
+  className?: string;
+}
+
+const formatRevisionDate = (dateString: string) =>
+  format(new Date(dateString), "dd/MM 'às' HH:mm", { locale: ptBR });
+
+export const MessageEditedLabel = ({ messageId, content, editedAt, className }: MessageEditedLabelProps) => {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchRevisions = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('message_revisions')
+          .select('id, content, created_at')
+          .eq('message_id', messageId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setRevisions(data || []);
+      } catch (error) {
+        console.error('Error fetching message revisions:', error);
+        setRevisions([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [open, messageId, editedAt]);
+
+  return (
+    <>
+      {/* Stop the press from reaching the bubble's long-press handler, which would swallow the click */}
+      <button
+        type="button"
+        className={cn('italic hover:underline', className)}
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen(true);
+        }}
+      >
+        (editada)
+      </button>
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="bottom" className="h-auto max-h-[70vh] rounded-t-3xl border-0 bg-background p-0">
+          <div className="p-6 overflow-y-auto max-h-[70vh]">
+            <SheetHeader className="mb-4">
+              <div className="flex items-center justify-center">
+                <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+              </div>
+              <SheetTitle className="text-center text-lg font-semibold mt-3">
+                Histórico de edições
+              </SheetTitle>
+            </SheetHeader>
+
+            <div className="space-y-3">
+              <div className="p-3 rounded-2xl bg-primary/10">
+                <p className="text-xs text-muted-foreground mb-1">
+                  Atual · editada em {formatRevisionDate(editedAt)}
+                </p>
+                <p className="text-sm break-words whitespace-pre-wrap">{content}</p>
+              </div>
+
+              {loading ? (
+                <div className="flex justify-center py-4">
+                  <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                </div>
+              ) : (
+                revisions.map((revision, index) => (
+                  <div key={revision.id} className="p-3 rounded-2xl bg-muted">
+                    <p className="text-xs text-muted-foreground mb-1">
+                      {index === revisions.length - 1 ? 'Original' : 'Versão anterior'} · substituída em {formatRevisionDate(revision.created_at)}
+                    </p>
+                    <p className="text-sm break-words whitespace-pre-wrap">{revision.content}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
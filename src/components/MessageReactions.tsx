@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { MessageReaction, summarizeReactions } from '@/lib/messages';
+import { cn, stripUserDigits } from '@/lib/utils';
+
+interface ReactorProfile {
+  id: string;
+  display_name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  isOwnMessage: boolean;
+  onToggleReaction?: (emoji: string) => void;
+}
+
+export const MessageReactions = ({ reactions, isOwnMessage, onToggleReaction }: MessageReactionsProps) => {
+  const { user } = useAuth();
+  const [showReactors, setShowReactors] = useState(false);
+  const [profiles, setProfiles] = useState<Record<string, ReactorProfile>>({});
+
+  const summaries = summarizeReactions(reactions, user?.id);
+  const reactorIds = reactions.map(r => r.user_id).sort().join(',');
+
+  useEffect(() => {
+    if (!showReactors || !reactorIds) return;
+
+    const fetchProfiles = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, display_name, username, avatar_url')
+          .in('id', reactorIds.split(','));
+
+        if (error) throw error;
+        setProfiles(Object.fromEntries((data || []).map(p => [p.id, p])));
+      } catch (error) {
+        console.error('Error fetching reactors:', error);
+      }
+    };
+
+    fetchProfiles();
+  }, [showReactors, reactorIds]);
+
+  if (summaries.length === 0) return null;
+
+  return (
+    <>
+      <div className={cn('flex flex-wrap gap-1 -mt-2 px-2 relative z-10', isOwnMessage ? 'justify-end' : 'justify-start')}>
+        {summaries.map((summary) => (
+          <button
+            key={summary.emoji}
+            type="button"
+            className={cn(
+              'flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border shadow-sm bg-background transition-colors',
+              summary.reactedByMe ? 'border-primary/60 bg-primary/10' : 'border-border/50'
+            )}
+            onClick={() => setShowReactors(true)}
+          >
+            <span>{summary.emoji}</span>
+            {summary.count > 1 && <span className="text-muted-foreground font-medium">{summary.count}</span>}
+          </button>
+        ))}
+      </div>
+
+      <Sheet open={showReactors} onOpenChange={setShowReactors}>
+        <SheetContent side="bottom" className="h-auto max-h-[70vh] rounded-t-3xl border-0 bg-background p-0">
+          <div className="p-6 overflow-y-auto max-h-[70vh]">
+            <SheetHeader className="mb-4">
+              <div className="flex items-center justify-center">
+                <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+              </div>
+              <SheetTitle className="text-center text-lg font-semibold mt-3">
+                Reações
+              </SheetTitle>
+            </SheetHeader>
+
+            <div className="space-y-1">
+              {reactions.map((reaction) => {
+                const profile = profiles[reaction.user_id];
+                const isMine = reaction.user_id === user?.id;
+
+                return (
+                  <button
+                    key={reaction.id}
+                    type="button"
+                    className="w-full flex items-center gap-3 p-2 rounded-xl text-left hover:bg-muted disabled:hover:bg-transparent"
+                    disabled={!isMine || !onToggleReaction}
+                    onClick={() => {
+                      onToggleReaction?.(reaction.emoji);
+                      setShowReactors(false);
+                    }}
+                  >
+                    <Avatar className="w-10 h-10">
+                      <AvatarImage src={profile?.avatar_url || ''} />
+                      <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white font-semibold">
+                        {profile ? stripUserDigits(profile.display_name)[0] : '?'}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold truncate">
+                        {isMine ? 'Você' : stripUserDigits(profile?.display_name || '')}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {isMine && onToggleReaction ? 'Toque para remover' : `@${stripUserDigits(profile?.username || '')}`}
+                      </p>
+                    </div>
+                    <span className="text-2xl">{reaction.emoji}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
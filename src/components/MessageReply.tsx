@@ -36,6 +36,14 @@ export const MessageReply = ({ originalMessage, senderInfo, isOwnMessage, classN
     if (originalMessage.media_type === 'video') {
       return '🎥 Vídeo compartilhado';
     }
+
+    if (originalMessage.media_type === 'audio') {
+      return '🎤 Mensagem de voz';
+    }
+
+    if (originalMessage.media_type === 'file') {
+      return '📎 Arquivo compartilhado';
+    }
     
     return 'Mensagem';
   };
@@ -101,7 +109,9 @@ export const MessageReply = ({ originalMessage, senderInfo, isOwnMessage, classN
                 <p className="break-words">{getReplyContent()}</p>
               ) : (
                 <div className="flex items-center gap-2">
-                  <span className="text-lg">{originalMessage.media_type === 'image' ? '📷' : '🎥'}</span>
+                  <span className="text-lg">
+                    {originalMessage.media_type === 'image' ? '📷' : originalMessage.media_type === 'audio' ? '🎤' : originalMessage.media_type === 'file' ? '📎' : '🎥'}
+                  </span>
                   <span className="italic">{getReplyContent()}</span>
                 </div>
               )}
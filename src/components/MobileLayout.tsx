@@ -1,5 +1,8 @@
 import { ReactNode } from 'react';
+import { Ban } from 'lucide-react';
 import BottomNavigation from './BottomNavigation';
+import { useAuth } from '@/hooks/useAuth';
+import { isSuspended } from '@/lib/moderation';
 
 interface MobileLayoutProps {
   children: ReactNode;
@@ -7,8 +10,18 @@ interface MobileLayoutProps {
 }
 
 const MobileLayout = ({ children, showBottomNav = true }: MobileLayoutProps) => {
+  const { user } = useAuth();
+
   return (
     <div className="min-h-screen bg-background">
+      {user && isSuspended(user.suspended_until) && (
+        <div className="bg-destructive text-destructive-foreground text-xs text-center px-4 py-2 flex items-center justify-center gap-2">
+          <Ban className="w-3.5 h-3.5 flex-shrink-0" />
+          <span>
+            Sua conta está suspensa até {new Date(user.suspended_until!).toLocaleDateString('pt-BR')} e não pode publicar conteúdo.
+          </span>
+        </div>
+      )}
       <main className={showBottomNav ? 'pb-20' : ''}>
         {children}
       </main>
@@ -17,4 +30,4 @@ const MobileLayout = ({ children, showBottomNav = true }: MobileLayoutProps) =>
   );
 };
 
-export default MobileLayout;
\ No newline at end of file
+export default MobileLayout;
@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Flag, CheckCircle, Trash2, AlertTriangle, Ban, RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { isVideoUrl, stripUserDigits } from '@/lib/utils';
+import {
+  MODERATION_ACTION_LABELS,
+  REPORT_REASON_LABELS,
+  REPORT_TARGET_LABELS,
+  ModerationAction,
+  ReportReason,
+  ReportTargetType,
+  isSuspended,
+} from '@/lib/moderation';
+
+interface ReportRow {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: ReportReason;
+  details: string | null;
+  content_snapshot: string | null;
+  created_at: string;
+  reporter: {
+    display_name: string;
+    username: string;
+  } | null;
+  reported_user: {
+    id: string;
+    display_name: string;
+    username: string;
+    suspended_until: string | null;
+  } | null;
+}
+
+// Reports on the same content are reviewed (and resolved) together
+interface ReportGroup {
+  key: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  content_snapshot: string | null;
+  reported_user: ReportRow['reported_user'];
+  reports: ReportRow[];
+}
+
+interface ModerationQueueProps {
+  onResolved?: () => void;
+}
+
+const ACTION_ICONS: Record<ModerationAction, typeof Flag> = {
+  dismiss: CheckCircle,
+  remove_content: Trash2,
+  warn: AlertTriangle,
+  suspend: Ban,
+};
+
+const groupReports = (reports: ReportRow[]): ReportGroup[] => {
+  const groups = new Map<string, ReportGroup>();
+
+  reports.forEach((report) => {
+    const key = `${report.target_type}:${report.target_id}`;
+    const group = groups.get(key);
+    if (group) {
+      group.reports.push(report);
+    } else {
+      groups.set(key, {
+        key,
+        target_type: report.target_type,
+        target_id: report.target_id,
+        content_snapshot: report.content_snapshot,
+        reported_user: report.reported_user,
+        reports: [report],
+      });
+    }
+  });
+
+  // Most reported content first
+  return Array.from(groups.values()).sort((a, b) => b.reports.length - a.reports.length);
+};
+
+export const ModerationQueue = ({ onResolved }: ModerationQueueProps) => {
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [resolving, setResolving] = useState(false);
+  const [pending, setPending] = useState<{ group: ReportGroup; action: ModerationAction } | null>(null);
+  const [note, setNote] = useState('');
+  const [suspendDays, setSuspendDays] = useState('7');
+
+  const loadReports = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('reports')
+        .select(`
+          id,
+          target_type,
+          target_id,
+          reason,
+          details,
+          content_snapshot,
+          created_at,
+          reporter:profiles!reports_reporter_id_fkey (
+            display_name,
+            username
+          ),
+          reported_user:profiles!reports_reported_user_id_fkey (
+            id,
+            display_name,
+            username,
+            suspended_until
+          )
+        `)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(200);
+
+      if (error) throw error;
+      setGroups(groupReports((data as ReportRow[]) || []));
+    } catch (error) {
+      console.error('Error loading reports:', error);
+      toast({
+        title: "Erro ao carregar denúncias",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAction = (group: ReportGroup, action: ModerationAction) => {
+    setNote('');
+    setSuspendDays('7');
+    setPending({ group, action });
+  };
+
+  const resolvePending = async () => {
+    if (!pending) return;
+
+    setResolving(true);
+    try {
+      const { error } = await supabase.rpc('resolve_report', {
+        p_report_id: pending.group.reports[0].id,
+        p_action: pending.action,
+        p_note: note.trim() || undefined,
+        p_suspend_days: pending.action === 'suspend' ? Number(suspendDays) : undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Denúncia resolvida",
+        description: MODERATION_ACTION_LABELS[pending.action],
+      });
+
+      setPending(null);
+      loadReports();
+      onResolved?.();
+    } catch (error) {
+      console.error('Error resolving report:', error);
+      toast({
+        title: "Erro ao resolver denúncia",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReports();
+  }, []);
+
+  const renderSnapshot = (group: ReportGroup) => {
+    if (!group.content_snapshot) {
+      return <p className="text-sm italic text-muted-foreground">Sem conteúdo de texto</p>;
+    }
+
+    if (/^https?:\/\//.test(group.content_snapshot)) {
+      return isVideoUrl(group.content_snapshot) ? (
+        <video src={group.content_snapshot} className="w-full max-h-48 rounded-lg object-cover" controls playsInline preload="metadata" />
+      ) : (
+        <img src={group.content_snapshot} alt="Conteúdo denunciado" className="w-full max-h-48 rounded-lg object-cover" loading="lazy" />
+      );
+    }
+
+    return <p className="text-sm break-words line-clamp-4">{group.content_snapshot}</p>;
+  };
+
+  return (
+    <Card className="mb-6 card-shadow border-0">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Flag className="w-5 h-5" />
+            <span>Fila de Moderação</span>
+            {groups.length > 0 && (
+              <Badge variant="destructive">{groups.length}</Badge>
+            )}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadReports} disabled={loading} className="w-8 h-8 p-0">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>
+          Conteúdos denunciados aguardando análise
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && groups.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CheckCircle className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>Nenhuma denúncia pendente</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => (
+              <div key={group.key} className="p-4 rounded-lg border border-border space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{REPORT_TARGET_LABELS[group.target_type]}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {group.reports.length} {group.reports.length === 1 ? 'denúncia' : 'denúncias'}
+                    </span>
+                  </div>
+                  {group.reported_user && isSuspended(group.reported_user.suspended_until) && (
+                    <Badge variant="destructive">Suspenso</Badge>
+                  )}
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium">
+                    {group.reported_user
+                      ? `${stripUserDigits(group.reported_user.display_name)} (@${stripUserDigits(group.reported_user.username)})`
+                      : 'Usuário removido'}
+                  </p>
+                </div>
+
+                <div className="p-3 rounded-lg bg-muted/50">
+                  {renderSnapshot(group)}
+                </div>
+
+                <div className="space-y-1">
+                  {group.reports.map((report) => (
+                    <div key={report.id} className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{REPORT_REASON_LABELS[report.reason]}</span>
+                      {' • '}
+                      {report.reporter ? stripUserDigits(report.reporter.display_name) : 'usuário removido'}
+                      {' • '}
+                      {new Date(report.created_at).toLocaleString('pt-BR')}
+                      {report.details && (
+                        <p className="italic mt-0.5">"{report.details}"</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(MODERATION_ACTION_LABELS) as ModerationAction[]).map((action) => {
+                    const Icon = ACTION_ICONS[action];
+                    return (
+                      <Button
+                        key={action}
+                        variant={action === 'dismiss' ? 'outline' : action === 'suspend' ? 'destructive' : 'secondary'}
+                        size="sm"
+                        disabled={resolving}
+                        onClick={() => openAction(group, action)}
+                      >
+                        <Icon className="w-4 h-4 mr-2" />
+                        {MODERATION_ACTION_LABELS[action]}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending ? MODERATION_ACTION_LABELS[pending.action] : ''}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.action === 'dismiss' && 'As denúncias serão arquivadas sem nenhuma ação sobre o conteúdo.'}
+              {pending?.action === 'remove_content' && (pending.group.target_type === 'profile'
+                ? 'A foto e a bio do perfil serão removidas.'
+                : 'O conteúdo será apagado permanentemente.')}
+              {pending?.action === 'warn' && 'O autor receberá uma notificação de advertência com a observação abaixo.'}
+              {pending?.action === 'suspend' && 'A conta não poderá publicar posts, comentários, stories ou mensagens durante a suspensão.'}
+              {' '}Quem denunciou será notificado da decisão.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {pending?.action === 'suspend' && (
+            <Select value={suspendDays} onValueChange={setSuspendDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 dia</SelectItem>
+                <SelectItem value="7">7 dias</SelectItem>
+                <SelectItem value="30">30 dias</SelectItem>
+                <SelectItem value="365">1 ano</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={pending?.action === 'warn' ? 'Mensagem para o usuário' : 'Observação (opcional)'}
+            maxLength={500}
+            rows={3}
+            className="resize-none"
+          />
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={resolving}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                resolvePending();
+              }}
+              disabled={resolving}
+              className={pending?.action === 'dismiss' ? '' : 'bg-destructive text-destructive-foreground hover:bg-destructive/90'}
+            >
+              Confirmar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -1,12 +1,15 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { Heart, MessageCircle, UserPlus, AtSign, Check, CheckCheck } from 'lucide-react';
+import { Heart, MessageCircle, UserPlus, AtSign, Check, CheckCheck, Flag, AlertTriangle, UserCheck, Link2 } from 'lucide-react';
 import { useNotifications } from '@/hooks/useNotifications';
+import { useFollowRequests } from '@/hooks/useFollowRequests';
+import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { respondJoinRequest } from '@/lib/invites';
 import { formatDistanceToNow } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
@@ -16,7 +19,9 @@ interface NotificationsListProps {
 
 const NotificationsList = ({ onNotificationClick }: NotificationsListProps) => {
   const navigate = useNavigate();
-  const { notifications, loading, markAsRead, markAllAsRead } = useNotifications();
+  const { notifications, loading, markAsRead, markAllAsRead, fetchNotifications } = useNotifications();
+  const { respondToFollowRequest } = useFollowRequests();
+  const [respondingId, setRespondingId] = useState<string | null>(null);
 
   const fetchUserProfileAndNavigate = async (userId: string) => {
     try {
@@ -47,16 +52,66 @@ const NotificationsList = ({ onNotificationClick }: NotificationsListProps) => {
         return <Heart className="w-4 h-4 text-pink-500" />;
       case 'follow':
         return <UserPlus className="w-4 h-4 text-green-500" />;
+      case 'follow_request':
+        return <UserCheck className="w-4 h-4 text-green-500" />;
+      case 'join_request':
+        return <Link2 className="w-4 h-4 text-green-500" />;
       case 'post_tag':
       case 'story_tag':
         return <AtSign className="w-4 h-4 text-purple-500" />;
       case 'mention':
         return <AtSign className="w-4 h-4 text-purple-500" />;
+      case 'report_update':
+        return <Flag className="w-4 h-4 text-blue-500" />;
+      case 'moderation_warning':
+        return <AlertTriangle className="w-4 h-4 text-orange-500" />;
       default:
         return <Heart className="w-4 h-4 text-muted-foreground" />;
     }
   };
 
+  // The request (and its notification) is deleted by the database once answered
+  const handleFollowRequest = async (requestId: string, accept: boolean) => {
+    setRespondingId(requestId);
+    try {
+      await respondToFollowRequest(requestId, accept);
+      toast({
+        title: accept ? "Solicitação aceita" : "Solicitação recusada",
+      });
+      fetchNotifications();
+    } catch (error) {
+      console.error('Error responding to follow request:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível responder à solicitação.",
+        variant: "destructive",
+      });
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  // Same for group join requests, which also notify every admin of the group
+  const handleJoinRequest = async (requestId: string, accept: boolean) => {
+    setRespondingId(requestId);
+    try {
+      await respondJoinRequest(requestId, accept);
+      toast({
+        title: accept ? "Pedido aceito" : "Pedido recusado",
+      });
+      fetchNotifications();
+    } catch (error) {
+      console.error('Error responding to join request:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível responder ao pedido.",
+        variant: "destructive",
+      });
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
   const handleNotificationClick = async (notification: any) => {
     try {
       // Always mark as read when clicked, regardless of current status
@@ -79,13 +134,18 @@ const NotificationsList = ({ onNotificationClick }: NotificationsListProps) => {
         // We'll need to get the post_id from the comment
         // For now, navigate to feed and let user find the post
         navigate('/feed');
+      } else if (notification.entity_type === 'public_chat_message') {
+        navigate('/messages?room=public');
       } else if (notification.entity_type === 'user' && notification.actor_id) {
         // For follow notifications, navigate to the follower's profile
         // Use actor_id to get the username first, then navigate
         fetchUserProfileAndNavigate(notification.actor_id);
-      } else if (notification.type === 'follow' && notification.actor_id) {
+      } else if ((notification.type === 'follow' || notification.type === 'follow_request') && notification.actor_id) {
         // Navigate to follower's profile
         fetchUserProfileAndNavigate(notification.actor_id);
+      } else if (notification.type === 'report_update' || notification.type === 'moderation_warning' || notification.type === 'join_request') {
+        // Moderation notices are self-contained and join requests are answered right here
+        return;
       } else {
         // Fallback to feed
         navigate('/feed');
@@ -189,6 +249,32 @@ const NotificationsList = ({ onNotificationClick }: NotificationsListProps) => {
                           locale: ptBR,
                         })}
                       </p>
+                      {(notification.type === 'follow_request' || notification.type === 'join_request') && notification.entity_id && (
+                        <div className="flex gap-2 mt-3">
+                          <Button
+                            size="sm"
+                            className="magic-button"
+                            disabled={respondingId === notification.entity_id}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              (notification.type === 'join_request' ? handleJoinRequest : handleFollowRequest)(notification.entity_id!, true);
+                            }}
+                          >
+                            Aceitar
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={respondingId === notification.entity_id}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              (notification.type === 'join_request' ? handleJoinRequest : handleFollowRequest)(notification.entity_id!, false);
+                            }}
+                          >
+                            Recusar
+                          </Button>
+                        </div>
+                      )}
                     </div>
                     
                     <div className="flex items-center space-x-2 ml-2">
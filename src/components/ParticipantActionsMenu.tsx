@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { MoreHorizontal, ShieldCheck, ShieldOff, VolumeX, Volume2, UserMinus, Crown } from 'lucide-react';
+import {
+  canModerateMember,
+  CONVERSATION_ROLE_LABELS,
+  ConversationRole,
+  isMuted,
+  MUTE_DURATIONS,
+  ParticipantAction,
+} from '@/lib/conversationRoles';
+
+interface ParticipantRoleBadgeProps {
+  role: ConversationRole;
+  mutedUntil?: string | null;
+}
+
+export const ParticipantRoleBadge = ({ role, mutedUntil }: ParticipantRoleBadgeProps) => (
+  <>
+    {role !== 'member' && (
+      <span className="ml-2 inline-flex items-center gap-1 text-xs bg-primary/20 text-primary px-2 py-1 rounded-full">
+        {role === 'owner' ? <Crown className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />}
+        {CONVERSATION_ROLE_LABELS[role]}
+      </span>
+    )}
+    {isMuted(mutedUntil) && (
+      <span className="ml-2 inline-flex items-center gap-1 text-xs bg-muted text-muted-foreground px-2 py-1 rounded-full">
+        <VolumeX className="w-3 h-3" />
+        Silenciado
+      </span>
+    )}
+  </>
+);
+
+interface ParticipantActionsMenuProps {
+  name: string;
+  role: ConversationRole;
+  mutedUntil: string | null;
+  myRole: ConversationRole | null;
+  onAction: (action: ParticipantAction) => void;
+}
+
+const describeAction = (action: ParticipantAction, name: string) => {
+  switch (action.type) {
+    case 'promote':
+      return {
+        title: 'Tornar admin',
+        description: `${name} poderá adicionar e remover membros, editar o chat, fixar e apagar mensagens e silenciar membros.`,
+        confirm: 'Tornar admin',
+      };
+    case 'demote':
+      return {
+        title: 'Remover admin',
+        description: `${name} voltará a ser membro e perderá as permissões de admin.`,
+        confirm: 'Remover admin',
+      };
+    case 'mute': {
+      const duration = MUTE_DURATIONS.find(d => d.minutes === action.minutes)?.label || `${action.minutes} minutos`;
+      return {
+        title: 'Silenciar participante',
+        description: `${name} continuará vendo o chat, mas não poderá enviar mensagens por ${duration}.`,
+        confirm: 'Silenciar',
+      };
+    }
+    case 'unmute':
+      return {
+        title: 'Remover silêncio',
+        description: `${name} poderá voltar a enviar mensagens.`,
+        confirm: 'Remover silêncio',
+      };
+    case 'remove':
+      return {
+        title: 'Remover participante',
+        description: `${name} será removido do chat e precisará ser adicionado novamente para participar.`,
+        confirm: 'Remover',
+      };
+  }
+};
+
+// Per-participant moderation menu. Only shows what the viewer's role allows,
+// and every action goes through a confirmation step before onAction runs
+export const ParticipantActionsMenu = ({ name, role, mutedUntil, myRole, onAction }: ParticipantActionsMenuProps) => {
+  const [pendingAction, setPendingAction] = useState<ParticipantAction | null>(null);
+
+  const canChangeRole = canModerateMember(myRole, role, 'manage_roles');
+  const canMute = canModerateMember(myRole, role, 'mute_members');
+  const canRemove = canModerateMember(myRole, role, 'manage_participants');
+
+  if (!canChangeRole && !canMute && !canRemove) return null;
+
+  const pending = pendingAction ? describeAction(pendingAction, name) : null;
+  const destructive = pendingAction?.type === 'remove' || pendingAction?.type === 'mute';
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {canChangeRole && (role === 'member' ? (
+            <DropdownMenuItem onClick={() => setPendingAction({ type: 'promote' })}>
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Tornar admin
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onClick={() => setPendingAction({ type: 'demote' })}>
+              <ShieldOff className="w-4 h-4 mr-2" />
+              Remover admin
+            </DropdownMenuItem>
+          ))}
+          {canMute && (isMuted(mutedUntil) ? (
+            <DropdownMenuItem onClick={() => setPendingAction({ type: 'unmute' })}>
+              <Volume2 className="w-4 h-4 mr-2" />
+              Remover silêncio
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <VolumeX className="w-4 h-4 mr-2" />
+                Silenciar
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {MUTE_DURATIONS.map(duration => (
+                  <DropdownMenuItem
+                    key={duration.minutes}
+                    onClick={() => setPendingAction({ type: 'mute', minutes: duration.minutes })}
+                  >
+                    {duration.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ))}
+          {canRemove && (
+            <>
+              {(canChangeRole || canMute) && <DropdownMenuSeparator />}
+              <DropdownMenuItem
+                onClick={() => setPendingAction({ type: 'remove' })}
+                className="text-red-600"
+              >
+                <UserMinus className="w-4 h-4 mr-2" />
+                Remover
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pending?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pending?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingAction) onAction(pendingAction);
+                setPendingAction(null);
+              }}
+              className={destructive ? 'bg-red-600 hover:bg-red-700' : undefined}
+            >
+              {pending?.confirm}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
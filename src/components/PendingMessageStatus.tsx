@@ -0,0 +1,42 @@
+import { Clock, AlertCircle } from 'lucide-react';
+import { discardOutboxMessage, OutboxMessageStatus, retryOutboxMessage } from '@/lib/outbox';
+import { cn } from '@/lib/utils';
+
+interface PendingMessageStatusProps {
+  messageId: string;
+  status: OutboxMessageStatus;
+  className?: string;
+}
+
+// Footer for messages still in the outbox. Failed ones were rejected by the server and
+// stay queued until the sender retries or discards them
+export const PendingMessageStatus = ({ messageId, status, className }: PendingMessageStatusProps) => {
+  // Keep taps on the actions from reaching the bubble's long-press handler
+  const stopPress = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  if (status === 'pending') {
+    return (
+      <span className={cn('flex items-center gap-1', className)}>
+        <Clock className="w-3 h-3" />
+        Pendente
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={cn('flex items-center gap-1.5 text-destructive', className)}
+      onMouseDown={stopPress}
+      onTouchStart={stopPress}
+    >
+      <AlertCircle className="w-3 h-3" />
+      Não enviada
+      <button type="button" className="font-semibold underline" onClick={() => retryOutboxMessage(messageId)}>
+        Tentar novamente
+      </button>
+      <button type="button" className="underline" onClick={() => discardOutboxMessage(messageId)}>
+        Descartar
+      </button>
+    </span>
+  );
+};
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronUp, Pin, PinOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface PinnedBannerMessage {
+  id: string;
+  content: string | null;
+  media_type: string | null;
+  senderName: string;
+}
+
+interface PinnedMessagesBannerProps {
+  // Newest pin first
+  messages: PinnedBannerMessage[];
+  canUnpin: boolean;
+  onJump: (messageId: string) => void;
+  onUnpin: (messageId: string) => void;
+}
+
+const getPreview = (message: PinnedBannerMessage) => {
+  if (message.content) return message.content;
+  if (message.media_type === 'image') return '📷 Imagem';
+  if (message.media_type === 'video') return '🎥 Vídeo';
+  if (message.media_type === 'audio') return '🎤 Mensagem de voz';
+  if (message.media_type === 'file') return '📎 Arquivo';
+  return 'Mensagem';
+};
+
+// Shows one pin at a time; tapping it jumps to the message and moves on to the
+// next pin, so repeated taps cycle through all of them
+export const PinnedMessagesBanner = ({ messages, canUnpin, onJump, onUnpin }: PinnedMessagesBannerProps) => {
+  const [index, setIndex] = useState(0);
+  const [expanded, setExpanded] = useState(false);
+
+  // Start over from the newest pin whenever the set of pins changes
+  const pinKey = messages.map(message => message.id).join(',');
+  useEffect(() => {
+    setIndex(0);
+  }, [pinKey]);
+
+  if (messages.length === 0) return null;
+
+  const current = messages[Math.min(index, messages.length - 1)];
+
+  const handleJump = () => {
+    onJump(current.id);
+    setIndex(prev => (prev + 1) % messages.length);
+  };
+
+  return (
+    <Collapsible
+      open={expanded}
+      onOpenChange={setExpanded}
+      className="bg-background border-b border-border"
+    >
+      <div className="flex items-center gap-2 px-4 py-2">
+        {/* Position indicator, one bar per pin (up to five) */}
+        <div className="flex flex-col gap-0.5 self-stretch py-0.5">
+          {messages.slice(0, 5).map((message, i) => (
+            <div
+              key={message.id}
+              className={cn(
+                'w-0.5 flex-1 rounded-full',
+                i === index % Math.min(messages.length, 5) ? 'bg-primary' : 'bg-primary/30'
+              )}
+            />
+          ))}
+        </div>
+
+        <button type="button" className="flex-1 min-w-0 text-left" onClick={handleJump}>
+          <p className="text-xs font-semibold text-primary flex items-center gap-1">
+            <Pin className="w-3 h-3" />
+            {messages.length > 1 ? `Mensagem fixada ${index + 1} de ${messages.length}` : 'Mensagem fixada'}
+          </p>
+          <p className="text-sm text-foreground/80 truncate">
+            <span className="font-medium">{current.senderName}: </span>
+            {getPreview(current)}
+          </p>
+        </button>
+
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0">
+            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+
+      <CollapsibleContent>
+        <div className="max-h-60 overflow-y-auto px-4 pb-2 space-y-1">
+          {messages.map(message => (
+            <div key={message.id} className="flex items-center gap-2 rounded-lg hover:bg-muted/50">
+              <button
+                type="button"
+                className="flex-1 min-w-0 text-left px-2 py-2"
+                onClick={() => {
+                  onJump(message.id);
+                  setExpanded(false);
+                }}
+              >
+                <p className="text-xs font-medium text-muted-foreground">{message.senderName}</p>
+                <p className="text-sm truncate">{getPreview(message)}</p>
+              </button>
+              {canUnpin && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-8 h-8 p-0 flex-shrink-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => onUnpin(message.id)}
+                >
+                  <PinOff className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
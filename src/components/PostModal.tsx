@@ -4,14 +4,16 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { X, Heart, MessageCircle, Share, MoreHorizontal, Trash2, Send } from 'lucide-react';
+import { X, Heart, MessageCircle, Share, MoreHorizontal, Trash2, Send, Flag } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { isVideoUrl, stripUserDigits } from '@/lib/utils';
 import { usePostInteractions } from '@/hooks/usePostInteractions';
-import { useRef } from 'react';
+import { ReportDialog } from '@/components/ReportDialog';
+import { ReportTargetType } from '@/lib/moderation';
+import { useRef, useState } from 'react';
 
 interface Post {
   id: string;
@@ -38,6 +40,7 @@ interface PostModalProps {
 const PostModal = ({ open, onOpenChange, post, onPostUpdate }: PostModalProps) => {
   const { user } = useAuth();
   const commentInputRef = useRef<HTMLInputElement>(null);
+  const [reportTarget, setReportTarget] = useState<{ type: ReportTargetType; id: string } | null>(null);
   const {
     isLiked,
     likesCount,
@@ -136,7 +139,7 @@ const PostModal = ({ open, onOpenChange, post, onPostUpdate }: PostModalProps) =
                     @{stripUserDigits(post.profiles.username)} • {formatTimeAgo(post.created_at)}
                   </p>
                 </div>
-                {post.user_id === user?.id && (
+                {user && (
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                       <Button variant="ghost" size="sm" className="w-8 h-8 p-0">
@@ -144,13 +147,23 @@ const PostModal = ({ open, onOpenChange, post, onPostUpdate }: PostModalProps) =
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end" className="bg-background border border-border">
-                      <DropdownMenuItem 
-                        onClick={handleDeletePost}
-                        className="text-destructive focus:text-destructive"
-                      >
-                        <Trash2 className="w-4 h-4 mr-2" />
-                        Deletar post
-                      </DropdownMenuItem>
+                      {post.user_id === user.id ? (
+                        <DropdownMenuItem 
+                          onClick={handleDeletePost}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Deletar post
+                        </DropdownMenuItem>
+                      ) : (
+                        <DropdownMenuItem 
+                          onClick={() => setReportTarget({ type: 'post', id: post.id })}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Flag className="w-4 h-4 mr-2" />
+                          Denunciar
+                        </DropdownMenuItem>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 )}
@@ -243,7 +256,7 @@ const PostModal = ({ open, onOpenChange, post, onPostUpdate }: PostModalProps) =
                                     {formatTimeAgo(comment.created_at)}
                                   </span>
                                 </div>
-                                {comment.user_id === user?.id && (
+                                {comment.user_id === user?.id ? (
                                   <Button
                                     variant="ghost"
                                     size="sm"
@@ -252,6 +265,16 @@ const PostModal = ({ open, onOpenChange, post, onPostUpdate }: PostModalProps) =
                                   >
                                     <Trash2 className="w-3 h-3" />
                                   </Button>
+                                ) : user && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setReportTarget({ type: 'comment', id: comment.id })}
+                                    className="w-6 h-6 p-0 text-muted-foreground hover:text-destructive"
+                                    title="Denunciar comentário"
+                                  >
+                                    <Flag className="w-3 h-3" />
+                                  </Button>
                                 )}
                               </div>
                               <p className="text-sm text-foreground break-words mb-2">{comment.content}</p>
@@ -290,7 +313,7 @@ const PostModal = ({ open, onOpenChange, post, onPostUpdate }: PostModalProps) =
                                           {formatTimeAgo(reply.created_at)}
                                         </span>
                                       </div>
-                                      {reply.user_id === user?.id && (
+                                      {reply.user_id === user?.id ? (
                                         <Button
                                           variant="ghost"
                                           size="sm"
@@ -299,6 +322,16 @@ const PostModal = ({ open, onOpenChange, post, onPostUpdate }: PostModalProps) =
                                         >
                                           <Trash2 className="w-2.5 h-2.5" />
                                         </Button>
+                                      ) : user && (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => setReportTarget({ type: 'comment', id: reply.id })}
+                                          className="w-5 h-5 p-0 text-muted-foreground hover:text-destructive"
+                                          title="Denunciar comentário"
+                                        >
+                                          <Flag className="w-2.5 h-2.5" />
+                                        </Button>
                                       )}
                                     </div>
                                     <p className="text-xs text-foreground break-words mb-1">{reply.content}</p>
@@ -363,6 +396,15 @@ const PostModal = ({ open, onOpenChange, post, onPostUpdate }: PostModalProps) =
             </CardContent>
           </Card>
         </div>
+
+        {reportTarget && (
+          <ReportDialog
+            open={!!reportTarget}
+            onOpenChange={(isOpen) => !isOpen && setReportTarget(null)}
+            targetType={reportTarget.type}
+            targetId={reportTarget.id}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -26,10 +26,12 @@ interface Post {
 interface PostsGridProps {
   userId?: string;
   showAllUsers?: boolean;
+  // Only posts tagged with this hashtag (in the post or its comments)
+  hashtag?: string;
   onPostUpdate?: () => void;
 }
 
-const PostsGrid = ({ userId, showAllUsers = false, onPostUpdate }: PostsGridProps) => {
+const PostsGrid = ({ userId, showAllUsers = false, hashtag, onPostUpdate }: PostsGridProps) => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [posts, setPosts] = useState<Post[]>([]);
@@ -37,17 +39,27 @@ const PostsGrid = ({ userId, showAllUsers = false, onPostUpdate }: PostsGridProp
 
   useEffect(() => {
     fetchPosts();
-  }, [userId, showAllUsers]);
+  }, [userId, showAllUsers, hashtag]);
 
   const fetchPosts = async () => {
     try {
-      let query = supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles!inner(display_name, username, avatar_url)
-        `)
-        .order('created_at', { ascending: false });
+      let query = hashtag
+        ? supabase
+          .from('posts')
+          .select(`
+            *,
+            profiles!inner(display_name, username, avatar_url),
+            post_hashtags!inner(hashtags!inner(name))
+          `)
+          .eq('post_hashtags.hashtags.name', hashtag)
+          .order('created_at', { ascending: false })
+        : supabase
+          .from('posts')
+          .select(`
+            *,
+            profiles!inner(display_name, username, avatar_url)
+          `)
+          .order('created_at', { ascending: false });
 
       if (!showAllUsers && userId) {
         query = query.eq('user_id', userId);
@@ -83,10 +95,10 @@ const PostsGrid = ({ userId, showAllUsers = false, onPostUpdate }: PostsGridProp
       <div className="text-center py-12">
         <Grid3X3 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
         <p className="text-muted-foreground">
-          {showAllUsers ? 'Nenhum post ainda' : 'Nenhum post ainda'}
+          {hashtag ? `Nenhum post com #${hashtag}` : showAllUsers ? 'Nenhum post ainda' : 'Nenhum post ainda'}
         </p>
         <p className="text-sm text-muted-foreground">
-          {showAllUsers ? 'Seja o primeiro a compartilhar!' : 'Compartilhe seu primeiro momento!'}
+          {hashtag ? 'Use a hashtag em um post para aparecer aqui' : showAllUsers ? 'Seja o primeiro a compartilhar!' : 'Compartilhe seu primeiro momento!'}
         </p>
       </div>
     );
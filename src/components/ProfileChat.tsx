@@ -3,7 +3,7 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sh
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Send, Smile, X, ArrowLeft, Settings, UserPlus, Keyboard } from 'lucide-react';
+import { Send, Smile, X, ArrowLeft, Settings, UserPlus, Keyboard, Search } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useRealtimeMessages } from '@/hooks/useRealtimeMessages';
 import { useRealtimeConversations } from '@/hooks/useRealtimeConversations';
@@ -21,6 +21,15 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { stripUserDigits, cn } from '@/lib/utils';
 import VirtualKeyboard from '@/components/VirtualKeyboard';
+import { MessageEditedLabel } from '@/components/MessageEditedLabel';
+import { MessageReactions } from '@/components/MessageReactions';
+import { VoiceMessagePlayer } from '@/components/VoiceMessagePlayer';
+import { FileAttachmentCard } from '@/components/FileAttachmentCard';
+import VoiceRecorder from '@/components/VoiceRecorder';
+import { FileMetadata, getMessageElementId, MediaMetadata, scrollToMessage, VoiceMetadata } from '@/lib/messages';
+import { isOutboxStatus } from '@/lib/outbox';
+import { PendingMessageStatus } from '@/components/PendingMessageStatus';
+import { ConversationSearchBar } from '@/components/ConversationSearchBar';
 
 interface ProfileChatProps {
   otherUser: {
@@ -48,6 +57,9 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
   const [allUsers, setAllUsers] = useState<any[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [hasInitialScrolled, setHasInitialScrolled] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -82,6 +94,9 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
     reconnectChannels,
     connectionQuality,
     networkMetrics,
+    reactions,
+    toggleReaction,
+    loadMessageWindow,
   } = useRealtimeMessages(conversationId || '');
 
   useEffect(() => {
@@ -106,6 +121,63 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
 
   // Removed auto-scroll to keep chat position fixed
 
+  const handleJumpToMessage = async (messageId: string) => {
+    if (scrollToMessage(messageId)) {
+      setHighlightedMessageId(messageId);
+      return;
+    }
+
+    // Not in the list (older than what was fetched, or it arrived while we were
+    // offline): load the messages around it and jump once they render
+    try {
+      const found = await loadMessageWindow(messageId);
+      if (found) {
+        setPendingJumpId(messageId);
+        return;
+      }
+
+      toast({
+        title: "Mensagem não encontrada",
+        description: "Ela pode ter sido apagada",
+        variant: "destructive",
+      });
+    } catch (error) {
+      console.error('Error loading messages around jump target:', error);
+      toast({
+        title: "Erro ao abrir mensagem",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!pendingJumpId || loading) return;
+
+    // Let the bottom positioning that follows a list change run first
+    const timeout = setTimeout(() => {
+      if (scrollToMessage(pendingJumpId)) {
+        setHighlightedMessageId(pendingJumpId);
+      } else {
+        toast({
+          title: "Mensagem não encontrada",
+          description: "Ela pode ter sido apagada",
+          variant: "destructive",
+        });
+      }
+      setPendingJumpId(null);
+    }, 100);
+    return () => clearTimeout(timeout);
+  }, [pendingJumpId, loading]);
+
+  // Fade the jump highlight out after a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
   const initializeConversation = async () => {
     if (!user) return;
     
@@ -125,7 +197,7 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
 
   // Removed scrollToBottom function to prevent auto-scroll
 
-  const handleSendMessage = async (messageContent?: string, mediaUrl?: string, mediaType?: string) => {
+  const handleSendMessage = async (messageContent?: string, mediaUrl?: string, mediaType?: string, mediaMetadata?: MediaMetadata) => {
     const content = messageContent || newMessage.trim();
     if ((!content && !mediaUrl) || sending || !user || !conversationId) return;
 
@@ -136,14 +208,18 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
       typingTimeoutRef.current = null;
     }
 
-    const result = await realtimeSendMessage(content, mediaUrl, mediaType);
+    const result = await realtimeSendMessage(content, mediaUrl, mediaType, undefined, mediaMetadata);
     if (result) {
       setNewMessage('');
     }
   };
 
-  const handleMediaSelected = (url: string, type: 'image' | 'video') => {
-    handleSendMessage('', url, type);
+  const handleMediaSelected = (url: string, type: 'image' | 'video' | 'file', file?: FileMetadata) => {
+    handleSendMessage('', url, type, file);
+  };
+
+  const handleVoiceRecorded = (url: string, metadata: VoiceMetadata) => {
+    handleSendMessage('', url, 'audio', metadata);
   };
 
   const handleMessageChange = async (value: string) => {
@@ -292,25 +368,7 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
     if (!conversationId || !user) return;
 
     try {
-      // Create a system message about user leaving
-      const { data: userProfile } = await supabase
-        .from('profiles')
-        .select('display_name')
-        .eq('id', user.id)
-        .single();
-
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: user.id,
-          content: `${userProfile?.display_name || 'Usuário'} saiu da conversa`,
-          message_type: 'system'
-        });
-
-      if (messageError) console.error('Error creating leave message:', messageError);
-
-      // Remove user from conversation participants
+      // Remove user from conversation participants; the leave message is posted by the database
       const { error } = await supabase
         .from('conversation_participants')
         .delete()
@@ -408,6 +466,15 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
                 onReconnect={reconnectChannels}
               />
               
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowSearch(prev => !prev)}
+                className="w-8 h-8 p-0"
+              >
+                <Search className="w-4 h-4" />
+              </Button>
+
               <Button
                 variant="ghost"
                 size="sm"
@@ -429,6 +496,14 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
           </div>
         </SheetHeader>
 
+        {showSearch && (
+          <ConversationSearchBar
+            conversationId={conversationId}
+            onSelect={handleJumpToMessage}
+            onClose={() => setShowSearch(false)}
+          />
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-background">
           {!conversationId ? (
@@ -471,7 +546,13 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
                       </div>
                     )}
                     
-                    <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'} items-start space-x-2`}>
+                    <div
+                      id={getMessageElementId(message.id)}
+                      className={cn(
+                        `flex ${isOwnMessage ? 'justify-end' : 'justify-start'} items-start space-x-2 rounded-xl transition-colors duration-700`,
+                        highlightedMessageId === message.id && 'bg-primary/10'
+                      )}
+                    >
                       {!isOwnMessage && (
                         <Avatar className="w-8 h-8 mt-1">
                           <AvatarImage src={otherUser.avatar_url || ''} />
@@ -494,7 +575,11 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
                           {/* Media Content */}
                           {message.media_url && (
                             <div className="mt-2">
-                              {message.media_type === 'video' ? (
+                              {message.media_type === 'audio' ? (
+                                <VoiceMessagePlayer message={message} isOwnMessage={isOwnMessage} />
+                              ) : message.media_type === 'file' ? (
+                                <FileAttachmentCard message={message} isOwnMessage={isOwnMessage} />
+                              ) : message.media_type === 'video' ? (
                                 <video
                                   src={message.media_url}
                                   controls
@@ -519,8 +604,22 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
                           }`}>
                             <span className="text-xs">
                               {formatMessageTime(message.created_at)}
+                              {message.edited_at && (
+                                <MessageEditedLabel
+                                  messageId={message.id}
+                                  content={message.content}
+                                  editedAt={message.edited_at}
+                                  className="ml-1"
+                                />
+                              )}
                             </span>
-                            {isOwnMessage && (
+                            {isOwnMessage && isOutboxStatus(message.message_status) ? (
+                              <PendingMessageStatus
+                                messageId={message.id}
+                                status={message.message_status}
+                                className="ml-2"
+                              />
+                            ) : isOwnMessage && (
                               <MessageStatus 
                                 status={message.message_status as 'sent' | 'delivered' | 'read' || 'sent'} 
                                 className="ml-2" 
@@ -528,6 +627,12 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
                             )}
                           </div>
                         </div>
+
+                        <MessageReactions
+                          reactions={reactions.filter(r => r.message_id === message.id)}
+                          isOwnMessage={isOwnMessage}
+                          onToggleReaction={(emoji) => toggleReaction(message.id, emoji)}
+                        />
                       </div>
                       
                       {isOwnMessage && user && (
@@ -554,10 +659,11 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
         {/* Input */}
         <div className="border-t border-border p-4 bg-card">
           <div className="space-y-2">
-            <div className="flex items-center space-x-2">
+            <div className="relative flex items-center space-x-2">
               <MediaUpload
                 onMediaSelected={handleMediaSelected}
                 disabled={sending || !conversationId}
+                allowFiles
               />
               
               <Input
@@ -578,19 +684,26 @@ const ProfileChat = ({ otherUser, isOpen, onClose, onNavigateBack, showBackButto
                 <Keyboard className="w-4 h-4" />
               </Button>
               
-              <Button
-                onClick={(e) => {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  handleSendMessage();
-                }}
-                disabled={!newMessage.trim() || sending || !conversationId}
-                size="sm"
-                className="rounded-full w-9 h-9 p-0"
-                type="button"
-              >
-                <Send className="w-4 h-4" />
-              </Button>
+              {newMessage.trim() ? (
+                <Button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    handleSendMessage();
+                  }}
+                  disabled={sending || !conversationId}
+                  size="sm"
+                  className="rounded-full w-9 h-9 p-0"
+                  type="button"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+              ) : (
+                <VoiceRecorder
+                  onRecorded={handleVoiceRecorded}
+                  disabled={sending || !conversationId}
+                />
+              )}
             </div>
           </div>
         </div>
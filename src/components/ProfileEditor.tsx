@@ -4,13 +4,16 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Camera, X } from 'lucide-react';
+import { Camera, X, Ban, ChevronRight, Lock, Star } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { stripUserDigits } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
 import ImageCropper from './ImageCropper';
+import BlockedAccountsList from './BlockedAccountsList';
+import CloseFriendsList from './CloseFriendsList';
 
 interface ProfileEditorProps {
   open: boolean;
@@ -23,10 +26,20 @@ const ProfileEditor = ({ open, onOpenChange, onProfileUpdate }: ProfileEditorPro
   const [loading, setLoading] = useState(false);
   const [displayName, setDisplayName] = useState(user?.display_name || '');
   const [bio, setBio] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
   const [avatarFile, setAvatarFile] = useState<File | null>(null);
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [cropperOpen, setCropperOpen] = useState(false);
+  const [showBlockedAccounts, setShowBlockedAccounts] = useState(false);
+  const [showCloseFriends, setShowCloseFriends] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setShowBlockedAccounts(false);
+      setShowCloseFriends(false);
+    }
+  }, [open]);
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -96,6 +109,7 @@ const ProfileEditor = ({ open, onOpenChange, onProfileUpdate }: ProfileEditorPro
     if (open && user) {
       setDisplayName(user.display_name || '');
       setBio(user.bio || '');
+      setIsPrivate(!!user.is_private);
     }
   }, [open, user]);
 
@@ -113,6 +127,7 @@ const ProfileEditor = ({ open, onOpenChange, onProfileUpdate }: ProfileEditorPro
       const updateData: any = {
         display_name: displayName.trim(),
         bio: bio.trim(),
+        is_private: isPrivate,
       };
 
       if (avatarUrl) {
@@ -167,95 +182,147 @@ const ProfileEditor = ({ open, onOpenChange, onProfileUpdate }: ProfileEditorPro
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="mobile-container max-w-sm mx-auto">
-        <DialogHeader>
-          <DialogTitle className="text-center">Editar Perfil</DialogTitle>
-        </DialogHeader>
-
-        <div className="space-y-6 py-4">
-          {/* Avatar Upload */}
-          <div className="flex flex-col items-center space-y-4">
-            <div className="relative">
-              <Avatar className="w-24 h-24">
-                <AvatarImage src={avatarPreview || user?.avatar_url || ''} />
-                <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-xl font-semibold">
-                  {user?.display_name ? stripUserDigits(user.display_name)[0] : 'U'}
-                </AvatarFallback>
-              </Avatar>
-              <label htmlFor="avatar-upload" className="absolute -bottom-2 -right-2 w-8 h-8 bg-primary rounded-full flex items-center justify-center cursor-pointer hover:bg-primary/90 transition-colors">
-                <Camera className="w-4 h-4 text-primary-foreground" />
-              </label>
-              <input
-                id="avatar-upload"
-                type="file"
-                accept="image/*"
-                onChange={handleFileChange}
-                className="hidden"
-              />
-            </div>
-            {avatarPreview && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  setAvatarFile(null);
-                  setAvatarPreview(null);
-                }}
-                className="text-muted-foreground"
+        {showBlockedAccounts ? (
+          <BlockedAccountsList onBack={() => setShowBlockedAccounts(false)} />
+        ) : showCloseFriends ? (
+          <CloseFriendsList onBack={() => setShowCloseFriends(false)} />
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="text-center">Editar Perfil</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-6 py-4">
+              {/* Avatar Upload */}
+              <div className="flex flex-col items-center space-y-4">
+                <div className="relative">
+                  <Avatar className="w-24 h-24">
+                    <AvatarImage src={avatarPreview || user?.avatar_url || ''} />
+                    <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-xl font-semibold">
+                      {user?.display_name ? stripUserDigits(user.display_name)[0] : 'U'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <label htmlFor="avatar-upload" className="absolute -bottom-2 -right-2 w-8 h-8 bg-primary rounded-full flex items-center justify-center cursor-pointer hover:bg-primary/90 transition-colors">
+                    <Camera className="w-4 h-4 text-primary-foreground" />
+                  </label>
+                  <input
+                    id="avatar-upload"
+                    type="file"
+                    accept="image/*"
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+                </div>
+                {avatarPreview && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setAvatarFile(null);
+                      setAvatarPreview(null);
+                    }}
+                    className="text-muted-foreground"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Remover foto
+                  </Button>
+                )}
+              </div>
+
+              {/* Display Name */}
+              <div className="space-y-2">
+                <Label htmlFor="display-name">Nome de exibição</Label>
+                <Input
+                  id="display-name"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  placeholder="Digite seu nome"
+                  className="rounded-xl"
+                />
+              </div>
+
+              {/* Bio */}
+              <div className="space-y-2">
+                <Label htmlFor="bio">Bio</Label>
+                <Textarea
+                  id="bio"
+                  value={bio}
+                  onChange={(e) => setBio(e.target.value)}
+                  placeholder="Conte um pouco sobre você..."
+                  rows={3}
+                  className="rounded-xl resize-none"
+                  maxLength={150}
+                />
+                <p className="text-xs text-muted-foreground text-right">
+                  {bio.length}/150
+                </p>
+              </div>
+
+              {/* Private Account */}
+              <div className="flex items-center justify-between p-3 rounded-xl border border-border">
+                <div className="flex items-start space-x-2">
+                  <Lock className="w-4 h-4 text-muted-foreground mt-0.5" />
+                  <div>
+                    <Label htmlFor="private-account" className="text-sm font-normal">Conta privada</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Só seguidores aprovados veem seus posts, stories e seguidores
+                    </p>
+                  </div>
+                </div>
+                <Switch
+                  id="private-account"
+                  checked={isPrivate}
+                  onCheckedChange={setIsPrivate}
+                />
+              </div>
+
+              {/* Close Friends */}
+              <button
+                type="button"
+                onClick={() => setShowCloseFriends(true)}
+                className="w-full flex items-center justify-between p-3 rounded-xl border border-border hover:bg-muted/50 transition-colors"
+              >
+                <span className="flex items-center space-x-2 text-sm">
+                  <Star className="w-4 h-4 text-green-500" />
+                  <span>Amigos Próximos</span>
+                </span>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </button>
+
+              {/* Blocked Accounts */}
+              <button
+                type="button"
+                onClick={() => setShowBlockedAccounts(true)}
+                className="w-full flex items-center justify-between p-3 rounded-xl border border-border hover:bg-muted/50 transition-colors"
               >
-                <X className="w-4 h-4 mr-1" />
-                Remover foto
-              </Button>
-            )}
-          </div>
-
-          {/* Display Name */}
-          <div className="space-y-2">
-            <Label htmlFor="display-name">Nome de exibição</Label>
-            <Input
-              id="display-name"
-              value={displayName}
-              onChange={(e) => setDisplayName(e.target.value)}
-              placeholder="Digite seu nome"
-              className="rounded-xl"
-            />
-          </div>
-
-          {/* Bio */}
-          <div className="space-y-2">
-            <Label htmlFor="bio">Bio</Label>
-            <Textarea
-              id="bio"
-              value={bio}
-              onChange={(e) => setBio(e.target.value)}
-              placeholder="Conte um pouco sobre você..."
-              rows={3}
-              className="rounded-xl resize-none"
-              maxLength={150}
-            />
-            <p className="text-xs text-muted-foreground text-right">
-              {bio.length}/150
-            </p>
-          </div>
-
-          {/* Action Buttons */}
-          <div className="flex space-x-3 pt-4">
-            <Button
-              variant="outline"
-              onClick={() => onOpenChange(false)}
-              className="flex-1 rounded-xl"
-              disabled={loading}
-            >
-              Cancelar
-            </Button>
-            <Button
-              onClick={handleSave}
-              className="flex-1 rounded-xl magic-button"
-              disabled={loading}
-            >
-              {loading ? 'Salvando...' : 'Salvar'}
-            </Button>
-          </div>
-        </div>
+                <span className="flex items-center space-x-2 text-sm">
+                  <Ban className="w-4 h-4 text-muted-foreground" />
+                  <span>Contas bloqueadas e silenciadas</span>
+                </span>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </button>
+
+              {/* Action Buttons */}
+              <div className="flex space-x-3 pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
+                  className="flex-1 rounded-xl"
+                  disabled={loading}
+                >
+                  Cancelar
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  className="flex-1 rounded-xl magic-button"
+                  disabled={loading}
+                >
+                  {loading ? 'Salvando...' : 'Salvar'}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
 
         <ImageCropper
           open={cropperOpen}
@@ -16,6 +16,7 @@ import {
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfileNavigation } from '@/hooks/useProfileNavigation';
+import { useFollowRequests } from '@/hooks/useFollowRequests';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import ProfileChat from '@/components/ProfileChat';
@@ -38,6 +39,7 @@ const ProfileNavigator = ({ isOpen, onClose, initialUserId, initialUsername }: P
     isLoading,
     cacheConversation,
   } = useProfileNavigation();
+  const { requestedIds, followUser, cancelFollowRequest } = useFollowRequests();
   
   const [isFollowing, setIsFollowing] = useState(false);
   const [followLoading, setFollowLoading] = useState(false);
@@ -109,7 +111,9 @@ const ProfileNavigator = ({ isOpen, onClose, initialUserId, initialUsername }: P
 
     setFollowLoading(true);
     try {
-      if (isFollowing) {
+      if (requestedIds.has(currentProfile.id)) {
+        await cancelFollowRequest(currentProfile.id);
+      } else if (isFollowing) {
         const { error } = await supabase
           .from('follows')
           .delete()
@@ -119,15 +123,8 @@ const ProfileNavigator = ({ isOpen, onClose, initialUserId, initialUsername }: P
         if (error) throw error;
         setIsFollowing(false);
       } else {
-        const { error } = await supabase
-          .from('follows')
-          .insert({
-            follower_id: user.id,
-            following_id: currentProfile.id,
-          });
-
-        if (error) throw error;
-        setIsFollowing(true);
+        const result = await followUser(currentProfile.id);
+        setIsFollowing(result === 'following');
       }
     } catch (error) {
       console.error('Error following/unfollowing:', error);
@@ -275,7 +272,7 @@ const ProfileNavigator = ({ isOpen, onClose, initialUserId, initialUsername }: P
                           onClick={handleFollow}
                           disabled={followLoading}
                           className={`w-full rounded-xl ${
-                            isFollowing 
+                            isFollowing || requestedIds.has(currentProfile.id)
                               ? 'bg-muted text-foreground hover:bg-muted/80' 
                               : 'border-primary text-primary hover:bg-primary hover:text-primary-foreground'
                           }`}
@@ -285,10 +282,12 @@ const ProfileNavigator = ({ isOpen, onClose, initialUserId, initialUsername }: P
                             <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                           ) : isFollowing ? (
                             <UserMinus className="w-4 h-4 mr-2" />
+                          ) : requestedIds.has(currentProfile.id) ? (
+                            <Clock className="w-4 h-4 mr-2" />
                           ) : (
                             <UserPlus className="w-4 h-4 mr-2" />
                           )}
-                          {isFollowing ? 'Deixar de seguir' : 'Seguir'}
+                          {isFollowing ? 'Deixar de seguir' : requestedIds.has(currentProfile.id) ? 'Solicitado' : 'Seguir'}
                         </Button>
                       </div>
                     )}
@@ -1,143 +1,328 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { ArrowLeft, Send, Users, Keyboard } from 'lucide-react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { ArrowLeft, Send, Users, Keyboard, ChevronDown, Loader2, Reply, X, Timer, Check } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { useRealtimePublicChat } from '@/hooks/useRealtimePublicChat';
+import { usePublicChat, PublicMessage } from '@/hooks/usePublicChat';
+import { useBlockedUsers } from '@/hooks/useBlockedUsers';
+import { useLongPress } from '@/hooks/useLongPress';
 import { toast } from '@/hooks/use-toast';
 import MobileLayout from '@/components/MobileLayout';
 import TypingIndicator from '@/components/ui/TypingIndicator';
 import { ConnectionStatus } from '@/components/ui/ConnectionStatus';
 import VirtualKeyboard from '@/components/VirtualKeyboard';
-import { cn } from '@/lib/utils';
+import MediaUpload from '@/components/MediaUpload';
+import { MentionText } from '@/components/MentionText';
+import { MessageReply } from '@/components/MessageReply';
+import { MessageContextMenu } from '@/components/MessageContextMenu';
+import { PendingMessageStatus } from '@/components/PendingMessageStatus';
+import { cn, stripUserDigits } from '@/lib/utils';
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+const SLOW_MODE_OPTIONS = [
+  { seconds: 0, label: 'Desligado' },
+  { seconds: 5, label: '5 segundos' },
+  { seconds: 10, label: '10 segundos' },
+  { seconds: 30, label: '30 segundos' },
+  { seconds: 60, label: '1 minuto' },
+  { seconds: 300, label: '5 minutos' },
+];
 
 interface PublicChatProps {
   onBack: () => void;
 }
 
+const formatMessageTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('pt-BR', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const formatDateSeparator = (dateString: string) => {
+  const date = new Date(dateString);
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) {
+    return 'Hoje';
+  } else if (date.toDateString() === yesterday.toDateString()) {
+    return 'Ontem';
+  }
+  return date.toLocaleDateString('pt-BR', {
+    day: 'numeric',
+    month: 'long'
+  });
+};
+
+const shouldShowDateSeparator = (current: PublicMessage, previous?: PublicMessage) =>
+  !previous || new Date(current.created_at).toDateString() !== new Date(previous.created_at).toDateString();
+
+interface PublicMessageItemProps {
+  message: PublicMessage;
+  isOwnMessage: boolean;
+  onLongPress: () => void;
+}
+
+const PublicMessageItem = ({ message, isOwnMessage, onLongPress }: PublicMessageItemProps) => {
+  const navigate = useNavigate();
+  const longPressProps = useLongPress({ onLongPress, delay: 500 });
+
+  const openProfile = () => {
+    if (message.sender) navigate(`/user/${stripUserDigits(message.sender.username)}`);
+  };
+
+  return (
+    <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'} items-start space-x-2`}>
+      {!isOwnMessage && (
+        <Avatar
+          className="w-8 h-8 mt-1 cursor-pointer hover:opacity-80 transition-opacity"
+          onClick={openProfile}
+        >
+          <AvatarImage src={message.sender?.avatar_url || ''} />
+          <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-xs font-semibold">
+            {message.sender?.display_name?.[0] || '?'}
+          </AvatarFallback>
+        </Avatar>
+      )}
+
+      <div className={`max-w-[70%] ${isOwnMessage ? 'ml-auto' : ''}`}>
+        {!isOwnMessage && (
+          <p className="text-xs text-muted-foreground mb-1 px-1">
+            {message.sender ? stripUserDigits(message.sender.display_name) : 'Usuário'}
+          </p>
+        )}
+        <div
+          {...longPressProps}
+          className={cn(
+            'p-3 rounded-2xl select-none',
+            isOwnMessage ? 'bg-primary text-primary-foreground' : 'bg-muted'
+          )}
+        >
+          {message.replied_message && (
+            <MessageReply
+              originalMessage={message.replied_message}
+              senderInfo={message.replied_sender}
+              isOwnMessage={isOwnMessage}
+            />
+          )}
+
+          {message.media_url && (
+            <div className={cn(message.content && 'mb-2')}>
+              {message.media_type === 'video' ? (
+                <video
+                  src={message.media_url}
+                  controls
+                  className="max-w-full rounded-2xl shadow-lg"
+                  style={{ maxHeight: '240px' }}
+                  playsInline
+                />
+              ) : (
+                <img
+                  src={message.media_url}
+                  alt="Imagem compartilhada"
+                  className="max-w-full rounded-2xl shadow-lg"
+                  style={{ maxHeight: '240px' }}
+                />
+              )}
+            </div>
+          )}
+
+          {message.content && (
+            <MentionText text={message.content} className="text-sm leading-relaxed break-words" />
+          )}
+
+          <div className={`flex items-center justify-between gap-2 text-xs mt-1 ${
+            isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground'
+          }`}>
+            {formatMessageTime(message.created_at)}
+            {message.status && (
+              <PendingMessageStatus messageId={message.id} status={message.status} />
+            )}
+          </div>
+        </div>
+      </div>
+
+      {isOwnMessage && (
+        <Avatar className="w-8 h-8 mt-1">
+          <AvatarImage src={message.sender?.avatar_url || ''} />
+          <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-xs font-semibold">
+            {message.sender?.display_name?.[0] || '?'}
+          </AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+};
+
+// The public room everyone can join
 const PublicChat = ({ onBack }: PublicChatProps) => {
   const { user } = useAuth();
-  const { 
-    messages, 
-    typingUsers, 
-    loading, 
-    sending, 
-    sendMessage, 
-    sendTypingIndicator, 
+  const { isHidden } = useBlockedUsers();
+  const {
+    messages: allMessages,
+    typingUsers,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    sending,
+    sendMessage,
+    deleteMessage,
+    sendTypingIndicator,
     userProfile,
+    isStaff,
+    slowModeSeconds,
+    setSlowMode,
+    cooldownRemaining,
     connectionStatus,
     isOnline,
     reconnectAttempts,
     reconnectChannels
-  } = useRealtimePublicChat();
+  } = usePublicChat({ pageSize: 30 });
   const [newMessage, setNewMessage] = useState('');
   const [showVirtualKeyboard, setShowVirtualKeyboard] = useState(false);
   const [isNearBottom, setIsNearBottom] = useState(true);
-  const [hasInitialScrolled, setHasInitialScrolled] = useState(false);
+  const [selectedMessage, setSelectedMessage] = useState<PublicMessage | null>(null);
+  const [replyTo, setReplyTo] = useState<PublicMessage | null>(null);
+  const [showSlowModeSheet, setShowSlowModeSheet] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const isNearBottomRef = useRef(true);
+  // Height of the list before an older page was prepended, to keep the view in place
+  const heightBeforeLoadRef = useRef<number | null>(null);
+  const hasInitialScrolledRef = useRef(false);
 
-  const handleVirtualKeyPress = (key: string) => {
-    const newValue = newMessage + key;
-    setNewMessage(newValue);
-    handleMessageChange(newValue);
-  };
-
-  const handleVirtualBackspace = () => {
-    const newValue = newMessage.slice(0, -1);
-    setNewMessage(newValue);
-    handleMessageChange(newValue);
-  };
+  const messages = allMessages.filter(m => m.sender_id === user?.id || !isHidden(m.sender_id));
+  const firstMessageId = messages[0]?.id;
+  const lastMessageId = messages[messages.length - 1]?.id;
 
-  const handleVirtualSpace = () => {
-    const newValue = newMessage + ' ';
-    setNewMessage(newValue);
-    handleMessageChange(newValue);
-  };
-
-  // Check if user is near bottom of chat
-  const checkIfNearBottom = useCallback(() => {
-    const container = messagesContainerRef.current;
-    if (!container) return false;
-    
-    const { scrollTop, scrollHeight, clientHeight } = container;
-    const threshold = 100; // pixels from bottom
-    return scrollHeight - scrollTop - clientHeight < threshold;
+  const scrollToBottom = useCallback((smooth = true) => {
+    messagesEndRef.current?.scrollIntoView({ behavior: smooth ? 'smooth' : 'auto', block: 'end' });
   }, []);
 
-  // Handle scroll events
   const handleScroll = useCallback(() => {
-    setIsNearBottom(checkIfNearBottom());
-  }, [checkIfNearBottom]);
+    const container = messagesContainerRef.current;
+    if (!container) return;
 
-  // Load messages at bottom position - aparece diretamente no final, sem movimento
-  useEffect(() => {
-    if (messages.length > 0 && !loading && !hasInitialScrolled && messagesEndRef.current) {
-      // Posicionar no final instantaneamente, sem qualquer efeito
-      messagesEndRef.current.scrollIntoView({ behavior: 'auto', block: 'end' });
-      setHasInitialScrolled(true);
+    const { scrollTop, scrollHeight, clientHeight } = container;
+    const nearBottom = scrollHeight - scrollTop - clientHeight < 100;
+    isNearBottomRef.current = nearBottom;
+    setIsNearBottom(nearBottom);
+
+    if (scrollTop < 100 && hasMore && !loadingMore && !loading) {
+      heightBeforeLoadRef.current = scrollHeight;
+      loadMore();
     }
-  }, [messages.length, loading, hasInitialScrolled]);
+  }, [hasMore, loadingMore, loading, loadMore]);
 
-  // Removed auto-scroll to keep chat position fixed
+  // Older page prepended: push the scroll down by what was added so nothing jumps
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container || heightBeforeLoadRef.current === null) return;
 
-  // Removed scrollToBottom function to prevent auto-scroll
+    container.scrollTop += container.scrollHeight - heightBeforeLoadRef.current;
+    heightBeforeLoadRef.current = null;
+  }, [firstMessageId]);
 
-  const handleSendMessage = async () => {
-    if (!newMessage.trim() || sending || !user || !userProfile) return;
+  // Open at the newest message, then follow new ones only while the reader is at the bottom
+  useEffect(() => {
+    if (loading || !lastMessageId) return;
 
-    // Clear typing status before sending
-    await sendTypingIndicator(false, userProfile.display_name);
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
+    if (!hasInitialScrolledRef.current) {
+      scrollToBottom(false);
+      hasInitialScrolledRef.current = true;
+      return;
     }
 
-    try {
-      await sendMessage(newMessage);
-      setNewMessage('');
-    } catch (error) {
-      // Error handling is done in the hook
+    if (isNearBottomRef.current) scrollToBottom();
+  }, [loading, lastMessageId, scrollToBottom]);
+
+  const stopTyping = async () => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
     }
+    if (userProfile) await sendTypingIndicator(false, userProfile.display_name);
   };
 
   const handleMessageChange = async (value: string) => {
     setNewMessage(value);
-    
+
     if (!userProfile) return;
 
-    // Send typing status when user starts typing
     if (value.trim() && !typingTimeoutRef.current) {
       await sendTypingIndicator(true, userProfile.display_name);
     }
 
-    // Clear existing timeout
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
 
-    // Set timeout to stop typing indicator
     if (value.trim()) {
       typingTimeoutRef.current = setTimeout(async () => {
         await sendTypingIndicator(false, userProfile.display_name);
         typingTimeoutRef.current = null;
-      }, 2000); // Stop typing after 2 seconds of inactivity
+      }, 2000);
     } else {
-      // Immediately stop typing if input is empty
-      await sendTypingIndicator(false, userProfile.display_name);
-      typingTimeoutRef.current = null;
+      await stopTyping();
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
+  const handleVirtualKeyPress = (key: string) => {
+    if (newMessage.length >= MAX_MESSAGE_LENGTH) return;
+    handleMessageChange(newMessage + key);
+  };
+
+  const handleVirtualBackspace = () => {
+    handleMessageChange(newMessage.slice(0, -1));
+  };
+
+  const handleVirtualSpace = () => {
+    if (newMessage.length >= MAX_MESSAGE_LENGTH) return;
+    handleMessageChange(newMessage + ' ');
+  };
+
+  const handleSendMessage = async () => {
+    if (!newMessage.trim() || sending || !user) return;
+
+    await stopTyping();
+
+    try {
+      await sendMessage(newMessage, { repliedToMessageId: replyTo?.id });
+      setNewMessage('');
+      setReplyTo(null);
+      isNearBottomRef.current = true;
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  const handleMediaSelected = async (url: string, type: 'image' | 'video') => {
+    try {
+      await sendMessage('', { mediaUrl: url, mediaType: type, repliedToMessageId: replyTo?.id });
+      setReplyTo(null);
+      isNearBottomRef.current = true;
+    } catch (error) {
+      // Error handling is done in the hook
     }
   };
 
+  const handleMention = (message: PublicMessage) => {
+    if (!message.sender) return;
+
+    const mention = `@${stripUserDigits(message.sender.username)} `;
+    const separator = newMessage && !newMessage.endsWith(' ') ? ' ' : '';
+    handleMessageChange((newMessage + separator + mention).slice(0, MAX_MESSAGE_LENGTH));
+    setShowVirtualKeyboard(true);
+  };
+
   // Cleanup typing timeout on unmount
   useEffect(() => {
     return () => {
@@ -147,45 +332,16 @@ const PublicChat = ({ onBack }: PublicChatProps) => {
     };
   }, []);
 
-  const formatMessageTime = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleTimeString('pt-BR', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
-  };
-
-  const formatDateSeparator = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    if (date.toDateString() === today.toDateString()) {
-      return 'Hoje';
-    } else if (date.toDateString() === yesterday.toDateString()) {
-      return 'Ontem';
-    } else {
-      return date.toLocaleDateString('pt-BR', { 
-        day: 'numeric', 
-        month: 'long' 
-      });
-    }
-  };
-
-  const shouldShowDateSeparator = (currentMessage: any, previousMessage?: any) => {
-    if (!previousMessage) return true;
-    
-    const currentDate = new Date(currentMessage.created_at).toDateString();
-    const previousDate = new Date(previousMessage.created_at).toDateString();
-    
-    return currentDate !== previousDate;
-  };
+  const replySenderName = replyTo
+    ? replyTo.sender_id === user?.id
+      ? 'você'
+      : stripUserDigits(replyTo.sender?.display_name || 'Usuário')
+    : '';
 
   return (
     <MobileLayout>
       <div className={cn(
-        "flex flex-col h-screen transition-transform duration-300 ease-in-out",
+        "relative flex flex-col h-screen transition-transform duration-300 ease-in-out",
         showVirtualKeyboard && "-translate-y-[280px]"
       )}>
         {/* Header */}
@@ -201,33 +357,63 @@ const PublicChat = ({ onBack }: PublicChatProps) => {
                 >
                   <ArrowLeft className="w-4 h-4" />
                 </Button>
-                
+
                 <div className="w-12 h-12 rounded-full bg-gradient-to-br from-primary to-accent flex items-center justify-center">
                   <Users className="w-7 h-7 text-white" />
                 </div>
-                
+
                 <div>
                   <h2 className="font-semibold text-xl">Pousada teste</h2>
-                  <p className="text-sm text-muted-foreground">Chat da pousada - Todos podem participar</p>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    {slowModeSeconds > 0 ? (
+                      <>
+                        <Timer className="w-3 h-3" />
+                        Modo lento: 1 mensagem a cada {slowModeSeconds}s
+                      </>
+                    ) : (
+                      'Chat da pousada - Todos podem participar'
+                    )}
+                  </p>
                 </div>
               </div>
-              
-              <ConnectionStatus
-                status={connectionStatus}
-                isOnline={isOnline}
-                reconnectAttempts={reconnectAttempts}
-                onReconnect={reconnectChannels}
-              />
+
+              <div className="flex items-center gap-2">
+                {isStaff && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-8 h-8 p-0"
+                    onClick={() => setShowSlowModeSheet(true)}
+                  >
+                    <Timer className="w-4 h-4" />
+                  </Button>
+                )}
+                <ConnectionStatus
+                  status={connectionStatus}
+                  isOnline={isOnline}
+                  reconnectAttempts={reconnectAttempts}
+                  onReconnect={reconnectChannels}
+                />
+              </div>
             </div>
           </CardHeader>
         </Card>
 
         {/* Messages */}
-        <div 
+        <div
           ref={messagesContainerRef}
-          className="flex-1 overflow-y-auto p-4 space-y-4"
+          className="relative flex-1 overflow-y-auto p-4"
           onScroll={handleScroll}
         >
+          {loadingMore && (
+            <div className="flex justify-center py-4">
+              <div className="flex items-center space-x-2 text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span className="text-sm">Carregando mensagens antigas...</span>
+              </div>
+            </div>
+          )}
+
           {loading ? (
             <div className="space-y-4">
               {[...Array(5)].map((_, i) => (
@@ -240,78 +426,94 @@ const PublicChat = ({ onBack }: PublicChatProps) => {
                 </div>
               ))}
             </div>
+          ) : messages.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-center py-12">
+              <Users className="w-16 h-16 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Nenhuma mensagem ainda</h3>
+              <p className="text-muted-foreground">Seja o primeiro a enviar uma mensagem!</p>
+            </div>
           ) : (
-            <>
-              {messages.map((message, index) => {
-                const previousMessage = messages[index - 1];
-                const isOwnMessage = message.sender_id === user?.id;
-                const showDateSeparator = shouldShowDateSeparator(message, previousMessage);
-
-                return (
-                  <div key={message.id}>
-                    {showDateSeparator && (
-                      <div className="flex justify-center my-4">
-                        <span className="bg-muted px-3 py-1 rounded-full text-xs text-muted-foreground">
-                          {formatDateSeparator(message.created_at)}
-                        </span>
-                      </div>
-                    )}
-                    
-                    <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'} items-start space-x-2`}>
-                      {!isOwnMessage && (
-                        <Avatar className="w-8 h-8 mt-1">
-                          <AvatarImage src={message.sender?.avatar_url || ''} />
-                          <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-xs font-semibold">
-                            {message.sender?.display_name?.[0] || '?'}
-                          </AvatarFallback>
-                        </Avatar>
-                      )}
-                      
-                      <div className={`max-w-[70%] ${isOwnMessage ? 'ml-auto' : ''}`}>
-                        {!isOwnMessage && (
-                          <p className="text-xs text-muted-foreground mb-1 px-1">
-                            {message.sender?.display_name || 'Usuário'}
-                          </p>
-                        )}
-                        <div className={`p-3 rounded-2xl ${
-                          isOwnMessage 
-                            ? 'bg-primary text-primary-foreground' 
-                            : 'bg-muted'
-                        }`}>
-                          <p className="text-sm leading-relaxed">{message.content}</p>
-                          <div className={`text-xs mt-1 ${
-                            isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground'
-                          }`}>
-                            {formatMessageTime(message.created_at)}
-                          </div>
-                        </div>
-                      </div>
-                      
-                      {isOwnMessage && (
-                        <Avatar className="w-8 h-8 mt-1">
-                          <AvatarImage src={userProfile?.avatar_url || ''} />
-                          <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-xs font-semibold">
-                            {userProfile?.display_name?.[0] || '?'}
-                          </AvatarFallback>
-                        </Avatar>
-                      )}
+            <div className="space-y-4">
+              {messages.map((message, index) => (
+                <div key={message.id}>
+                  {shouldShowDateSeparator(message, messages[index - 1]) && (
+                    <div className="flex justify-center my-4">
+                      <span className="bg-muted px-3 py-1 rounded-full text-xs text-muted-foreground">
+                        {formatDateSeparator(message.created_at)}
+                      </span>
                     </div>
-                  </div>
-                );
-              })}
-              
-              {/* Enhanced Typing Indicator */}
+                  )}
+
+                  <PublicMessageItem
+                    message={message}
+                    isOwnMessage={message.sender_id === user?.id}
+                    onLongPress={() => {
+                      if (!message.status) setSelectedMessage(message);
+                    }}
+                  />
+                </div>
+              ))}
+
               <TypingIndicator typingUsers={typingUsers} className="bg-muted/50 rounded-lg mx-4" />
-              
-              <div ref={messagesEndRef} />
-            </>
+            </div>
           )}
+
+          <div ref={messagesEndRef} />
         </div>
 
+        {!isNearBottom && !loading && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => scrollToBottom()}
+            className="absolute right-4 bottom-28 z-10 rounded-full w-9 h-9 p-0 shadow-md"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+        )}
+
         {/* Input */}
         <Card className="card-shadow border-0 rounded-none">
-          <CardContent className="p-4">
+          <CardContent className="p-4 space-y-3">
+            {replyTo && (
+              <div className="p-3 rounded-2xl bg-gradient-to-r from-muted/50 to-muted/30 border border-muted-foreground/20">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Reply className="w-3 h-3 text-primary" />
+                      <p className="text-xs font-semibold text-primary">
+                        Respondendo a {replySenderName}
+                      </p>
+                    </div>
+                    <p className="text-sm text-foreground/80 line-clamp-2 pl-5">
+                      {replyTo.content || (replyTo.media_type === 'video' ? '🎥 Vídeo' : '📷 Imagem')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setReplyTo(null)}
+                    className="w-8 h-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {cooldownRemaining > 0 && (
+              <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+                <Timer className="w-3 h-3" />
+                Modo lento: você poderá enviar outra mensagem em {cooldownRemaining}s
+              </p>
+            )}
+
             <div className="flex items-center space-x-2">
+              <MediaUpload
+                onMediaSelected={handleMediaSelected}
+                disabled={sending || cooldownRemaining > 0}
+              />
+
               <Input
                 value={newMessage}
                 readOnly
@@ -320,7 +522,7 @@ const PublicChat = ({ onBack }: PublicChatProps) => {
                 className="flex-1 rounded-full border-0 bg-muted/50 cursor-pointer"
                 disabled={sending}
               />
-              
+
               <Button
                 variant="ghost"
                 size="sm"
@@ -329,21 +531,31 @@ const PublicChat = ({ onBack }: PublicChatProps) => {
               >
                 <Keyboard className="w-4 h-4" />
               </Button>
-              
+
               <Button
                 onClick={(e) => {
                   e.preventDefault();
                   e.stopPropagation();
                   handleSendMessage();
                 }}
-                disabled={!newMessage.trim() || sending}
+                disabled={!newMessage.trim() || sending || cooldownRemaining > 0}
                 size="sm"
                 className="rounded-full w-9 h-9 p-0"
                 type="button"
               >
-                <Send className="w-4 h-4" />
+                {sending ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4" />
+                )}
               </Button>
             </div>
+
+            {newMessage.length > 800 && (
+              <p className="text-xs text-muted-foreground text-right">
+                {newMessage.length}/{MAX_MESSAGE_LENGTH} caracteres
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -360,8 +572,57 @@ const PublicChat = ({ onBack }: PublicChatProps) => {
           </div>
         )}
       </div>
+
+      {selectedMessage && (
+        <MessageContextMenu
+          isOpen={!!selectedMessage}
+          onClose={() => setSelectedMessage(null)}
+          onReply={() => setReplyTo(selectedMessage)}
+          onCopy={() => toast({ title: "Texto copiado" })}
+          onMention={selectedMessage.sender_id !== user?.id ? () => handleMention(selectedMessage) : undefined}
+          onDelete={() => deleteMessage(selectedMessage.id)}
+          canDelete={isStaff}
+          messageText={selectedMessage.content || ''}
+        />
+      )}
+
+      {/* Slow mode, staff only */}
+      <Sheet open={showSlowModeSheet} onOpenChange={setShowSlowModeSheet}>
+        <SheetContent side="bottom" className="h-auto rounded-t-3xl border-0 bg-background p-0">
+          <div className="p-6">
+            <SheetHeader className="mb-4">
+              <div className="flex items-center justify-center">
+                <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+              </div>
+              <SheetTitle className="text-center text-lg font-semibold mt-3">
+                Modo lento
+              </SheetTitle>
+              <SheetDescription className="text-center">
+                Tempo mínimo entre duas mensagens da mesma pessoa. Moderadores não são afetados.
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-2">
+              {SLOW_MODE_OPTIONS.map(option => (
+                <Button
+                  key={option.seconds}
+                  variant="ghost"
+                  className="w-full justify-between h-12"
+                  onClick={async () => {
+                    await setSlowMode(option.seconds);
+                    setShowSlowModeSheet(false);
+                  }}
+                >
+                  {option.label}
+                  {slowModeSeconds === option.seconds && <Check className="w-4 h-4 text-primary" />}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </SheetContent>
+      </Sheet>
     </MobileLayout>
   );
 };
 
-export default PublicChat;
\ No newline at end of file
+export default PublicChat;
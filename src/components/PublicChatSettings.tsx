@@ -7,20 +7,34 @@ import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
 import { Globe, User, Calendar, Users, Plus, MoreHorizontal, Check, X, Edit, Camera, Upload, Trash2, UserPlus, Palette, LogOut } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { WallpaperSettings } from '@/components/WallpaperSettings';
+import { ParticipantActionsMenu, ParticipantRoleBadge } from '@/components/ParticipantActionsMenu';
+import { ConversationInvitesSection } from '@/components/ConversationInvitesSection';
+import { SharedMediaSection } from '@/components/SharedMediaSection';
 import { useAuth } from '@/hooks/useAuth';
 import { stripUserDigits } from '@/lib/utils';
+import {
+  ConversationRole,
+  hasConversationPermission,
+  muteConversationMember,
+  ParticipantAction,
+  setConversationRole,
+  toConversationRole,
+} from '@/lib/conversationRoles';
 
 
 interface PublicChatSettingsProps {
   isOpen: boolean;
   onClose: () => void;
   conversationId: string;
+  // Shows a message picked in the shared media; the settings close first
+  onOpenMessage: (messageId: string) => void;
 }
 
 interface User {
@@ -36,10 +50,13 @@ interface ChatInfo {
   creatorName: string;
   creatorAvatar?: string;
   createdAt: string;
+  membersCanPin: boolean;
 }
 
 interface Participant {
   user_id: string;
+  role: ConversationRole;
+  muted_until: string | null;
   profiles?: {
     id: string;
     display_name: string;
@@ -55,7 +72,7 @@ interface Profile {
   avatar_url?: string;
 }
 
-export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicChatSettingsProps) => {
+export const PublicChatSettings = ({ isOpen, onClose, conversationId, onOpenMessage }: PublicChatSettingsProps) => {
   const { user } = useAuth();
   const [chatInfo, setChatInfo] = useState<ChatInfo | null>(null);
   const [participants, setParticipants] = useState<Participant[]>([]);
@@ -78,6 +95,10 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
     value: string;
   } | null>(null);
 
+  const myRole = participants.find(p => p.user_id === user?.id)?.role ?? null;
+  const canEditInfo = hasConversationPermission(myRole, 'edit_info');
+  const canManageParticipants = hasConversationPermission(myRole, 'manage_participants');
+
   useEffect(() => {
     if (isOpen && conversationId) {
       fetchChatInfo();
@@ -123,6 +144,7 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
           photo_url,
           creator_id,
           created_at,
+          members_can_pin,
           profiles!conversations_creator_id_fkey (
             display_name,
             avatar_url
@@ -140,7 +162,8 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
           creatorId: conversation.creator_id || '',
           creatorName: conversation.profiles.display_name || 'Usuário',
           creatorAvatar: conversation.profiles.avatar_url || '',
-          createdAt: conversation.created_at
+          createdAt: conversation.created_at,
+          membersCanPin: conversation.members_can_pin
         });
         setChatPhoto(conversation.photo_url);
       }
@@ -156,7 +179,7 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
       // First get participants
       const { data: participantsData, error: participantsError } = await supabase
         .from('conversation_participants')
-        .select('user_id')
+        .select('user_id, role, muted_until')
         .eq('conversation_id', conversationId);
 
       if (participantsError) throw participantsError;
@@ -174,6 +197,8 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
         // Combine the data
         const combinedData = participantsData.map(participant => ({
           user_id: participant.user_id,
+          role: toConversationRole(participant.role),
+          muted_until: participant.muted_until,
           profiles: profilesData?.find(profile => profile.id === participant.user_id)
         }));
 
@@ -264,6 +289,28 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
     setChatPhoto(null);
   };
 
+  const handleMembersCanPinChange = async (membersCanPin: boolean) => {
+    if (!chatInfo) return;
+
+    setChatInfo({ ...chatInfo, membersCanPin });
+    try {
+      const { error } = await supabase
+        .from('conversations')
+        .update({ members_can_pin: membersCanPin })
+        .eq('id', conversationId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating pin permission:', error);
+      setChatInfo({ ...chatInfo, membersCanPin: !membersCanPin });
+      toast({
+        title: "Erro",
+        description: "Não foi possível alterar quem pode fixar mensagens.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSaveInfo = async () => {
     if (!chatInfo || !editName.trim()) return;
 
@@ -361,6 +408,61 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
     }
   };
 
+  const handleParticipantAction = async (participant: Participant, action: ParticipantAction) => {
+    const participantName = stripUserDigits(participant.profiles?.display_name || 'Usuário');
+
+    try {
+      switch (action.type) {
+        case 'remove': {
+          const { error } = await supabase
+            .from('conversation_participants')
+            .delete()
+            .eq('conversation_id', conversationId)
+            .eq('user_id', participant.user_id);
+
+          if (error) throw error;
+
+          toast({
+            title: "Sucesso",
+            description: "Participante removido do chat.",
+          });
+          break;
+        }
+        case 'promote':
+        case 'demote': {
+          const promoted = action.type === 'promote';
+          await setConversationRole(conversationId, participant.user_id, promoted ? 'admin' : 'member');
+
+          toast({
+            title: "Sucesso",
+            description: promoted ? `${participantName} agora é admin.` : `${participantName} voltou a ser membro.`,
+          });
+          break;
+        }
+        case 'mute':
+        case 'unmute':
+          await muteConversationMember(conversationId, participant.user_id, action.type === 'mute' ? action.minutes : 0);
+
+          toast({
+            title: "Sucesso",
+            description: action.type === 'mute'
+              ? `${participantName} foi silenciado.`
+              : `${participantName} pode enviar mensagens novamente.`,
+          });
+          break;
+      }
+
+      fetchParticipants();
+    } catch (error) {
+      console.error('Error updating participant:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível concluir a ação.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleLeaveChat = async () => {
     if (!user) return;
     
@@ -374,16 +476,6 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
 
       if (error) throw error;
 
-      // Send system message that user left
-      await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: user.id,
-          content: `👋 ${stripUserDigits(user.display_name || 'Usuário')} deixou a conversa`,
-          message_type: 'system'
-        });
-
       toast({
         title: "Você saiu do chat",
         description: "Você foi removido do chat público.",
@@ -442,8 +534,8 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
                 <div className="text-center">
                   <div className="flex items-center justify-center gap-2">
                     <h2 className="text-xl font-semibold">{chatInfo.name}</h2>
-                    {/* Settings Menu - Only for creator */}
-                    {chatInfo && user?.id === chatInfo.creatorId && (
+                    {/* Settings Menu - Only for owner and admins */}
+                    {chatInfo && canEditInfo && (
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                           <Button
@@ -592,13 +684,28 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
               )}
             </div>
 
+            {/* Group permissions - Only for group owner and admins */}
+            {canEditInfo && (
+              <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                <div>
+                  <label htmlFor="members-can-pin" className="text-sm font-medium">Membros podem fixar mensagens</label>
+                  <p className="text-xs text-muted-foreground">Donos e admins sempre podem fixar</p>
+                </div>
+                <Switch
+                  id="members-can-pin"
+                  checked={chatInfo.membersCanPin}
+                  onCheckedChange={handleMembersCanPinChange}
+                />
+              </div>
+            )}
+
             <Separator />
 
             {/* Quick Actions - Modern Card Layout */}
             <div className="space-y-3">
               <h3 className="text-sm font-medium">Ações</h3>
               
-              <div className="grid grid-cols-2 gap-3">
+              <div className={`grid ${canManageParticipants ? 'grid-cols-2' : 'grid-cols-1'} gap-3`}>
                 <Button
                   variant="outline"
                   className="h-16 flex flex-col gap-1 text-xs"
@@ -608,22 +715,34 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
                   <span>Papel de Parede</span>
                 </Button>
                 
-                <Button
-                  variant="outline"
-                  className="h-16 flex flex-col gap-1 text-xs"
-                  onClick={() => {
-                    setShowAddUsers(true);
-                    fetchAvailableUsers();
-                  }}
-                >
-                  <UserPlus className="w-5 h-5 text-green-500" />
-                  <span>Adicionar Pessoas</span>
-                </Button>
+                {canManageParticipants && (
+                  <Button
+                    variant="outline"
+                    className="h-16 flex flex-col gap-1 text-xs"
+                    onClick={() => {
+                      setShowAddUsers(true);
+                      fetchAvailableUsers();
+                    }}
+                  >
+                    <UserPlus className="w-5 h-5 text-green-500" />
+                    <span>Adicionar Pessoas</span>
+                  </Button>
+                )}
               </div>
             </div>
 
             <Separator />
 
+            <SharedMediaSection
+              conversationId={conversationId}
+              onOpenMessage={(messageId) => {
+                onClose();
+                onOpenMessage(messageId);
+              }}
+            />
+
+            <Separator />
+
             {/* Creator Info */}
             <div className="space-y-3">
               <h3 className="text-sm font-medium flex items-center gap-2">
@@ -659,18 +778,20 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
                 </h3>
                 
                 {/* Add participants button */}
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => {
-                    setShowAddUsers(true);
-                    fetchAvailableUsers();
-                  }}
-                  className="h-8 px-3"
-                >
-                  <UserPlus className="w-4 h-4 mr-1" />
-                  Adicionar
-                </Button>
+                {canManageParticipants && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setShowAddUsers(true);
+                      fetchAvailableUsers();
+                    }}
+                    className="h-8 px-3"
+                  >
+                    <UserPlus className="w-4 h-4 mr-1" />
+                    Adicionar
+                  </Button>
+                )}
               </div>
                
               {/* Participant list - Show only first 5 */}
@@ -695,16 +816,21 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium truncate">
                             {stripUserDigits(participant.profiles?.display_name || 'Usuário')}
-                            {participant.user_id === chatInfo.creatorId && (
-                              <span className="ml-2 text-xs bg-primary/20 text-primary px-2 py-1 rounded-full">
-                                Criador
-                              </span>
-                            )}
+                            <ParticipantRoleBadge role={participant.role} mutedUntil={participant.muted_until} />
                           </p>
                           <p className="text-xs text-muted-foreground truncate">
                             @{stripUserDigits(participant.profiles?.username || 'unknown')}
                           </p>
                         </div>
+                        {participant.user_id !== user?.id && (
+                          <ParticipantActionsMenu
+                            name={stripUserDigits(participant.profiles?.display_name || 'Usuário')}
+                            role={participant.role}
+                            mutedUntil={participant.muted_until}
+                            myRole={myRole}
+                            onAction={(action) => handleParticipantAction(participant, action)}
+                          />
+                        )}
                       </div>
                     ))}
                     
@@ -727,10 +853,23 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
 
             <Separator />
 
+            {/* Invite links - Only for those who can add people */}
+            {canManageParticipants && (
+              <>
+                <ConversationInvitesSection
+                  conversationId={conversationId}
+                  isPublic
+                  onMembersChanged={fetchParticipants}
+                />
+
+                <Separator />
+              </>
+            )}
+
             {/* Footer Actions - Movidos para dentro do scroll */}
             <div className="space-y-3">
-              {/* Leave Chat Button - For all participants except creator */}
-              {chatInfo && user?.id !== chatInfo.creatorId && (
+              {/* Leave Chat Button - For all participants */}
+              {chatInfo && myRole && (
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
                     <Button variant="destructive" size="sm" className="w-full">
@@ -743,6 +882,7 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
                       <AlertDialogTitle>Sair do Chat Público</AlertDialogTitle>
                       <AlertDialogDescription>
                         Você será removido deste chat e não receberá mais notificações. Pode entrar novamente a qualquer momento.
+                        {myRole === 'owner' && " Um admin (ou o membro mais antigo) passará a ser o dono do chat."}
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
@@ -759,8 +899,8 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
                 </AlertDialog>
               )}
 
-              {/* Delete Chat Button - Only for creator */}
-              {chatInfo && user?.id === chatInfo.creatorId && (
+              {/* Delete Chat Button - Only for owner */}
+              {chatInfo && myRole === 'owner' && (
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
                     <Button variant="destructive" size="sm" className="w-full">
@@ -940,16 +1080,21 @@ export const PublicChatSettings = ({ isOpen, onClose, conversationId }: PublicCh
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium truncate">
                             {stripUserDigits(participant.profiles?.display_name || 'Usuário')}
-                            {participant.user_id === chatInfo.creatorId && (
-                              <span className="ml-2 text-xs bg-primary/20 text-primary px-2 py-1 rounded-full">
-                                Criador
-                              </span>
-                            )}
+                            <ParticipantRoleBadge role={participant.role} mutedUntil={participant.muted_until} />
                           </p>
                           <p className="text-xs text-muted-foreground truncate">
                             @{stripUserDigits(participant.profiles?.username || 'unknown')}
                           </p>
                         </div>
+                        {participant.user_id !== user?.id && (
+                          <ParticipantActionsMenu
+                            name={stripUserDigits(participant.profiles?.display_name || 'Usuário')}
+                            role={participant.role}
+                            mutedUntil={participant.muted_until}
+                            myRole={myRole}
+                            onAction={(action) => handleParticipantAction(participant, action)}
+                          />
+                        )}
                       </div>
                     ))
                   }
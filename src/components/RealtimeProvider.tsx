@@ -0,0 +1,30 @@
+import { ReactNode, useEffect, useSyncExternalStore } from 'react';
+import { RealtimeContext } from '@/hooks/useRealtime';
+import {
+  getRealtimeSnapshot,
+  onRealtimeStatusChange,
+  reconnectRealtime,
+  refreshRealtimeStatus,
+} from '@/lib/realtime';
+
+// Mounted once for the whole app: publishes the shared connection status and reopens
+// dropped channels as soon as the browser is back online
+export const RealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const snapshot = useSyncExternalStore(onRealtimeStatusChange, getRealtimeSnapshot);
+
+  useEffect(() => {
+    window.addEventListener('online', reconnectRealtime);
+    window.addEventListener('offline', refreshRealtimeStatus);
+
+    return () => {
+      window.removeEventListener('online', reconnectRealtime);
+      window.removeEventListener('offline', refreshRealtimeStatus);
+    };
+  }, []);
+
+  return (
+    <RealtimeContext.Provider value={{ ...snapshot, reconnect: reconnectRealtime }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
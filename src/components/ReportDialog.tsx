@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Flag } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { REPORT_REASON_LABELS, REPORT_TARGET_LABELS, ReportReason, ReportTargetType } from '@/lib/moderation';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+export const ReportDialog = ({ open, onOpenChange, targetType, targetId }: ReportDialogProps) => {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setReason('');
+      setDetails('');
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !reason || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('reports')
+        .insert({
+          reporter_id: user.id,
+          target_type: targetType,
+          target_id: targetId,
+          reason,
+          details: details.trim() || null,
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast({
+            title: "Denúncia já enviada",
+            description: "Você já denunciou este conteúdo. Nossa equipe vai analisá-lo.",
+          });
+          handleOpenChange(false);
+          return;
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Denúncia enviada",
+        description: "Obrigado! Você será notificado quando a moderação analisar.",
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error submitting report:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível enviar a denúncia.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent side="bottom" className="h-auto max-h-[90vh] overflow-y-auto rounded-t-3xl border-0 bg-background p-0">
+        <div className="p-6">
+          <SheetHeader className="mb-4">
+            <div className="flex items-center justify-center">
+              <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+            </div>
+            <SheetTitle className="text-center text-lg font-semibold mt-3">
+              Denunciar {REPORT_TARGET_LABELS[targetType].toLowerCase()}
+            </SheetTitle>
+            <SheetDescription className="text-center">
+              Sua denúncia é anônima. Por que você está denunciando?
+            </SheetDescription>
+          </SheetHeader>
+
+          <RadioGroup
+            value={reason}
+            onValueChange={(value) => setReason(value as ReportReason)}
+            className="space-y-1"
+          >
+            {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map((key) => (
+              <Label
+                key={key}
+                htmlFor={`report-reason-${key}`}
+                className="flex items-center gap-3 h-12 px-3 rounded-xl hover:bg-muted/50 cursor-pointer font-normal"
+              >
+                <RadioGroupItem value={key} id={`report-reason-${key}`} />
+                {REPORT_REASON_LABELS[key]}
+              </Label>
+            ))}
+          </RadioGroup>
+
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Detalhes adicionais (opcional)"
+            maxLength={500}
+            className="mt-4 rounded-xl resize-none"
+            rows={3}
+          />
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!reason || submitting}
+            className="w-full mt-4 h-12 rounded-xl"
+            variant="destructive"
+          >
+            {submitting ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+            ) : (
+              <Flag className="w-4 h-4 mr-2" />
+            )}
+            Enviar denúncia
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
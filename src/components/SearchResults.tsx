@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { FileText, MessageSquare, Search, Users, Video } from 'lucide-react';
+import HighlightedText from '@/components/HighlightedText';
+import { useSearch, SearchResult } from '@/hooks/useSearch';
+import { SEARCH_TYPE_LABELS, SearchType } from '@/lib/search';
+import { isVideoUrl, stripUserDigits } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface SearchResultsProps {
+  query: string;
+  onResultOpen?: () => void;
+}
+
+interface SearchResultsListProps {
+  query: string;
+  type: SearchType;
+  onOpen: (result: SearchResult) => void;
+}
+
+const TAB_ICONS: Record<SearchType, typeof Users> = {
+  profiles: Users,
+  posts: FileText,
+  comments: MessageSquare,
+};
+
+const SearchResultsList = ({ query, type, onOpen }: SearchResultsListProps) => {
+  const { results, loading, loadingMore, hasMore, loadMore } = useSearch(query, type);
+
+  if (loading && results.length === 0) {
+    return (
+      <div className="space-y-3">
+        {[...Array(4)].map((_, i) => (
+          <Card key={i} className="card-shadow border-0 animate-pulse">
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 rounded-full bg-muted" />
+                <div className="flex-1 space-y-2">
+                  <div className="h-4 bg-muted rounded w-3/4" />
+                  <div className="h-3 bg-muted rounded w-1/2" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <Card className="card-shadow border-0">
+        <CardContent className="p-12 text-center">
+          <Search className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Nenhum resultado</h3>
+          <p className="text-muted-foreground">
+            Nada encontrado em {SEARCH_TYPE_LABELS[type].toLowerCase()} para "{query.trim()}"
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {results.map((result) => (
+        <Card
+          key={result.result_id}
+          className="card-shadow border-0 hover:shadow-lg transition-shadow cursor-pointer"
+          onClick={() => onOpen(result)}
+        >
+          <CardContent className="p-4">
+            <div className="flex items-start space-x-3">
+              <Avatar className="w-10 h-10 flex-shrink-0">
+                <AvatarImage src={result.author_avatar_url || ''} />
+                <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white font-semibold">
+                  {stripUserDigits(result.author_display_name || '')[0] || 'U'}
+                </AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-semibold truncate">
+                    {stripUserDigits(result.author_display_name || '')}
+                    <span className="font-normal text-muted-foreground"> @{stripUserDigits(result.author_username || '')}</span>
+                  </p>
+                  {type !== 'profiles' && (
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {formatDistanceToNow(new Date(result.created_at), { addSuffix: true, locale: ptBR })}
+                    </span>
+                  )}
+                </div>
+
+                {result.headline ? (
+                  <HighlightedText
+                    headline={result.headline}
+                    className={type === 'profiles' ? 'text-muted-foreground line-clamp-2' : 'line-clamp-3'}
+                  />
+                ) : type === 'profiles' ? (
+                  <p className="text-sm text-muted-foreground">Perfil</p>
+                ) : null}
+
+                {type === 'comments' && (
+                  <p className="text-xs text-muted-foreground">Comentário em um post</p>
+                )}
+              </div>
+
+              {type !== 'profiles' && result.image_url && (
+                result.media_type === 'video' || isVideoUrl(result.image_url) ? (
+                  <div className="w-14 h-14 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                    <Video className="w-5 h-5 text-muted-foreground" />
+                  </div>
+                ) : (
+                  <img
+                    src={result.image_url}
+                    alt=""
+                    className="w-14 h-14 rounded-lg object-cover flex-shrink-0"
+                    loading="lazy"
+                  />
+                )
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      {hasMore && (
+        <Button
+          variant="outline"
+          className="w-full rounded-xl"
+          onClick={loadMore}
+          disabled={loadingMore}
+        >
+          {loadingMore ? 'Carregando...' : 'Carregar mais'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+const SearchResults = ({ query, onResultOpen }: SearchResultsProps) => {
+  const navigate = useNavigate();
+  const [activeTab, setActiveTab] = useState<SearchType>('profiles');
+
+  const handleOpen = (result: SearchResult) => {
+    onResultOpen?.();
+
+    if (activeTab === 'profiles') {
+      navigate(`/user/${stripUserDigits(result.author_username)}`);
+    } else if (result.post_id) {
+      navigate(`/post/${result.post_id}`);
+    }
+  };
+
+  return (
+    <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as SearchType)}>
+      <TabsList className="grid w-full grid-cols-3 mb-4">
+        {(Object.keys(SEARCH_TYPE_LABELS) as SearchType[]).map((type) => {
+          const Icon = TAB_ICONS[type];
+          return (
+            <TabsTrigger key={type} value={type}>
+              <Icon className="w-4 h-4 mr-1.5" />
+              {SEARCH_TYPE_LABELS[type]}
+            </TabsTrigger>
+          );
+        })}
+      </TabsList>
+
+      {(Object.keys(SEARCH_TYPE_LABELS) as SearchType[]).map((type) => (
+        <TabsContent key={type} value={type}>
+          {activeTab === type && (
+            <SearchResultsList query={query} type={type} onOpen={handleOpen} />
+          )}
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+};
+
+export default SearchResults;
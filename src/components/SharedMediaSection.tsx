@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, ExternalLink, Images, Link2, Play } from 'lucide-react';
+import { FileKindIcon } from '@/components/FileAttachmentCard';
+import { SharedMediaItem, useSharedMedia } from '@/hooks/useSharedMedia';
+import { useVideoCache } from '@/hooks/useVideoCache';
+import { formatFileSize } from '@/lib/attachments';
+import {
+  extractLinks,
+  getFileNameFromUrl,
+  getLinkHostname,
+  isSharedMediaKind,
+  SHARED_MEDIA_KIND_LABELS,
+  SharedMediaKind,
+} from '@/lib/sharedMedia';
+
+interface SharedMediaSectionProps {
+  conversationId: string;
+  // Shows the message in the conversation
+  onOpenMessage: (messageId: string) => void;
+}
+
+const formatItemDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+  });
+
+const EMPTY_MESSAGES: Record<SharedMediaKind, string> = {
+  media: 'Nenhuma foto ou vídeo compartilhado',
+  links: 'Nenhum link compartilhado',
+  files: 'Nenhum arquivo compartilhado',
+};
+
+const VideoTile = ({ url, getThumbnail }: { url: string; getThumbnail: (url: string) => Promise<string | null> }) => {
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getThumbnail(url).then(result => {
+      if (!cancelled) setThumbnail(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, getThumbnail]);
+
+  return (
+    <>
+      {thumbnail ? (
+        <img src={thumbnail} alt="" className="w-full h-full object-cover" />
+      ) : (
+        <div className="w-full h-full bg-muted" />
+      )}
+      <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+        <Play className="w-6 h-6 text-white fill-white" />
+      </div>
+    </>
+  );
+};
+
+const SharedMediaList = ({ conversationId, kind, onOpenMessage }: SharedMediaSectionProps & { kind: SharedMediaKind }) => {
+  const { items, loading, loadingMore, hasMore, loadMore } = useSharedMedia(conversationId, kind);
+  const { getVideoThumbnail } = useVideoCache();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">{EMPTY_MESSAGES[kind]}</p>;
+  }
+
+  const renderItems = () => {
+    if (kind === 'media') {
+      return (
+        <div className="grid grid-cols-3 gap-1">
+          {items.map(item => (
+            <button
+              key={item.message_id}
+              type="button"
+              className="relative aspect-square overflow-hidden rounded-md bg-muted"
+              onClick={() => onOpenMessage(item.message_id)}
+            >
+              {item.media_type === 'video' ? (
+                <VideoTile url={item.media_url} getThumbnail={getVideoThumbnail} />
+              ) : (
+                <img src={item.media_url} alt="" loading="lazy" className="w-full h-full object-cover" />
+              )}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    if (kind === 'links') {
+      // A message may carry several links; each gets its own row
+      const links = items.flatMap((item: SharedMediaItem) =>
+        extractLinks(item.content).map(url => ({ url, item }))
+      );
+
+      return (
+        <div className="space-y-1">
+          {links.map(({ url, item }) => (
+            <div key={`${item.message_id}-${url}`} className="flex items-center gap-2 rounded-lg hover:bg-muted/50">
+              <button
+                type="button"
+                className="flex-1 min-w-0 flex items-center gap-3 px-2 py-2 text-left"
+                onClick={() => onOpenMessage(item.message_id)}
+              >
+                <div className="w-9 h-9 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                  <Link2 className="w-4 h-4 text-muted-foreground" />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{getLinkHostname(url)}</p>
+                  <p className="text-xs text-muted-foreground truncate">{url}</p>
+                </div>
+              </button>
+              <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0" asChild>
+                <a href={url} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+              </Button>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-1">
+        {items.map(item => (
+          <div key={item.message_id} className="flex items-center gap-2 rounded-lg hover:bg-muted/50">
+            <button
+              type="button"
+              className="flex-1 min-w-0 flex items-center gap-3 px-2 py-2 text-left"
+              onClick={() => onOpenMessage(item.message_id)}
+            >
+              <div className="w-9 h-9 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                <FileKindIcon mimeType={item.media_mime_type} className="w-4 h-4 text-muted-foreground" />
+              </div>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{item.media_name || getFileNameFromUrl(item.media_url)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {item.media_size ? `${formatFileSize(item.media_size)} · ` : ''}{formatItemDate(item.created_at)}
+                </p>
+              </div>
+            </button>
+            <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0" asChild>
+              <a href={item.media_url} target="_blank" rel="noopener noreferrer" download={item.media_name || ''}>
+                <Download className="w-4 h-4" />
+              </a>
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {renderItems()}
+      {hasMore && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={loadMore}
+          disabled={loadingMore}
+        >
+          {loadingMore ? 'Carregando...' : 'Carregar mais'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+// "Mídia, links e arquivos" of a conversation, shown in the chat settings
+export const SharedMediaSection = ({ conversationId, onOpenMessage }: SharedMediaSectionProps) => {
+  const [kind, setKind] = useState<SharedMediaKind>('media');
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium flex items-center gap-2">
+        <Images className="w-4 h-4" />
+        Mídia, links e arquivos
+      </h3>
+
+      <Tabs value={kind} onValueChange={(value) => isSharedMediaKind(value) && setKind(value)}>
+        <TabsList className="grid w-full grid-cols-3">
+          {(Object.keys(SHARED_MEDIA_KIND_LABELS) as SharedMediaKind[]).map(option => (
+            <TabsTrigger key={option} value={option}>
+              {SHARED_MEDIA_KIND_LABELS[option]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {/* Only the open tab is mounted, so each kind loads when first shown */}
+        <TabsContent value={kind} className="mt-3">
+          <SharedMediaList key={kind} conversationId={conversationId} kind={kind} onOpenMessage={onOpenMessage} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
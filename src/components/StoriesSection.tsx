@@ -5,9 +5,13 @@ import { useAuth } from '@/hooks/useAuth';
 import { useConversations } from '@/hooks/useConversations';
 import { useNavigate } from 'react-router-dom';
 import { useStoriesCache } from '@/hooks/useStoriesCache';
+import { useBlockedUsers } from '@/hooks/useBlockedUsers';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import StoryCreator from '@/components/StoryCreator';
 import StoryViewerEnhanced from '@/components/StoryViewerEnhanced';
+import { CLOSE_FRIENDS_RING_CLASS, hasCloseFriendsStory } from '@/lib/storyAudience';
+import { Json } from '@/integrations/supabase/types';
+import { cn } from '@/lib/utils';
 
 interface Story {
   id: string;
@@ -21,6 +25,8 @@ interface Story {
   text_size: number;
   created_at: string;
   expires_at: string;
+  audience?: string;
+  layers?: Json | null;
   profiles: {
     display_name: string;
     username: string;
@@ -44,6 +50,7 @@ const StoriesSection = () => {
   const navigate = useNavigate();
   const { createOrGetConversation } = useConversations();
   const { stories, userStories, loading, refreshStories, preloadStoryMedia } = useStoriesCache(user?.id);
+  const { isHidden } = useBlockedUsers();
   const [createStoryOpen, setCreateStoryOpen] = useState(false);
   const [viewerOpen, setViewerOpen] = useState(false);
   const [currentGroupIndex, setCurrentGroupIndex] = useState(0);
@@ -59,6 +66,9 @@ const StoriesSection = () => {
     refreshStories();
   };
 
+  // Cached groups may still include accounts blocked or muted after the last fetch
+  const visibleStories = stories.filter(group => !isHidden(group.user_id));
+
   // Create story groups including user's own stories
   const allStoryGroups = [
     ...(userStories.length > 0 ? [{
@@ -71,7 +81,7 @@ const StoriesSection = () => {
       stories: userStories,
       hasViewed: true, // Stories próprios NUNCA mostram bolinha vermelha
     }] : []),
-    ...stories
+    ...visibleStories
   ];
 
   const handleViewStories = (groupIndex: number, storyIndex = 0) => {
@@ -125,7 +135,10 @@ const StoriesSection = () => {
               >
                 <div className="relative">
                   {userStories.length > 0 ? (
-                    <div className="w-16 h-16 rounded-full bg-gradient-to-br from-muted to-muted-foreground/30 p-0.5 transition-all duration-300 group-hover:scale-110">
+                    <div className={cn(
+                      'w-16 h-16 rounded-full p-0.5 transition-all duration-300 group-hover:scale-110',
+                      hasCloseFriendsStory(userStories) ? CLOSE_FRIENDS_RING_CLASS : 'bg-gradient-to-br from-muted to-muted-foreground/30'
+                    )}>
                       <Avatar className="w-full h-full border-2 border-white">
                         <AvatarImage src={user?.avatar_url || ''} />
                         <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-sm font-semibold">
@@ -158,17 +171,20 @@ const StoriesSection = () => {
               </div>
             
               {/* Stories from followed users */}
-              {stories.map((storyGroup) => (
+              {visibleStories.map((storyGroup) => (
                 <div 
                   key={storyGroup.user_id}
                   className="flex-shrink-0 flex flex-col items-center space-y-1 cursor-pointer group"
                   onClick={() => handleViewFollowedStories(storyGroup)}
                 >
                   <div className="relative">
+                    {/* Unseen close friends stories get a green ring instead of the usual one */}
                     <div className={`w-16 h-16 rounded-full p-0.5 transition-all duration-300 group-hover:scale-110 ${
                       storyGroup.hasViewed 
                         ? 'bg-gradient-to-br from-muted to-muted-foreground/30' 
-                        : 'story-gradient animate-story-ring-pulse'
+                        : hasCloseFriendsStory(storyGroup.stories)
+                          ? `${CLOSE_FRIENDS_RING_CLASS} animate-story-ring-pulse`
+                          : 'story-gradient animate-story-ring-pulse'
                     }`}>
                       <Avatar className="w-full h-full border-2 border-white">
                         <AvatarImage src={storyGroup.user.avatar_url || ''} />
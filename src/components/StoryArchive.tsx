@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import StoryViewerEnhanced from '@/components/StoryViewerEnhanced';
+import { StoryThumbnail } from '@/components/StoryThumbnail';
+import { useAuth } from '@/hooks/useAuth';
+import { useStoryArchive } from '@/hooks/useStoryArchive';
+import { isStoryExpired } from '@/lib/storyHighlights';
+
+interface StoryArchiveProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatArchiveDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Every story the current user published, kept after it expires. Only the owner sees it
+export const StoryArchive = ({ open, onOpenChange }: StoryArchiveProps) => {
+  const { user } = useAuth();
+  const { stories, loading, refreshArchive } = useStoryArchive(open ? user?.id : null);
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const [storyIndex, setStoryIndex] = useState(0);
+
+  const archiveGroup = user ? [{
+    user_id: user.id,
+    user: {
+      display_name: user.display_name,
+      username: user.username,
+      avatar_url: user.avatar_url || null,
+    },
+    stories,
+    hasViewed: true,
+  }] : [];
+
+  const handleOpenStory = (index: number) => {
+    setStoryIndex(index);
+    setViewerOpen(true);
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="bottom" className="h-[90vh] flex flex-col rounded-t-3xl border-0 bg-background p-0">
+          <div className="p-6 pb-3">
+            <SheetHeader>
+              <div className="flex items-center justify-center">
+                <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+              </div>
+              <SheetTitle className="text-center text-lg font-semibold mt-3">Arquivo de stories</SheetTitle>
+              <SheetDescription className="text-center">
+                Só você vê seus stories depois que eles expiram.
+              </SheetDescription>
+            </SheetHeader>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 pb-6">
+            {loading && stories.length === 0 ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : stories.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Seu arquivo está vazio
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 gap-1">
+                {stories.map((story, index) => (
+                  <button
+                    key={story.id}
+                    type="button"
+                    onClick={() => handleOpenStory(index)}
+                    className="relative aspect-[9/16] overflow-hidden rounded-md bg-muted"
+                  >
+                    <StoryThumbnail story={story} showText />
+                    <span className="absolute left-1 bottom-1 text-[10px] font-medium text-white drop-shadow">
+                      {formatArchiveDate(story.created_at)}
+                    </span>
+                    {!isStoryExpired(story) && (
+                      <span className="absolute top-1 left-1 px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-medium">
+                        Ativo
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <StoryViewerEnhanced
+        open={viewerOpen}
+        onOpenChange={setViewerOpen}
+        storyGroups={archiveGroup}
+        currentGroupIndex={0}
+        currentStoryIndex={storyIndex}
+        onGroupChange={() => {}}
+        onStoryChange={setStoryIndex}
+        onStoryDeleted={refreshArchive}
+      />
+    </>
+  );
+};
@@ -4,14 +4,34 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
-import { X, Send, Image, Upload, CheckCircle, AlertCircle, Video, Clock, Tag } from 'lucide-react';
+import { X, Send, Image, Upload, CheckCircle, AlertCircle, Video, Clock, Tag, Star, Sticker, Type, Brush, Undo2, Trash2, SmilePlus } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { cn, stripUserDigits } from '@/lib/utils';
 import { useVideoValidation, VideoValidationResult } from '@/hooks/useVideoValidation';
 import VideoValidationStatus from '@/components/ui/VideoValidationStatus';
 import { UserTagSelector } from '@/components/UserTagSelector';
+import { StoryStickerCard } from '@/components/StoryStickerCard';
+import { StoryStickerComposer } from '@/components/StoryStickerComposer';
+import { StoryLayerCanvas } from '@/components/StoryLayerCanvas';
+import { StoryLayerStickerPicker } from '@/components/StoryLayerStickerPicker';
+import { DEFAULT_STORY_AUDIENCE, STORY_AUDIENCE_LABELS, StoryAudience } from '@/lib/storyAudience';
+import { StickerDraft, toStickerRows } from '@/lib/storyStickers';
+import {
+  BRUSH_WIDTHS,
+  createStickerLayer,
+  createTextLayer,
+  getLayersText,
+  getVisibleLayers,
+  StoryFont,
+  STORY_FONTS,
+  STORY_LAYER_COLORS,
+  StoryLayer,
+  TextLayer,
+  toLayerDocument,
+} from '@/lib/storyLayers';
 
 interface StoryCreatorProps {
   open: boolean;
@@ -19,9 +39,17 @@ interface StoryCreatorProps {
   onStoryCreated: () => void;
 }
 
+const MAX_STICKERS = 3;
+const TEXT_MAX_LENGTH = 150;
+
 const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps) => {
   const { user } = useAuth();
-  const [text, setText] = useState('');
+  const [layers, setLayers] = useState<StoryLayer[]>([]);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [brushColor, setBrushColor] = useState(STORY_LAYER_COLORS[0]);
+  const [brushWidth, setBrushWidth] = useState(BRUSH_WIDTHS[1]);
+  const [showLayerStickerPicker, setShowLayerStickerPicker] = useState(false);
   const [backgroundColor, setBackgroundColor] = useState('#667eea');
   const [textColor, setTextColor] = useState('#ffffff');
   const [textPosition, setTextPosition] = useState('center');
@@ -35,7 +63,13 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
   const [validationResult, setValidationResult] = useState<VideoValidationResult | null>(null);
   const [taggedUsers, setTaggedUsers] = useState<any[]>([]);
   const [showTagSelector, setShowTagSelector] = useState(false);
+  const [audience, setAudience] = useState<StoryAudience>(DEFAULT_STORY_AUDIENCE);
+  const [stickers, setStickers] = useState<StickerDraft[]>([]);
+  const [showStickerComposer, setShowStickerComposer] = useState(false);
+  const [draggingSticker, setDraggingSticker] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textInputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
   
   const { 
     validateVideo, 
@@ -50,7 +84,10 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
   // Reset form when dialog opens/closes
   useEffect(() => {
     if (!open) {
-      setText('');
+      setLayers([]);
+      setSelectedLayerId(null);
+      setIsDrawing(false);
+      setShowLayerStickerPicker(false);
       setMediaFile(null);
       setMediaPreview(null);
       setUploadError(null);
@@ -63,9 +100,64 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
       setValidationResult(null);
       setTaggedUsers([]);
       setShowTagSelector(false);
+      setAudience(DEFAULT_STORY_AUDIENCE);
+      setStickers([]);
+      setShowStickerComposer(false);
     }
   }, [open]);
 
+  // Stickers are dragged around the preview; positions are kept as fractions of its size
+  const handleStickerDrag = (key: string, e: React.PointerEvent) => {
+    if (draggingSticker !== key || !previewRef.current) return;
+    const rect = previewRef.current.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(Math.max(value, 0.1), 0.9);
+    const positionX = clamp((e.clientX - rect.left) / rect.width);
+    const positionY = clamp((e.clientY - rect.top) / rect.height);
+    setStickers(prev => prev.map(sticker =>
+      sticker.key === key ? { ...sticker, position_x: positionX, position_y: positionY } : sticker
+    ));
+  };
+
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId) ?? null;
+  const selectedText = selectedLayer?.type === 'text' ? selectedLayer : null;
+  const hasLayers = getVisibleLayers(layers).length > 0;
+  const hasContent = hasLayers || !!mediaFile || stickers.length > 0;
+
+  const addLayer = (layer: StoryLayer) => {
+    setIsDrawing(false);
+    setLayers(prev => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+  };
+
+  const updateSelectedText = (patch: Partial<TextLayer>) => {
+    if (!selectedText) return;
+    setLayers(prev => prev.map(layer => (layer.id === selectedText.id ? { ...selectedText, ...patch } : layer)));
+  };
+
+  // Typing without a text box selected starts a new one
+  const handleTextChange = (value: string) => {
+    if (selectedText) {
+      updateSelectedText({ text: value });
+    } else {
+      addLayer(createTextLayer(value));
+    }
+  };
+
+  const removeSelectedLayer = () => {
+    setLayers(prev => prev.filter(layer => layer.id !== selectedLayerId));
+    setSelectedLayerId(null);
+  };
+
+  const undoStroke = () => {
+    setLayers(prev => {
+      const top = prev[prev.length - 1];
+      if (top?.type !== 'drawing') return prev;
+      return top.strokes.length > 1
+        ? [...prev.slice(0, -1), { ...top, strokes: top.strokes.slice(0, -1) }]
+        : prev.slice(0, -1);
+    });
+  };
+
   const backgroundColors = [
     '#667eea', '#764ba2', '#f093fb', '#f5576c', 
     '#4facfe', '#43e97b', '#fa709a', '#ffecd2',
@@ -170,7 +262,7 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
   };
 
   const handleSubmit = async () => {
-    if (!text.trim() && !mediaFile) {
+    if (!hasContent) {
       toast({
         title: "Conteúdo necessário",
         description: "Adicione texto ou uma mídia para seu story",
@@ -217,19 +309,40 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
         .from('stories')
         .insert({
           user_id: user.id,
-          content: text.trim() || null,
+          content: getLayersText(layers) || null,
+          layers: toLayerDocument(layers) as unknown as Json,
           media_url: mediaUrl,
           media_type: mediaType,
           background_color: backgroundColor,
           text_color: textColor,
           text_position: textPosition,
           text_size: textSize,
+          audience,
         })
         .select()
         .single();
 
       if (insertError) throw insertError;
 
+      if (stickers.length > 0 && storyData) {
+        const { stickerRows, quizAnswerRows } = toStickerRows(storyData.id, stickers);
+        const { error: stickersError } = await supabase
+          .from('story_stickers')
+          .insert(stickerRows);
+
+        if (stickersError) {
+          console.error('Error creating story stickers:', stickersError);
+        } else if (quizAnswerRows.length > 0) {
+          const { error: quizAnswersError } = await supabase
+            .from('story_quiz_answers')
+            .insert(quizAnswerRows);
+
+          if (quizAnswersError) {
+            console.error('Error saving quiz answers:', quizAnswersError);
+          }
+        }
+      }
+
       // Insert tagged users
       if (taggedUsers.length > 0 && storyData) {
         const tags = taggedUsers.map(taggedUser => ({
@@ -257,7 +370,8 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
       onOpenChange(false);
       
       // Reset form
-      setText('');
+      setLayers([]);
+      setSelectedLayerId(null);
       setMediaFile(null);
       setMediaPreview(null);
       setBackgroundColor('#667eea');
@@ -282,6 +396,7 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
         <div className="relative w-full h-[600px] rounded-2xl overflow-hidden bg-gradient-to-br from-background to-muted">
         {/* Story Preview */}
           <div 
+            ref={previewRef}
             className="w-full h-full relative flex items-center justify-center overflow-hidden transition-all duration-500"
             style={{
               background: mediaPreview ? 'transparent' : `linear-gradient(135deg, ${backgroundColor}, ${backgroundColor}dd)`,
@@ -367,8 +482,18 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
               </>
             )}
 
+            {/* Layers: text boxes, drawings, emojis, mentions and locations */}
+            <StoryLayerCanvas
+              layers={layers}
+              onLayersChange={setLayers}
+              selectedLayerId={selectedLayerId}
+              onSelectLayer={setSelectedLayerId}
+              brush={isDrawing ? { color: brushColor, width: brushWidth } : null}
+              className="absolute inset-0"
+            />
+
             {/* User Info Overlay */}
-            <div className="absolute top-4 left-4 right-4 flex items-center justify-between">
+            <div className="absolute top-4 left-4 right-4 z-20 flex items-center justify-between">
               <div className="flex items-center space-x-2">
                 <Avatar className="w-8 h-8 border-2 border-white">
                   <AvatarImage src={user?.avatar_url || ''} />
@@ -391,29 +516,81 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
               </Button>
             </div>
 
-            {/* Text Content */}
-            {text && (
+            {/* Canvas tools */}
+            <div className="absolute top-16 right-4 z-20 flex flex-col items-center space-y-2">
+              {/* New text box */}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  addLayer(createTextLayer());
+                  textInputRef.current?.focus();
+                }}
+                disabled={loading}
+                className="text-white hover:bg-white/20 w-10 h-10 p-0 rounded-full bg-black/30 transition-all duration-200 backdrop-blur-sm"
+              >
+                <Type className="w-4 h-4" />
+              </Button>
+
+              {/* Brush */}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSelectedLayerId(null);
+                  setIsDrawing(prev => !prev);
+                }}
+                disabled={loading}
+                className={cn(
+                  "text-white hover:bg-white/20 w-10 h-10 p-0 rounded-full bg-black/30 transition-all duration-200 backdrop-blur-sm",
+                  isDrawing && "bg-white/30"
+                )}
+              >
+                <Brush className="w-4 h-4" />
+              </Button>
+
+              {/* Emojis and location */}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowLayerStickerPicker(true)}
+                disabled={loading}
+                className="text-white hover:bg-white/20 w-10 h-10 p-0 rounded-full bg-black/30 transition-all duration-200 backdrop-blur-sm"
+              >
+                <SmilePlus className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {/* Stickers */}
+            {stickers.map(sticker => (
               <div
+                key={sticker.key}
                 className={cn(
-                  "absolute p-8 flex",
-                  {
-                    'inset-0 items-center justify-center': textPosition === 'center',
-                    'top-0 left-0 right-0 items-start justify-center': textPosition === 'top',
-                    'bottom-0 left-0 right-0 items-end justify-center': textPosition === 'bottom',
-                    'inset-0 items-center justify-start': textPosition === 'left',
-                    'inset-0 items-center justify-end': textPosition === 'right',
-                  }
+                  "absolute z-10 -translate-x-1/2 -translate-y-1/2 touch-none",
+                  draggingSticker === sticker.key ? "cursor-grabbing scale-105" : "cursor-grab"
                 )}
-                style={{ color: textColor }}
+                style={{ left: `${sticker.position_x * 100}%`, top: `${sticker.position_y * 100}%` }}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setDraggingSticker(sticker.key);
+                }}
+                onPointerMove={(e) => handleStickerDrag(sticker.key, e)}
+                onPointerUp={() => setDraggingSticker(null)}
               >
-                <p 
-                  className="font-bold text-center drop-shadow-lg leading-tight break-words max-w-[80%]"
-                  style={{ fontSize: `${textSize}px` }}
+                <div className="pointer-events-none">
+                  <StoryStickerCard sticker={sticker} mode="preview" />
+                </div>
+                <button
+                  type="button"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => setStickers(prev => prev.filter(s => s.key !== sticker.key))}
+                  className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-black/70 text-white flex items-center justify-center"
                 >
-                  {text}
-                </p>
+                  <X className="w-3 h-3" />
+                </button>
               </div>
-            )}
+            ))}
           </div>
 
           {/* Controls */}
@@ -442,22 +619,157 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
               </div>
             )}
 
+            {/* Audience */}
+            <div className="flex items-center gap-1 bg-white/10 rounded-full p-1 backdrop-blur-sm">
+              {(Object.keys(STORY_AUDIENCE_LABELS) as StoryAudience[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setAudience(option)}
+                  disabled={loading}
+                  className={cn(
+                    "flex-1 flex items-center justify-center gap-1 rounded-full px-2 py-1 text-xs font-medium transition-all duration-200",
+                    audience === option
+                      ? option === 'close_friends' ? "bg-green-500 text-white" : "bg-white text-black"
+                      : "text-white/80 hover:bg-white/10"
+                  )}
+                >
+                  {option === 'close_friends' && <Star className="w-3 h-3 fill-current" />}
+                  {STORY_AUDIENCE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+
+            {/* Brush */}
+            {isDrawing && (
+              <div className="flex items-center gap-2">
+                <div className="flex flex-1 space-x-1 overflow-x-auto">
+                  {STORY_LAYER_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => setBrushColor(color)}
+                      className={cn(
+                        "flex-shrink-0 w-6 h-6 rounded-full border-2 transition-all duration-200",
+                        brushColor === color ? "border-white scale-110" : "border-white/30"
+                      )}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+                {BRUSH_WIDTHS.map((width) => (
+                  <button
+                    key={width}
+                    type="button"
+                    onClick={() => setBrushWidth(width)}
+                    className={cn(
+                      "flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center",
+                      brushWidth === width ? "bg-white/30" : "hover:bg-white/10"
+                    )}
+                  >
+                    <span className="rounded-full bg-white" style={{ width: width * 4, height: width * 4 }} />
+                  </button>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={undoStroke}
+                  disabled={layers[layers.length - 1]?.type !== 'drawing'}
+                  className="text-white hover:bg-white/20 w-8 h-8 p-0 rounded-full"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => setIsDrawing(false)}
+                  className="bg-white text-black hover:bg-white/90 rounded-full h-8 px-3"
+                >
+                  Concluir
+                </Button>
+              </div>
+            )}
+
+            {/* Selected text box */}
+            {!isDrawing && selectedText && (
+              <div className="space-y-2">
+                <div className="flex space-x-1 overflow-x-auto">
+                  {(Object.keys(STORY_FONTS) as StoryFont[]).map((font) => (
+                    <button
+                      key={font}
+                      type="button"
+                      onClick={() => updateSelectedText({ font })}
+                      className={cn(
+                        "flex-shrink-0 rounded-full px-3 py-1 text-xs transition-all duration-200",
+                        selectedText.font === font ? "bg-white text-black" : "bg-white/10 text-white hover:bg-white/20"
+                      )}
+                      style={{ fontFamily: STORY_FONTS[font].family, fontWeight: STORY_FONTS[font].weight }}
+                    >
+                      {STORY_FONTS[font].label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => updateSelectedText({ background: !selectedText.background })}
+                    className={cn(
+                      "flex-shrink-0 w-7 h-7 rounded-md border border-white/50 text-sm font-bold",
+                      selectedText.background ? "bg-white text-black" : "text-white"
+                    )}
+                    aria-label="Fundo do texto"
+                  >
+                    A
+                  </button>
+                  <div className="flex flex-1 space-x-1 overflow-x-auto">
+                    {STORY_LAYER_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => updateSelectedText({ color })}
+                        className={cn(
+                          "flex-shrink-0 w-6 h-6 rounded-full border-2 transition-all duration-200",
+                          selectedText.color === color ? "border-white scale-110" : "border-white/30"
+                        )}
+                        style={{ backgroundColor: color }}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Text Input */}
-            <div className="relative">
-              <Input
-                value={text}
-                onChange={(e) => setText(e.target.value)}
-                placeholder="Digite seu texto..."
-                className={cn(
-                  "bg-white/20 border-white/30 text-white placeholder:text-white/70 rounded-xl pr-12",
-                  "focus:bg-white/30 focus:border-white/50 transition-all duration-200"
+            {!isDrawing && (
+              <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                  <Input
+                    ref={textInputRef}
+                    value={selectedText?.text ?? ''}
+                    onChange={(e) => handleTextChange(e.target.value)}
+                    placeholder={selectedText ? "Digite seu texto..." : "Digite para adicionar um texto..."}
+                    className={cn(
+                      "bg-white/20 border-white/30 text-white placeholder:text-white/70 rounded-xl pr-12",
+                      "focus:bg-white/30 focus:border-white/50 transition-all duration-200"
+                    )}
+                    maxLength={TEXT_MAX_LENGTH}
+                  />
+                  {selectedText?.text && (
+                    <CheckCircle className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-green-400" />
+                  )}
+                </div>
+                {selectedLayer && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={removeSelectedLayer}
+                    className="text-white hover:bg-white/20 w-10 h-10 p-0 rounded-full flex-shrink-0"
+                    aria-label="Remover camada"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
                 )}
-                maxLength={150}
-              />
-              {text && (
-                <CheckCircle className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-green-400" />
-              )}
-            </div>
+              </div>
+            )}
 
             {/* Tools */}
             <div className="flex items-center justify-between">
@@ -516,6 +828,20 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
                   )}
                 </Button>
 
+                {/* Stickers */}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowStickerComposer(true)}
+                  disabled={loading || stickers.length >= MAX_STICKERS}
+                  className={cn(
+                    "text-white hover:bg-white/20 w-10 h-10 p-0 rounded-full transition-all duration-200 backdrop-blur-sm",
+                    stickers.length > 0 && "bg-purple-500/20 border border-purple-500/30"
+                  )}
+                >
+                  <Sticker className="w-4 h-4" />
+                </Button>
+
                 {/* Background Colors */}
                 <div className="flex space-x-1 overflow-x-auto">
                   {backgroundColors.slice(0, 6).map((color) => (
@@ -540,11 +866,11 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
               {/* Publish Button */}
               <Button
                 onClick={handleSubmit}
-                disabled={loading || (!text.trim() && !mediaFile) || uploadError !== null}
+                disabled={loading || !hasContent || uploadError !== null}
                 className={cn(
                   "bg-white text-black hover:bg-white/90 rounded-full px-6 transition-all duration-200",
                   "disabled:opacity-50 disabled:cursor-not-allowed",
-                  (text.trim() || mediaFile) && !uploadError && "hover:scale-105 shadow-lg"
+                  hasContent && !uploadError && "hover:scale-105 shadow-lg"
                 )}
                 size="sm"
               >
@@ -565,12 +891,12 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
             {/* Character Count & Status */}
             <div className="flex items-center justify-between text-xs">
               <div className="text-white/70 flex items-center gap-2">
-                <span>{text.length}/150 caracteres</span>
+                {selectedText && <span>{selectedText.text.length}/{TEXT_MAX_LENGTH} caracteres</span>}
                 {taggedUsers.length > 0 && (
                   <span>• {taggedUsers.length} marcado{taggedUsers.length > 1 ? 's' : ''}</span>
                 )}
               </div>
-              {(text.trim() || mediaFile) && (
+              {hasContent && (
                 <div className="flex items-center space-x-1 text-green-400">
                   <CheckCircle className="w-3 h-3" />
                   <span>Pronto para publicar</span>
@@ -588,6 +914,18 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
           className="hidden"
         />
         
+        <StoryLayerStickerPicker
+          open={showLayerStickerPicker}
+          onOpenChange={setShowLayerStickerPicker}
+          onAdd={addLayer}
+        />
+
+        <StoryStickerComposer
+          open={showStickerComposer}
+          onOpenChange={setShowStickerComposer}
+          onAdd={(sticker) => setStickers(prev => [...prev, sticker])}
+        />
+
         {/* User Tag Selector */}
         <UserTagSelector
           open={showTagSelector}
@@ -596,14 +934,11 @@ const StoryCreator = ({ open, onOpenChange, onStoryCreated }: StoryCreatorProps)
           onUsersChange={setTaggedUsers}
           maxTags={3}
           onUserSelected={(user) => {
-            // Adicionar @ automaticamente no texto
-            setText(prev => {
-              const mention = `@${stripUserDigits(user.username)} `;
-              if (!prev.includes(mention)) {
-                return prev + mention;
-              }
-              return prev;
-            });
+            // Adicionar a menção como sticker no story
+            const alreadyMentioned = layers.some(layer => layer.type === 'sticker' && layer.kind === 'mention' && layer.userId === user.id);
+            if (!alreadyMentioned) {
+              addLayer(createStickerLayer('mention', stripUserDigits(user.username), user.id));
+            }
           }}
         />
       </DialogContent>
@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Check, Trash2 } from 'lucide-react';
+import { StoryThumbnail } from '@/components/StoryThumbnail';
+import { useAuth } from '@/hooks/useAuth';
+import { useStoryArchive } from '@/hooks/useStoryArchive';
+import { toast } from '@/hooks/use-toast';
+import {
+  deleteStoryHighlight,
+  HIGHLIGHT_TITLE_MAX_LENGTH,
+  saveStoryHighlight,
+  StoryHighlight,
+} from '@/lib/storyHighlights';
+import { cn } from '@/lib/utils';
+
+interface StoryHighlightEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edited highlight; a new one is created when missing
+  highlight?: StoryHighlight | null;
+  onSaved: () => void;
+}
+
+const formatStoryDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' });
+
+// Creates or edits a highlight: title, stories picked from the archive and cover
+export const StoryHighlightEditor = ({
+  open,
+  onOpenChange,
+  highlight,
+  onSaved,
+}: StoryHighlightEditorProps) => {
+  const { user } = useAuth();
+  const { stories, loading } = useStoryArchive(open ? user?.id : null);
+  const [title, setTitle] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [coverId, setCoverId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(highlight?.title ?? '');
+    setSelectedIds(highlight?.stories.map(story => story.id) ?? []);
+    setCoverId(highlight?.cover_story_id ?? null);
+  }, [open, highlight]);
+
+  const toggleStory = (storyId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(storyId) ? prev.filter(id => id !== storyId) : [...prev, storyId]
+    );
+  };
+
+  const selectedStories = stories.filter(story => selectedIds.includes(story.id));
+  const effectiveCoverId = coverId && selectedIds.includes(coverId) ? coverId : selectedStories[0]?.id ?? null;
+  const coverStory = selectedStories.find(story => story.id === effectiveCoverId);
+  const canSave = title.trim().length > 0 && selectedIds.length > 0 && !saving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setSaving(true);
+    try {
+      await saveStoryHighlight({
+        id: highlight?.id,
+        title,
+        storyIds: selectedIds,
+        coverStoryId: effectiveCoverId,
+      });
+      toast({ title: highlight ? "Destaque atualizado" : "Destaque criado" });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving story highlight:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar o destaque.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!highlight) return;
+
+    setSaving(true);
+    try {
+      await deleteStoryHighlight(highlight.id);
+      toast({ title: "Destaque removido" });
+      onSaved();
+      setConfirmDelete(false);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error deleting story highlight:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível remover o destaque.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="bottom" className="h-[90vh] flex flex-col rounded-t-3xl border-0 bg-background p-0">
+          <div className="p-6 pb-3 space-y-4">
+            <SheetHeader>
+              <div className="flex items-center justify-center">
+                <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+              </div>
+              <SheetTitle className="text-center text-lg font-semibold mt-3">
+                {highlight ? 'Editar destaque' : 'Novo destaque'}
+              </SheetTitle>
+              <SheetDescription className="text-center">
+                Destaques ficam no seu perfil mesmo depois que os stories expiram.
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="flex items-center gap-3">
+              <div className="w-14 h-14 rounded-full overflow-hidden border-2 border-border bg-muted flex-shrink-0">
+                {coverStory && <StoryThumbnail story={coverStory} />}
+              </div>
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Nome do destaque"
+                maxLength={HIGHLIGHT_TITLE_MAX_LENGTH}
+                className="rounded-xl"
+              />
+            </div>
+
+            {selectedStories.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">Toque para escolher a capa</p>
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {selectedStories.map(story => (
+                    <button
+                      key={story.id}
+                      type="button"
+                      onClick={() => setCoverId(story.id)}
+                      className={cn(
+                        'w-10 h-10 rounded-full overflow-hidden flex-shrink-0 border-2 transition-colors',
+                        story.id === effectiveCoverId ? 'border-primary' : 'border-transparent'
+                      )}
+                    >
+                      <StoryThumbnail story={story} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : stories.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Você ainda não publicou nenhum story
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 gap-1">
+                {stories.map(story => {
+                  const selected = selectedIds.includes(story.id);
+                  return (
+                    <button
+                      key={story.id}
+                      type="button"
+                      onClick={() => toggleStory(story.id)}
+                      className="relative aspect-[9/16] overflow-hidden rounded-md bg-muted"
+                    >
+                      <StoryThumbnail story={story} showText className={cn(selected && 'opacity-70')} />
+                      <span className="absolute left-1 bottom-1 text-[10px] font-medium text-white drop-shadow">
+                        {formatStoryDate(story.created_at)}
+                      </span>
+                      <span className={cn(
+                        'absolute top-1 right-1 w-5 h-5 rounded-full border-2 border-white flex items-center justify-center',
+                        selected ? 'bg-primary' : 'bg-black/20'
+                      )}>
+                        {selected && <Check className="w-3 h-3 text-primary-foreground" />}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="p-6 pt-3 flex gap-2">
+            {highlight && (
+              <Button
+                variant="outline"
+                onClick={() => setConfirmDelete(true)}
+                disabled={saving}
+                className="h-12 rounded-xl text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={!canSave} className="flex-1 h-12 rounded-xl">
+              {saving && (
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+              )}
+              {highlight ? 'Salvar' : 'Criar destaque'}
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover destaque?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os stories continuam no seu arquivo, mas deixam de aparecer no seu perfil.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={saving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
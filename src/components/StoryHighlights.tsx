@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Archive, Plus } from 'lucide-react';
+import StoryViewerEnhanced from '@/components/StoryViewerEnhanced';
+import { StoryArchive } from '@/components/StoryArchive';
+import { StoryHighlightEditor } from '@/components/StoryHighlightEditor';
+import { StoryThumbnail } from '@/components/StoryThumbnail';
+import { useFastChat } from '@/hooks/useFastChat';
+import { useStoryHighlights } from '@/hooks/useStoryHighlights';
+import { getHighlightCover, StoryHighlight } from '@/lib/storyHighlights';
+
+interface StoryHighlightsProps {
+  userId: string;
+  // The owner also gets the archive and can create and edit highlights
+  isOwnProfile: boolean;
+}
+
+// "Destaques" circles of a profile, played through the story viewer
+export const StoryHighlights = ({ userId, isOwnProfile }: StoryHighlightsProps) => {
+  const { highlights, refreshHighlights } = useStoryHighlights(userId);
+  const { startChat } = useFastChat();
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
+  const [storyIndex, setStoryIndex] = useState(0);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingHighlight, setEditingHighlight] = useState<StoryHighlight | null>(null);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+
+  if (!isOwnProfile && highlights.length === 0) return null;
+
+  const viewing = viewingIndex !== null ? highlights[viewingIndex] : null;
+  const viewingGroups = viewing ? [{
+    user_id: viewing.user_id,
+    user: viewing.stories[0].profiles,
+    stories: viewing.stories,
+    hasViewed: true,
+  }] : [];
+
+  const handleOpenHighlight = (index: number) => {
+    setStoryIndex(0);
+    setViewingIndex(index);
+  };
+
+  const handleOpenEditor = (highlight: StoryHighlight | null) => {
+    setEditingHighlight(highlight);
+    setEditorOpen(true);
+  };
+
+  return (
+    <>
+      <div className="flex space-x-4 overflow-x-auto pb-2">
+        {isOwnProfile && (
+          <>
+            <button
+              type="button"
+              className="flex-shrink-0 flex flex-col items-center space-y-1 group"
+              onClick={() => handleOpenEditor(null)}
+            >
+              <div className="w-16 h-16 rounded-full border-2 border-dashed border-muted-foreground/40 flex items-center justify-center transition-all duration-300 group-hover:scale-110 group-hover:border-primary">
+                <Plus className="w-6 h-6 text-muted-foreground group-hover:text-primary" />
+              </div>
+              <span className="text-xs text-muted-foreground font-medium">Novo</span>
+            </button>
+
+            <button
+              type="button"
+              className="flex-shrink-0 flex flex-col items-center space-y-1 group"
+              onClick={() => setArchiveOpen(true)}
+            >
+              <div className="w-16 h-16 rounded-full border-2 border-border bg-muted/50 flex items-center justify-center transition-all duration-300 group-hover:scale-110">
+                <Archive className="w-6 h-6 text-muted-foreground" />
+              </div>
+              <span className="text-xs text-muted-foreground font-medium">Arquivo</span>
+            </button>
+          </>
+        )}
+
+        {highlights.map((highlight, index) => {
+          const cover = getHighlightCover(highlight);
+          return (
+            <button
+              key={highlight.id}
+              type="button"
+              className="flex-shrink-0 flex flex-col items-center space-y-1 group"
+              onClick={() => handleOpenHighlight(index)}
+            >
+              <div className="w-16 h-16 rounded-full p-0.5 bg-gradient-to-br from-muted to-muted-foreground/30 transition-all duration-300 group-hover:scale-110">
+                <div className="w-full h-full rounded-full overflow-hidden border-2 border-background bg-muted">
+                  {cover && <StoryThumbnail story={cover} />}
+                </div>
+              </div>
+              <span className="text-xs max-w-[64px] truncate font-medium">{highlight.title}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {viewing && (
+        <StoryViewerEnhanced
+          open={viewingIndex !== null}
+          onOpenChange={(open) => !open && setViewingIndex(null)}
+          storyGroups={viewingGroups}
+          currentGroupIndex={0}
+          currentStoryIndex={storyIndex}
+          onGroupChange={() => {}}
+          onStoryChange={setStoryIndex}
+          onStartChat={(otherUserId, story) => startChat(otherUserId, story.profiles.display_name)}
+          onStoryDeleted={refreshHighlights}
+          highlight={{
+            title: viewing.title,
+            onEdit: isOwnProfile ? () => handleOpenEditor(viewing) : undefined,
+          }}
+        />
+      )}
+
+      {isOwnProfile && (
+        <>
+          <StoryHighlightEditor
+            open={editorOpen}
+            onOpenChange={setEditorOpen}
+            highlight={editingHighlight}
+            onSaved={refreshHighlights}
+          />
+          <StoryArchive open={archiveOpen} onOpenChange={setArchiveOpen} />
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,184 @@
+import { useRef, useState } from 'react';
+import { StoryLayersView } from '@/components/StoryLayersView';
+import {
+  BrushStroke,
+  clampPosition,
+  clampScale,
+  createDrawingLayer,
+  isTransformableLayer,
+  StoryLayer,
+  TransformableLayer,
+} from '@/lib/storyLayers';
+import { cn } from '@/lib/utils';
+
+interface StoryLayerCanvasProps {
+  layers: StoryLayer[];
+  onLayersChange: (update: (layers: StoryLayer[]) => StoryLayer[]) => void;
+  selectedLayerId: string | null;
+  onSelectLayer: (layerId: string | null) => void;
+  // With a brush, pointers draw instead of moving layers
+  brush: { color: string; width: number } | null;
+  className?: string;
+}
+
+type Point = { x: number; y: number };
+
+// Where the gesture started, so moves are applied to the layer as it was then
+interface Gesture {
+  layerId: string;
+  origin: TransformableLayer;
+  pointers: Map<number, Point>;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+const angle = (a: Point, b: Point) => (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+
+// Editable layer canvas of the story creator: drag a layer with one finger, pinch and
+// twist it with two, or scroll the mouse wheel over it (Shift rotates)
+export const StoryLayerCanvas = ({
+  layers,
+  onLayersChange,
+  selectedLayerId,
+  onSelectLayer,
+  brush,
+  className,
+}: StoryLayerCanvasProps) => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef<Map<number, Point>>(new Map());
+  const gestureRef = useRef<Gesture | null>(null);
+  const [liveStroke, setLiveStroke] = useState<BrushStroke | null>(null);
+
+  const updateLayer = (layerId: string, patch: Partial<TransformableLayer>) => {
+    onLayersChange(prev => prev.map(layer =>
+      layer.id === layerId ? { ...layer, ...patch } as StoryLayer : layer
+    ));
+  };
+
+  const toFraction = (point: Point): [number, number] => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return [
+      clampPosition((point.x - rect.left) / rect.width),
+      clampPosition((point.y - rect.top) / rect.height),
+    ];
+  };
+
+  const startGesture = (layerId: string) => {
+    const origin = layers.find(layer => layer.id === layerId);
+    if (!origin || !isTransformableLayer(origin)) {
+      gestureRef.current = null;
+      return;
+    }
+    gestureRef.current = { layerId, origin, pointers: new Map(pointersRef.current) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (brush) {
+      if (pointersRef.current.size === 1) {
+        setLiveStroke({ color: brush.color, width: brush.width, points: [toFraction({ x: e.clientX, y: e.clientY })] });
+      }
+      return;
+    }
+
+    if (pointersRef.current.size === 1) {
+      const layerId = (e.target as HTMLElement).closest<HTMLElement>('[data-layer-id]')?.dataset.layerId ?? null;
+      onSelectLayer(layerId);
+      if (layerId) startGesture(layerId);
+      else gestureRef.current = null;
+    } else if (gestureRef.current) {
+      // A second finger anywhere turns the drag into a pinch of the same layer
+      startGesture(gestureRef.current.layerId);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (brush) {
+      const point = toFraction({ x: e.clientX, y: e.clientY });
+      setLiveStroke(prev => prev ? { ...prev, points: [...prev.points, point] } : prev);
+      return;
+    }
+
+    const gesture = gestureRef.current;
+    if (!gesture || !canvasRef.current) return;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const [startA, startB] = [...gesture.pointers.values()];
+    const [currentA, currentB] = [...gesture.pointers.keys()].map(id => pointersRef.current.get(id) ?? gesture.pointers.get(id)!);
+
+    if (startB && currentB) {
+      updateLayer(gesture.layerId, {
+        x: clampPosition(gesture.origin.x + ((currentA.x + currentB.x) - (startA.x + startB.x)) / 2 / rect.width),
+        y: clampPosition(gesture.origin.y + ((currentA.y + currentB.y) - (startA.y + startB.y)) / 2 / rect.height),
+        scale: clampScale(gesture.origin.scale * (distance(currentA, currentB) / Math.max(distance(startA, startB), 1))),
+        rotation: gesture.origin.rotation + angle(currentA, currentB) - angle(startA, startB),
+      });
+    } else {
+      updateLayer(gesture.layerId, {
+        x: clampPosition(gesture.origin.x + (currentA.x - startA.x) / rect.width),
+        y: clampPosition(gesture.origin.y + (currentA.y - startA.y) / rect.height),
+      });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+
+    if (brush) {
+      if (pointersRef.current.size === 0 && liveStroke) {
+        const stroke = liveStroke;
+        setLiveStroke(null);
+        // Strokes join the drawing on top, or start a new one above the other layers
+        onLayersChange(prev => {
+          const top = prev[prev.length - 1];
+          if (top?.type === 'drawing') {
+            return [...prev.slice(0, -1), { ...top, strokes: [...top.strokes, stroke] }];
+          }
+          return [...prev, { ...createDrawingLayer(), strokes: [stroke] }];
+        });
+      }
+      return;
+    }
+
+    // Lifting one finger of a pinch carries on as a drag from where the layer is now
+    if (gestureRef.current && pointersRef.current.size > 0) {
+      startGesture(gestureRef.current.layerId);
+    } else if (pointersRef.current.size === 0) {
+      gestureRef.current = null;
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    if (brush || !selectedLayerId) return;
+    const layer = layers.find(item => item.id === selectedLayerId);
+    if (!layer || !isTransformableLayer(layer)) return;
+
+    if (e.shiftKey) {
+      updateLayer(layer.id, { rotation: layer.rotation + Math.sign(e.deltaY) * 5 });
+    } else {
+      updateLayer(layer.id, { scale: clampScale(layer.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1)) });
+    }
+  };
+
+  return (
+    <div
+      ref={canvasRef}
+      className={cn('touch-none select-none', brush ? 'cursor-crosshair' : 'cursor-grab', className)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={handleWheel}
+    >
+      <StoryLayersView
+        layers={layers}
+        selectedLayerId={brush ? null : selectedLayerId}
+        liveStroke={liveStroke}
+        className="absolute inset-0"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MapPin } from 'lucide-react';
+import { createStickerLayer, StickerLayer, STORY_EMOJIS } from '@/lib/storyLayers';
+
+interface StoryLayerStickerPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (layer: StickerLayer) => void;
+}
+
+const LOCATION_MAX_LENGTH = 40;
+
+// Emoji and location stickers of the story canvas. Mentions are added from the tag selector
+export const StoryLayerStickerPicker = ({ open, onOpenChange, onAdd }: StoryLayerStickerPickerProps) => {
+  const [location, setLocation] = useState('');
+
+  useEffect(() => {
+    if (open) setLocation('');
+  }, [open]);
+
+  const add = (layer: StickerLayer) => {
+    onAdd(layer);
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-auto max-h-[90vh] overflow-y-auto rounded-t-3xl border-0 bg-background p-0">
+        <div className="p-6 space-y-4">
+          <SheetHeader>
+            <div className="flex items-center justify-center">
+              <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+            </div>
+            <SheetTitle className="text-center text-lg font-semibold mt-3">Emojis e local</SheetTitle>
+            <SheetDescription className="text-center">
+              Arraste para mover e use dois dedos para girar ou redimensionar.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="grid grid-cols-6 gap-2">
+            {STORY_EMOJIS.map(emoji => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => add(createStickerLayer('emoji', emoji))}
+                className="h-12 rounded-xl text-3xl transition-all hover:bg-muted hover:scale-110"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (location.trim()) add(createStickerLayer('location', location.trim()));
+            }}
+          >
+            <div className="relative flex-1">
+              <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="Adicionar local"
+                maxLength={LOCATION_MAX_LENGTH}
+                className="rounded-xl pl-9"
+              />
+            </div>
+            <Button type="submit" disabled={!location.trim()} className="rounded-xl">
+              Adicionar
+            </Button>
+          </form>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,107 @@
+import { CSSProperties } from 'react';
+import {
+  BrushStroke,
+  getContrastColor,
+  getStickerLayerLabel,
+  getStrokePath,
+  STORY_FONTS,
+  StoryLayer,
+  TransformableLayer,
+} from '@/lib/storyLayers';
+import { cn } from '@/lib/utils';
+
+interface StoryLayersViewProps {
+  layers: StoryLayer[];
+  className?: string;
+  // Editor only: outlines the layer being edited and shows the stroke being drawn
+  selectedLayerId?: string | null;
+  liveStroke?: BrushStroke | null;
+}
+
+const getTransformStyle = (layer: TransformableLayer): CSSProperties => ({
+  left: `${layer.x * 100}%`,
+  top: `${layer.y * 100}%`,
+  transform: `translate(-50%, -50%) rotate(${layer.rotation}deg) scale(${layer.scale})`,
+});
+
+const Strokes = ({ strokes }: { strokes: BrushStroke[] }) => (
+  <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+    {strokes.map((stroke, index) => (
+      <path
+        key={index}
+        d={getStrokePath(stroke)}
+        fill="none"
+        stroke={stroke.color}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+        style={{ strokeWidth: `${stroke.width}cqw` }}
+      />
+    ))}
+  </svg>
+);
+
+// Draws a story's layer document. Sizes are relative to the container's width, so the
+// creator's preview and the viewer render the same story the same way
+export const StoryLayersView = ({ layers, className, selectedLayerId, liveStroke }: StoryLayersViewProps) => (
+  <div className={cn('overflow-hidden', className)} style={{ containerType: 'size' }}>
+    {layers.map(layer => {
+      if (layer.type === 'drawing') {
+        return <Strokes key={layer.id} strokes={layer.strokes} />;
+      }
+
+      const isSelected = layer.id === selectedLayerId;
+
+      if (layer.type === 'text') {
+        const font = STORY_FONTS[layer.font] ?? STORY_FONTS.classic;
+        return (
+          <div
+            key={layer.id}
+            data-layer-id={layer.id}
+            className="absolute"
+            style={getTransformStyle(layer)}
+          >
+            <p
+              className={cn(
+                'whitespace-pre-wrap break-words text-center leading-tight w-max max-w-[90cqw]',
+                layer.background ? 'rounded-[1.5cqw] px-[2cqw] py-[1cqw]' : 'drop-shadow-lg',
+                isSelected && 'outline-dashed outline-2 outline-white/80 outline-offset-4'
+              )}
+              style={{
+                fontSize: `${layer.size}cqw`,
+                fontFamily: font.family,
+                fontWeight: font.weight,
+                color: layer.background ? getContrastColor(layer.color) : layer.color,
+                backgroundColor: layer.background ? layer.color : undefined,
+              }}
+            >
+              {layer.text || ' '}
+            </p>
+          </div>
+        );
+      }
+
+      return (
+        <div
+          key={layer.id}
+          data-layer-id={layer.id}
+          className="absolute"
+          style={getTransformStyle(layer)}
+        >
+          <span
+            className={cn(
+              'block whitespace-nowrap',
+              layer.kind === 'emoji'
+                ? 'text-[14cqw] leading-none'
+                : 'rounded-[2cqw] bg-white px-[3cqw] py-[1.5cqw] text-[5cqw] font-bold text-primary shadow-lg',
+              isSelected && 'outline-dashed outline-2 outline-white/80 outline-offset-4'
+            )}
+          >
+            {getStickerLayerLabel(layer)}
+          </span>
+        </div>
+      );
+    })}
+    {liveStroke && <Strokes strokes={[liveStroke]} />}
+  </div>
+);
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import StoryViewerEnhanced from '@/components/StoryViewerEnhanced';
+import { StoryThumbnail } from '@/components/StoryThumbnail';
+import { supabase } from '@/integrations/supabase/client';
+import { ArchivedStory, isStoryExpired } from '@/lib/storyHighlights';
+import { cn, stripUserDigits } from '@/lib/utils';
+
+interface StoryMessageCardProps {
+  // Null once the story was deleted
+  storyId: string | null;
+  isReaction: boolean;
+  isOwnMessage: boolean;
+}
+
+// Preview of the story a direct message replied or reacted to. Tapping it plays the
+// story while it is live; afterwards only an expired placeholder is left
+export const StoryMessageCard = ({ storyId, isReaction, isOwnMessage }: StoryMessageCardProps) => {
+  const [story, setStory] = useState<ArchivedStory | null>(null);
+  const [loading, setLoading] = useState(!!storyId);
+  const [viewerOpen, setViewerOpen] = useState(false);
+
+  useEffect(() => {
+    setStory(null);
+    if (!storyId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from('stories')
+      .select('*, profiles(display_name, username, avatar_url)')
+      .eq('id', storyId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('Error fetching replied story:', error);
+        setStory((data as ArchivedStory | null) ?? null);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storyId]);
+
+  const isAvailable = !!story && !isStoryExpired(story);
+  const authorName = story ? stripUserDigits(story.profiles.display_name) : null;
+  const label = isOwnMessage
+    ? `Você ${isReaction ? 'reagiu' : 'respondeu'} ao story${authorName ? ` de ${authorName}` : ''}`
+    : `${isReaction ? 'Reagiu' : 'Respondeu'} ao seu story`;
+
+  return (
+    <div className="mb-2 space-y-1.5">
+      <p className={cn('text-xs', isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+        {label}
+      </p>
+
+      {loading ? (
+        <div className="w-20 aspect-[9/16] rounded-xl bg-muted/40 animate-pulse" />
+      ) : isAvailable ? (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            setViewerOpen(true);
+          }}
+          className="block w-20 aspect-[9/16] rounded-xl overflow-hidden shadow-md transition-opacity hover:opacity-90"
+        >
+          <StoryThumbnail story={story} showText />
+        </button>
+      ) : (
+        <div className={cn(
+          'w-20 aspect-[9/16] rounded-xl flex flex-col items-center justify-center gap-1 p-2 text-center',
+          isOwnMessage ? 'bg-primary-foreground/10 text-primary-foreground/70' : 'bg-muted text-muted-foreground'
+        )}>
+          <Clock className="w-4 h-4" />
+          <span className="text-[10px] leading-tight">Story expirado</span>
+        </div>
+      )}
+
+      {/* The viewer is portaled, but its events still bubble to the message's long press */}
+      {viewerOpen && story && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+          onTouchStart={(e) => e.stopPropagation()}
+        >
+          <StoryViewerEnhanced
+            open={viewerOpen}
+            onOpenChange={setViewerOpen}
+            storyGroups={[{
+              user_id: story.user_id,
+              user: story.profiles,
+              stories: [story],
+              hasViewed: true,
+            }]}
+            currentGroupIndex={0}
+            currentStoryIndex={0}
+            onGroupChange={() => {}}
+            onStoryChange={() => {}}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { MessageCircle, Send } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { sendStoryReply, STORY_QUICK_REACTIONS, STORY_REPLY_MAX_LENGTH } from '@/lib/storyReplies';
+import { stripUserDigits } from '@/lib/utils';
+
+interface StoryReplyBarProps {
+  storyId: string;
+  authorName: string;
+  // Typing a reply pauses the story
+  onTypingChange?: (typing: boolean) => void;
+  // Opens the conversation with the author instead of replying inline
+  onOpenChat?: () => void;
+}
+
+// Reply field and quick reactions shown under someone else's story. Both arrive in the
+// author's DMs with the story attached
+export const StoryReplyBar = ({ storyId, authorName, onTypingChange, onOpenChat }: StoryReplyBarProps) => {
+  const [reply, setReply] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const setTyping = (typing: boolean) => {
+    setFocused(typing);
+    onTypingChange?.(typing);
+  };
+
+  const send = async (content: string, isReaction = false) => {
+    if (!content.trim() || sending) return;
+
+    setSending(true);
+    try {
+      await sendStoryReply(storyId, content, isReaction);
+      if (!isReaction) setReply('');
+      toast({
+        title: isReaction ? `${content} Reação enviada` : "Resposta enviada",
+        description: `${stripUserDigits(authorName)} vai ver no Direct.`,
+      });
+    } catch (error) {
+      console.error('Error replying to story:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível enviar sua resposta.",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {focused && (
+        <div className="flex justify-between rounded-full bg-black/40 px-2 py-1 backdrop-blur-sm animate-fade-in">
+          {STORY_QUICK_REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              disabled={sending}
+              // Keeps the field focused so the row doesn't disappear before the click
+              onPointerDown={(e) => e.preventDefault()}
+              onClick={() => send(emoji, true)}
+              className="w-8 h-8 rounded-full text-xl transition-transform hover:scale-125 disabled:opacity-50"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(reply);
+        }}
+      >
+        <input
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          onFocus={() => setTyping(true)}
+          onBlur={() => setTyping(false)}
+          maxLength={STORY_REPLY_MAX_LENGTH}
+          placeholder={`Responder a ${stripUserDigits(authorName)}...`}
+          disabled={sending}
+          className="flex-1 min-w-0 rounded-full border border-white/60 bg-black/20 px-4 py-2 text-sm text-white placeholder:text-white/70 outline-none backdrop-blur-sm focus:border-white"
+        />
+        {reply.trim() ? (
+          <button
+            type="submit"
+            disabled={sending}
+            className="w-10 h-10 flex items-center justify-center rounded-full text-white hover:bg-white/20 disabled:opacity-50"
+            aria-label="Enviar resposta"
+          >
+            <Send className="w-5 h-5" />
+          </button>
+        ) : onOpenChat && (
+          <button
+            type="button"
+            onClick={onOpenChat}
+            className="w-10 h-10 flex items-center justify-center rounded-full text-white hover:bg-white/20"
+            aria-label="Abrir conversa"
+          >
+            <MessageCircle className="w-5 h-5" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Check, Send, X } from 'lucide-react';
+import {
+  getOptionCounts,
+  getPercent,
+  getSliderAverage,
+  STICKER_ANSWER_MAX_LENGTH,
+  StickerContent,
+  StickerResponse,
+  StickerTotal,
+  StorySticker,
+} from '@/lib/storyStickers';
+import { cn } from '@/lib/utils';
+
+interface StoryStickerCardProps {
+  sticker: StickerContent & { id?: string };
+  // preview: shown while creating; respond: a viewer can answer; results: the author's view
+  mode: 'preview' | 'respond' | 'results';
+  response?: StickerResponse | null;
+  totals?: StickerTotal[];
+  onRespond?: (answer: { optionIndex?: number; sliderValue?: number; text?: string }) => Promise<boolean>;
+  // Typing an answer pauses the story
+  onTypingChange?: (typing: boolean) => void;
+}
+
+// A poll, question, slider or quiz as drawn on top of a story
+export const StoryStickerCard = ({
+  sticker,
+  mode,
+  response,
+  totals = [],
+  onRespond,
+  onTypingChange,
+}: StoryStickerCardProps) => {
+  const [answerText, setAnswerText] = useState('');
+  const [sliderValue, setSliderValue] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+
+  const canRespond = mode === 'respond' && !response && !!onRespond && !submitting;
+  const showResults = mode === 'results' || (mode === 'respond' && !!response);
+  const storedSticker = sticker as StorySticker;
+
+  const submit = async (answer: { optionIndex?: number; sliderValue?: number; text?: string }) => {
+    if (!canRespond) return;
+    setSubmitting(true);
+    const sent = await onRespond(answer);
+    setSubmitting(false);
+    if (sent && answer.text) setAnswerText('');
+  };
+
+  if (sticker.type === 'poll' || sticker.type === 'quiz') {
+    const { options, question: title } = sticker.data;
+    const counts = showResults && sticker.id ? getOptionCounts(storedSticker, totals) : [];
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const isQuiz = sticker.type === 'quiz';
+    // The author and the creator know the answer, viewers only whether theirs was right
+    const correctIndex = isQuiz
+      ? sticker.data.correct_index ?? (response?.is_correct ? response.option_index : null)
+      : null;
+
+    return (
+      <div className="w-56 rounded-2xl bg-white/95 p-3 shadow-xl text-black space-y-2">
+        {title && <p className="text-sm font-bold text-center break-words">{title}</p>}
+        <div className={cn(sticker.type === 'poll' ? 'grid grid-cols-2 gap-2' : 'space-y-1.5')}>
+          {options.map((option, index) => {
+            const isChosen = response?.option_index === index;
+            const isCorrect = correctIndex === index;
+            const isWrong = isQuiz && isChosen && !isCorrect && (correctIndex !== null || response?.is_correct === false);
+            const percent = getPercent(counts[index] ?? 0, total);
+
+            return (
+              <button
+                key={index}
+                type="button"
+                disabled={!canRespond}
+                onClick={() => submit({ optionIndex: index })}
+                className={cn(
+                  'relative overflow-hidden rounded-xl border px-3 py-2 text-sm font-semibold text-left transition-colors',
+                  sticker.type === 'poll' && 'text-center',
+                  canRespond ? 'hover:bg-black/5 border-black/10' : 'border-black/10',
+                  showResults && isCorrect && 'border-green-500',
+                  showResults && isWrong && 'border-red-500'
+                )}
+              >
+                {showResults && (
+                  <span
+                    className={cn(
+                      'absolute inset-y-0 left-0',
+                      isCorrect ? 'bg-green-500/25' : 'bg-primary/15'
+                    )}
+                    style={{ width: `${percent}%` }}
+                  />
+                )}
+                <span className="relative flex items-center justify-between gap-2">
+                  <span className="truncate">{option || `Opção ${index + 1}`}</span>
+                  {showResults ? (
+                    <span className="flex items-center gap-1 text-xs">
+                      {isCorrect && <Check className="w-3 h-3 text-green-600" />}
+                      {isWrong && <X className="w-3 h-3 text-red-600" />}
+                      {percent}%
+                    </span>
+                  ) : mode === 'preview' && isCorrect ? (
+                    <Check className="w-3 h-3 text-green-600" />
+                  ) : null}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+        {showResults && mode === 'results' && (
+          <p className="text-[10px] text-center text-black/50">{total} {total === 1 ? 'voto' : 'votos'}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (sticker.type === 'slider') {
+    const summary = showResults && sticker.id ? getSliderAverage(storedSticker, totals) : null;
+    // The author sees the emoji at the average answer
+    const value = response?.slider_value ?? (mode === 'results' && summary ? summary.average : sliderValue);
+
+    return (
+      <div className="w-56 rounded-2xl bg-white/95 p-3 shadow-xl text-black space-y-2">
+        {sticker.data.prompt && <p className="text-sm font-bold text-center break-words">{sticker.data.prompt}</p>}
+        <div className="relative h-8 flex items-center">
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(value * 100)}
+            disabled={!canRespond}
+            onChange={(e) => setSliderValue(Number(e.target.value) / 100)}
+            onPointerUp={() => submit({ sliderValue })}
+            onKeyUp={() => submit({ sliderValue })}
+            className="w-full accent-primary"
+          />
+          <span
+            className="pointer-events-none absolute -top-3 text-xl -translate-x-1/2"
+            style={{ left: `${Math.round(value * 100)}%` }}
+          >
+            {sticker.data.emoji}
+          </span>
+        </div>
+        {summary && (
+          <p className="text-[10px] text-center text-black/50">
+            Média {Math.round(summary.average * 100)}% · {summary.count} {summary.count === 1 ? 'resposta' : 'respostas'}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-56 overflow-hidden rounded-2xl bg-white/95 shadow-xl text-black">
+      <p className="bg-gradient-to-r from-primary to-accent px-3 py-2 text-sm font-bold text-center text-white break-words">
+        {sticker.data.prompt}
+      </p>
+      <div className="p-2">
+        {mode === 'respond' && response ? (
+          <p className="text-xs text-center text-black/60 py-1">Resposta enviada</p>
+        ) : mode === 'respond' ? (
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (answerText.trim()) submit({ text: answerText.trim() });
+            }}
+          >
+            <input
+              value={answerText}
+              onChange={(e) => setAnswerText(e.target.value)}
+              onFocus={() => onTypingChange?.(true)}
+              onBlur={() => onTypingChange?.(false)}
+              maxLength={STICKER_ANSWER_MAX_LENGTH}
+              placeholder="Digite algo..."
+              disabled={submitting}
+              className="flex-1 min-w-0 rounded-lg bg-black/5 px-2 py-1.5 text-sm outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!answerText.trim() || submitting}
+              className="w-8 h-8 flex items-center justify-center rounded-full text-primary disabled:opacity-40"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </form>
+        ) : (
+          <p className="rounded-lg bg-black/5 px-2 py-1.5 text-sm text-black/40">
+            {mode === 'results' ? 'As respostas aparecem em Ver visualizações' : 'Digite algo...'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
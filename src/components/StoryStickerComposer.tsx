@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Check, Plus, X } from 'lucide-react';
+import { StoryStickerCard } from '@/components/StoryStickerCard';
+import {
+  createStickerDraft,
+  isStickerContentValid,
+  QUIZ_MAX_OPTIONS,
+  SLIDER_EMOJIS,
+  STICKER_OPTION_MAX_LENGTH,
+  STICKER_TEXT_MAX_LENGTH,
+  STICKER_TYPE_LABELS,
+  StickerDraft,
+  StickerType,
+} from '@/lib/storyStickers';
+import { cn } from '@/lib/utils';
+
+interface StoryStickerComposerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (sticker: StickerDraft) => void;
+}
+
+// Picks a sticker type and fills in its text before it is placed on the story
+export const StoryStickerComposer = ({ open, onOpenChange, onAdd }: StoryStickerComposerProps) => {
+  const [draft, setDraft] = useState<StickerDraft>(() => createStickerDraft('poll'));
+
+  useEffect(() => {
+    if (open) setDraft(createStickerDraft('poll'));
+  }, [open]);
+
+  const updateData = (patch: Partial<StickerDraft['data']>) => {
+    setDraft(prev => ({ ...prev, data: { ...prev.data, ...patch } } as StickerDraft));
+  };
+
+  const updateOption = (index: number, value: string) => {
+    if (draft.type !== 'poll' && draft.type !== 'quiz') return;
+    updateData({ options: draft.data.options.map((option, i) => (i === index ? value : option)) } as Partial<StickerDraft['data']>);
+  };
+
+  const removeQuizOption = (index: number) => {
+    if (draft.type !== 'quiz') return;
+    const options = draft.data.options.filter((_, i) => i !== index);
+    const correctIndex = draft.data.correct_index;
+    updateData({
+      options,
+      correct_index: correctIndex === index ? 0 : correctIndex > index ? correctIndex - 1 : correctIndex,
+    });
+  };
+
+  const handleAdd = () => {
+    if (!isStickerContentValid(draft)) return;
+    onAdd(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-auto max-h-[90vh] overflow-y-auto rounded-t-3xl border-0 bg-background p-0">
+        <div className="p-6 space-y-4">
+          <SheetHeader>
+            <div className="flex items-center justify-center">
+              <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+            </div>
+            <SheetTitle className="text-center text-lg font-semibold mt-3">Adicionar sticker</SheetTitle>
+            <SheetDescription className="text-center">
+              Depois de adicionar, arraste o sticker para posicioná-lo.
+            </SheetDescription>
+          </SheetHeader>
+
+          <Tabs value={draft.type} onValueChange={(value) => setDraft(createStickerDraft(value as StickerType))}>
+            <TabsList className="grid w-full grid-cols-4">
+              {(Object.keys(STICKER_TYPE_LABELS) as StickerType[]).map(type => (
+                <TabsTrigger key={type} value={type}>{STICKER_TYPE_LABELS[type]}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <div className="flex justify-center rounded-2xl bg-gradient-to-br from-primary to-accent py-6">
+            <StoryStickerCard sticker={draft} mode="preview" />
+          </div>
+
+          {(draft.type === 'poll' || draft.type === 'quiz') && (
+            <div className="space-y-2">
+              <Input
+                value={draft.data.question}
+                onChange={(e) => updateData({ question: e.target.value })}
+                placeholder={draft.type === 'poll' ? 'Pergunta (opcional)' : 'Pergunta'}
+                maxLength={STICKER_TEXT_MAX_LENGTH}
+                className="rounded-xl"
+              />
+              {draft.data.options.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  {draft.type === 'quiz' && (
+                    <button
+                      type="button"
+                      onClick={() => updateData({ correct_index: index })}
+                      className={cn(
+                        'w-6 h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0',
+                        draft.data.correct_index === index ? 'border-green-500 bg-green-500 text-white' : 'border-muted-foreground/40'
+                      )}
+                      aria-label="Marcar como resposta certa"
+                    >
+                      {draft.data.correct_index === index && <Check className="w-3 h-3" />}
+                    </button>
+                  )}
+                  <Input
+                    value={option}
+                    onChange={(e) => updateOption(index, e.target.value)}
+                    placeholder={`Opção ${index + 1}`}
+                    maxLength={STICKER_OPTION_MAX_LENGTH}
+                    className="rounded-xl"
+                  />
+                  {draft.type === 'quiz' && draft.data.options.length > 2 && (
+                    <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0" onClick={() => removeQuizOption(index)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {draft.type === 'quiz' && draft.data.options.length < QUIZ_MAX_OPTIONS && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full rounded-xl"
+                  onClick={() => updateData({ options: [...draft.data.options, ''] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Adicionar opção
+                </Button>
+              )}
+              {draft.type === 'quiz' && (
+                <p className="text-xs text-muted-foreground">Toque no círculo para marcar a resposta certa.</p>
+              )}
+            </div>
+          )}
+
+          {draft.type === 'question' && (
+            <Input
+              value={draft.data.prompt}
+              onChange={(e) => updateData({ prompt: e.target.value })}
+              placeholder="Me faça uma pergunta"
+              maxLength={STICKER_TEXT_MAX_LENGTH}
+              className="rounded-xl"
+            />
+          )}
+
+          {draft.type === 'slider' && (
+            <div className="space-y-2">
+              <Input
+                value={draft.data.prompt}
+                onChange={(e) => updateData({ prompt: e.target.value })}
+                placeholder="Pergunta (opcional)"
+                maxLength={STICKER_TEXT_MAX_LENGTH}
+                className="rounded-xl"
+              />
+              <div className="flex justify-between">
+                {SLIDER_EMOJIS.map(emoji => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => updateData({ emoji })}
+                    className={cn(
+                      'w-10 h-10 rounded-full text-xl transition-all',
+                      draft.data.emoji === emoji ? 'bg-primary/15 scale-110' : 'hover:bg-muted'
+                    )}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Button onClick={handleAdd} disabled={!isStickerContentValid(draft)} className="w-full h-12 rounded-xl">
+            Adicionar ao story
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
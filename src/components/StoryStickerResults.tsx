@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { supabase } from '@/integrations/supabase/client';
+import { getPercent, STICKER_TYPE_LABELS, StickerResponse, StorySticker, withQuizAnswers } from '@/lib/storyStickers';
+import { cn, stripUserDigits } from '@/lib/utils';
+
+type ResponseWithProfile = StickerResponse & {
+  profiles: {
+    display_name: string;
+    username: string;
+    avatar_url: string | null;
+  } | null;
+};
+
+interface StoryStickerResultsProps {
+  storyId: string;
+}
+
+const Responder = ({ response, detail }: { response: ResponseWithProfile; detail?: string }) => (
+  <div className="flex items-center space-x-3 py-1.5">
+    <Avatar className="w-8 h-8">
+      <AvatarImage src={response.profiles?.avatar_url || ''} />
+      <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white text-xs font-semibold">
+        {response.profiles ? stripUserDigits(response.profiles.display_name)[0] : '?'}
+      </AvatarFallback>
+    </Avatar>
+    <div className="flex-1 min-w-0">
+      <p className="text-sm font-medium truncate">
+        {response.profiles ? stripUserDigits(response.profiles.display_name) : 'Usuário'}
+      </p>
+      {detail && <p className="text-xs text-muted-foreground break-words">{detail}</p>}
+    </div>
+  </div>
+);
+
+// Totals and individual answers of the stickers of a story, for its author
+export const StoryStickerResults = ({ storyId }: StoryStickerResultsProps) => {
+  const [stickers, setStickers] = useState<StorySticker[]>([]);
+  const [responses, setResponses] = useState<ResponseWithProfile[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const { data: stickerRows, error } = await supabase
+          .from('story_stickers')
+          .select('*')
+          .eq('story_id', storyId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        const loaded = await withQuizAnswers((stickerRows || []) as unknown as StorySticker[]);
+        if (cancelled) return;
+        setStickers(loaded);
+        if (!stickerRows?.length) {
+          setResponses([]);
+          return;
+        }
+
+        const { data: responseRows, error: responsesError } = await supabase
+          .from('story_sticker_responses')
+          .select('*, profiles(display_name, username, avatar_url)')
+          .in('sticker_id', stickerRows.map(sticker => sticker.id))
+          .order('created_at', { ascending: false });
+
+        if (responsesError) throw responsesError;
+        if (!cancelled) setResponses((responseRows || []) as ResponseWithProfile[]);
+      } catch (error) {
+        console.error('Error fetching sticker results:', error);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storyId]);
+
+  if (stickers.length === 0) return null;
+
+  return (
+    <div className="space-y-4 border-b border-border pb-4 mb-4">
+      {stickers.map(sticker => {
+        const stickerResponses = responses.filter(response => response.sticker_id === sticker.id);
+        const title = sticker.type === 'question' || sticker.type === 'slider' ? sticker.data.prompt : sticker.data.question;
+
+        return (
+          <div key={sticker.id} className="space-y-2">
+            <div>
+              <p className="text-xs font-medium text-muted-foreground uppercase">{STICKER_TYPE_LABELS[sticker.type]}</p>
+              {title && <p className="text-sm font-semibold break-words">{title}</p>}
+            </div>
+
+            {stickerResponses.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhuma resposta ainda</p>
+            )}
+
+            {(sticker.type === 'poll' || sticker.type === 'quiz') && stickerResponses.length > 0 && (
+              sticker.data.options.map((option, index) => {
+                const voters = stickerResponses.filter(response => response.option_index === index);
+                const isCorrect = sticker.type === 'quiz' && sticker.data.correct_index === index;
+                return (
+                  <div key={index} className="space-y-1">
+                    <div className="relative overflow-hidden rounded-lg border border-border px-3 py-1.5 text-sm">
+                      <span
+                        className={cn('absolute inset-y-0 left-0', isCorrect ? 'bg-green-500/20' : 'bg-primary/10')}
+                        style={{ width: `${getPercent(voters.length, stickerResponses.length)}%` }}
+                      />
+                      <span className="relative flex justify-between gap-2">
+                        <span className="truncate">{option}{isCorrect ? ' ✓' : ''}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {voters.length} · {getPercent(voters.length, stickerResponses.length)}%
+                        </span>
+                      </span>
+                    </div>
+                    {voters.map(response => <Responder key={response.id} response={response} />)}
+                  </div>
+                );
+              })
+            )}
+
+            {sticker.type === 'slider' && stickerResponses.length > 0 && (
+              <>
+                <p className="text-sm">
+                  {sticker.data.emoji} Média {getPercent(
+                    stickerResponses.reduce((sum, response) => sum + (response.slider_value ?? 0), 0),
+                    stickerResponses.length
+                  )}%
+                </p>
+                {stickerResponses.map(response => (
+                  <Responder
+                    key={response.id}
+                    response={response}
+                    detail={`${sticker.data.emoji} ${Math.round((response.slider_value ?? 0) * 100)}%`}
+                  />
+                ))}
+              </>
+            )}
+
+            {sticker.type === 'question' && stickerResponses.map(response => (
+              <Responder key={response.id} response={response} detail={response.answer_text || ''} />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { cn } from '@/lib/utils';
+
+interface StoryThumbnailProps {
+  story: {
+    content: string | null;
+    media_url: string | null;
+    media_type: string | null;
+    background_color: string | null;
+    text_color: string | null;
+  };
+  className?: string;
+  // Text stories show a bit of their text when there is room for it
+  showText?: boolean;
+}
+
+// Still preview of a story for the archive, the highlight editor and highlight covers
+export const StoryThumbnail = ({ story, className, showText = false }: StoryThumbnailProps) => {
+  if (story.media_url) {
+    return story.media_type === 'video' ? (
+      <video
+        src={`${story.media_url}#t=0.1`}
+        className={cn('w-full h-full object-cover', className)}
+        preload="metadata"
+        muted
+        playsInline
+      />
+    ) : (
+      <img src={story.media_url} alt="" loading="lazy" className={cn('w-full h-full object-cover', className)} />
+    );
+  }
+
+  return (
+    <div
+      className={cn('w-full h-full flex items-center justify-center p-1 overflow-hidden', className)}
+      style={{ background: story.background_color || undefined, color: story.text_color || undefined }}
+    >
+      {showText && story.content && (
+        <span className="text-[10px] font-semibold text-center leading-tight line-clamp-3 break-words">
+          {story.content}
+        </span>
+      )}
+    </div>
+  );
+};
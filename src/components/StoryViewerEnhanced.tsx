@@ -1,17 +1,25 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { X, ChevronLeft, ChevronRight, MessageCircle, Volume2, VolumeX, MoreVertical, Trash2, Edit, Eye } from 'lucide-react';
+import { X, ChevronLeft, ChevronRight, Volume2, VolumeX, MoreVertical, Trash2, Edit, Eye, Flag, Star } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { isCloseFriendsStory, STORY_AUDIENCE_LABELS } from '@/lib/storyAudience';
+import { parseLayerDocument } from '@/lib/storyLayers';
+import { Json } from '@/integrations/supabase/types';
 import StoryEditor from '@/components/StoryEditor';
 import StoryViewsList from '@/components/StoryViewsList';
+import { StoryStickerCard } from '@/components/StoryStickerCard';
+import { StoryLayersView } from '@/components/StoryLayersView';
+import { StoryReplyBar } from '@/components/StoryReplyBar';
+import { ReportDialog } from '@/components/ReportDialog';
 import { useStoryViews } from '@/hooks/useStoryViews';
 import { useNotifications } from '@/hooks/useNotifications';
+import { useStoryStickers } from '@/hooks/useStoryStickers';
 
 interface Story {
   id: string;
@@ -25,6 +33,8 @@ interface Story {
   text_size: number;
   created_at: string;
   expires_at: string;
+  audience?: string;
+  layers?: Json | null;
   profiles: {
     display_name: string;
     username: string;
@@ -53,6 +63,11 @@ interface StoryViewerEnhancedProps {
   onStoryChange: (storyIndex: number) => void;
   onStartChat?: (userId: string, story: Story) => void;
   onStoryDeleted?: () => void;
+  // Set when playing a highlight instead of the current stories
+  highlight?: {
+    title: string;
+    onEdit?: () => void;
+  };
 }
 
 const StoryViewerEnhanced = ({ 
@@ -64,7 +79,8 @@ const StoryViewerEnhanced = ({
   onGroupChange,
   onStoryChange,
   onStartChat,
-  onStoryDeleted 
+  onStoryDeleted,
+  highlight
 }: StoryViewerEnhancedProps) => {
   const { user } = useAuth();
   const { markStoryAsViewed } = useStoryViews(user?.id || null);
@@ -75,6 +91,7 @@ const StoryViewerEnhanced = ({
   const [touchStart, setTouchStart] = useState<{ x: number; y: number; time: number } | null>(null);
   const [isEditingStory, setIsEditingStory] = useState(false);
   const [showViewsList, setShowViewsList] = useState(false);
+  const [showReport, setShowReport] = useState(false);
   
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
@@ -86,7 +103,9 @@ const StoryViewerEnhanced = ({
 
   const currentGroup = storyGroups[currentGroupIndex];
   const currentStory = currentGroup?.stories[currentStoryIndex];
+  const layerDocument = parseLayerDocument(currentStory?.layers);
   const allStories = currentGroup?.stories || [];
+  const { stickers, myResponses, totals, respond } = useStoryStickers(open ? currentStory?.id : null, user?.id);
 
   // Função para avançar para o próximo story/grupo
   const handleNext = useCallback(() => {
@@ -366,6 +385,8 @@ const StoryViewerEnhanced = ({
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
       if (!open) return;
+      // Typing an answer to a sticker
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       
       switch (e.key) {
         case 'ArrowLeft':
@@ -501,8 +522,14 @@ const StoryViewerEnhanced = ({
                   <span className="text-white font-medium text-sm drop-shadow-lg">
                     {currentStory.profiles.display_name}
                   </span>
+                  {isCloseFriendsStory(currentStory) && (
+                    <span className="ml-2 inline-flex items-center gap-0.5 rounded-full bg-green-500 px-1.5 py-0.5 text-[10px] font-semibold text-white align-middle">
+                      <Star className="w-2.5 h-2.5 fill-current" />
+                      {STORY_AUDIENCE_LABELS.close_friends}
+                    </span>
+                  )}
                   <div className="text-white/70 text-xs drop-shadow-lg">
-                    {formatTimeAgo(currentStory.created_at)}
+                    {highlight ? `${highlight.title} · ` : ''}{formatTimeAgo(currentStory.created_at)}
                   </div>
                 </div>
               </div>
@@ -546,6 +573,19 @@ const StoryViewerEnhanced = ({
                          <Eye className="w-4 h-4 mr-2" />
                          Ver visualizações
                        </DropdownMenuItem>
+                       {highlight?.onEdit && (
+                         <DropdownMenuItem 
+                           onClick={(e) => {
+                             e.stopPropagation();
+                             onOpenChange(false);
+                             highlight.onEdit?.();
+                           }}
+                           className="cursor-pointer hover:bg-muted focus:bg-muted"
+                         >
+                           <Edit className="w-4 h-4 mr-2" />
+                           Editar destaque
+                         </DropdownMenuItem>
+                       )}
                        <DropdownMenuItem 
                          onClick={(e) => {
                            e.stopPropagation();
@@ -560,6 +600,49 @@ const StoryViewerEnhanced = ({
                   </DropdownMenu>
                 )}
 
+                {/* Menu de opções para stories de outros usuários */}
+                {user && currentStory.user_id !== user.id && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => e.stopPropagation()}
+                        onTouchStart={(e) => e.stopPropagation()}
+                        onTouchEnd={(e) => e.stopPropagation()}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onMouseUp={(e) => e.stopPropagation()}
+                        className="text-white hover:bg-white/20 w-8 h-8 p-0 rounded-full z-50 relative pointer-events-auto bg-black/30 backdrop-blur-sm"
+                      >
+                        <MoreVertical className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent 
+                      align="end" 
+                      className="bg-background/95 backdrop-blur-sm border border-border z-[9999]"
+                      onClick={(e) => e.stopPropagation()}
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onPointerUp={(e) => e.stopPropagation()}
+                      onMouseDown={(e) => e.stopPropagation()}
+                      onMouseUp={(e) => e.stopPropagation()}
+                      onTouchStart={(e) => e.stopPropagation()}
+                      onTouchEnd={(e) => e.stopPropagation()}
+                    >
+                      <DropdownMenuItem 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setIsPaused(true);
+                          setShowReport(true);
+                        }}
+                        className="text-destructive focus:text-destructive cursor-pointer hover:bg-destructive/10 focus:bg-destructive/10"
+                      >
+                        <Flag className="w-4 h-4 mr-2" />
+                        Denunciar story
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+
                 {/* Controle de volume para vídeos - botão maior */}
                 {currentStory.media_type === 'video' && (
                   <Button
@@ -589,25 +672,36 @@ const StoryViewerEnhanced = ({
               </div>
             </div>
 
-            {/* Botão de chat - apenas para stories de outros usuários */}
-            {currentStory.user_id !== user?.id && (
-              <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 z-10">
-                <Button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleStartChat(currentStory.user_id, currentStory);
-                  }}
-                  className="bg-white/90 hover:bg-white text-black rounded-full px-6 py-2 backdrop-blur-sm transition-all duration-200 hover:scale-105"
-                  size="sm"
-                >
-                  <MessageCircle className="w-4 h-4 mr-2" />
-                  Chamar para conversar
-                </Button>
+            {/* Resposta e reações - apenas para stories de outros usuários */}
+            {user && currentStory.user_id !== user.id && (
+              <div
+                className="absolute bottom-4 left-4 right-4 z-30"
+                onClick={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                onTouchEnd={(e) => e.stopPropagation()}
+                onMouseDown={(e) => e.stopPropagation()}
+                onMouseUp={(e) => e.stopPropagation()}
+              >
+                <StoryReplyBar
+                  key={currentStory.id}
+                  storyId={currentStory.id}
+                  authorName={currentStory.profiles.display_name}
+                  onTypingChange={setIsPaused}
+                  onOpenChat={onStartChat ? () => handleStartChat(currentStory.user_id, currentStory) : undefined}
+                />
               </div>
             )}
 
+            {/* Camadas do editor; stories antigos usam o texto único abaixo */}
+            {layerDocument && (
+              <StoryLayersView
+                layers={layerDocument.layers}
+                className="absolute inset-0 z-10 pointer-events-none animate-fade-in"
+              />
+            )}
+
             {/* Conteúdo de texto */}
-            {currentStory.content && (
+            {!layerDocument && currentStory.content && (
               <div
                 className={cn(
                   "absolute p-8 z-10 flex animate-fade-in pointer-events-none",
@@ -630,6 +724,29 @@ const StoryViewerEnhanced = ({
               </div>
             )}
 
+            {/* Stickers interativos */}
+            {stickers.map(sticker => (
+              <div
+                key={sticker.id}
+                className="absolute z-20 -translate-x-1/2 -translate-y-1/2"
+                style={{ left: `${sticker.position_x * 100}%`, top: `${sticker.position_y * 100}%` }}
+                onClick={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                onTouchEnd={(e) => e.stopPropagation()}
+                onMouseDown={(e) => e.stopPropagation()}
+                onMouseUp={(e) => e.stopPropagation()}
+              >
+                <StoryStickerCard
+                  sticker={sticker}
+                  mode={currentStory.user_id === user?.id ? 'results' : user ? 'respond' : 'preview'}
+                  response={myResponses.get(sticker.id)}
+                  totals={totals}
+                  onRespond={(answer) => respond(sticker.id, answer)}
+                  onTypingChange={setIsPaused}
+                />
+              </div>
+            ))}
+
             {/* Indicadores de navegação */}
             <div className="absolute inset-0 flex pointer-events-none">
               <div className="w-1/3 h-full flex items-center justify-start pl-4">
@@ -706,6 +823,17 @@ const StoryViewerEnhanced = ({
           onOpenChange={setShowViewsList}
           storyId={currentStory?.id || ''}
         />
+
+        {/* Denúncia do story */}
+        <ReportDialog
+          open={showReport}
+          onOpenChange={(isOpen) => {
+            setShowReport(isOpen);
+            if (!isOpen) setIsPaused(false);
+          }}
+          targetType="story"
+          targetId={currentStory.id}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -4,6 +4,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Eye } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { StoryStickerResults } from '@/components/StoryStickerResults';
 
 interface StoryView {
   id: string;
@@ -71,6 +72,8 @@ const StoryViewsList = ({ open, onOpenChange, storyId }: StoryViewsListProps) =>
         </DialogHeader>
 
         <div className="max-h-[400px] overflow-y-auto">
+          {open && storyId && <StoryStickerResults storyId={storyId} />}
+
           {loading ? (
             <div className="flex items-center justify-center py-8">
               <LoadingSpinner size="md" />
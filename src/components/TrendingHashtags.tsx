@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Hash, TrendingUp } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+
+interface TrendingHashtag {
+  name: string;
+  posts_count: number;
+  authors_count: number;
+}
+
+const TrendingHashtags = () => {
+  const navigate = useNavigate();
+  const [hashtags, setHashtags] = useState<TrendingHashtag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTrending = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_trending_hashtags', {
+          p_limit: 10,
+          p_hours: 24,
+        });
+
+        if (error) throw error;
+        setHashtags(data || []);
+      } catch (error) {
+        console.error('Error fetching trending hashtags:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrending();
+  }, []);
+
+  if (!loading && hashtags.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <TrendingUp className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold">Em alta nas últimas 24h</h2>
+      </div>
+
+      {loading ? (
+        <div className="flex flex-wrap gap-2">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-8 w-24 rounded-full bg-muted animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {hashtags.map((hashtag, index) => (
+            <button
+              key={hashtag.name}
+              onClick={() => navigate(`/tag/${encodeURIComponent(hashtag.name)}`)}
+              className="flex items-center space-x-1 px-3 py-1.5 rounded-full bg-primary/10 text-primary hover:bg-primary/20 transition-colors text-sm"
+            >
+              {index < 3 ? <TrendingUp className="w-3.5 h-3.5" /> : <Hash className="w-3.5 h-3.5" />}
+              <span className="font-medium">{hashtag.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {hashtag.posts_count} {hashtag.posts_count === 1 ? 'post' : 'posts'}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendingHashtags;
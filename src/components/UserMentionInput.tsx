@@ -3,6 +3,7 @@ import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
+import { useBlockedUsers } from '@/hooks/useBlockedUsers';
 import { stripUserDigits } from '@/lib/utils';
 
 interface User {
@@ -35,6 +36,7 @@ export const UserMentionInput = ({
   const [mentionQuery, setMentionQuery] = useState('');
   const [cursorPosition, setCursorPosition] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
+  const { blockedEitherWayIds } = useBlockedUsers();
 
   // Search for users when typing @
   useEffect(() => {
@@ -53,8 +55,9 @@ export const UserMentionInput = ({
           .limit(5);
 
         if (data) {
-          setSuggestions(data);
-          setShowSuggestions(data.length > 0);
+          const mentionable = data.filter(profile => !blockedEitherWayIds.has(profile.id));
+          setSuggestions(mentionable);
+          setShowSuggestions(mentionable.length > 0);
           setSelectedIndex(0);
         }
       } catch (error) {
@@ -63,7 +66,7 @@ export const UserMentionInput = ({
     };
 
     searchUsers();
-  }, [mentionQuery]);
+  }, [mentionQuery, blockedEitherWayIds]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
@@ -0,0 +1,161 @@
+import { useState, useRef, useEffect } from 'react';
+import { Play, Pause, Mic } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { formatVoiceDuration, VOICE_PLAYBACK_RATES, VOICE_WAVEFORM_BARS } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+
+interface VoiceMessagePlayerProps {
+  message: {
+    id: string;
+    sender_id: string;
+    media_url: string | null;
+    media_duration?: number | null;
+    media_waveform?: number[] | null;
+    listened_at?: string | null;
+  };
+  isOwnMessage: boolean;
+}
+
+export const VoiceMessagePlayer = ({ message, isOwnMessage }: VoiceMessagePlayerProps) => {
+  const { user } = useAuth();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(message.media_duration || 0);
+  const [rateIndex, setRateIndex] = useState(0);
+  const [listened, setListened] = useState(!!message.listened_at);
+
+  const waveform = message.media_waveform?.length
+    ? message.media_waveform
+    : Array(VOICE_WAVEFORM_BARS).fill(30);
+  const progress = duration > 0 ? currentTime / duration : 0;
+
+  useEffect(() => {
+    setListened(!!message.listened_at);
+  }, [message.listened_at]);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = VOICE_PLAYBACK_RATES[rateIndex];
+    }
+  }, [rateIndex]);
+
+  const markListened = async () => {
+    if (listened || isOwnMessage || message.sender_id === user?.id) return;
+
+    setListened(true);
+    try {
+      const { error } = await supabase.rpc('mark_message_listened', { p_message_id: message.id });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking voice message as listened:', error);
+    }
+  };
+
+  const togglePlay = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (isPlaying) {
+      audio.pause();
+      return;
+    }
+
+    try {
+      audio.playbackRate = VOICE_PLAYBACK_RATES[rateIndex];
+      await audio.play();
+      markListened();
+    } catch (error) {
+      console.error('Error playing voice message:', error);
+    }
+  };
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || duration <= 0) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    audio.currentTime = ratio * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  // Keep presses on the player from opening the message context menu
+  const stopPress = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return (
+    <div className="flex items-center gap-3 min-w-[220px]" onMouseDown={stopPress} onTouchStart={stopPress}>
+      <button
+        type="button"
+        onClick={togglePlay}
+        className={cn(
+          'w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 transition-colors',
+          isOwnMessage ? 'bg-primary-foreground/20 text-primary-foreground' : 'bg-primary text-primary-foreground'
+        )}
+        aria-label={isPlaying ? 'Pausar' : 'Reproduzir'}
+      >
+        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+      </button>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-[2px] h-8 cursor-pointer" onClick={handleSeek}>
+          {waveform.map((level, index) => {
+            const played = index / waveform.length < progress;
+            return (
+              <div
+                key={index}
+                className={cn(
+                  'flex-1 rounded-full transition-colors',
+                  isOwnMessage
+                    ? played ? 'bg-primary-foreground' : 'bg-primary-foreground/40'
+                    : played ? 'bg-primary' : 'bg-muted-foreground/40'
+                )}
+                style={{ height: `${Math.max(level, 8)}%` }}
+              />
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between text-xs">
+          <span className="flex items-center gap-1 tabular-nums">
+            <Mic className={cn(
+              'w-3 h-3',
+              // Blue once the recipient played it, like read receipts
+              listened ? 'text-blue-400' : isOwnMessage ? 'opacity-60' : 'text-primary'
+            )} />
+            {formatVoiceDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+          </span>
+          <button
+            type="button"
+            onClick={() => setRateIndex((rateIndex + 1) % VOICE_PLAYBACK_RATES.length)}
+            className={cn(
+              'px-1.5 rounded-full font-semibold',
+              isOwnMessage ? 'bg-primary-foreground/20' : 'bg-muted-foreground/15'
+            )}
+          >
+            {VOICE_PLAYBACK_RATES[rateIndex]}x
+          </button>
+        </div>
+      </div>
+
+      <audio
+        ref={audioRef}
+        src={message.media_url || undefined}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onLoadedMetadata={(e) => {
+          // Recorded webm files report Infinity until fully loaded, keep the stored duration then
+          const loaded = e.currentTarget.duration;
+          if (Number.isFinite(loaded) && loaded > 0) setDuration(loaded);
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Mic, ChevronLeft } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useVoiceRecorder, VoiceRecording } from '@/hooks/useVoiceRecorder';
+import { formatVoiceDuration, VoiceMetadata } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+
+interface VoiceRecorderProps {
+  onRecorded: (url: string, metadata: VoiceMetadata) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+// Sliding this far left while holding discards the recording
+const CANCEL_SWIPE_PX = 80;
+
+const VoiceRecorder = ({ onRecorded, className, disabled }: VoiceRecorderProps) => {
+  const [uploading, setUploading] = useState(false);
+  const [willCancel, setWillCancel] = useState(false);
+  const pressingRef = useRef(false);
+  const startXRef = useRef(0);
+
+  const handleComplete = async (recording: VoiceRecording) => {
+    setUploading(true);
+
+    try {
+      const filePath = `conversations/voice-${Date.now()}.${recording.extension}`;
+
+      const { data: uploadData, error: uploadError } = await supabase.storage
+        .from('posts') // Same bucket as the other chat media
+        .upload(filePath, recording.blob, {
+          cacheControl: '3600',
+          contentType: recording.blob.type,
+          upsert: false
+        });
+
+      if (uploadError) throw uploadError;
+
+      const { data: urlData } = supabase.storage
+        .from('posts')
+        .getPublicUrl(uploadData.path);
+
+      onRecorded(urlData.publicUrl, {
+        duration: recording.duration,
+        waveform: recording.waveform,
+      });
+    } catch (error) {
+      console.error('Voice upload error:', error);
+      toast({
+        title: "Erro no envio",
+        description: "Não foi possível enviar a mensagem de voz. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const { isRecording, elapsed, start, stop, cancel } = useVoiceRecorder({ onComplete: handleComplete });
+
+  const handlePointerDown = async (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pressingRef.current = true;
+    startXRef.current = e.clientX;
+    setWillCancel(false);
+
+    const started = await start();
+
+    // Released while the microphone permission was still pending
+    if (started && !pressingRef.current) {
+      cancel();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!pressingRef.current) return;
+    setWillCancel(startXRef.current - e.clientX > CANCEL_SWIPE_PX);
+  };
+
+  const handlePointerUp = () => {
+    if (!pressingRef.current) return;
+    pressingRef.current = false;
+
+    if (willCancel) {
+      cancel();
+    } else {
+      stop();
+    }
+    setWillCancel(false);
+  };
+
+  const handlePointerCancel = () => {
+    pressingRef.current = false;
+    setWillCancel(false);
+    cancel();
+  };
+
+  return (
+    <>
+      {isRecording && (
+        <div className="absolute inset-y-0 left-0 right-12 z-10 flex items-center gap-3 px-4 rounded-full bg-background">
+          <div className="w-2.5 h-2.5 rounded-full bg-destructive animate-pulse" />
+          <span className="text-sm font-medium tabular-nums">{formatVoiceDuration(elapsed)}</span>
+          <span className={cn(
+            'flex-1 flex items-center justify-center text-xs transition-colors',
+            willCancel ? 'text-destructive font-semibold' : 'text-muted-foreground'
+          )}>
+            {willCancel ? 'Solte para cancelar' : (
+              <>
+                <ChevronLeft className="w-3 h-3" />
+                Deslize para cancelar
+              </>
+            )}
+          </span>
+        </div>
+      )}
+
+      <Button
+        type="button"
+        size="sm"
+        variant={isRecording ? 'default' : 'ghost'}
+        className={cn(
+          'rounded-full w-9 h-9 p-0 touch-none select-none',
+          isRecording && 'scale-125 bg-destructive hover:bg-destructive',
+          className
+        )}
+        disabled={disabled || uploading}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onContextMenu={(e) => e.preventDefault()}
+        aria-label="Segure para gravar"
+      >
+        {uploading ? <LoadingSpinner size="sm" /> : <Mic className="w-4 h-4" />}
+      </Button>
+    </>
+  );
+};
+
+export default VoiceRecorder;
@@ -1,5 +1,5 @@
 import { Wifi, WifiOff, RotateCcw, AlertCircle } from 'lucide-react';
-import { ConnectionStatus as ConnectionStatusType } from '@/hooks/useWebSocketConnection';
+import { ConnectionStatus as ConnectionStatusType } from '@/hooks/useRealtime';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
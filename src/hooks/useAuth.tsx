@@ -1,6 +1,7 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
 import { toast } from '@/hooks/use-toast';
 import { useRealtimeProfile } from './useRealtimeProfile';
 
@@ -12,45 +13,141 @@ interface Profile {
   avatar_url?: string | null;
   followers_count?: number;
   following_count?: number;
+  suspended_until?: string | null;
+  is_private?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+type AppRole = Database['public']['Enums']['app_role'];
+
+interface SavedAccount {
+  email: string;
+  username: string;
+  display_name: string;
+  avatar_url?: string | null;
+}
+
+// Username-only profile this device was logged in as before email/password auth
+interface LegacyAccount {
+  id: string;
+  username: string;
+}
+
 interface AuthContextType {
   user: Profile | null;
   supabaseUser: User | null;
   session: Session | null;
   loading: boolean;
-  login: (username: string, rememberMe?: boolean) => Promise<boolean>;
-  register: (username: string, displayName: string, rememberMe?: boolean) => Promise<boolean>;
+  login: (email: string, password: string, rememberMe?: boolean) => Promise<boolean>;
+  sendLoginCode: (email: string) => Promise<boolean>;
+  verifyLoginCode: (email: string, code: string, rememberMe?: boolean) => Promise<boolean>;
+  register: (username: string, displayName: string, email: string, password: string, rememberMe?: boolean) => Promise<boolean>;
+  legacyAccount: LegacyAccount | null;
+  claimLegacyAccount: (email: string, password: string) => Promise<boolean>;
   logout: () => Promise<void>;
-  adminLogin: (password: string) => boolean;
+  savedAccount: SavedAccount | null;
+  forgetAccount: () => void;
+  roles: AppRole[];
+  rolesLoading: boolean;
   isAdmin: boolean;
+  isModerator: boolean;
+  refreshRoles: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const ADMIN_PASSWORD = '88620787';
+const SAVED_ACCOUNT_KEY = 'magic-talk-saved-account';
+const REMEMBER_LOGIN_KEY = 'magic-talk-remember-login';
+const LEGACY_SESSION_KEY = 'magic-talk-user';
+const LEGACY_ACCOUNT_KEY = 'magic-talk-legacy-account';
+
+const getSavedAccount = (): SavedAccount | null => {
+  if (localStorage.getItem(REMEMBER_LOGIN_KEY) !== 'true') return null;
+  const saved = localStorage.getItem(SAVED_ACCOUNT_KEY);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error('Error parsing saved account:', error);
+    localStorage.removeItem(SAVED_ACCOUNT_KEY);
+    localStorage.removeItem(REMEMBER_LOGIN_KEY);
+    return null;
+  }
+};
+
+// A legacy profile may only be claimed from a device that was logged in as it. The old
+// session no longer authenticates anyone, so only its id and username are kept, until
+// the claim is sent
+const takeLegacyAccount = (): LegacyAccount | null => {
+  const legacySession = localStorage.getItem(LEGACY_SESSION_KEY);
+  if (legacySession) {
+    localStorage.removeItem(LEGACY_SESSION_KEY);
+    try {
+      const { id, username } = JSON.parse(legacySession);
+      if (typeof id === 'string' && typeof username === 'string') {
+        localStorage.setItem(LEGACY_ACCOUNT_KEY, JSON.stringify({ id, username }));
+      }
+    } catch (error) {
+      console.error('Error parsing legacy session:', error);
+    }
+  }
+
+  const saved = localStorage.getItem(LEGACY_ACCOUNT_KEY);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    localStorage.removeItem(LEGACY_ACCOUNT_KEY);
+    return null;
+  }
+};
+
+const forgetSavedAccount = () => {
+  localStorage.removeItem(SAVED_ACCOUNT_KEY);
+  localStorage.removeItem(REMEMBER_LOGIN_KEY);
+};
+
+// Só guarda dados de exibição e o email para preencher o login; a sessão fica com o Supabase
+const rememberAccount = (profile: Profile, email: string) => {
+  const account: SavedAccount = {
+    email,
+    username: profile.username,
+    display_name: profile.display_name,
+    avatar_url: profile.avatar_url,
+  };
+  localStorage.setItem(SAVED_ACCOUNT_KEY, JSON.stringify(account));
+  localStorage.setItem(REMEMBER_LOGIN_KEY, 'true');
+};
+
+const isValidEmail = (email: string): boolean => {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+};
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<Profile | null>(null);
   const [supabaseUser, setSupabaseUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [rolesLoading, setRolesLoading] = useState(true);
+  const [savedAccount, setSavedAccount] = useState<SavedAccount | null>(() => getSavedAccount());
+  const [legacyAccount, setLegacyAccount] = useState<LegacyAccount | null>(() => takeLegacyAccount());
 
   const validateUsername = (username: string): boolean => {
     const regex = /^[a-zA-Z]+\d{4}$/;
     return regex.test(username);
   };
 
-  const fetchUserProfile = async (userId: string) => {
-    console.log('Fetching user profile for ID:', userId);
+  const fetchUserProfile = async (authUserId: string): Promise<Profile | null> => {
+    console.log('Fetching user profile for auth user:', authUserId);
     try {
       const { data, error } = await supabase
         .from('profiles')
         .select('*')
-        .eq('id', userId)
+        .eq('auth_user_id', authUserId)
         .single();
 
       if (error) {
@@ -59,8 +156,18 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       }
       console.log('User profile fetched:', data);
       setUser(data);
+      return data;
     } catch (error) {
       console.error('Error fetching profile:', error);
+      setUser(null);
+      return null;
+    }
+  };
+
+  const updateRememberedAccount = (profile: Profile) => {
+    const remembered = getSavedAccount();
+    if (remembered) {
+      rememberAccount(profile, remembered.email);
     }
   };
 
@@ -70,20 +177,18 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       if (!prev) return null;
       const updatedUser = { ...prev, ...profileUpdate };
       
-      // Atualizar também o localStorage se "lembrar de mim" estiver ativo
-      const shouldRememberLogin = localStorage.getItem('magic-talk-remember-login') === 'true';
-      if (shouldRememberLogin) {
-        localStorage.setItem('magic-talk-user', JSON.stringify(updatedUser));
-      }
+      // Atualizar também a conta salva se "lembrar de mim" estiver ativo
+      updateRememberedAccount(updatedUser);
       
       return updatedUser;
     });
   };
 
   const forceProfileRefresh = async () => {
-    if (!user) return;
-    console.log('Forcing profile refresh for user:', user.id);
-    await fetchUserProfile(user.id);
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) return;
+    console.log('Forcing profile refresh for auth user:', session.user.id);
+    await fetchUserProfile(session.user.id);
   };
 
   useEffect(() => {
@@ -97,52 +202,31 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         // Defer profile fetch to avoid deadlock
         if (session?.user) {
           setTimeout(() => {
-            fetchUserProfile(session.user.id);
+            fetchUserProfile(session.user.id).finally(() => setLoading(false));
           }, 0);
         } else {
           setUser(null);
+          setLoading(false);
         }
-        
-        setLoading(false);
       }
     );
 
     // THEN check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
       console.log('Initial session check:', session?.user?.id);
       setSession(session);
       setSupabaseUser(session?.user ?? null);
       
+      // Mantém o loading até o perfil chegar para as rotas protegidas não redirecionarem
       if (session?.user) {
-        setTimeout(() => {
-          fetchUserProfile(session.user.id);
-        }, 0);
-      } else {
-        // Check for saved login (quando "lembrar de mim" está ativo)
-        const shouldRememberLogin = localStorage.getItem('magic-talk-remember-login') === 'true';
-        const savedUser = localStorage.getItem('magic-talk-user');
-        
-        if (shouldRememberLogin && savedUser) {
-          try {
-            const userData = JSON.parse(savedUser);
-            setUser(userData);
-            console.log('Restored saved user:', userData);
-          } catch (error) {
-            console.error('Error parsing saved user:', error);
-            localStorage.removeItem('magic-talk-user');
-            localStorage.removeItem('magic-talk-remember-login');
-          }
-        }
+        await fetchUserProfile(session.user.id);
       }
       
       setLoading(false);
     });
 
-    // Check for admin status
-    const savedAdmin = localStorage.getItem('magic-talk-admin');
-    if (savedAdmin) {
-      setIsAdmin(true);
-    }
+    // O acesso administrativo antigo ficava só no navegador
+    localStorage.removeItem('magic-talk-admin');
 
     // Listener para refresh manual do perfil
     const handleForceProfileRefresh = (event: any) => {
@@ -152,11 +236,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           if (!prev) return null;
           const updatedUser = { ...prev, ...event.detail };
           
-          // Atualizar localStorage também
-          const shouldRememberLogin = localStorage.getItem('magic-talk-remember-login') === 'true';
-          if (shouldRememberLogin) {
-            localStorage.setItem('magic-talk-user', JSON.stringify(updatedUser));
-          }
+          // Atualizar a conta salva também
+          updateRememberedAccount(updatedUser);
           
           return updatedUser;
         });
@@ -173,52 +254,195 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     };
   }, []);
 
+  // Papéis vêm da tabela user_roles; o banco confere de novo em cada RPC administrativa
+  const fetchRoles = async (profileId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', profileId);
+
+      if (error) throw error;
+      setRoles((data || []).map(row => row.role));
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      setRoles([]);
+    } finally {
+      setRolesLoading(false);
+    }
+  };
+
+  const refreshRoles = async () => {
+    if (user) {
+      await fetchRoles(user.id);
+    }
+  };
+
+  useEffect(() => {
+    if (user?.id) {
+      setRolesLoading(true);
+      fetchRoles(user.id);
+    } else {
+      setRoles([]);
+      setRolesLoading(false);
+    }
+  }, [user?.id]);
+
   // Set up realtime profile updates
   useRealtimeProfile({
     userId: user?.id || null,
     onProfileUpdate: handleRealtimeProfileUpdate,
   });
 
-  const login = async (username: string, rememberMe: boolean = false): Promise<boolean> => {
-    if (!validateUsername(username)) {
+  const finishSignIn = async (authUser: User, email: string, rememberMe: boolean): Promise<boolean> => {
+    const profile = await fetchUserProfile(authUser.id);
+
+    if (!profile) {
+      // Contas antigas só recebem o perfil depois que a equipe aprova o pedido
+      const { data: claim } = await supabase
+        .from('legacy_profile_claims')
+        .select('status')
+        .eq('auth_user_id', authUser.id)
+        .maybeSingle();
+
+      await supabase.auth.signOut();
       toast({
-        title: "Formato inválido",
-        description: "O nome de usuário deve ter letras seguidas de exatamente 4 números",
+        title: claim?.status === 'pending' ? "Conta em análise"
+          : claim?.status === 'rejected' ? "Pedido recusado"
+          : "Perfil não encontrado",
+        description: claim?.status === 'pending' ? "A equipe ainda está confirmando que a conta antiga é sua"
+          : claim?.status === 'rejected' ? "Não foi possível confirmar que a conta antiga é sua"
+          : "Não existe um perfil ligado a esta conta",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (rememberMe) {
+      rememberAccount(profile, email);
+    } else {
+      forgetSavedAccount();
+    }
+    setSavedAccount(getSavedAccount());
+
+    toast({
+      title: "Login realizado",
+      description: `Bem-vindo, ${profile.display_name}!`,
+    });
+
+    return true;
+  };
+
+  const login = async (email: string, password: string, rememberMe: boolean = false): Promise<boolean> => {
+    if (!isValidEmail(email) || !password) {
+      toast({
+        title: "Dados incompletos",
+        description: "Digite um email válido e sua senha",
         variant: "destructive",
       });
       return false;
     }
 
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('username', username)
-        .single();
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email: email.trim(),
+        password,
+      });
 
-      if (error) {
+      if (error || !data.user) {
         toast({
-          title: "Usuário não encontrado",
-          description: "Este nome de usuário não existe",
+          title: "Não foi possível entrar",
+          description: error?.message === 'Email not confirmed'
+            ? "Confirme seu email antes de entrar"
+            : "Email ou senha incorretos",
           variant: "destructive",
         });
         return false;
       }
 
-      setUser(data);
-      
-      // Se "lembrar de mim" estiver ativado, mantém o usuário em localStorage como backup
-      if (rememberMe) {
-        localStorage.setItem('magic-talk-user', JSON.stringify(data));
-        localStorage.setItem('magic-talk-remember-login', 'true');
+      return await finishSignIn(data.user, email.trim(), rememberMe);
+    } catch (error) {
+      toast({
+        title: "Erro no login",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const sendLoginCode = async (email: string): Promise<boolean> => {
+    if (!isValidEmail(email)) {
+      toast({
+        title: "Email inválido",
+        description: "Digite o email da sua conta",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    try {
+      // O mesmo email traz o link mágico e o código de 6 dígitos
+      const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: {
+          shouldCreateUser: false,
+          emailRedirectTo: `${window.location.origin}/feed`,
+        },
+      });
+
+      if (error) {
+        toast({
+          title: "Não foi possível enviar o código",
+          description: "Verifique se o email pertence a uma conta",
+          variant: "destructive",
+        });
+        return false;
       }
-      
+
       toast({
-        title: "Login realizado",
-        description: `Bem-vindo, ${data.display_name}!`,
+        title: "Código enviado",
+        description: "Abra o link ou digite o código que enviamos para seu email",
       });
-      
+
       return true;
+    } catch (error) {
+      toast({
+        title: "Erro ao enviar código",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const verifyLoginCode = async (email: string, code: string, rememberMe: boolean = false): Promise<boolean> => {
+    if (!/^\d{6}$/.test(code)) {
+      toast({
+        title: "Código inválido",
+        description: "O código tem 6 dígitos",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    try {
+      const { data, error } = await supabase.auth.verifyOtp({
+        email: email.trim(),
+        token: code,
+        type: 'email',
+      });
+
+      if (error || !data.user) {
+        toast({
+          title: "Código incorreto",
+          description: "O código está errado ou expirou",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      return await finishSignIn(data.user, email.trim(), rememberMe);
     } catch (error) {
       toast({
         title: "Erro no login",
@@ -229,7 +453,73 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const register = async (username: string, displayName: string, rememberMe: boolean = false): Promise<boolean> => {
+  const validateCredentials = (email: string, password: string): boolean => {
+    if (!isValidEmail(email)) {
+      toast({
+        title: "Email inválido",
+        description: "Digite um email válido",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (password.length < 8) {
+      toast({
+        title: "Senha muito curta",
+        description: "A senha deve ter pelo menos 8 caracteres",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    return true;
+  };
+
+  // Cria o usuário no Supabase Auth; o perfil é criado (ou reivindicado) pelo trigger do banco
+  const signUp = async (
+    email: string,
+    password: string,
+    metadata: Record<string, string>,
+    rememberMe: boolean
+  ): Promise<boolean> => {
+    const { data, error } = await supabase.auth.signUp({
+      email: email.trim(),
+      password,
+      options: {
+        data: metadata,
+        emailRedirectTo: `${window.location.origin}/feed`,
+      },
+    });
+
+    if (error || !data.user) {
+      toast({
+        title: "Erro no cadastro",
+        description: error?.message === 'User already registered'
+          ? "Este email já está em uso"
+          : "Tente novamente",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (!data.session) {
+      toast({
+        title: "Confirme seu email",
+        description: "Enviamos um link de confirmação para o seu email",
+      });
+      return true;
+    }
+
+    return await finishSignIn(data.user, email.trim(), rememberMe);
+  };
+
+  const register = async (
+    username: string,
+    displayName: string,
+    email: string,
+    password: string,
+    rememberMe: boolean = false
+  ): Promise<boolean> => {
     if (!validateUsername(username)) {
       toast({
         title: "Formato inválido",
@@ -248,13 +538,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       return false;
     }
 
+    if (!validateCredentials(email, password)) return false;
+
     try {
       // Check if username already exists
       const { data: existingUser } = await supabase
         .from('profiles')
         .select('username')
         .eq('username', username)
-        .single();
+        .maybeSingle();
 
       if (existingUser) {
         toast({
@@ -265,42 +557,83 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         return false;
       }
 
-      // Create new user
-      const { data, error } = await supabase
-        .from('profiles')
-        .insert({
-          username,
-          display_name: displayName.trim(),
-        })
-        .select()
-        .single();
+      return await signUp(email, password, {
+        username,
+        display_name: displayName.trim(),
+      }, rememberMe);
+    } catch (error) {
+      toast({
+        title: "Erro no cadastro",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
 
-      if (error) {
+  const claimLegacyAccount = async (email: string, password: string): Promise<boolean> => {
+    if (!legacyAccount) {
+      toast({
+        title: "Conta indisponível",
+        description: "Só é possível proteger a conta no aparelho em que você já entrava com ela",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (!validateCredentials(email, password)) return false;
+
+    try {
+      const { data: claimable, error } = await supabase
+        .rpc('is_legacy_profile_claimable', { p_username: legacyAccount.username });
+
+      if (error || !claimable) {
         toast({
-          title: "Erro no cadastro",
-          description: "Tente novamente",
+          title: "Conta indisponível",
+          description: "Este usuário não existe ou já foi protegido com email e senha",
           variant: "destructive",
         });
         return false;
       }
 
-      setUser(data);
-      
-      // Se "lembrar de mim" estiver ativado, salva o usuário
-      if (rememberMe) {
-        localStorage.setItem('magic-talk-user', JSON.stringify(data));
-        localStorage.setItem('magic-talk-remember-login', 'true');
+      const { data, error: signUpError } = await supabase.auth.signUp({
+        email: email.trim(),
+        password,
+        options: {
+          data: {
+            legacy_username: legacyAccount.username,
+            legacy_profile_id: legacyAccount.id,
+          },
+          emailRedirectTo: `${window.location.origin}/login`,
+        },
+      });
+
+      if (signUpError || !data.user) {
+        toast({
+          title: "Erro ao proteger conta",
+          description: signUpError?.message === 'User already registered'
+            ? "Este email já está em uso"
+            : "Tente novamente",
+          variant: "destructive",
+        });
+        return false;
       }
-      
+
+      // O pedido fica pendente: não há perfil para entrar até a aprovação
+      if (data.session) {
+        await supabase.auth.signOut();
+      }
+      localStorage.removeItem(LEGACY_ACCOUNT_KEY);
+      setLegacyAccount(null);
+
       toast({
-        title: "Conta criada",
-        description: `Bem-vindo à VilaAurora, ${data.display_name}!`,
+        title: "Pedido enviado",
+        description: "A equipe vai confirmar que a conta é sua. Depois disso, entre com seu email e senha",
       });
-      
       return true;
     } catch (error) {
       toast({
-        title: "Erro no cadastro",
+        title: "Erro ao proteger conta",
         description: "Tente novamente",
         variant: "destructive",
       });
@@ -309,29 +642,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const logout = async (): Promise<void> => {
-    // Sign out from Supabase if authenticated
-    if (supabaseUser) {
-      await supabase.auth.signOut();
-    }
-    
-    // Verifica se deve manter os dados salvos para "lembrar de mim"
-    const shouldRememberLogin = localStorage.getItem('magic-talk-remember-login') === 'true';
-    const savedUserData = localStorage.getItem('magic-talk-user');
+    await supabase.auth.signOut();
     
     setUser(null);
     setSupabaseUser(null);
     setSession(null);
-    setIsAdmin(false);
-    
-    // Limpa dados de sessão
-    localStorage.removeItem('magic-talk-admin');
+    setRoles([]);
     
-    // Se "lembrar de mim" não estiver ativo, remove todos os dados
-    if (!shouldRememberLogin) {
-      localStorage.removeItem('magic-talk-user');
-      localStorage.removeItem('magic-talk-remember-login');
-    }
-    // Se estiver ativo, mantém os dados para o próximo login
+    // A conta salva ("lembrar de mim") continua para preencher o próximo login
+    setSavedAccount(getSavedAccount());
     
     toast({
       title: "Logout realizado",
@@ -339,23 +658,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     });
   };
 
-  const adminLogin = (password: string): boolean => {
-    if (password === ADMIN_PASSWORD) {
-      setIsAdmin(true);
-      localStorage.setItem('magic-talk-admin', 'true');
-      toast({
-        title: "Acesso administrativo",
-        description: "Bem-vindo ao painel administrativo",
-      });
-      return true;
-    } else {
-      toast({
-        title: "Senha incorreta",
-        description: "Senha administrativa inválida",
-        variant: "destructive",
-      });
-      return false;
-    }
+  const forgetAccount = () => {
+    forgetSavedAccount();
+    setSavedAccount(null);
   };
 
   return (
@@ -365,10 +670,19 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       session,
       loading,
       login,
+      sendLoginCode,
+      verifyLoginCode,
       register,
+      legacyAccount,
+      claimLegacyAccount,
       logout,
-      adminLogin,
-      isAdmin,
+      savedAccount,
+      forgetAccount,
+      roles,
+      rolesLoading,
+      isAdmin: roles.includes('admin'),
+      isModerator: roles.includes('moderator'),
+      refreshRoles,
     }}>
       {children}
     </AuthContext.Provider>
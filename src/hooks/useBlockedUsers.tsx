@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+// Fired after any block/mute change so every mounted hook reloads its lists
+const RESTRICTIONS_CHANGED_EVENT = 'user-restrictions-changed';
+
+export const useBlockedUsers = () => {
+  const { user } = useAuth();
+  // Users the current user blocked
+  const [blockedIds, setBlockedIds] = useState<Set<string>>(new Set());
+  // Blocked in either direction (includes people who blocked the current user)
+  const [blockedEitherWayIds, setBlockedEitherWayIds] = useState<Set<string>>(new Set());
+  const [mutedIds, setMutedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  const fetchRestrictions = useCallback(async () => {
+    if (!user) {
+      setBlockedIds(new Set());
+      setBlockedEitherWayIds(new Set());
+      setMutedIds(new Set());
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [blockedResult, eitherWayResult, mutedResult] = await Promise.all([
+        supabase.from('blocked_users').select('blocked_id').eq('blocker_id', user.id),
+        supabase.rpc('get_blocked_user_ids'),
+        supabase.from('muted_users').select('muted_id').eq('muter_id', user.id),
+      ]);
+
+      if (blockedResult.error) throw blockedResult.error;
+      if (eitherWayResult.error) throw eitherWayResult.error;
+      if (mutedResult.error) throw mutedResult.error;
+
+      setBlockedIds(new Set(blockedResult.data?.map(b => b.blocked_id) || []));
+      setBlockedEitherWayIds(new Set(eitherWayResult.data || []));
+      setMutedIds(new Set(mutedResult.data?.map(m => m.muted_id) || []));
+    } catch (error) {
+      console.error('Error fetching blocked/muted users:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchRestrictions();
+
+    window.addEventListener(RESTRICTIONS_CHANGED_EVENT, fetchRestrictions);
+    return () => {
+      window.removeEventListener(RESTRICTIONS_CHANGED_EVENT, fetchRestrictions);
+    };
+  }, [fetchRestrictions]);
+
+  const notifyChange = () => {
+    window.dispatchEvent(new CustomEvent(RESTRICTIONS_CHANGED_EVENT));
+  };
+
+  const blockUser = useCallback(async (userId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('blocked_users')
+        .insert({ blocker_id: user.id, blocked_id: userId });
+
+      if (error && error.code !== '23505') throw error;
+
+      notifyChange();
+      toast({
+        title: "Usuário bloqueado",
+        description: "Vocês não verão mais o conteúdo um do outro.",
+      });
+      return true;
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível bloquear o usuário.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [user]);
+
+  const unblockUser = useCallback(async (userId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('blocked_users')
+        .delete()
+        .eq('blocker_id', user.id)
+        .eq('blocked_id', userId);
+
+      if (error) throw error;
+
+      notifyChange();
+      toast({
+        title: "Usuário desbloqueado",
+      });
+      return true;
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível desbloquear o usuário.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [user]);
+
+  const muteUser = useCallback(async (userId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('muted_users')
+        .insert({ muter_id: user.id, muted_id: userId });
+
+      if (error && error.code !== '23505') throw error;
+
+      notifyChange();
+      toast({
+        title: "Usuário silenciado",
+        description: "Os posts e stories dessa conta não aparecerão mais para você.",
+      });
+      return true;
+    } catch (error) {
+      console.error('Error muting user:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível silenciar o usuário.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [user]);
+
+  const unmuteUser = useCallback(async (userId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('muted_users')
+        .delete()
+        .eq('muter_id', user.id)
+        .eq('muted_id', userId);
+
+      if (error) throw error;
+
+      notifyChange();
+      toast({
+        title: "Usuário não está mais silenciado",
+      });
+      return true;
+    } catch (error) {
+      console.error('Error unmuting user:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível deixar de silenciar o usuário.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [user]);
+
+  // Content hidden for the current user (mirrors is_hidden_for_current_user in the database)
+  const isHidden = useCallback((userId: string) => {
+    return blockedEitherWayIds.has(userId) || mutedIds.has(userId);
+  }, [blockedEitherWayIds, mutedIds]);
+
+  return {
+    blockedIds,
+    blockedEitherWayIds,
+    mutedIds,
+    loading,
+    isHidden,
+    blockUser,
+    unblockUser,
+    muteUser,
+    unmuteUser,
+    refresh: fetchRestrictions,
+  };
+};
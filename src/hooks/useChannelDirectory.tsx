@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { joinPublicChat, PublicRoom, RoomCategory, ROOMS_PAGE_SIZE } from '@/lib/rooms';
+
+export interface RoomListingChanges {
+  category?: RoomCategory;
+  isFeatured?: boolean;
+  isPinned?: boolean;
+}
+
+export const useChannelDirectory = (search: string, category: RoomCategory | null) => {
+  const { user } = useAuth();
+  const [rooms, setRooms] = useState<PublicRoom[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [joiningId, setJoiningId] = useState<string | null>(null);
+  // Bumped to reload the first page after a listing change reorders the directory
+  const [version, setVersion] = useState(0);
+
+  const trimmedSearch = search.trim();
+
+  const fetchPage = useCallback(async (offset: number) => {
+    const { data, error } = await supabase.rpc('get_public_rooms', {
+      p_search: trimmedSearch || undefined,
+      p_category: category || undefined,
+      p_limit: ROOMS_PAGE_SIZE,
+      p_offset: offset,
+    });
+
+    if (error) throw error;
+    return data || [];
+  }, [trimmedSearch, category]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Ignore responses for filters the user already changed
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const page = await fetchPage(0);
+        if (cancelled) return;
+        setRooms(page);
+        setHasMore(page.length === ROOMS_PAGE_SIZE);
+      } catch (error) {
+        console.error('Error loading public rooms:', error);
+        if (!cancelled) {
+          setRooms([]);
+          setHasMore(false);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, fetchPage, version]);
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(rooms.length);
+      setRooms(prev => {
+        const known = new Set(prev.map(room => room.id));
+        return [...prev, ...page.filter(room => !known.has(room.id))];
+      });
+      setHasMore(page.length === ROOMS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more public rooms:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loading, loadingMore, hasMore, fetchPage, rooms.length]);
+
+  const joinRoom = useCallback(async (roomId: string) => {
+    if (!user) return false;
+
+    setJoiningId(roomId);
+    try {
+      await joinPublicChat(roomId, user.id);
+      setRooms(prev => prev.map(room => (
+        room.id === roomId && !room.is_member
+          ? { ...room, is_member: true, member_count: room.member_count + 1 }
+          : room
+      )));
+      return true;
+    } catch (error) {
+      console.error('Error joining public room:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível entrar no canal.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setJoiningId(null);
+    }
+  }, [user]);
+
+  const updateListing = useCallback(async (roomId: string, changes: RoomListingChanges) => {
+    try {
+      const { error } = await supabase.rpc('update_room_listing', {
+        p_conversation_id: roomId,
+        p_category: changes.category,
+        p_is_featured: changes.isFeatured,
+        p_is_pinned: changes.isPinned,
+      });
+
+      if (error) throw error;
+
+      setVersion(v => v + 1);
+      toast({
+        title: "Canal atualizado",
+        description: "As alterações já aparecem no diretório.",
+      });
+    } catch (error) {
+      console.error('Error updating room listing:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível atualizar o canal.",
+        variant: "destructive",
+      });
+    }
+  }, []);
+
+  return {
+    rooms,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    joinRoom,
+    joiningId,
+    updateListing,
+  };
+};
@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import {
+  ConversationInvite,
+  createConversationInvite,
+  respondJoinRequest,
+  revokeConversationInvite,
+} from '@/lib/invites';
+
+export interface JoinRequest {
+  id: string;
+  user_id: string;
+  created_at: string;
+  profile?: {
+    id: string;
+    display_name: string;
+    username: string;
+    avatar_url?: string | null;
+  };
+}
+
+// Invite links and pending join requests of one conversation. Only useful to
+// members who can manage participants; everyone else gets empty lists from RLS
+export const useConversationInvites = (conversationId: string) => {
+  const [invites, setInvites] = useState<ConversationInvite[]>([]);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchInvites = useCallback(async () => {
+    if (!conversationId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('conversation_invites')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvites(data || []);
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+    }
+  }, [conversationId]);
+
+  const fetchJoinRequests = useCallback(async () => {
+    if (!conversationId) return;
+
+    try {
+      const { data: requestsData, error: requestsError } = await supabase
+        .from('conversation_join_requests')
+        .select('id, user_id, created_at')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (requestsError) throw requestsError;
+
+      if (!requestsData || requestsData.length === 0) {
+        setJoinRequests([]);
+        return;
+      }
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, display_name, username, avatar_url')
+        .in('id', requestsData.map(r => r.user_id));
+
+      if (profilesError) throw profilesError;
+
+      setJoinRequests(requestsData.map(request => ({
+        ...request,
+        profile: profilesData?.find(profile => profile.id === request.user_id),
+      })));
+    } catch (error) {
+      console.error('Error fetching join requests:', error);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      await Promise.all([fetchInvites(), fetchJoinRequests()]);
+      setLoading(false);
+    };
+
+    load();
+  }, [fetchInvites, fetchJoinRequests]);
+
+  // New requests show up while the settings are open
+  useRealtimeChanges(
+    conversationId
+      ? { table: 'conversation_join_requests', event: 'INSERT', filter: `conversation_id=eq.${conversationId}` }
+      : null,
+    fetchJoinRequests
+  );
+
+  const createInvite = useCallback(async (options: { expiresInHours: number; maxUses: number; requiresApproval: boolean }) => {
+    const code = await createConversationInvite(conversationId, options);
+    await fetchInvites();
+    return code;
+  }, [conversationId, fetchInvites]);
+
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    await revokeConversationInvite(inviteId);
+    setInvites(prev => prev.filter(invite => invite.id !== inviteId));
+  }, []);
+
+  const respondToJoinRequest = useCallback(async (requestId: string, accept: boolean) => {
+    await respondJoinRequest(requestId, accept);
+    setJoinRequests(prev => prev.filter(request => request.id !== requestId));
+  }, []);
+
+  return {
+    invites,
+    joinRequests,
+    loading,
+    createInvite,
+    revokeInvite,
+    respondToJoinRequest,
+    refresh: fetchInvites,
+  };
+};
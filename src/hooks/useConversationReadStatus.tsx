@@ -1,71 +1,43 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeBroadcast } from '@/hooks/useRealtime';
 
 interface ReadStatus {
   isCurrentlyReading: boolean;
   lastReadTimestamp: string | null;
 }
 
+type ReadingBroadcast = {
+  user_id: string;
+  reading: boolean;
+  timestamp: string | null;
+};
+
 export const useConversationReadStatus = (conversationId: string) => {
   const { user } = useAuth();
   const [readStatus, setReadStatus] = useState<Record<string, ReadStatus>>({});
 
   useEffect(() => {
-    if (!conversationId || !user) return;
-
-    // Listen for read status changes
-    const channel = supabase.channel(`conversation_read:${conversationId}`);
-    
-    channel
-      .on('presence', { event: 'sync' }, () => {
-        const presenceState = channel.presenceState();
-        const newReadStatus: Record<string, ReadStatus> = {};
-        
-        Object.entries(presenceState).forEach(([key, presences]) => {
-          const presence = presences[0] as any;
-          if (presence?.user_id && presence.user_id !== user.id) {
-            newReadStatus[presence.user_id] = {
-              isCurrentlyReading: presence.reading || false,
-              lastReadTimestamp: presence.timestamp || null
-            };
-          }
-        });
-        
-        setReadStatus(newReadStatus);
-      })
-      .on('presence', { event: 'join' }, ({ newPresences }) => {
-        newPresences.forEach((presence: any) => {
-          if (presence.user_id && presence.user_id !== user.id) {
-            setReadStatus(prev => ({
-              ...prev,
-              [presence.user_id]: {
-                isCurrentlyReading: presence.reading || false,
-                lastReadTimestamp: presence.timestamp || null
-              }
-            }));
-          }
-        });
-      })
-      .on('presence', { event: 'leave' }, ({ leftPresences }) => {
-        leftPresences.forEach((presence: any) => {
-          if (presence.user_id && presence.user_id !== user.id) {
-            setReadStatus(prev => ({
-              ...prev,
-              [presence.user_id]: {
-                isCurrentlyReading: false,
-                lastReadTimestamp: presence.timestamp || null
-              }
-            }));
-          }
-        });
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [conversationId, user?.id]);
+    setReadStatus({});
+  }, [conversationId]);
+
+  // Listen for read status changes
+  useRealtimeBroadcast<ReadingBroadcast>(
+    conversationId && user ? `conversation_read:${conversationId}` : null,
+    'reading',
+    (message) => {
+      const { user_id, reading, timestamp } = message.payload;
+      if (!user_id || user_id === user?.id) return;
+
+      setReadStatus(prev => ({
+        ...prev,
+        [user_id]: {
+          isCurrentlyReading: reading || false,
+          lastReadTimestamp: timestamp || null
+        }
+      }));
+    }
+  );
 
   const getReadingUsers = () => {
     return Object.entries(readStatus)
@@ -82,4 +54,4 @@ export const useConversationReadStatus = (conversationId: string) => {
     getReadingUsers,
     isAnyoneReading
   };
-};
\ No newline at end of file
+};
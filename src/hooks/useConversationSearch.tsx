@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { MIN_SEARCH_LENGTH, SEARCH_PAGE_SIZE } from '@/lib/search';
+
+export type ConversationSearchResult = Database['public']['Functions']['search_conversation_messages']['Returns'][number];
+
+// Server-side search over the messages of one conversation, newest first
+export const useConversationSearch = (conversationId: string | null, query: string) => {
+  const [results, setResults] = useState<ConversationSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const trimmedQuery = query.trim();
+  const enabled = !!conversationId && trimmedQuery.length >= MIN_SEARCH_LENGTH;
+
+  const fetchPage = useCallback(async (offset: number) => {
+    if (!conversationId) return [];
+
+    const { data, error } = await supabase.rpc('search_conversation_messages', {
+      p_conversation_id: conversationId,
+      p_query: trimmedQuery,
+      p_limit: SEARCH_PAGE_SIZE,
+      p_offset: offset,
+    });
+
+    if (error) throw error;
+    return data || [];
+  }, [conversationId, trimmedQuery]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setResults([]);
+      setHasMore(false);
+      return;
+    }
+
+    // Ignore responses for a query the user already changed
+    let cancelled = false;
+
+    const search = async () => {
+      setLoading(true);
+      try {
+        const page = await fetchPage(0);
+        if (cancelled) return;
+        setResults(page);
+        setHasMore(page.length === SEARCH_PAGE_SIZE);
+      } catch (error) {
+        console.error('Error searching messages:', error);
+        if (!cancelled) {
+          setResults([]);
+          setHasMore(false);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    search();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!enabled || loading || loadingMore || !hasMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(results.length);
+      setResults(prev => [...prev, ...page]);
+      setHasMore(page.length === SEARCH_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more message search results:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [enabled, loading, loadingMore, hasMore, fetchPage, results.length]);
+
+  return {
+    results,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    enabled,
+  };
+};
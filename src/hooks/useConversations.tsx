@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 
 export interface Message {
   id: string;
@@ -13,6 +14,13 @@ export interface Message {
   created_at: string;
   read_at: string | null;
   message_type?: string;
+  edited_at?: string | null;
+  media_duration?: number | null;
+  media_waveform?: number[] | null;
+  media_name?: string | null;
+  media_size?: number | null;
+  media_mime_type?: string | null;
+  listened_at?: string | null;
   sender?: {
     display_name: string;
     username: string;
@@ -303,7 +311,7 @@ export const useConversations = () => {
           // User left previously, rejoin them
           console.log('User rejoining conversation:', existingConversationId);
           
-          // Add user back as participant
+          // Add user back as participant, the database announces the return
           await supabase
             .from('conversation_participants')
             .insert({
@@ -311,23 +319,6 @@ export const useConversations = () => {
               user_id: user.id
             });
 
-          // Get user profile for the system message
-          const { data: userProfile } = await supabase
-            .from('profiles')
-            .select('display_name')
-            .eq('id', user.id)
-            .single();
-
-          // Send system message that user joined back
-          await supabase
-            .from('messages')
-            .insert({
-              conversation_id: existingConversationId,
-              sender_id: user.id,
-              content: `👋 ${userProfile?.display_name || 'Usuário'} entrou na conversa`,
-              message_type: 'system'
-            });
-
           fetchConversations();
           return existingConversationId;
         }
@@ -456,65 +447,25 @@ export const useConversations = () => {
   }, [user]);
 
   // Set up real-time subscriptions
-  useEffect(() => {
-    if (!user) return;
+  useRealtimeChanges(user ? { table: 'messages', event: 'INSERT' } : null, () => {
+    console.log('New message detected, refreshing conversations');
+    fetchConversations();
+  });
 
-    const channel = supabase
-      .channel('conversations')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-        },
-        () => {
-          console.log('New message detected, refreshing conversations');
-          fetchConversations();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'conversations',
-        },
-        () => {
-          console.log('Conversation updated, refreshing conversations');
-          fetchConversations();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'conversation_participants',
-        },
-        () => {
-          console.log('New participant added, refreshing conversations');
-          fetchConversations();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'conversations',
-        },
-        () => {
-          console.log('New conversation created, refreshing conversations');
-          fetchConversations();
-        }
-      )
-      .subscribe();
+  useRealtimeChanges(user ? { table: 'conversations', event: 'UPDATE' } : null, () => {
+    console.log('Conversation updated, refreshing conversations');
+    fetchConversations();
+  });
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user]);
+  useRealtimeChanges(user ? { table: 'conversation_participants', event: 'INSERT' } : null, () => {
+    console.log('New participant added, refreshing conversations');
+    fetchConversations();
+  });
+
+  useRealtimeChanges(user ? { table: 'conversations', event: 'INSERT' } : null, () => {
+    console.log('New conversation created, refreshing conversations');
+    fetchConversations();
+  });
 
   return {
     conversations,
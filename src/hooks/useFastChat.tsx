@@ -31,6 +31,20 @@ export const useFastChat = () => {
     setCreating(true);
 
     try {
+      const { data: blocked } = await supabase.rpc('is_blocked_between', {
+        p_user_a: user.id,
+        p_user_b: otherUserId,
+      });
+
+      if (blocked) {
+        toast({
+          title: "Conversa indisponível",
+          description: "Não é possível conversar com este usuário.",
+          variant: "destructive",
+        });
+        return null;
+      }
+
       // Ultra-fast conversation creation with minimal queries
       const conversationId = await createConversationFast(otherUserId);
       
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+// Fired after a request is sent, cancelled or answered so every mounted hook reloads
+const FOLLOW_REQUESTS_CHANGED_EVENT = 'follow-requests-changed';
+
+export type FollowResult = 'following' | 'requested';
+
+export const useFollowRequests = () => {
+  const { user } = useAuth();
+  // Private accounts the current user asked to follow and that have not answered yet
+  const [requestedIds, setRequestedIds] = useState<Set<string>>(new Set());
+
+  const fetchRequests = useCallback(async () => {
+    if (!user) {
+      setRequestedIds(new Set());
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('follow_requests')
+        .select('target_id')
+        .eq('requester_id', user.id);
+
+      if (error) throw error;
+      setRequestedIds(new Set(data?.map(r => r.target_id) || []));
+    } catch (error) {
+      console.error('Error fetching follow requests:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchRequests();
+
+    window.addEventListener(FOLLOW_REQUESTS_CHANGED_EVENT, fetchRequests);
+    return () => {
+      window.removeEventListener(FOLLOW_REQUESTS_CHANGED_EVENT, fetchRequests);
+    };
+  }, [fetchRequests]);
+
+  const notifyChange = () => {
+    window.dispatchEvent(new CustomEvent(FOLLOW_REQUESTS_CHANGED_EVENT));
+  };
+
+  // Follows public accounts right away; private accounts get a pending request instead
+  const followUser = useCallback(async (targetId: string): Promise<FollowResult> => {
+    const { data, error } = await supabase.rpc('request_follow', { p_target_id: targetId });
+    if (error) throw error;
+
+    const result = data as FollowResult;
+    if (result === 'requested') {
+      setRequestedIds(prev => new Set([...prev, targetId]));
+      notifyChange();
+    }
+    return result;
+  }, []);
+
+  const cancelFollowRequest = useCallback(async (targetId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('follow_requests')
+      .delete()
+      .eq('requester_id', user.id)
+      .eq('target_id', targetId);
+
+    if (error) throw error;
+
+    setRequestedIds(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(targetId);
+      return newSet;
+    });
+    notifyChange();
+  }, [user]);
+
+  const respondToFollowRequest = useCallback(async (requestId: string, accept: boolean) => {
+    const { error } = await supabase.rpc('respond_follow_request', {
+      p_request_id: requestId,
+      p_accept: accept,
+    });
+
+    if (error) throw error;
+    notifyChange();
+  }, []);
+
+  return {
+    requestedIds,
+    followUser,
+    cancelFollowRequest,
+    respondToFollowRequest,
+    refresh: fetchRequests,
+  };
+};
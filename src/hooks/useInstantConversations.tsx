@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 import { Conversation } from '@/hooks/useConversations';
 
 // Instant loading cache
@@ -272,25 +273,14 @@ export const useInstantConversations = () => {
     } else {
       fetchConversations(false);
     }
-
-    // Realtime updates
-    const channel = supabase
-      .channel(`fast-conversations-${user.id}`)
-      .on('postgres_changes', {
-        event: '*',
-        schema: 'public',
-        table: 'messages'
-      }, () => {
-        // Immediate refresh on any message change
-        fetchConversations(true);
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
   }, [user?.id, fetchConversations]);
 
+  // Realtime updates, immediate refresh on any message change
+  const refreshOnMessageChange = () => fetchConversations(true);
+  useRealtimeChanges(user ? { table: 'messages', event: 'INSERT' } : null, refreshOnMessageChange);
+  useRealtimeChanges(user ? { table: 'messages', event: 'UPDATE' } : null, refreshOnMessageChange);
+  useRealtimeChanges(user ? { table: 'messages', event: 'DELETE' } : null, refreshOnMessageChange);
+
   const createOrGetConversation = useCallback(async (otherUserId: string, storyId?: string) => {
     if (!user) return null;
 
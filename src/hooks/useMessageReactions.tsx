@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { MessageReaction } from '@/lib/messages';
+
+// Reactions of one conversation. The realtime hooks subscribe handleReactionChange to the
+// conversation's reaction changes next to its messages
+export const useMessageReactions = (conversationId: string) => {
+  const { user } = useAuth();
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+
+  const fetchReactions = useCallback(async () => {
+    if (!conversationId || !user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('message_reactions')
+        .select('*')
+        .eq('conversation_id', conversationId);
+
+      if (error) throw error;
+      setReactions(data || []);
+    } catch (error) {
+      console.error('Error fetching message reactions:', error);
+    }
+  }, [conversationId, user]);
+
+  useEffect(() => {
+    fetchReactions();
+  }, [fetchReactions]);
+
+  const handleReactionChange = useCallback((payload: RealtimePostgresChangesPayload<MessageReaction>) => {
+    if (payload.eventType === 'DELETE') {
+      // Deletes only carry the primary key when RLS is on
+      const removedId = payload.old.id;
+      setReactions(prev => prev.filter(r => r.id !== removedId));
+      return;
+    }
+
+    const reaction = payload.new;
+    if (reaction.conversation_id !== conversationId) return;
+
+    setReactions(prev => [
+      ...prev.filter(r => !(r.message_id === reaction.message_id && r.user_id === reaction.user_id)),
+      reaction,
+    ]);
+  }, [conversationId]);
+
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    if (!user) return;
+
+    const current = reactions.find(r => r.message_id === messageId && r.user_id === user.id);
+    const removing = current?.emoji === emoji;
+
+    // Optimistic update, the realtime event replaces the temporary row
+    setReactions(prev => {
+      const others = prev.filter(r => !(r.message_id === messageId && r.user_id === user.id));
+      if (removing) return others;
+      return [...others, {
+        id: `temp-${messageId}`,
+        message_id: messageId,
+        conversation_id: conversationId,
+        user_id: user.id,
+        emoji,
+        created_at: new Date().toISOString(),
+      }];
+    });
+
+    try {
+      const { error } = removing
+        ? await supabase
+            .from('message_reactions')
+            .delete()
+            .eq('message_id', messageId)
+            .eq('user_id', user.id)
+        : await supabase
+            .from('message_reactions')
+            .upsert(
+              { message_id: messageId, conversation_id: conversationId, user_id: user.id, emoji },
+              { onConflict: 'message_id,user_id' }
+            );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error toggling message reaction:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível reagir à mensagem",
+        variant: "destructive",
+      });
+      fetchReactions();
+    }
+  }, [user, reactions, conversationId, fetchReactions]);
+
+  return {
+    reactions,
+    toggleReaction,
+    handleReactionChange,
+    fetchReactions,
+  };
+};
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 
 interface NewMessageIndicator {
   senderId: string;
@@ -13,53 +13,42 @@ export const useNewMessageIndicator = (conversationId: string) => {
   const [newMessageIndicators, setNewMessageIndicators] = useState<NewMessageIndicator[]>([]);
   const timeoutsRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
 
-  useEffect(() => {
-    if (!conversationId || !user) return;
+  // Listen for new messages in real time
+  useRealtimeChanges(
+    conversationId && user ? { table: 'messages', event: 'INSERT', filter: `conversation_id=eq.${conversationId}` } : null,
+    (payload) => {
+      const newMessage = payload.new as any;
+      
+      // Only show indicator for messages from other users
+      if (newMessage.sender_id !== user.id) {
+        const indicator: NewMessageIndicator = {
+          senderId: newMessage.sender_id,
+          timestamp: new Date().toISOString(),
+          messageId: newMessage.id
+        };
 
-    // Listen for new messages in real time
-    const channel = supabase
-      .channel(`new_messages:${conversationId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `conversation_id=eq.${conversationId}`
-        },
-        (payload) => {
-          const newMessage = payload.new as any;
-          
-          // Only show indicator for messages from other users
-          if (newMessage.sender_id !== user.id) {
-            const indicator: NewMessageIndicator = {
-              senderId: newMessage.sender_id,
-              timestamp: new Date().toISOString(),
-              messageId: newMessage.id
-            };
+        setNewMessageIndicators(prev => [...prev, indicator]);
 
-            setNewMessageIndicators(prev => [...prev, indicator]);
+        // Remove indicator after 5 seconds
+        const timeout = setTimeout(() => {
+          setNewMessageIndicators(prev => 
+            prev.filter(ind => ind.messageId !== indicator.messageId)
+          );
+          timeoutsRef.current.delete(indicator.messageId);
+        }, 5000);
 
-            // Remove indicator after 5 seconds
-            const timeout = setTimeout(() => {
-              setNewMessageIndicators(prev => 
-                prev.filter(ind => ind.messageId !== indicator.messageId)
-              );
-              timeoutsRef.current.delete(indicator.messageId);
-            }, 5000);
+        timeoutsRef.current.set(indicator.messageId, timeout);
+      }
+    }
+  );
 
-            timeoutsRef.current.set(indicator.messageId, timeout);
-          }
-        }
-      )
-      .subscribe();
+  useEffect(() => {
+    const timeouts = timeoutsRef.current;
 
     return () => {
       // Clear all timeouts
-      timeoutsRef.current.forEach(timeout => clearTimeout(timeout));
-      timeoutsRef.current.clear();
-      
-      supabase.removeChannel(channel);
+      timeouts.forEach(timeout => clearTimeout(timeout));
+      timeouts.clear();
     };
   }, [conversationId, user?.id]);
 
@@ -2,11 +2,12 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 
   interface Notification {
     id: string;
     user_id: string;
-    type: 'like' | 'comment' | 'comment_like' | 'follow' | 'post_tag' | 'story_tag' | 'mention' | 'comment_reply' | 'comment_mention';
+    type: 'like' | 'comment' | 'comment_like' | 'follow' | 'follow_request' | 'post_tag' | 'story_tag' | 'mention' | 'comment_reply' | 'comment_mention' | 'report_update' | 'moderation_warning' | 'join_request';
     title: string;
     message: string;
     is_read: boolean;
@@ -120,94 +121,74 @@ export const useNotifications = () => {
     }
   }, [user]);
 
-  // Setup realtime subscription
+  // Initial load, later changes arrive through the subscriptions below
   useEffect(() => {
     if (!user) return;
 
-    console.log('Setting up realtime notifications for user:', user.id);
     fetchNotifications();
+  }, [user, fetchNotifications]);
 
-    const channel = supabase
-      .channel('notifications-realtime')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'notifications',
-          filter: `user_id=eq.${user.id}`,
-        },
-        (payload) => {
-          console.log('New notification received:', payload);
-          const newNotification = payload.new as Notification;
-          setNotifications(prev => {
-            // Check if notification already exists to prevent duplicates
-            const exists = prev.find(n => n.id === newNotification.id);
-            if (exists) {
-              console.log('Duplicate notification prevented:', newNotification.id);
-              return prev;
-            }
-            // Also check for duplicate like notifications by actor_id, entity_id and type
-            if (newNotification.type === 'like' || newNotification.type === 'comment_like') {
-              const duplicateLike = prev.find(n => 
-                n.type === newNotification.type &&
-                n.actor_id === newNotification.actor_id &&
-                n.entity_id === newNotification.entity_id
-              );
-              if (duplicateLike) {
-                console.log('Duplicate like notification prevented:', newNotification);
-                return prev;
-              }
-            }
-            return [newNotification, ...prev];
-          });
-          
-          // Only increment if it's actually a new notification and it's unread
-          if (!newNotification.is_read) {
-            setUnreadCount(prev => prev + 1);
-          }
-
-          // Show toast for new notification
-          toast({
-            title: newNotification.title,
-            description: newNotification.message,
-          });
+  const notificationsFilter = user ? `user_id=eq.${user.id}` : null;
+
+  useRealtimeChanges(
+    notificationsFilter ? { table: 'notifications', event: 'INSERT', filter: notificationsFilter } : null,
+    (payload) => {
+      console.log('New notification received:', payload);
+      const newNotification = payload.new as Notification;
+      setNotifications(prev => {
+        // Check if notification already exists to prevent duplicates
+        const exists = prev.find(n => n.id === newNotification.id);
+        if (exists) {
+          console.log('Duplicate notification prevented:', newNotification.id);
+          return prev;
         }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'notifications',
-          filter: `user_id=eq.${user.id}`,
-        },
-        (payload) => {
-          console.log('Notification updated:', payload);
-          const updatedNotification = payload.new as Notification;
-          setNotifications(prev =>
-            prev.map(n =>
-              n.id === updatedNotification.id ? updatedNotification : n
-            )
+        // Also check for duplicate like notifications by actor_id, entity_id and type
+        if (newNotification.type === 'like' || newNotification.type === 'comment_like') {
+          const duplicateLike = prev.find(n => 
+            n.type === newNotification.type &&
+            n.actor_id === newNotification.actor_id &&
+            n.entity_id === newNotification.entity_id
           );
-          
-          // Recalculate unread count to ensure consistency
-          setNotifications(prev => {
-            const unreadCount = prev.filter(n => !n.is_read).length;
-            setUnreadCount(unreadCount);
+          if (duplicateLike) {
+            console.log('Duplicate like notification prevented:', newNotification);
             return prev;
-          });
+          }
         }
-      )
-      .subscribe((status) => {
-        console.log('Notifications channel status:', status);
+        return [newNotification, ...prev];
       });
+      
+      // Only increment if it's actually a new notification and it's unread
+      if (!newNotification.is_read) {
+        setUnreadCount(prev => prev + 1);
+      }
 
-    return () => {
-      console.log('Cleaning up notifications channel');
-      supabase.removeChannel(channel);
-    };
-  }, [user, fetchNotifications]);
+      // Show toast for new notification
+      toast({
+        title: newNotification.title,
+        description: newNotification.message,
+      });
+    }
+  );
+
+  useRealtimeChanges(
+    notificationsFilter ? { table: 'notifications', event: 'UPDATE', filter: notificationsFilter } : null,
+    (payload) => {
+      console.log('Notification updated:', payload);
+      const updatedNotification = payload.new as Notification;
+      setNotifications(prev =>
+        prev.map(n =>
+          n.id === updatedNotification.id ? updatedNotification : n
+        )
+      );
+      
+      // Recalculate unread count to ensure consistency
+      setNotifications(prev => {
+        const unreadCount = prev.filter(n => !n.is_read).length;
+        setUnreadCount(unreadCount);
+        return prev;
+      });
+    }
+  );
 
   return {
     notifications,
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 import { Conversation } from '@/hooks/useConversations';
 
 interface OptimizedConversationsOptions {
@@ -314,7 +315,7 @@ export const useOptimizedConversations = () => {
     }
   }, [user]);
 
-  // Initial load and realtime setup with instant cache loading
+  // Initial load with instant cache loading
   useEffect(() => {
     if (!user?.id) {
       console.log('No user ID available, skipping conversations setup');
@@ -333,118 +334,79 @@ export const useOptimizedConversations = () => {
       // No cache, show loading and fetch
       fetchConversations(false);
     }
+  }, [user?.id]); // Removed fetchConversations dependency to avoid loops
 
-    // Set up optimized realtime with incremental updates
-    const conversationsChannel = supabase
-      .channel(`conversations-user-${user.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages'
-        },
-        (payload) => {
-          console.log('New message:', payload);
-          // Update conversations incrementally instead of full refetch
-          const message = payload.new as any;
-          setConversations(prev => {
-            const updated = prev.map(conv => {
-              if (conv.id === message.conversation_id) {
-                return {
-                  ...conv,
-                  last_message: {
-                    id: message.id,
-                    conversation_id: message.conversation_id,
-                    content: message.content,
-                    created_at: message.created_at,
-                    sender_id: message.sender_id,
-                    media_url: message.media_url,
-                    media_type: message.media_type,
-                    story_id: message.story_id,
-                    read_at: message.read_at
-                  },
-                  unread_count: message.sender_id === user.id ? conv.unread_count : conv.unread_count + 1,
-                  updated_at: message.created_at
-                };
-              }
-              return conv;
-            });
-            
-            // Update cache
-            conversationsCache = updated;
-            saveCache(updated);
-            return updated.sort((a, b) => {
-              const aTime = a.last_message?.created_at || a.updated_at;
-              const bTime = b.last_message?.created_at || b.updated_at;
-              return new Date(bTime).getTime() - new Date(aTime).getTime();
-            });
-          });
+  // Set up optimized realtime with incremental updates
+  useRealtimeChanges(user?.id ? { table: 'messages', event: 'INSERT' } : null, (payload) => {
+    console.log('New message:', payload);
+    // Update conversations incrementally instead of full refetch
+    const message = payload.new as any;
+    setConversations(prev => {
+      const updated = prev.map(conv => {
+        if (conv.id === message.conversation_id) {
+          return {
+            ...conv,
+            last_message: {
+              id: message.id,
+              conversation_id: message.conversation_id,
+              content: message.content,
+              created_at: message.created_at,
+              sender_id: message.sender_id,
+              media_url: message.media_url,
+              media_type: message.media_type,
+              story_id: message.story_id,
+              read_at: message.read_at
+            },
+            unread_count: message.sender_id === user.id ? conv.unread_count : conv.unread_count + 1,
+            updated_at: message.created_at
+          };
         }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'messages'
-        },
-        (payload) => {
-          console.log('Message update:', payload);
-          const message = payload.new as any;
-          // Update read status
-          if (message.read_at) {
-            setConversations(prev => {
-              const updated = prev.map(conv => {
-                if (conv.id === message.conversation_id) {
-                  return {
-                    ...conv,
-                    unread_count: Math.max(0, conv.unread_count - 1)
-                  };
-                }
-                return conv;
-              });
-              conversationsCache = updated;
-              saveCache(updated);
-              return updated;
-            });
+        return conv;
+      });
+      
+      // Update cache
+      conversationsCache = updated;
+      saveCache(updated);
+      return updated.sort((a, b) => {
+        const aTime = a.last_message?.created_at || a.updated_at;
+        const bTime = b.last_message?.created_at || b.updated_at;
+        return new Date(bTime).getTime() - new Date(aTime).getTime();
+      });
+    });
+  });
+
+  useRealtimeChanges(user?.id ? { table: 'messages', event: 'UPDATE' } : null, (payload) => {
+    console.log('Message update:', payload);
+    const message = payload.new as any;
+    // Update read status
+    if (message.read_at) {
+      setConversations(prev => {
+        const updated = prev.map(conv => {
+          if (conv.id === message.conversation_id) {
+            return {
+              ...conv,
+              unread_count: Math.max(0, conv.unread_count - 1)
+            };
           }
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'conversations'
-        },
-        () => {
-          // Only refetch for conversation changes (new chats, etc)
-          setTimeout(() => fetchConversations(false), 500);
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'conversation_participants'
-        },
-        () => {
-          // Only refetch for participant changes
-          setTimeout(() => fetchConversations(false), 500);
-        }
-      )
-      .subscribe((status) => {
-        console.log('Realtime subscription status:', status);
+          return conv;
+        });
+        conversationsCache = updated;
+        saveCache(updated);
+        return updated;
       });
+    }
+  });
 
-    return () => {
-      console.log('Cleaning up realtime subscription');
-      supabase.removeChannel(conversationsChannel);
-    };
-  }, [user?.id]); // Removed fetchConversations dependency to avoid loops
-
+  // Only refetch for conversation and participant changes (new chats, etc)
+  const refetchOnMembershipChange = () => {
+    setTimeout(() => fetchConversations(false), 500);
+  };
+  useRealtimeChanges(user?.id ? { table: 'conversations', event: 'INSERT' } : null, refetchOnMembershipChange);
+  useRealtimeChanges(user?.id ? { table: 'conversations', event: 'UPDATE' } : null, refetchOnMembershipChange);
+  useRealtimeChanges(user?.id ? { table: 'conversations', event: 'DELETE' } : null, refetchOnMembershipChange);
+  useRealtimeChanges(user?.id ? { table: 'conversation_participants', event: 'INSERT' } : null, refetchOnMembershipChange);
+  useRealtimeChanges(user?.id ? { table: 'conversation_participants', event: 'UPDATE' } : null, refetchOnMembershipChange);
+  useRealtimeChanges(user?.id ? { table: 'conversation_participants', event: 'DELETE' } : null, refetchOnMembershipChange);
 
   // Create or get conversation simplified
   const createOrGetConversation = useCallback(async (otherUserId: string, storyId?: string) => {
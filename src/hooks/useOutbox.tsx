@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  enqueueOutboxMessage,
+  flushOutbox,
+  getOutboxEntries,
+  OUTBOX_CHANGED_EVENT,
+  OutboxEntry,
+  OutboxPayload,
+  OutboxTable,
+} from '@/lib/outbox';
+
+// Queued messages of one conversation (or the public chat when conversationId is null)
+export const useOutbox = (table: OutboxTable, conversationId: string | null) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setEntries([]);
+      return;
+    }
+
+    const all = await getOutboxEntries(user.id);
+    setEntries(all.filter(entry => entry.table === table && entry.conversation_id === conversationId));
+  }, [user, table, conversationId]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  const queueMessage = useCallback(async (payload: OutboxPayload) => {
+    if (!user) return null;
+
+    const entry = await enqueueOutboxMessage(payload, user.id, conversationId);
+    if (navigator.onLine) {
+      flushOutbox(user.id);
+    }
+    return entry;
+  }, [user, conversationId]);
+
+  return {
+    entries,
+    queueMessage,
+  };
+};
+
+// Mounted once for the whole app: sends whatever is queued on startup and whenever the
+// browser comes back online, even if the conversation it belongs to is not open
+export const useOutboxSync = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const flush = () => {
+      if (navigator.onLine) flushOutbox(user.id);
+    };
+
+    flush();
+    window.addEventListener('online', flush);
+    // Safety net for connections that come back without an online event
+    const interval = setInterval(flush, 30000);
+
+    return () => {
+      window.removeEventListener('online', flush);
+      clearInterval(interval);
+    };
+  }, [user]);
+};
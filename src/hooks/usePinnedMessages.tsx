@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { PinnedMessage, pinMessage, unpinMessage } from '@/lib/pinnedMessages';
+
+// Pins of one conversation, newest first, kept in sync with pins made by others
+export const usePinnedMessages = (conversationId: string) => {
+  const [pins, setPins] = useState<PinnedMessage[]>([]);
+
+  const fetchPins = useCallback(async () => {
+    if (!conversationId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('pinned_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPins(data || []);
+    } catch (error) {
+      console.error('Error fetching pinned messages:', error);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    setPins([]);
+    fetchPins();
+  }, [fetchPins]);
+
+  const handlePinChange = useCallback((payload: RealtimePostgresChangesPayload<PinnedMessage>) => {
+    if (payload.eventType === 'DELETE') {
+      const removedId = payload.old.id;
+      setPins(prev => prev.filter(pin => pin.id !== removedId));
+      return;
+    }
+
+    const pin = payload.new;
+    if (pin.conversation_id !== conversationId) return;
+
+    setPins(prev => [pin, ...prev.filter(p => p.id !== pin.id)]);
+  }, [conversationId]);
+
+  const conversationFilter = conversationId ? `conversation_id=eq.${conversationId}` : null;
+
+  useRealtimeChanges<PinnedMessage>(
+    conversationFilter ? { table: 'pinned_messages', event: 'INSERT', filter: conversationFilter } : null,
+    handlePinChange
+  );
+  // Delete events can't be filtered, unknown ids are ignored by the handler
+  useRealtimeChanges<PinnedMessage>(
+    conversationFilter ? { table: 'pinned_messages', event: 'DELETE' } : null,
+    handlePinChange
+  );
+
+  const isPinned = useCallback((messageId: string) => pins.some(pin => pin.message_id === messageId), [pins]);
+
+  // Refreshes right away instead of waiting for the realtime event of our own change
+  const togglePin = useCallback(async (messageId: string) => {
+    if (isPinned(messageId)) {
+      await unpinMessage(messageId);
+      setPins(prev => prev.filter(pin => pin.message_id !== messageId));
+    } else {
+      await pinMessage(messageId);
+      await fetchPins();
+    }
+  }, [isPinned, fetchPins]);
+
+  return { pins, isPinned, togglePin };
+};
@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { Tables } from '@/integrations/supabase/types';
 
 interface Comment {
   id: string;
@@ -140,206 +142,150 @@ export const usePostInteractions = (postId: string | null) => {
   }, [postId, user]);
 
   // Real-time subscriptions
-  useEffect(() => {
-    if (!postId) return;
+  const postFilter = postId ? `post_id=eq.${postId}` : null;
+
+  // Subscribe to likes changes
+  useRealtimeChanges(postFilter ? { table: 'post_likes', event: 'INSERT', filter: postFilter } : null, () => {
+    setLikesCount(prev => prev + 1);
+  });
+
+  // Delete events can't be filtered, likes of other posts are skipped here
+  useRealtimeChanges(postFilter ? { table: 'post_likes', event: 'DELETE' } : null, (payload) => {
+    const removedLike = payload.old as Partial<Tables<'post_likes'>>;
+    if (removedLike.post_id !== postId) return;
+
+    setLikesCount(prev => prev - 1);
+  });
+
+  // Subscribe to comments changes with realtime updates
+  useRealtimeChanges(postFilter ? { table: 'post_comments', event: 'INSERT', filter: postFilter } : null, async (payload) => {
+    console.log('New comment received:', payload);
+    const comment = payload.new as Tables<'post_comments'>;
+
+    // Fetch the new comment with profile data
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('display_name, username, avatar_url')
+      .eq('id', comment.user_id)
+      .single();
+
+    const newComment = {
+      id: comment.id,
+      content: comment.content,
+      created_at: comment.created_at,
+      user_id: comment.user_id,
+      likes_count: comment.likes_count || 0,
+      parent_comment_id: comment.parent_comment_id || null,
+      profiles: profile || {
+        display_name: 'Usuário',
+        username: 'user',
+        avatar_url: null
+      },
+      replies: []
+    };
 
-    // Subscribe to likes changes
-    const likesChannel = supabase
-      .channel(`post-likes-${postId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'post_likes',
-          filter: `post_id=eq.${postId}`,
-        },
-        () => {
-          setLikesCount(prev => prev + 1);
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'DELETE',
-          schema: 'public',
-          table: 'post_likes',
-          filter: `post_id=eq.${postId}`,
-        },
-        () => {
-          setLikesCount(prev => prev - 1);
+    if (comment.parent_comment_id) {
+      // It's a reply - add to parent comment's replies
+      setComments(prev => prev.map(commentItem => 
+        commentItem.id === comment.parent_comment_id 
+          ? { ...commentItem, replies: [...(commentItem.replies || []), newComment] }
+          : commentItem
+      ));
+    } else {
+      // It's a top-level comment
+      setComments(prev => [...prev, newComment]);
+    }
+    setCommentsCount(prev => prev + 1);
+  });
+
+  useRealtimeChanges(postFilter ? { table: 'post_comments', event: 'DELETE' } : null, (payload) => {
+    const removedComment = payload.old as Partial<Tables<'post_comments'>>;
+    if (removedComment.post_id !== postId) return;
+
+    setComments(prev => prev.filter(comment => comment.id !== removedComment.id));
+    setCommentsCount(prev => prev - 1);
+  });
+
+  // Subscribe to comment likes changes - filter by comments from this post
+  useRealtimeChanges(postId ? { table: 'comment_likes', event: 'INSERT' } : null, async (payload) => {
+    console.log('Comment like added in real-time:', payload);
+    const like = payload.new as Tables<'comment_likes'>;
+
+    // Check if this like is for a comment in our current post
+    const { data: comment } = await supabase
+      .from('post_comments')
+      .select('post_id')
+      .eq('id', like.comment_id)
+      .single();
+      
+    if (comment && comment.post_id === postId) {
+      // Update comment likes count for both top-level comments and replies
+      setComments(prev => prev.map(commentItem => {
+        if (commentItem.id === like.comment_id) {
+          return { ...commentItem, likes_count: commentItem.likes_count + 1 };
         }
-      )
-      .subscribe();
-
-    // Subscribe to comments changes with realtime updates
-    const commentsChannel = supabase
-      .channel(`post-comments-${postId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'post_comments',
-          filter: `post_id=eq.${postId}`,
-        },
-        async (payload) => {
-          console.log('New comment received:', payload);
-          
-          // Fetch the new comment with profile data
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('display_name, username, avatar_url')
-            .eq('id', payload.new.user_id)
-            .single();
-
-          const newComment = {
-            id: payload.new.id,
-            content: payload.new.content,
-            created_at: payload.new.created_at,
-            user_id: payload.new.user_id,
-            likes_count: payload.new.likes_count || 0,
-            parent_comment_id: payload.new.parent_comment_id || null,
-            profiles: profile || {
-              display_name: 'Usuário',
-              username: 'user',
-              avatar_url: null
-            },
-            replies: []
+        // Check replies
+        if (commentItem.replies) {
+          return {
+            ...commentItem,
+            replies: commentItem.replies.map(reply =>
+              reply.id === like.comment_id
+                ? { ...reply, likes_count: reply.likes_count + 1 }
+                : reply
+            )
           };
-
-          if (payload.new.parent_comment_id) {
-            // It's a reply - add to parent comment's replies
-            setComments(prev => prev.map(comment => 
-              comment.id === payload.new.parent_comment_id 
-                ? { ...comment, replies: [...(comment.replies || []), newComment] }
-                : comment
-            ));
-          } else {
-            // It's a top-level comment
-            setComments(prev => [...prev, newComment]);
-          }
-          setCommentsCount(prev => prev + 1);
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'DELETE',
-          schema: 'public',
-          table: 'post_comments',
-          filter: `post_id=eq.${postId}`,
-        },
-        (payload) => {
-          setComments(prev => prev.filter(comment => comment.id !== payload.old.id));
-          setCommentsCount(prev => prev - 1);
         }
-      )
-      .subscribe();
-
-    // Subscribe to comment likes changes - filter by comments from this post
-    const commentLikesChannel = supabase
-      .channel(`comment-likes-${postId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'comment_likes',
-        },
-        async (payload) => {
-          console.log('Comment like added in real-time:', payload);
-          
-          // Check if this like is for a comment in our current post
-          const { data: comment } = await supabase
-            .from('post_comments')
-            .select('post_id')
-            .eq('id', payload.new.comment_id)
-            .single();
-            
-          if (comment && comment.post_id === postId) {
-            // Update comment likes count for both top-level comments and replies
-            setComments(prev => prev.map(commentItem => {
-              if (commentItem.id === payload.new.comment_id) {
-                return { ...commentItem, likes_count: commentItem.likes_count + 1 };
-              }
-              // Check replies
-              if (commentItem.replies) {
-                return {
-                  ...commentItem,
-                  replies: commentItem.replies.map(reply =>
-                    reply.id === payload.new.comment_id
-                      ? { ...reply, likes_count: reply.likes_count + 1 }
-                      : reply
-                  )
-                };
-              }
-              return commentItem;
-            }));
-            
-            // Update user's liked comments if it's their like
-            if (user && payload.new.user_id === user.id) {
-              setCommentLikes(prev => new Set([...prev, payload.new.comment_id]));
-            }
-          }
+        return commentItem;
+      }));
+      
+      // Update user's liked comments if it's their like
+      if (user && like.user_id === user.id) {
+        setCommentLikes(prev => new Set([...prev, like.comment_id]));
+      }
+    }
+  });
+
+  useRealtimeChanges(postId ? { table: 'comment_likes', event: 'DELETE' } : null, async (payload) => {
+    console.log('Comment like removed in real-time:', payload);
+    const like = payload.old as Partial<Tables<'comment_likes'>>;
+
+    // Check if this unlike is for a comment in our current post
+    const { data: comment } = await supabase
+      .from('post_comments')
+      .select('post_id')
+      .eq('id', like.comment_id)
+      .single();
+      
+    if (comment && comment.post_id === postId) {
+      // Update comment likes count for both top-level comments and replies
+      setComments(prev => prev.map(commentItem => {
+        if (commentItem.id === like.comment_id) {
+          return { ...commentItem, likes_count: Math.max(0, commentItem.likes_count - 1) };
         }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'DELETE',
-          schema: 'public',
-          table: 'comment_likes',
-        },
-        async (payload) => {
-          console.log('Comment like removed in real-time:', payload);
-          
-          // Check if this unlike is for a comment in our current post
-          const { data: comment } = await supabase
-            .from('post_comments')
-            .select('post_id')
-            .eq('id', payload.old.comment_id)
-            .single();
-            
-          if (comment && comment.post_id === postId) {
-            // Update comment likes count for both top-level comments and replies
-            setComments(prev => prev.map(commentItem => {
-              if (commentItem.id === payload.old.comment_id) {
-                return { ...commentItem, likes_count: Math.max(0, commentItem.likes_count - 1) };
-              }
-              // Check replies
-              if (commentItem.replies) {
-                return {
-                  ...commentItem,
-                  replies: commentItem.replies.map(reply =>
-                    reply.id === payload.old.comment_id
-                      ? { ...reply, likes_count: Math.max(0, reply.likes_count - 1) }
-                      : reply
-                  )
-                };
-              }
-              return commentItem;
-            }));
-            
-            // Update user's liked comments if it's their unlike
-            if (user && payload.old.user_id === user.id) {
-              setCommentLikes(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(payload.old.comment_id);
-                return newSet;
-              });
-            }
-          }
+        // Check replies
+        if (commentItem.replies) {
+          return {
+            ...commentItem,
+            replies: commentItem.replies.map(reply =>
+              reply.id === like.comment_id
+                ? { ...reply, likes_count: Math.max(0, reply.likes_count - 1) }
+                : reply
+            )
+          };
         }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(likesChannel);
-      supabase.removeChannel(commentsChannel);
-      supabase.removeChannel(commentLikesChannel);
-    };
-  }, [postId]);
+        return commentItem;
+      }));
+      
+      // Update user's liked comments if it's their unlike
+      if (user && like.user_id === user.id) {
+        setCommentLikes(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(like.comment_id);
+          return newSet;
+        });
+      }
+    }
+  });
 
   const handleLike = useCallback(async () => {
     if (!user || !postId) return;
@@ -1,180 +1,509 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { useRealtime, useRealtimeBroadcast, useRealtimeChanges } from '@/hooks/useRealtime';
+import { useOutbox } from '@/hooks/useOutbox';
+import { isNetworkError, newClientMessageId, OutboxMessageStatus, PublicOutboxEntry } from '@/lib/outbox';
 
-export interface PublicMessage {
-  id: string;
-  sender_id: string;
-  content: string;
-  created_at: string;
-  sender?: {
-    display_name: string;
-    username: string;
-    avatar_url: string | null;
-  };
+export interface PublicMessageSender {
+  display_name: string;
+  username: string;
+  avatar_url: string | null;
 }
 
-export const usePublicChat = () => {
-  const { user } = useAuth();
+export type PublicRepliedMessage = Pick<
+  Tables<'public_chat_messages'>,
+  'id' | 'content' | 'media_url' | 'media_type' | 'sender_id'
+>;
+
+export interface PublicMessage extends Tables<'public_chat_messages'> {
+  sender?: PublicMessageSender;
+  // Deleted originals leave replied_to_message_id null, so this is only missing while loading
+  replied_message?: PublicRepliedMessage;
+  replied_sender?: PublicMessageSender;
+  // Only set on messages still waiting in the outbox
+  status?: OutboxMessageStatus;
+}
+
+export interface SendPublicMessageOptions {
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+  repliedToMessageId?: string | null;
+}
+
+type PublicChatSettings = Tables<'public_chat_settings'>;
+
+type TypingBroadcast = {
+  user_id: string;
+  display_name: string;
+  is_typing: boolean;
+};
+
+interface TypingUser {
+  user_id: string;
+  display_name: string;
+  is_typing: boolean;
+}
+
+interface UsePublicChatOptions {
+  pageSize?: number;
+}
+
+// The server words its limit errors like 'Slow mode: wait 12 seconds' and 'Rate limit exceeded'
+const parseLimitError = (error: unknown) => {
+  const message = (error as { message?: string } | null)?.message || '';
+  const slowMode = message.match(/^Slow mode: wait (\d+) seconds/);
+  if (slowMode) return { kind: 'slow_mode' as const, seconds: Number(slowMode[1]) };
+  if (message.startsWith('Rate limit exceeded')) return { kind: 'rate_limit' as const };
+  return null;
+};
+
+const byCreatedAt = (a: PublicMessage, b: PublicMessage) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// The one public room: newest page first with older pages on demand, replies, media and
+// mentions. Slow mode and the rate limit are enforced by the database; the countdown here
+// only mirrors them so the input can say how long to wait
+export const usePublicChat = ({ pageSize = 30 }: UsePublicChatOptions = {}) => {
+  const { user, isAdmin, isModerator } = useAuth();
+  const isStaff = isAdmin || isModerator;
   const [messages, setMessages] = useState<PublicMessage[]>([]);
   const [loading, setLoading] = useState(true);
-  const [userProfile, setUserProfile] = useState<any>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [userProfile, setUserProfile] = useState<PublicMessageSender | null>(null);
+  const [settings, setSettings] = useState<PublicChatSettings | null>(null);
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [cooldownRemaining, setCooldownRemaining] = useState(0);
+  const { entries: outboxEntries, queueMessage } = useOutbox('public_chat_messages', null);
+  const realtime = useRealtime();
 
-  const fetchMessages = async () => {
-    if (!user) return;
+  const profilesRef = useRef(new Map<string, PublicMessageSender>());
+  const repliesRef = useRef(new Map<string, PublicRepliedMessage>());
 
-    try {
-      const { data: messagesData, error } = await supabase
+  const slowModeSeconds = settings?.slow_mode_seconds ?? 0;
+
+  // Attaches senders and quoted messages, fetching only the ones not seen before
+  const hydrate = useCallback(async (rows: Tables<'public_chat_messages'>[]): Promise<PublicMessage[]> => {
+    rows.forEach(row => repliesRef.current.set(row.id, row));
+
+    const missingReplyIds = [...new Set(
+      rows
+        .map(row => row.replied_to_message_id)
+        .filter((id): id is string => !!id && !repliesRef.current.has(id))
+    )];
+
+    if (missingReplyIds.length > 0) {
+      const { data, error } = await supabase
         .from('public_chat_messages')
-        .select('*')
-        .order('created_at', { ascending: true })
-        .limit(100);
+        .select('id, content, media_url, media_type, sender_id')
+        .in('id', missingReplyIds);
 
       if (error) throw error;
+      data?.forEach(reply => repliesRef.current.set(reply.id, reply));
+    }
 
-      if (messagesData?.length) {
-        // Get unique sender IDs
-        const senderIds = [...new Set(messagesData.map(m => m.sender_id))];
-        
-        // Fetch sender profiles
-        const { data: profiles, error: profilesError } = await supabase
-          .from('profiles')
-          .select('id, display_name, username, avatar_url')
-          .in('id', senderIds);
-
-        if (profilesError) throw profilesError;
-
-        // Create profiles map
-        const profilesMap = profiles?.reduce((acc, profile) => {
-          acc[profile.id] = {
-            display_name: profile.display_name,
-            username: profile.username,
-            avatar_url: profile.avatar_url,
-          };
-          return acc;
-        }, {} as Record<string, any>) || {};
-
-        // Add sender info to messages
-        const messagesWithSenders = messagesData.map(message => ({
-          ...message,
-          sender: profilesMap[message.sender_id]
-        }));
-
-        setMessages(messagesWithSenders);
-      } else {
-        setMessages([]);
-      }
+    const replies = rows
+      .map(row => row.replied_to_message_id && repliesRef.current.get(row.replied_to_message_id))
+      .filter((reply): reply is PublicRepliedMessage => !!reply);
+
+    const missingSenderIds = [...new Set(
+      [...rows, ...replies]
+        .map(row => row.sender_id)
+        .filter(id => !profilesRef.current.has(id))
+    )];
+
+    if (missingSenderIds.length > 0) {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, display_name, username, avatar_url')
+        .in('id', missingSenderIds);
+
+      if (error) throw error;
+      data?.forEach(({ id, ...profile }) => profilesRef.current.set(id, profile));
+    }
+
+    return rows.map(row => {
+      const repliedMessage = row.replied_to_message_id
+        ? repliesRef.current.get(row.replied_to_message_id)
+        : undefined;
+
+      return {
+        ...row,
+        sender: profilesRef.current.get(row.sender_id),
+        replied_message: repliedMessage,
+        replied_sender: repliedMessage ? profilesRef.current.get(repliedMessage.sender_id) : undefined,
+      };
+    });
+  }, []);
+
+  // One page older than `before` (or the newest one), oldest first. Ties on created_at
+  // are broken by id so no message is skipped between pages
+  const fetchPage = useCallback(async (before?: PublicMessage) => {
+    let query = supabase
+      .from('public_chat_messages')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pageSize);
+
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const page = await hydrate([...(data || [])].reverse());
+    return { page, complete: (data?.length || 0) < pageSize };
+  }, [pageSize, hydrate]);
+
+  const fetchMessages = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { page, complete } = await fetchPage();
+      setMessages(page);
+      setHasMore(!complete);
     } catch (error) {
       console.error('Error fetching public messages:', error);
+      toast({
+        title: "Erro ao carregar mensagens",
+        description: "Não foi possível carregar o chat público.",
+        variant: "destructive",
+      });
     } finally {
       setLoading(false);
     }
-  };
+  }, [user, fetchPage]);
 
-  const sendMessage = async (content: string) => {
-    if (!user || !content.trim()) return;
+  const loadMore = useCallback(async () => {
+    if (!user || loading || loadingMore || !hasMore || messages.length === 0) return;
 
+    setLoadingMore(true);
     try {
-      const { error } = await supabase
-        .from('public_chat_messages')
-        .insert({
-          sender_id: user.id,
-          content: content.trim()
-        });
-
-      if (error) throw error;
+      const { page, complete } = await fetchPage(messages[0]);
+      setMessages(prev => {
+        const known = new Set(prev.map(m => m.id));
+        return [...page.filter(m => !known.has(m.id)), ...prev];
+      });
+      setHasMore(!complete);
     } catch (error) {
-      console.error('Error sending public message:', error);
-      throw error;
+      console.error('Error loading older public messages:', error);
+    } finally {
+      setLoadingMore(false);
     }
-  };
+  }, [user, loading, loadingMore, hasMore, messages, fetchPage]);
 
-  useEffect(() => {
-    fetchMessages();
-    fetchUserProfile();
-  }, [user]);
+  const fetchSettings = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('public_chat_settings')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching public chat settings:', error);
+      return;
+    }
+    setSettings(data);
+  }, []);
 
-  const fetchUserProfile = async () => {
+  const fetchUserProfile = useCallback(async () => {
     if (!user) return;
-    
+
     try {
       const { data } = await supabase
         .from('profiles')
         .select('display_name, username, avatar_url')
         .eq('id', user.id)
         .single();
-      
+
       setUserProfile(data);
     } catch (error) {
       console.error('Error fetching user profile:', error);
     }
-  };
+  }, [user]);
 
-  // Set up real-time subscriptions
-  useEffect(() => {
-    if (!user) return;
+  const startCooldown = useCallback((seconds: number) => {
+    if (seconds > 0) setCooldownUntil(Date.now() + seconds * 1000);
+  }, []);
 
-    const channel = supabase
-      .channel('public_chat')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'public_chat_messages',
-        },
-        async (payload) => {
-          const newMessage = payload.new as PublicMessage;
-          console.log('Nova mensagem pública recebida (básico):', {
-            content: newMessage.content,
-            time: new Date(newMessage.created_at).toLocaleTimeString(),
-            sender: newMessage.sender_id === user?.id ? 'eu' : 'outro'
-          });
-          
-          // Get sender profile
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('display_name, username, avatar_url')
-            .eq('id', newMessage.sender_id)
-            .single();
-
-          if (profile) {
-            newMessage.sender = {
-              display_name: profile.display_name,
-              username: profile.username,
-              avatar_url: profile.avatar_url,
-            };
-          }
-
-          setMessages(prev => {
-            // Adicionar nova mensagem no final (mantém ordem cronológica)
-            const updated = [...prev, newMessage].sort((a, b) => 
-              new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-            );
-            
-            console.log('Chat público (básico) após ordenação:', updated.slice(-5).map((m, index) => ({
-              index,
-              time: new Date(m.created_at).toLocaleTimeString(),
-              content: m.content?.slice(0, 20) || 'media',
-              sender: m.sender_id === user?.id ? 'eu' : 'outro'
-            })));
-            
-            return updated;
+  const sendMessage = useCallback(async (content: string, options: SendPublicMessageOptions = {}) => {
+    const text = content.trim();
+    if (!user || (!text && !options.mediaUrl) || sending) return;
+
+    if (cooldownRemaining > 0) {
+      toast({
+        title: "Modo lento ativado",
+        description: `Aguarde ${cooldownRemaining}s para enviar outra mensagem.`,
+      });
+      return;
+    }
+
+    const row = {
+      id: newClientMessageId(),
+      sender_id: user.id,
+      content: text || null,
+      media_url: options.mediaUrl || null,
+      media_type: options.mediaType || null,
+      replied_to_message_id: options.repliedToMessageId || null,
+    };
+
+    if (!navigator.onLine) {
+      await queueMessage({ table: 'public_chat_messages', row });
+      return;
+    }
+
+    setSending(true);
+    try {
+      const { error } = await supabase
+        .from('public_chat_messages')
+        .insert(row);
+
+      if (error) throw error;
+
+      if (!isStaff) startCooldown(slowModeSeconds);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await queueMessage({ table: 'public_chat_messages', row });
+        return;
+      }
+
+      const limit = parseLimitError(error);
+      if (limit?.kind === 'slow_mode') {
+        startCooldown(limit.seconds);
+        toast({
+          title: "Modo lento ativado",
+          description: `Aguarde ${limit.seconds}s para enviar outra mensagem.`,
+          variant: "destructive",
+        });
+      } else if (limit?.kind === 'rate_limit') {
+        toast({
+          title: "Muitas mensagens",
+          description: "Você enviou mensagens demais em pouco tempo. Aguarde um pouco.",
+          variant: "destructive",
+        });
+      } else {
+        console.error('Error sending public message:', error);
+        toast({
+          title: "Erro ao enviar mensagem",
+          description: "Não foi possível enviar sua mensagem. Tente novamente.",
+          variant: "destructive",
+        });
+      }
+      throw error;
+    } finally {
+      setSending(false);
+    }
+  }, [user, sending, cooldownRemaining, isStaff, slowModeSeconds, startCooldown, queueMessage]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    try {
+      const { error } = await supabase.rpc('delete_public_chat_message', { p_message_id: messageId });
+      if (error) throw error;
+
+      setMessages(prev => prev.filter(m => m.id !== messageId));
+      toast({ title: "Mensagem apagada" });
+    } catch (error) {
+      console.error('Error deleting public message:', error);
+      toast({
+        title: "Erro ao apagar mensagem",
+        description: "Não foi possível apagar a mensagem.",
+        variant: "destructive",
+      });
+    }
+  }, []);
+
+  const setSlowMode = useCallback(async (seconds: number) => {
+    try {
+      const { error } = await supabase.rpc('set_public_chat_slow_mode', { p_seconds: seconds });
+      if (error) throw error;
+
+      setSettings(prev => (prev ? { ...prev, slow_mode_seconds: seconds } : prev));
+      toast({
+        title: seconds > 0 ? "Modo lento ativado" : "Modo lento desativado",
+        description: seconds > 0 ? `Cada pessoa pode enviar uma mensagem a cada ${seconds}s.` : undefined,
+      });
+    } catch (error) {
+      console.error('Error setting slow mode:', error);
+      toast({
+        title: "Erro ao alterar modo lento",
+        description: "Não foi possível alterar o modo lento.",
+        variant: "destructive",
+      });
+    }
+  }, []);
+
+  // New messages, moderator deletions and settings changes ride the shared realtime service
+  useRealtimeChanges(
+    user ? { table: 'public_chat_messages', event: 'INSERT' } : null,
+    async (payload) => {
+      const row = payload.new as Tables<'public_chat_messages'>;
+
+      try {
+        const [message] = await hydrate([row]);
+
+        setMessages(prev => {
+          if (prev.some(m => m.id === message.id)) return prev;
+          return [...prev, message].sort(byCreatedAt);
+        });
+
+        if (message.sender_id !== user?.id && message.sender && document.hidden) {
+          toast({
+            title: `Nova mensagem de ${message.sender.display_name}`,
+            description: message.content || 'Mídia compartilhada',
           });
         }
-      )
-      .subscribe();
+      } catch (error) {
+        console.error('Error loading new public message:', error);
+      }
+    }
+  );
+
+  useRealtimeChanges(
+    user ? { table: 'public_chat_messages', event: 'DELETE' } : null,
+    (payload) => {
+      const removedId = (payload.old as { id?: string }).id;
+      if (!removedId) return;
+
+      repliesRef.current.delete(removedId);
+      setMessages(prev => prev
+        .filter(m => m.id !== removedId)
+        .map(m => (m.replied_to_message_id === removedId
+          ? { ...m, replied_to_message_id: null, replied_message: undefined, replied_sender: undefined }
+          : m))
+      );
+    }
+  );
+
+  useRealtimeChanges(
+    user ? { table: 'public_chat_settings', event: 'UPDATE' } : null,
+    (payload) => setSettings(payload.new as PublicChatSettings)
+  );
+
+  const sendTyping = useRealtimeBroadcast<TypingBroadcast>(
+    user ? 'public_typing' : null,
+    'typing',
+    (message) => {
+      const { user_id, display_name, is_typing } = message.payload;
+
+      if (user_id === user?.id) return;
+
+      setTypingUsers(prev => {
+        const filtered = prev.filter(u => u.user_id !== user_id);
+        return is_typing ? [...filtered, { user_id, display_name, is_typing }] : filtered;
+      });
 
-    return () => {
-      supabase.removeChannel(channel);
+      // Clear typing after timeout
+      if (is_typing) {
+        setTimeout(() => {
+          setTypingUsers(prev => prev.filter(u => u.user_id !== user_id));
+        }, 5000);
+      }
+    }
+  );
+
+  const sendTypingIndicator = useCallback(async (isTyping: boolean, displayName: string) => {
+    if (!user) return;
+
+    try {
+      await sendTyping({
+        user_id: user.id,
+        display_name: displayName,
+        is_typing: isTyping
+      });
+    } catch (error) {
+      console.error('Error sending typing indicator:', error);
+    }
+  }, [user, sendTyping]);
+
+  // Ticks the slow mode countdown down to zero
+  useEffect(() => {
+    if (!cooldownUntil) {
+      setCooldownRemaining(0);
+      return;
+    }
+
+    const tick = () => {
+      const remaining = Math.ceil((cooldownUntil - Date.now()) / 1000);
+      if (remaining <= 0) {
+        setCooldownUntil(null);
+        setCooldownRemaining(0);
+      } else {
+        setCooldownRemaining(remaining);
+      }
     };
-  }, [user]);
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [cooldownUntil]);
+
+  // Turning slow mode off lifts a running countdown
+  useEffect(() => {
+    if (slowModeSeconds === 0) setCooldownUntil(null);
+  }, [slowModeSeconds]);
+
+  useEffect(() => {
+    fetchMessages();
+    fetchUserProfile();
+    fetchSettings();
+  }, [fetchMessages, fetchUserProfile, fetchSettings]);
+
+  // Queued messages render after the delivered ones until the server echoes them back
+  const messagesWithOutbox = useMemo(() => {
+    const queued: PublicMessage[] = outboxEntries
+      .filter((entry): entry is PublicOutboxEntry => entry.table === 'public_chat_messages')
+      .filter(entry => !messages.some(m => m.id === entry.id))
+      .map(entry => {
+        const repliedMessage = entry.row.replied_to_message_id
+          ? repliesRef.current.get(entry.row.replied_to_message_id)
+          : undefined;
+
+        return {
+          id: entry.id,
+          sender_id: entry.row.sender_id,
+          content: entry.row.content ?? null,
+          created_at: entry.queued_at,
+          media_url: entry.row.media_url ?? null,
+          media_type: entry.row.media_type ?? null,
+          replied_to_message_id: entry.row.replied_to_message_id ?? null,
+          sender: userProfile || undefined,
+          replied_message: repliedMessage,
+          replied_sender: repliedMessage ? profilesRef.current.get(repliedMessage.sender_id) : undefined,
+          status: entry.failed ? 'failed' : 'pending',
+        };
+      });
+    return queued.length > 0 ? [...messages, ...queued] : messages;
+  }, [messages, outboxEntries, userProfile]);
 
   return {
-    messages,
+    messages: messagesWithOutbox,
+    typingUsers,
     loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    sending,
     sendMessage,
+    deleteMessage,
+    sendTypingIndicator,
     fetchMessages,
     userProfile,
+    isStaff,
+    slowModeSeconds,
+    setSlowMode,
+    cooldownRemaining,
+    connectionStatus: realtime.status,
+    isOnline: realtime.isOnline,
+    reconnectAttempts: realtime.reconnectAttempts,
+    reconnectChannels: realtime.reconnect
   };
-};
\ No newline at end of file
+};
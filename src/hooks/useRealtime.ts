@@ -0,0 +1,76 @@
+import { createContext, useContext, useEffect, useRef, useCallback } from 'react';
+import {
+  BroadcastMessage,
+  ChangesPayload,
+  ChangesTopic,
+  changesTopicKey,
+  ConnectionStatus,
+  RealtimeRow,
+  sendBroadcast,
+  subscribeToBroadcast,
+  subscribeToChanges,
+} from '@/lib/realtime';
+
+export { type ConnectionStatus } from '@/lib/realtime';
+
+interface RealtimeContextType {
+  status: ConnectionStatus;
+  isOnline: boolean;
+  reconnectAttempts: number;
+  reconnect: () => void;
+}
+
+export const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+// Connection state of all realtime channels together, for status badges and retry buttons
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
+
+// Listens to changes of one table while topic is set. The handler may change on every
+// render, only a different topic resubscribes
+export const useRealtimeChanges = <T extends RealtimeRow = RealtimeRow>(
+  topic: ChangesTopic | null,
+  handler: (payload: ChangesPayload<T>) => void
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const topicRef = useRef(topic);
+  topicRef.current = topic;
+
+  const key = topic ? changesTopicKey(topic) : null;
+
+  useEffect(() => {
+    const current = topicRef.current;
+    if (!key || !current) return;
+
+    return subscribeToChanges<T>(current, payload => handlerRef.current(payload));
+  }, [key]);
+};
+
+// Listens to one event of a broadcast channel while channel is set and returns a sender
+// for the same event
+export const useRealtimeBroadcast = <T extends Record<string, unknown> = Record<string, unknown>>(
+  channel: string | null,
+  event: string,
+  handler?: (message: BroadcastMessage<T>) => void
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const listening = !!handler;
+
+  useEffect(() => {
+    if (!channel || !listening) return;
+
+    return subscribeToBroadcast<T>(channel, event, message => handlerRef.current?.(message));
+  }, [channel, event, listening]);
+
+  return useCallback(async (payload: T) => {
+    if (!channel) return;
+    await sendBroadcast(channel, event, payload);
+  }, [channel, event]);
+};
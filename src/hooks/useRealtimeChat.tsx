@@ -1,7 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import { useMessageReactions } from '@/hooks/useMessageReactions';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useRealtime, useRealtimeBroadcast, useRealtimeChanges } from '@/hooks/useRealtime';
+import { fetchMessageWindow, getMediaMetadataColumns, MediaMetadata, mergeMessages, MessageReaction } from '@/lib/messages';
+import { isNetworkError, newClientMessageId, outboxEntryToMessage, PrivateOutboxEntry } from '@/lib/outbox';
 
 interface Message {
   id: string;
@@ -15,8 +20,22 @@ interface Message {
   read_at: string | null;
   message_status: string | null;
   message_type?: string;
+  edited_at?: string | null;
+  media_duration?: number | null;
+  media_waveform?: number[] | null;
+  media_name?: string | null;
+  media_size?: number | null;
+  media_mime_type?: string | null;
+  listened_at?: string | null;
 }
 
+type TypingBroadcast = {
+  user_id: string;
+  display_name: string;
+  is_typing: boolean;
+  conversation_id: string;
+};
+
 interface TypingUser {
   user_id: string;
   display_name: string;
@@ -29,14 +48,11 @@ export const useRealtimeChat = (conversationId: string) => {
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'disconnected'>('connecting');
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [reconnectAttempts, setReconnectAttempts] = useState(0);
+  const { reactions, toggleReaction, handleReactionChange } = useMessageReactions(conversationId);
+  const { entries: outboxEntries, queueMessage } = useOutbox('messages', conversationId);
+  const { status: connectionStatus, isOnline, reconnectAttempts, reconnect: reconnectChannels } = useRealtime();
   
-  const messagesChannelRef = useRef<any>(null);
-  const typingChannelRef = useRef<any>(null);
   const typingTimeoutRef = useRef<{ [key: string]: NodeJS.Timeout }>({});
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
 
   // Fetch initial messages
   const fetchMessages = useCallback(async () => {
@@ -82,22 +98,32 @@ export const useRealtimeChat = (conversationId: string) => {
   }, [conversationId, user]);
 
   // Send message
-  const sendMessage = useCallback(async (content: string, mediaUrl?: string, mediaType?: string, repliedToMessageId?: string) => {
+  const sendMessage = useCallback(async (content: string, mediaUrl?: string, mediaType?: string, repliedToMessageId?: string, mediaMetadata?: MediaMetadata) => {
     if (!user || (!content.trim() && !mediaUrl) || sending) return false;
 
+    // Client-generated id so a queued copy of this message can be resent without duplicates
+    const row = {
+      id: newClientMessageId(),
+      conversation_id: conversationId,
+      sender_id: user.id,
+      content: content.trim() || null,
+      media_url: mediaUrl || null,
+      media_type: mediaType || null,
+      message_status: 'sent',
+      replied_to_message_id: repliedToMessageId || null,
+      ...getMediaMetadataColumns(mediaMetadata)
+    };
+
+    if (!navigator.onLine) {
+      await queueMessage({ table: 'messages', row });
+      return true;
+    }
+
     setSending(true);
     try {
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: user.id,
-          content: content.trim() || null,
-          media_url: mediaUrl || null,
-          media_type: mediaType || null,
-          message_status: 'sent',
-          replied_to_message_id: repliedToMessageId || null
-        })
+        .insert(row)
         .select()
         .single();
 
@@ -105,6 +131,11 @@ export const useRealtimeChat = (conversationId: string) => {
       
       return true;
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueMessage({ table: 'messages', row });
+        return true;
+      }
+
       console.error('Error sending message:', error);
       toast({
         title: "Erro ao enviar mensagem",
@@ -115,199 +146,133 @@ export const useRealtimeChat = (conversationId: string) => {
     } finally {
       setSending(false);
     }
-  }, [conversationId, user, sending]);
-
-  // Send typing indicator
-  const sendTypingIndicator = useCallback(async (isTyping: boolean) => {
-    if (!user || !typingChannelRef.current) return;
-
-    try {
-      await typingChannelRef.current.send({
-        type: 'broadcast',
-        event: 'typing',
-        payload: {
-          user_id: user.id,
-          display_name: user.display_name,
-          is_typing: isTyping,
-          conversation_id: conversationId
-        }
+  }, [conversationId, user, sending, queueMessage]);
+
+  // Messages, reactions and typing all ride the shared realtime service
+  const conversationFilter = conversationId && user
+    ? `conversation_id=eq.${conversationId}`
+    : null;
+
+  useRealtimeChanges(
+    conversationFilter ? { table: 'messages', event: 'INSERT', filter: conversationFilter } : null,
+    (payload) => {
+      console.log('New message received:', payload.new);
+      const newMessage = payload.new as Message;
+      
+      setMessages(prev => {
+        // Avoid duplicates
+        if (prev.find(m => m.id === newMessage.id)) return prev;
+        return [...prev, newMessage];
       });
-    } catch (error) {
-      console.error('Error sending typing indicator:', error);
-    }
-  }, [conversationId, user]);
-
-  // Online/offline status monitoring
-  useEffect(() => {
-    const handleOnline = () => {
-      setIsOnline(true);
-      setReconnectAttempts(0);
-    };
-    
-    const handleOffline = () => {
-      setIsOnline(false);
-      setConnectionStatus('disconnected');
-    };
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
-
-  // Reconnect channels function
-  const reconnectChannels = useCallback(() => {
-    if (!conversationId || !user) return;
 
-    setReconnectAttempts(prev => prev + 1);
-    setConnectionStatus('connecting');
+      // Show notification for messages from others
+      if (newMessage.sender_id !== user?.id && document.hidden) {
+        toast({
+          title: "Nova mensagem",
+          description: newMessage.content || "Mensagem recebida",
+        });
+      }
 
-    // Clear existing channels
-    if (messagesChannelRef.current) {
-      supabase.removeChannel(messagesChannelRef.current);
-    }
-    if (typingChannelRef.current) {
-      supabase.removeChannel(typingChannelRef.current);
+      // Auto-mark as delivered if not the sender
+      if (newMessage.sender_id !== user?.id) {
+        setTimeout(async () => {
+          try {
+            await supabase
+              .from('messages')
+              .update({ 
+                delivered_at: new Date().toISOString(),
+                message_status: 'delivered'
+              })
+              .eq('id', newMessage.id);
+          } catch (error) {
+            console.error('Error marking message as delivered:', error);
+          }
+        }, 500);
+      }
     }
+  );
 
-    // Recreate channels after a short delay
-    setTimeout(() => {
-      setupChannels();
-    }, 1000);
-  }, [conversationId, user]);
-
-  const setupChannels = useCallback(() => {
-    if (!conversationId || !user) return;
-
-    console.log('Setting up realtime channels for conversation:', conversationId);
-
-    // Messages channel for real-time message updates
-    messagesChannelRef.current = supabase
-      .channel(`messages:${conversationId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `conversation_id=eq.${conversationId}`
-        },
-        (payload) => {
-          console.log('New message received:', payload.new);
-          const newMessage = payload.new as Message;
-          
-          setMessages(prev => {
-            // Avoid duplicates
-            if (prev.find(m => m.id === newMessage.id)) return prev;
-            return [...prev, newMessage];
-          });
-
-          // Show notification for messages from others
-          if (newMessage.sender_id !== user.id && document.hidden) {
-            toast({
-              title: "Nova mensagem",
-              description: newMessage.content || "Mensagem recebida",
-            });
-          }
+  useRealtimeChanges(
+    conversationFilter ? { table: 'messages', event: 'UPDATE', filter: conversationFilter } : null,
+    (payload) => {
+      console.log('Message updated:', payload.new);
+      const updatedMessage = payload.new as Message;
+      
+      // Merge so edits update the bubble in place without dropping local fields
+      setMessages(prev => prev.map(msg => 
+        msg.id === updatedMessage.id ? { ...msg, ...updatedMessage } : msg
+      ));
+    }
+  );
+
+  useRealtimeChanges<MessageReaction>(
+    conversationFilter ? { table: 'message_reactions', event: 'INSERT', filter: conversationFilter } : null,
+    handleReactionChange
+  );
+  useRealtimeChanges<MessageReaction>(
+    conversationFilter ? { table: 'message_reactions', event: 'UPDATE', filter: conversationFilter } : null,
+    handleReactionChange
+  );
+  // Delete events can't be filtered, unknown ids are ignored by the handler
+  useRealtimeChanges<MessageReaction>(
+    conversationFilter ? { table: 'message_reactions', event: 'DELETE' } : null,
+    handleReactionChange
+  );
+
+  const sendTyping = useRealtimeBroadcast<TypingBroadcast>(
+    conversationFilter ? `typing:${conversationId}` : null,
+    'typing',
+    (message) => {
+      const { user_id, display_name, is_typing } = message.payload;
+      
+      // Ignore own typing indicators
+      if (user_id === user?.id) return;
+      
+      console.log('Typing indicator received:', { user_id, display_name, is_typing });
 
-          // Auto-mark as delivered if not the sender
-          if (newMessage.sender_id !== user.id) {
-            setTimeout(async () => {
-              try {
-                await supabase
-                  .from('messages')
-                  .update({ 
-                    delivered_at: new Date().toISOString(),
-                    message_status: 'delivered'
-                  })
-                  .eq('id', newMessage.id);
-              } catch (error) {
-                console.error('Error marking message as delivered:', error);
-              }
-            }, 500);
+      setTypingUsers(prev => {
+        const filtered = prev.filter(u => u.user_id !== user_id);
+        
+        if (is_typing) {
+          // Clear existing timeout for this user
+          if (typingTimeoutRef.current[user_id]) {
+            clearTimeout(typingTimeoutRef.current[user_id]);
           }
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'messages',
-          filter: `conversation_id=eq.${conversationId}`
-        },
-        (payload) => {
-          console.log('Message updated:', payload.new);
-          const updatedMessage = payload.new as Message;
           
-          setMessages(prev => prev.map(msg => 
-            msg.id === updatedMessage.id ? updatedMessage : msg
-          ));
-        }
-      )
-      .subscribe((status) => {
-        console.log('Messages channel status:', status);
-        setConnectionStatus(status === 'SUBSCRIBED' ? 'connected' : 'connecting');
-        
-        if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
-          setConnectionStatus('disconnected');
+          // Set timeout to automatically remove typing indicator
+          typingTimeoutRef.current[user_id] = setTimeout(() => {
+            setTypingUsers(prev => prev.filter(u => u.user_id !== user_id));
+            delete typingTimeoutRef.current[user_id];
+          }, 3000);
           
-          // Auto-reconnect after 3 seconds if online and attempts < 5
-          if (isOnline && reconnectAttempts < 5) {
-            if (reconnectTimeoutRef.current) {
-              clearTimeout(reconnectTimeoutRef.current);
-            }
-            reconnectTimeoutRef.current = setTimeout(() => {
-              reconnectChannels();
-            }, 3000);
+          return [...filtered, { user_id, display_name, is_typing }];
+        } else {
+          // Clear timeout when user stops typing
+          if (typingTimeoutRef.current[user_id]) {
+            clearTimeout(typingTimeoutRef.current[user_id]);
+            delete typingTimeoutRef.current[user_id];
           }
+          return filtered;
         }
       });
+    }
+  );
 
-    // Typing channel for typing indicators
-    typingChannelRef.current = supabase
-      .channel(`typing:${conversationId}`)
-      .on('broadcast', { event: 'typing' }, (payload) => {
-        const { user_id, display_name, is_typing } = payload.payload;
-        
-        // Ignore own typing indicators
-        if (user_id === user.id) return;
-        
-        console.log('Typing indicator received:', { user_id, display_name, is_typing });
+  // Send typing indicator
+  const sendTypingIndicator = useCallback(async (isTyping: boolean) => {
+    if (!user) return;
 
-        setTypingUsers(prev => {
-          const filtered = prev.filter(u => u.user_id !== user_id);
-          
-          if (is_typing) {
-            // Clear existing timeout for this user
-            if (typingTimeoutRef.current[user_id]) {
-              clearTimeout(typingTimeoutRef.current[user_id]);
-            }
-            
-            // Set timeout to automatically remove typing indicator
-            typingTimeoutRef.current[user_id] = setTimeout(() => {
-              setTypingUsers(prev => prev.filter(u => u.user_id !== user_id));
-              delete typingTimeoutRef.current[user_id];
-            }, 3000);
-            
-            return [...filtered, { user_id, display_name, is_typing }];
-          } else {
-            // Clear timeout when user stops typing
-            if (typingTimeoutRef.current[user_id]) {
-              clearTimeout(typingTimeoutRef.current[user_id]);
-              delete typingTimeoutRef.current[user_id];
-            }
-            return filtered;
-          }
-        });
-      })
-      .subscribe((status) => {
-        console.log('Typing channel status:', status);
+    try {
+      await sendTyping({
+        user_id: user.id,
+        display_name: user.display_name,
+        is_typing: isTyping,
+        conversation_id: conversationId
       });
-  }, [conversationId, user, isOnline, reconnectAttempts, reconnectChannels]);
+    } catch (error) {
+      console.error('Error sending typing indicator:', error);
+    }
+  }, [conversationId, user, sendTyping]);
 
   // Mark messages as read
   const markMessagesAsRead = useCallback(async () => {
@@ -332,37 +297,14 @@ export const useRealtimeChat = (conversationId: string) => {
     }
   }, [messages, user]);
 
-  // Setup real-time subscriptions
+  // Clear pending typing timeouts when leaving the conversation
   useEffect(() => {
-    if (!conversationId || !user) return;
-
-    setupChannels();
-
-    // Cleanup function
+    const timeouts = typingTimeoutRef.current;
     return () => {
-      console.log('Cleaning up realtime channels');
-      
-      if (messagesChannelRef.current) {
-        supabase.removeChannel(messagesChannelRef.current);
-        messagesChannelRef.current = null;
-      }
-      
-      if (typingChannelRef.current) {
-        supabase.removeChannel(typingChannelRef.current);
-        typingChannelRef.current = null;
-      }
-
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-      
-      // Clear all typing timeouts
-      Object.values(typingTimeoutRef.current).forEach(timeout => clearTimeout(timeout));
+      Object.values(timeouts).forEach(timeout => clearTimeout(timeout));
       typingTimeoutRef.current = {};
-      
-      setConnectionStatus('disconnected');
     };
-  }, [setupChannels]);
+  }, [conversationId]);
 
   // Auto-mark messages as read when component is visible
   useEffect(() => {
@@ -378,8 +320,29 @@ export const useRealtimeChat = (conversationId: string) => {
     fetchMessages();
   }, [fetchMessages]);
 
+  // Loads the messages around one that isn't in the list, e.g. a search result older than
+  // what was fetched. Resolves to false when the message is gone
+  const loadMessageWindow = useCallback(async (messageId: string) => {
+    if (!conversationId) return false;
+
+    const rows = await fetchMessageWindow(conversationId, messageId);
+    if (!rows) return false;
+
+    setMessages(prev => mergeMessages<Message>(prev, rows));
+    return true;
+  }, [conversationId]);
+
+  // Queued messages render after the delivered ones until the server echoes them back
+  const messagesWithOutbox = useMemo(() => {
+    const queued = outboxEntries
+      .filter((entry): entry is PrivateOutboxEntry => entry.table === 'messages')
+      .filter(entry => !messages.some(m => m.id === entry.id))
+      .map(outboxEntryToMessage);
+    return queued.length > 0 ? [...messages, ...queued] : messages;
+  }, [messages, outboxEntries]);
+
   return {
-    messages,
+    messages: messagesWithOutbox,
     typingUsers,
     loading,
     sending,
@@ -390,6 +353,9 @@ export const useRealtimeChat = (conversationId: string) => {
     sendTypingIndicator,
     markMessagesAsRead,
     fetchMessages,
+    loadMessageWindow,
     reconnectChannels,
+    reactions,
+    toggleReaction,
   };
 };
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 import { Conversation } from '@/hooks/useConversations';
 
 export { type Conversation } from '@/hooks/useConversations';
@@ -229,60 +230,37 @@ export const useRealtimeConversations = () => {
   };
 
   // Set up real-time subscriptions
-  useEffect(() => {
-    if (!user) return;
-
-    const channel = supabase
-      .channel('conversations_realtime')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-        },
-        (payload) => {
-          console.log('New message in conversation:', payload);
-          // Refresh conversations to update last message and counts
-          fetchConversations();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'messages',
-        },
-        (payload) => {
-          console.log('Message status updated:', payload);
-          // Refresh conversations to update unread counts
-          fetchConversations();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'conversations',
-        },
-        (payload) => {
-          console.log('Conversation updated:', payload);
-          // Update specific conversation
-          setConversations(prev => prev.map(conv => 
-            conv.id === payload.new.id 
-              ? { ...conv, updated_at: payload.new.updated_at }
-              : conv
-          ));
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user, fetchConversations]);
+  useRealtimeChanges(
+    user ? { table: 'messages', event: 'INSERT' } : null,
+    (payload) => {
+      console.log('New message in conversation:', payload);
+      // Refresh conversations to update last message and counts
+      fetchConversations();
+    }
+  );
+
+  useRealtimeChanges(
+    user ? { table: 'messages', event: 'UPDATE' } : null,
+    (payload) => {
+      console.log('Message status updated:', payload);
+      // Refresh conversations to update unread counts
+      fetchConversations();
+    }
+  );
+
+  useRealtimeChanges(
+    user ? { table: 'conversations', event: 'UPDATE' } : null,
+    (payload) => {
+      console.log('Conversation updated:', payload);
+      const updated = payload.new as { id: string; updated_at: string };
+      // Update specific conversation
+      setConversations(prev => prev.map(conv => 
+        conv.id === updated.id 
+          ? { ...conv, updated_at: updated.updated_at }
+          : conv
+      ));
+    }
+  );
 
   // Fetch conversations on mount
   useEffect(() => {
@@ -1,18 +1,29 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { Message } from '@/hooks/useConversations';
-import { useWebSocketConnection } from '@/hooks/useWebSocketConnection';
+import { useRealtime, useRealtimeBroadcast, useRealtimeChanges } from '@/hooks/useRealtime';
 import { useMessageCache } from '@/hooks/useMessageCache';
 import { useConnectionValidator } from '@/hooks/useConnectionValidator';
 import { useMessageTimeout } from '@/hooks/useMessageTimeout';
+import { useMessageReactions } from '@/hooks/useMessageReactions';
+import { useOutbox } from '@/hooks/useOutbox';
+import { fetchMessageWindow, getMediaMetadataColumns, MediaMetadata, mergeMessages, MessageReaction } from '@/lib/messages';
+import { isNetworkError, newClientMessageId, outboxEntryToMessage, PrivateOutboxEntry } from '@/lib/outbox';
 
 interface RealtimeMessage extends Message {
   delivered_at?: string | null;
   message_status?: string | null;
 }
 
+type TypingBroadcast = {
+  user_id: string;
+  display_name: string;
+  is_typing: boolean;
+  conversation_id: string;
+};
+
 interface TypingUser {
   user_id: string;
   display_name: string;
@@ -27,13 +38,7 @@ export const useRealtimeMessages = (conversationId: string) => {
   const [sending, setSending] = useState(false);
   
   // Connection and validation management
-  const wsConnection = useWebSocketConnection({
-    maxReconnectAttempts: 5,
-    reconnectInterval: 2000,
-    heartbeatInterval: 30000,
-    enableMobileOptimizations: true
-  });
-
+  const realtime = useRealtime();
   const connectionValidator = useConnectionValidator();
   
   // Message cache management
@@ -51,6 +56,37 @@ export const useRealtimeMessages = (conversationId: string) => {
     retryDelay: 2000
   });
 
+  const { reactions, toggleReaction, handleReactionChange } = useMessageReactions(conversationId);
+  const { entries: outboxEntries, queueMessage } = useOutbox('messages', conversationId);
+
+  const queueOutgoingMessage = useCallback(async (
+    messageId: string,
+    content: string,
+    mediaUrl?: string,
+    mediaType?: string,
+    repliedToMessageId?: string,
+    mediaMetadata?: MediaMetadata
+  ) => {
+    if (!user) return null;
+
+    const entry = await queueMessage({
+      table: 'messages',
+      row: {
+        id: messageId,
+        conversation_id: conversationId,
+        sender_id: user.id,
+        content: content.trim() || null,
+        media_url: mediaUrl || null,
+        media_type: mediaType || null,
+        message_status: 'sent',
+        replied_to_message_id: repliedToMessageId || null,
+        ...getMediaMetadataColumns(mediaMetadata)
+      }
+    });
+
+    return entry?.table === 'messages' ? outboxEntryToMessage(entry) : null;
+  }, [user, conversationId, queueMessage]);
+
   // Fetch initial messages with cache
   const fetchMessages = useCallback(async (forceRefresh = false) => {
     if (!conversationId || !user) return;
@@ -152,18 +188,15 @@ export const useRealtimeMessages = (conversationId: string) => {
   }, []);
 
   // Send message with enhanced validation and timeout handling
-  const sendMessage = useCallback(async (content: string, mediaUrl?: string, mediaType?: string, repliedToMessageId?: string) => {
+  const sendMessage = useCallback(async (content: string, mediaUrl?: string, mediaType?: string, repliedToMessageId?: string, mediaMetadata?: MediaMetadata) => {
     if (!user || (!content.trim() && !mediaUrl) || sending) return null;
 
-    // Validate connection before sending
+    const messageId = newClientMessageId();
+
+    // Offline messages go to the outbox and are sent when the connection comes back
     const connectionInfo = connectionValidator.getConnectionInfo();
-    if (!connectionInfo.isHealthy && connectionInfo.quality === 'offline') {
-      toast({
-        title: "Sem conexão",
-        description: "Não é possível enviar mensagens sem conexão com a internet.",
-        variant: "destructive",
-      });
-      return null;
+    if (!navigator.onLine || (!connectionInfo.isHealthy && connectionInfo.quality === 'offline')) {
+      return queueOutgoingMessage(messageId, content, mediaUrl, mediaType, repliedToMessageId, mediaMetadata);
     }
 
     // Generate temporary message ID
@@ -188,7 +221,7 @@ export const useRealtimeMessages = (conversationId: string) => {
           // Retry logic
           console.log('Retrying message:', messageId);
           try {
-            const result = await sendMessageToServer(content, mediaUrl, mediaType, repliedToMessageId);
+            const result = await sendMessageToServer(messageId, content, mediaUrl, mediaType, repliedToMessageId, mediaMetadata);
             return result ? true : false;
           } catch (error) {
             console.error('Retry failed:', error);
@@ -197,7 +230,7 @@ export const useRealtimeMessages = (conversationId: string) => {
         }
       );
 
-      const result = await sendMessageToServer(content, mediaUrl, mediaType, repliedToMessageId);
+      const result = await sendMessageToServer(messageId, content, mediaUrl, mediaType, repliedToMessageId, mediaMetadata);
       
       if (result) {
         console.log('Mensagem enviada com sucesso:', result);
@@ -207,6 +240,11 @@ export const useRealtimeMessages = (conversationId: string) => {
         throw new Error('Failed to send message');
       }
     } catch (error) {
+      if (isNetworkError(error)) {
+        messageTimeout.markMessageSent(tempMessageId);
+        return queueOutgoingMessage(messageId, content, mediaUrl, mediaType, repliedToMessageId, mediaMetadata);
+      }
+
       console.error('Error sending message:', error);
       
       // Enhanced error feedback based on connection quality
@@ -229,20 +267,22 @@ export const useRealtimeMessages = (conversationId: string) => {
     } finally {
       setSending(false);
     }
-  }, [user, sending, connectionValidator, messageTimeout]);
+  }, [user, sending, connectionValidator, messageTimeout, queueOutgoingMessage]);
 
   // Helper function to send message to server
-  const sendMessageToServer = async (content: string, mediaUrl?: string, mediaType?: string, repliedToMessageId?: string) => {
+  const sendMessageToServer = async (messageId: string, content: string, mediaUrl?: string, mediaType?: string, repliedToMessageId?: string, mediaMetadata?: MediaMetadata) => {
     const { data, error } = await supabase
       .from('messages')
       .insert({
+        id: messageId,
         conversation_id: conversationId,
         sender_id: user!.id,
         content: content.trim() || null,
         media_url: mediaUrl || null,
         media_type: mediaType || null,
         message_status: 'sent',
-        replied_to_message_id: repliedToMessageId || null
+        replied_to_message_id: repliedToMessageId || null,
+        ...getMediaMetadataColumns(mediaMetadata)
       })
       .select()
       .single();
@@ -251,139 +291,141 @@ export const useRealtimeMessages = (conversationId: string) => {
     return data;
   };
 
-  // Send typing indicator
-  const sendTypingIndicator = useCallback(async (isTyping: boolean) => {
-    if (!user) return;
+  // Messages, reactions and typing all ride the shared realtime service
+  const conversationFilter = conversationId && user
+    ? `conversation_id=eq.${conversationId}`
+    : null;
 
-    try {
-      const channel = supabase.channel(`typing:${conversationId}`);
-      await channel.send({
-        type: 'broadcast',
-        event: 'typing',
-        payload: {
-          user_id: user.id,
-          display_name: user.display_name,
-          is_typing: isTyping,
-          conversation_id: conversationId
-        }
+  useRealtimeChanges(
+    conversationFilter ? { table: 'messages', event: 'INSERT', filter: conversationFilter } : null,
+    async (payload) => {
+      const newMessage = payload.new as RealtimeMessage;
+      console.log('Nova mensagem recebida (privada):', {
+        content: newMessage.content,
+        time: new Date(newMessage.created_at).toLocaleTimeString(),
+        sender: newMessage.sender_id === user?.id ? 'eu' : 'outro'
       });
-    } catch (error) {
-      console.error('Error sending typing indicator:', error);
-    }
-  }, [conversationId, user]);
-
-  // Set up real-time subscriptions with connection management
-  useEffect(() => {
-    if (!conversationId || !user || wsConnection.status === 'disconnected') return;
-
-    const messagesChannelId = `messages:${conversationId}`;
-    const typingChannelId = `typing:${conversationId}`;
-
-    const messageHandlers = {
-      'postgres_changes:INSERT:messages': async (payload: any) => {
-        const newMessage = payload.new as RealtimeMessage;
-        console.log('Nova mensagem recebida (privada):', {
-          content: newMessage.content,
-          time: new Date(newMessage.created_at).toLocaleTimeString(),
-          sender: newMessage.sender_id === user?.id ? 'eu' : 'outro'
-        });
+      
+      // Add to cache
+      messageCache.addMessage(conversationId, newMessage);
+      
+      setMessages(prev => {
+        // Avoid duplicates
+        const existingIndex = prev.findIndex(m => m.id === newMessage.id);
+        if (existingIndex !== -1) {
+          console.log('Mensagem duplicada ignorada');
+          return prev;
+        }
         
-        // Add to cache
-        messageCache.addMessage(conversationId, newMessage);
+        // Add new message and sort all messages chronologically (oldest first)
+        const updatedMessages = [...prev, newMessage].sort((a, b) => 
+          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        );
         
-        setMessages(prev => {
-          // Avoid duplicates
-          const existingIndex = prev.findIndex(m => m.id === newMessage.id);
-          if (existingIndex !== -1) {
-            console.log('Mensagem duplicada ignorada');
-            return prev;
-          }
-          
-          // Add new message and sort all messages chronologically (oldest first)
-          const updatedMessages = [...prev, newMessage].sort((a, b) => 
-            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-          );
-          
-          console.log('Mensagens privadas após ordenação:', updatedMessages.map((m, index) => ({
-            index,
-            time: new Date(m.created_at).toLocaleTimeString(),
-            content: m.content?.slice(0, 20) || 'media',
-            sender: m.sender_id === user?.id ? 'eu' : 'outro'
-          })));
-          
-          return updatedMessages;
-        });
-
-        // Auto-mark as delivered if not sender
-        if (newMessage.sender_id !== user.id) {
-          await markMessagesAsDelivered([newMessage.id]);
-          
-          // Show toast notification only if not in foreground
-          if (document.hidden) {
-            toast({
-              title: "Nova mensagem",
-              description: newMessage.content || "Mensagem recebida",
-            });
-          }
-        }
-      },
-      'postgres_changes:UPDATE:messages': (payload: any) => {
-        const updatedMessage = payload.new as RealtimeMessage;
-        console.log('Message updated:', updatedMessage);
+        console.log('Mensagens privadas após ordenação:', updatedMessages.map((m, index) => ({
+          index,
+          time: new Date(m.created_at).toLocaleTimeString(),
+          content: m.content?.slice(0, 20) || 'media',
+          sender: m.sender_id === user?.id ? 'eu' : 'outro'
+        })));
         
-        // Update cache
-        messageCache.updateMessage(conversationId, updatedMessage.id, updatedMessage);
+        return updatedMessages;
+      });
+
+      // Auto-mark as delivered if not sender
+      if (newMessage.sender_id !== user?.id) {
+        await markMessagesAsDelivered([newMessage.id]);
         
-        setMessages(prev => {
-          const updated = prev.map(msg => 
-            msg.id === updatedMessage.id ? updatedMessage : msg
-          );
-          
-          // Ensure chronological order is maintained
-          return updated.sort((a, b) => 
-            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-          );
-        });
+        // Show toast notification only if not in foreground
+        if (document.hidden) {
+          toast({
+            title: "Nova mensagem",
+            description: newMessage.content || "Mensagem recebida",
+          });
+        }
       }
-    };
+    }
+  );
 
-    const typingHandlers = {
-      'broadcast:typing': (payload: any) => {
-        const { user_id, display_name, is_typing } = payload.payload;
-        
-        if (user_id === user.id) return; // Ignore own typing
+  useRealtimeChanges(
+    conversationFilter ? { table: 'messages', event: 'UPDATE', filter: conversationFilter } : null,
+    (payload) => {
+      const updatedMessage = payload.new as RealtimeMessage;
+      console.log('Message updated:', updatedMessage);
+      
+      // Update cache
+      messageCache.updateMessage(conversationId, updatedMessage.id, updatedMessage);
+      
+      setMessages(prev => {
+        // Merge so edits update the message in place without dropping joined fields like sender
+        const updated = prev.map(msg => 
+          msg.id === updatedMessage.id ? { ...msg, ...updatedMessage } : msg
+        );
         
-        setTypingUsers(prev => {
-          const filtered = prev.filter(u => u.user_id !== user_id);
-          
-          if (is_typing) {
-            return [...filtered, { user_id, display_name, is_typing }];
-          }
-          
-          return filtered;
-        });
+        // Ensure chronological order is maintained
+        return updated.sort((a, b) => 
+          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        );
+      });
+    }
+  );
+
+  useRealtimeChanges<MessageReaction>(
+    conversationFilter ? { table: 'message_reactions', event: 'INSERT', filter: conversationFilter } : null,
+    handleReactionChange
+  );
+  useRealtimeChanges<MessageReaction>(
+    conversationFilter ? { table: 'message_reactions', event: 'UPDATE', filter: conversationFilter } : null,
+    handleReactionChange
+  );
+  // Delete events can't be filtered, unknown ids are ignored by the handler
+  useRealtimeChanges<MessageReaction>(
+    conversationFilter ? { table: 'message_reactions', event: 'DELETE' } : null,
+    handleReactionChange
+  );
 
-        // Clear typing after timeout
+  const sendTyping = useRealtimeBroadcast<TypingBroadcast>(
+    conversationFilter ? `typing:${conversationId}` : null,
+    'typing',
+    (message) => {
+      const { user_id, display_name, is_typing } = message.payload;
+      
+      if (user_id === user?.id) return; // Ignore own typing
+      
+      setTypingUsers(prev => {
+        const filtered = prev.filter(u => u.user_id !== user_id);
+        
         if (is_typing) {
-          setTimeout(() => {
-            setTypingUsers(prev => prev.filter(u => u.user_id !== user_id));
-          }, 5000);
+          return [...filtered, { user_id, display_name, is_typing }];
         }
-      }
-    };
+        
+        return filtered;
+      });
 
-    // Create channels with connection management
-    wsConnection.createChannel(messagesChannelId, {
-      filter: `conversation_id=eq.${conversationId}`
-    }, messageHandlers);
+      // Clear typing after timeout
+      if (is_typing) {
+        setTimeout(() => {
+          setTypingUsers(prev => prev.filter(u => u.user_id !== user_id));
+        }, 5000);
+      }
+    }
+  );
 
-    wsConnection.createChannel(typingChannelId, {}, typingHandlers);
+  // Send typing indicator
+  const sendTypingIndicator = useCallback(async (isTyping: boolean) => {
+    if (!user) return;
 
-    return () => {
-      wsConnection.removeChannel(messagesChannelId);
-      wsConnection.removeChannel(typingChannelId);
-    };
-  }, [conversationId, user, wsConnection, messageCache]);
+    try {
+      await sendTyping({
+        user_id: user.id,
+        display_name: user.display_name,
+        is_typing: isTyping,
+        conversation_id: conversationId
+      });
+    } catch (error) {
+      console.error('Error sending typing indicator:', error);
+    }
+  }, [conversationId, user, sendTyping]);
 
   // Auto-mark visible messages as read
   useEffect(() => {
@@ -405,8 +447,29 @@ export const useRealtimeMessages = (conversationId: string) => {
     fetchMessages(true); // Force refresh to ensure correct order
   }, [fetchMessages]);
 
+  // Loads the messages around one that isn't in the list, e.g. a search result older than
+  // what was fetched. Resolves to false when the message is gone
+  const loadMessageWindow = useCallback(async (messageId: string) => {
+    if (!conversationId) return false;
+
+    const rows = await fetchMessageWindow(conversationId, messageId);
+    if (!rows) return false;
+
+    setMessages(prev => mergeMessages<RealtimeMessage>(prev, rows));
+    return true;
+  }, [conversationId]);
+
+  // Queued messages render after the delivered ones until the server echoes them back
+  const messagesWithOutbox = useMemo(() => {
+    const queued = outboxEntries
+      .filter((entry): entry is PrivateOutboxEntry => entry.table === 'messages')
+      .filter(entry => !messages.some(m => m.id === entry.id))
+      .map(outboxEntryToMessage);
+    return queued.length > 0 ? [...messages, ...queued] : messages;
+  }, [messages, outboxEntries]);
+
   return {
-    messages,
+    messages: messagesWithOutbox,
     typingUsers,
     loading,
     sending,
@@ -414,10 +477,11 @@ export const useRealtimeMessages = (conversationId: string) => {
     sendTypingIndicator,
     markMessagesAsRead,
     fetchMessages,
-    connectionStatus: wsConnection.status,
-    isOnline: wsConnection.isOnline,
-    reconnectAttempts: wsConnection.reconnectAttempts,
-    reconnectChannels: wsConnection.reconnectChannels,
+    loadMessageWindow,
+    connectionStatus: realtime.status,
+    isOnline: realtime.isOnline,
+    reconnectAttempts: realtime.reconnectAttempts,
+    reconnectChannels: realtime.reconnect,
     cacheStats: messageCache.getCacheStats(),
     // Enhanced validation data
     connectionQuality: connectionValidator.getConnectionInfo().quality,
@@ -427,6 +491,9 @@ export const useRealtimeMessages = (conversationId: string) => {
     hasTimeouts: messageTimeout.hasTimeouts,
     retryMessage: messageTimeout.retryMessage,
     getMessageStatus: messageTimeout.getMessageStatus,
-    getRetryCount: messageTimeout.getRetryCount
+    getRetryCount: messageTimeout.getRetryCount,
+    // Reactions arrive alongside the messages
+    reactions,
+    toggleReaction
   };
 };
\ No newline at end of file
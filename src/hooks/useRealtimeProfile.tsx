@@ -1,5 +1,5 @@
-import { useEffect, useCallback } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useCallback } from 'react';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 
 interface ProfileUpdate {
   id: string;
@@ -31,30 +31,8 @@ export const useRealtimeProfile = ({ userId, onProfileUpdate }: UseRealtimeProfi
     }
   }, [userId, onProfileUpdate]);
 
-  useEffect(() => {
-    if (!userId) return;
-
-    console.log('Setting up realtime profile listener for user:', userId);
-
-    const channel = supabase
-      .channel(`profile_changes_${userId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'profiles',
-          filter: `id=eq.${userId}`,
-        },
-        handleProfileChange
-      )
-      .subscribe((status) => {
-        console.log('Profile realtime subscription status:', status);
-      });
-
-    return () => {
-      console.log('Cleaning up profile realtime listener');
-      supabase.removeChannel(channel);
-    };
-  }, [userId, handleProfileChange]);
+  useRealtimeChanges(
+    userId ? { table: 'profiles', event: 'UPDATE', filter: `id=eq.${userId}` } : null,
+    handleProfileChange
+  );
 };
\ No newline at end of file
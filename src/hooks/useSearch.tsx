@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { MIN_SEARCH_LENGTH, SEARCH_PAGE_SIZE, SearchType } from '@/lib/search';
+
+export type SearchResult = Database['public']['Functions']['search_content']['Returns'][number];
+
+export const useSearch = (query: string, type: SearchType) => {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const trimmedQuery = query.trim();
+  const enabled = trimmedQuery.length >= MIN_SEARCH_LENGTH;
+
+  const fetchPage = useCallback(async (offset: number) => {
+    const { data, error } = await supabase.rpc('search_content', {
+      p_query: trimmedQuery,
+      p_type: type,
+      p_limit: SEARCH_PAGE_SIZE,
+      p_offset: offset,
+    });
+
+    if (error) throw error;
+    return data || [];
+  }, [trimmedQuery, type]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setResults([]);
+      setHasMore(false);
+      return;
+    }
+
+    // Ignore responses for a query the user already changed
+    let cancelled = false;
+
+    const search = async () => {
+      setLoading(true);
+      try {
+        const page = await fetchPage(0);
+        if (cancelled) return;
+        setResults(page);
+        setHasMore(page.length === SEARCH_PAGE_SIZE);
+      } catch (error) {
+        console.error('Error searching:', error);
+        if (!cancelled) {
+          setResults([]);
+          setHasMore(false);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    search();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!enabled || loading || loadingMore || !hasMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(results.length);
+      setResults(prev => [...prev, ...page]);
+      setHasMore(page.length === SEARCH_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more search results:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [enabled, loading, loadingMore, hasMore, fetchPage, results.length]);
+
+  return {
+    results,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+  };
+};
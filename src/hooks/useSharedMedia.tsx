@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { SHARED_MEDIA_PAGE_SIZE, SharedMediaKind } from '@/lib/sharedMedia';
+
+export type SharedMediaItem = Database['public']['Functions']['get_conversation_shared_media']['Returns'][number];
+
+// One kind of shared content of a conversation, newest first, a page at a time
+export const useSharedMedia = (conversationId: string | null, kind: SharedMediaKind) => {
+  const [items, setItems] = useState<SharedMediaItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchPage = useCallback(async (offset: number) => {
+    if (!conversationId) return [];
+
+    const { data, error } = await supabase.rpc('get_conversation_shared_media', {
+      p_conversation_id: conversationId,
+      p_kind: kind,
+      p_limit: SHARED_MEDIA_PAGE_SIZE,
+      p_offset: offset,
+    });
+
+    if (error) throw error;
+    return data || [];
+  }, [conversationId, kind]);
+
+  useEffect(() => {
+    if (!conversationId) {
+      setItems([]);
+      setHasMore(false);
+      return;
+    }
+
+    // Ignore responses for a tab the user already left
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const page = await fetchPage(0);
+        if (cancelled) return;
+        setItems(page);
+        setHasMore(page.length === SHARED_MEDIA_PAGE_SIZE);
+      } catch (error) {
+        console.error('Error fetching shared media:', error);
+        if (!cancelled) {
+          setItems([]);
+          setHasMore(false);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(items.length);
+      setItems(prev => [...prev, ...page]);
+      setHasMore(page.length === SHARED_MEDIA_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more shared media:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loading, loadingMore, hasMore, fetchPage, items.length]);
+
+  return {
+    items,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+  };
+};
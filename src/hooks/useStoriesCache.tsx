@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 import { useStoryViews } from './useStoryViews';
 
 interface Story {
@@ -14,6 +16,8 @@ interface Story {
   text_size: number;
   created_at: string;
   expires_at: string;
+  audience?: string;
+  layers?: Json | null;
   profiles: {
     display_name: string;
     username: string;
@@ -285,7 +289,6 @@ export const useStoriesCache = (userId?: string) => {
     }
   }, [userId, preloadMedia, getViewedStories]);
 
-  // Set up real-time updates for stories and story views
   useEffect(() => {
     if (!userId) return;
 
@@ -293,90 +296,6 @@ export const useStoriesCache = (userId?: string) => {
     console.log('🚀 Stories cache initializing - forcing refresh');
     fetchStories(true);
 
-    const channel = supabase
-      .channel('stories-updates')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'stories'
-        },
-        (payload) => {
-          console.log('New story added:', payload);
-          fetchStories(true); // Force refresh
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'DELETE',
-          schema: 'public',
-          table: 'stories'
-        },
-        () => {
-          fetchStories(true); // Force refresh
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'story_views'
-        },
-        async (payload) => {
-          console.log('🔴 Real-time story view event received:', payload);
-          // Instant update - don't wait for re-fetch
-          if (cacheRef.current && payload.new.user_id === userId) {
-            console.log('📱 Processing story view for current user');
-            const viewedStoryId = payload.new.story_id;
-            
-            // Update viewed stories set immediately
-            const currentViewedSet = cacheRef.current.viewedStories || new Set();
-            currentViewedSet.add(viewedStoryId);
-            console.log('🎯 Story added to viewed set:', viewedStoryId);
-            
-            // Update groups with new viewed status
-            const updatedGroups = cacheRef.current.data.map(group => {
-              const hasStoryInGroup = group.stories.some(story => story.id === viewedStoryId);
-              if (hasStoryInGroup) {
-                let newHasViewed;
-                console.log(`🔄 Updating group ${group.user.display_name} (user_id: ${group.user_id}, current userId: ${userId})`);
-                // Para stories próprios, sempre considera como visualizado (sem bolinha)
-                // Para stories de outros usuários, considera visualizado se TODOS foram vistos
-                if (group.user_id === userId) {
-                  newHasViewed = true;
-                  console.log(`✅ Own stories - forcing hasViewed to true`);
-                } else {
-                  newHasViewed = group.stories.every(story => currentViewedSet.has(story.id));
-                  console.log(`👥 Other stories - calculated hasViewed: ${newHasViewed}`);
-                }
-                console.log(`🔄 Group ${group.user.display_name} hasViewed: ${group.hasViewed} -> ${newHasViewed}`);
-                return {
-                  ...group,
-                  hasViewed: newHasViewed
-                };
-              }
-              return group;
-            });
-
-            // Update cache and state immediately
-            cacheRef.current = {
-              ...cacheRef.current,
-              data: updatedGroups,
-              viewedStories: currentViewedSet
-            };
-            
-            console.log('✅ Stories state updated in real-time - red dot should disappear');
-            setStories(updatedGroups);
-          } else {
-            console.log('❌ Story view not for current user or cache not ready');
-          }
-        }
-      )
-      .subscribe();
-
     // Clean up expired stories every minute
     const cleanupInterval = setInterval(() => {
       if (cacheRef.current) {
@@ -406,11 +325,71 @@ export const useStoriesCache = (userId?: string) => {
     }, 60000); // Check every minute
 
     return () => {
-      supabase.removeChannel(channel);
       clearInterval(cleanupInterval);
     };
   }, [userId, fetchStories]);
 
+  // Set up real-time updates for stories and story views
+  useRealtimeChanges(userId ? { table: 'stories', event: 'INSERT' } : null, (payload) => {
+    console.log('New story added:', payload);
+    fetchStories(true); // Force refresh
+  });
+
+  useRealtimeChanges(userId ? { table: 'stories', event: 'DELETE' } : null, () => {
+    fetchStories(true); // Force refresh
+  });
+
+  useRealtimeChanges(userId ? { table: 'story_views', event: 'INSERT' } : null, async (payload) => {
+    console.log('🔴 Real-time story view event received:', payload);
+    const view = payload.new as Tables<'story_views'>;
+    // Instant update - don't wait for re-fetch
+    if (cacheRef.current && view.user_id === userId) {
+      console.log('📱 Processing story view for current user');
+      const viewedStoryId = view.story_id;
+      
+      // Update viewed stories set immediately
+      const currentViewedSet = cacheRef.current.viewedStories || new Set();
+      currentViewedSet.add(viewedStoryId);
+      console.log('🎯 Story added to viewed set:', viewedStoryId);
+      
+      // Update groups with new viewed status
+      const updatedGroups = cacheRef.current.data.map(group => {
+        const hasStoryInGroup = group.stories.some(story => story.id === viewedStoryId);
+        if (hasStoryInGroup) {
+          let newHasViewed;
+          console.log(`🔄 Updating group ${group.user.display_name} (user_id: ${group.user_id}, current userId: ${userId})`);
+          // Para stories próprios, sempre considera como visualizado (sem bolinha)
+          // Para stories de outros usuários, considera visualizado se TODOS foram vistos
+          if (group.user_id === userId) {
+            newHasViewed = true;
+            console.log(`✅ Own stories - forcing hasViewed to true`);
+          } else {
+            newHasViewed = group.stories.every(story => currentViewedSet.has(story.id));
+            console.log(`👥 Other stories - calculated hasViewed: ${newHasViewed}`);
+          }
+          console.log(`🔄 Group ${group.user.display_name} hasViewed: ${group.hasViewed} -> ${newHasViewed}`);
+          return {
+            ...group,
+            hasViewed: newHasViewed
+          };
+        }
+        return group;
+      });
+
+      // Update cache and state immediately
+      cacheRef.current = {
+        ...cacheRef.current,
+        data: updatedGroups,
+        viewedStories: currentViewedSet
+      };
+      
+      console.log('✅ Stories state updated in real-time - red dot should disappear');
+      setStories(updatedGroups);
+    } else {
+      console.log('❌ Story view not for current user or cache not ready');
+    }
+  });
+
   const refreshStories = useCallback(() => {
     fetchStories(true);
   }, [fetchStories]);
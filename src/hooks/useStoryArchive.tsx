@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ArchivedStory } from '@/lib/storyHighlights';
+
+// All stories of the current user, active and expired, newest first. Pass null to
+// skip loading while the archive isn't shown
+export const useStoryArchive = (userId: string | null | undefined) => {
+  const [stories, setStories] = useState<ArchivedStory[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchArchive = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('stories')
+        .select('*, profiles(display_name, username, avatar_url)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setStories((data || []) as ArchivedStory[]);
+    } catch (error) {
+      console.error('Error fetching story archive:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchArchive();
+  }, [fetchArchive]);
+
+  return { stories, loading, refreshArchive: fetchArchive };
+};
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ArchivedStory, StoryHighlight } from '@/lib/storyHighlights';
+
+const byCreatedAt = (a: ArchivedStory, b: ArchivedStory) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// Highlights of a profile in the owner's order. Stories the viewer can't see are
+// filtered out by RLS, and highlights left without stories are skipped
+export const useStoryHighlights = (userId: string | null | undefined) => {
+  const [highlights, setHighlights] = useState<StoryHighlight[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchHighlights = useCallback(async () => {
+    if (!userId) {
+      setHighlights([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('story_highlights')
+        .select('*, story_highlight_items(stories(*, profiles(display_name, username, avatar_url)))')
+        .eq('user_id', userId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setHighlights(
+        (data || [])
+          .map(({ story_highlight_items, ...highlight }) => ({
+            ...highlight,
+            stories: story_highlight_items
+              .map(item => item.stories as ArchivedStory | null)
+              .filter((story): story is ArchivedStory => !!story)
+              .sort(byCreatedAt),
+          }))
+          .filter(highlight => highlight.stories.length > 0)
+      );
+    } catch (error) {
+      console.error('Error fetching story highlights:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchHighlights();
+  }, [fetchHighlights]);
+
+  return { highlights, loading, refreshHighlights: fetchHighlights };
+};
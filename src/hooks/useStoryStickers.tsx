@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { respondToSticker, StickerResponse, StickerTotal, StorySticker, withQuizAnswers } from '@/lib/storyStickers';
+
+// Stickers of the story being watched, with the viewer's own answers and the totals
+export const useStoryStickers = (storyId: string | null | undefined, userId: string | null | undefined) => {
+  const [stickers, setStickers] = useState<StorySticker[]>([]);
+  const [myResponses, setMyResponses] = useState<Map<string, StickerResponse>>(new Map());
+  const [totals, setTotals] = useState<StickerTotal[]>([]);
+
+  const fetchTotals = useCallback(async () => {
+    if (!storyId) return;
+
+    const { data, error } = await supabase.rpc('get_story_sticker_totals', { p_story_id: storyId });
+    if (error) throw error;
+    setTotals(data || []);
+  }, [storyId]);
+
+  useEffect(() => {
+    setStickers([]);
+    setMyResponses(new Map());
+    setTotals([]);
+    if (!storyId) return;
+
+    // Ignore responses for a story the viewer already moved past
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('story_stickers')
+          .select('*')
+          .eq('story_id', storyId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        if (cancelled || !data?.length) return;
+        const loaded = data as unknown as StorySticker[];
+        setStickers(loaded);
+
+        const [responsesResult, totalsResult, withAnswers] = await Promise.all([
+          userId
+            ? supabase
+                .from('story_sticker_responses')
+                .select('*')
+                .eq('user_id', userId)
+                .in('sticker_id', data.map(sticker => sticker.id))
+            : Promise.resolve({ data: [], error: null }),
+          supabase.rpc('get_story_sticker_totals', { p_story_id: storyId }),
+          withQuizAnswers(loaded),
+        ]);
+
+        if (responsesResult.error) throw responsesResult.error;
+        if (totalsResult.error) throw totalsResult.error;
+        if (cancelled) return;
+
+        setStickers(withAnswers);
+        setMyResponses(new Map((responsesResult.data || []).map(response => [response.sticker_id, response])));
+        setTotals(totalsResult.data || []);
+      } catch (error) {
+        console.error('Error fetching story stickers:', error);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storyId, userId]);
+
+  const respond = useCallback(async (
+    stickerId: string,
+    answer: { optionIndex?: number; sliderValue?: number; text?: string }
+  ) => {
+    if (!userId) return false;
+
+    try {
+      const isCorrect = await respondToSticker(stickerId, answer);
+      setMyResponses(prev => new Map(prev).set(stickerId, {
+        id: `local-${stickerId}`,
+        sticker_id: stickerId,
+        user_id: userId,
+        option_index: answer.optionIndex ?? null,
+        slider_value: answer.sliderValue ?? null,
+        answer_text: answer.text ?? null,
+        is_correct: isCorrect ?? null,
+        created_at: new Date().toISOString(),
+      }));
+      fetchTotals().catch(error => console.error('Error fetching sticker totals:', error));
+      return true;
+    } catch (error) {
+      console.error('Error answering story sticker:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível enviar sua resposta.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [userId, fetchTotals]);
+
+  return { stickers, myResponses, totals, respond };
+};
@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { Tables } from '@/integrations/supabase/types';
 
 export const useUnreadMessages = () => {
   const { user } = useAuth();
@@ -98,7 +100,6 @@ export const useUnreadMessages = () => {
     });
   }, []);
 
-  // Set up real-time subscription for new messages
   useEffect(() => {
     if (!user) return;
 
@@ -108,83 +109,62 @@ export const useUnreadMessages = () => {
     }
 
     fetchUnreadCount();
+  }, [user, fetchUnreadCount]);
 
-    const channel = supabase
-      .channel('unread-messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-        },
-        async (payload) => {
-          const newMessage = payload.new;
-          
-          // Check if this message is in one of user's conversations and not from user
-          if (newMessage.sender_id !== user.id) {
-            const { data: isParticipant } = await supabase
-              .from('conversation_participants')
-              .select('conversation_id')
-              .eq('conversation_id', newMessage.conversation_id)
-              .eq('user_id', user.id)
-              .single();
-
-            if (isParticipant) {
-              // Get sender info for notification
-              const { data: senderProfile } = await supabase
-                .from('profiles')
-                .select('display_name')
-                .eq('id', newMessage.sender_id)
-                .single();
-
-              const senderName = senderProfile?.display_name || 'Usuário';
-              
-              // Update unread count
-              setUnreadCount(prev => prev + 1);
-              setUnreadByConversation(prev => ({
-                ...prev,
-                [newMessage.conversation_id]: (prev[newMessage.conversation_id] || 0) + 1
-              }));
-
-              // Show notification
-              showMessageNotification(newMessage, senderName);
-            }
-          }
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'messages',
-        },
-        (payload) => {
-          const updatedMessage = payload.new;
-          
-          // If message was marked as read and it's not from current user
-          if (updatedMessage.read_at && updatedMessage.sender_id !== user.id) {
-            setUnreadByConversation(prev => {
-              const updated = { ...prev };
-              if (updated[updatedMessage.conversation_id] > 0) {
-                updated[updatedMessage.conversation_id]--;
-                if (updated[updatedMessage.conversation_id] === 0) {
-                  delete updated[updatedMessage.conversation_id];
-                }
-                setUnreadCount(current => Math.max(0, current - 1));
-              }
-              return updated;
-            });
+  // Set up real-time subscription for new messages
+  useRealtimeChanges(user ? { table: 'messages', event: 'INSERT' } : null, async (payload) => {
+    const newMessage = payload.new as Tables<'messages'>;
+
+    // Check if this message is in one of user's conversations and not from user
+    if (newMessage.sender_id !== user.id) {
+      const { data: isParticipant } = await supabase
+        .from('conversation_participants')
+        .select('conversation_id')
+        .eq('conversation_id', newMessage.conversation_id)
+        .eq('user_id', user.id)
+        .single();
+
+      if (isParticipant) {
+        // Get sender info for notification
+        const { data: senderProfile } = await supabase
+          .from('profiles')
+          .select('display_name')
+          .eq('id', newMessage.sender_id)
+          .single();
+
+        const senderName = senderProfile?.display_name || 'Usuário';
+
+        // Update unread count
+        setUnreadCount(prev => prev + 1);
+        setUnreadByConversation(prev => ({
+          ...prev,
+          [newMessage.conversation_id]: (prev[newMessage.conversation_id] || 0) + 1
+        }));
+
+        // Show notification
+        showMessageNotification(newMessage, senderName);
+      }
+    }
+  });
+
+  useRealtimeChanges(user ? { table: 'messages', event: 'UPDATE' } : null, (payload) => {
+    const updatedMessage = payload.new as Tables<'messages'>;
+
+    // If message was marked as read and it's not from current user
+    if (updatedMessage.read_at && updatedMessage.sender_id !== user.id) {
+      setUnreadByConversation(prev => {
+        const updated = { ...prev };
+        if (updated[updatedMessage.conversation_id] > 0) {
+          updated[updatedMessage.conversation_id]--;
+          if (updated[updatedMessage.conversation_id] === 0) {
+            delete updated[updatedMessage.conversation_id];
           }
+          setUnreadCount(current => Math.max(0, current - 1));
         }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user, fetchUnreadCount, showMessageNotification]);
+        return updated;
+      });
+    }
+  });
 
   return {
     unreadCount,
@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 
 interface CachedVideo {
   id: string;
@@ -17,14 +17,73 @@ interface CachedVideo {
   uploadStatus?: 'pending' | 'uploading' | 'completed' | 'failed';
 }
 
+// Thumbnails of videos that are already uploaded, keyed by their URL
+interface CachedThumbnail {
+  thumbnail: string;
+  timestamp: number;
+}
+
 const CACHE_KEY = 'video_upload_cache';
 const MAX_CACHE_SIZE = 5; // Maximum number of cached videos
 const CACHE_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 const MAX_MEMORY_USAGE = 100 * 1024 * 1024; // 100MB
+const THUMBNAIL_CACHE_KEY = 'video_thumbnail_cache';
+const MAX_CACHED_THUMBNAILS = 60;
+const THUMBNAIL_WIDTH = 240;
+
+const loadThumbnailCache = () => {
+  const cacheMap = new Map<string, CachedThumbnail>();
+  try {
+    const stored = localStorage.getItem(THUMBNAIL_CACHE_KEY);
+    if (stored) {
+      Object.entries(JSON.parse(stored) as Record<string, CachedThumbnail>).forEach(([url, value]) => {
+        if (Date.now() - value.timestamp < CACHE_EXPIRY) {
+          cacheMap.set(url, value);
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error loading video thumbnail cache:', error);
+  }
+  return cacheMap;
+};
+
+// Grabs a frame a little into a remote video. Fails when the storage doesn't allow
+// cross-origin reads, since the canvas can't be exported then
+const captureRemoteThumbnail = (url: string) =>
+  new Promise<string>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.preload = 'metadata';
+    video.muted = true;
+
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(1, video.duration * 0.1);
+    };
+    video.onseeked = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMBNAIL_WIDTH;
+        canvas.height = Math.round(THUMBNAIL_WIDTH * (video.videoHeight / video.videoWidth)) || THUMBNAIL_WIDTH;
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.7));
+      } catch (error) {
+        reject(error);
+      } finally {
+        video.removeAttribute('src');
+        video.load();
+      }
+    };
+    video.onerror = reject;
+    video.src = url;
+  });
 
 export const useVideoCache = () => {
   const [cache, setCache] = useState<Map<string, CachedVideo>>(new Map());
   const [memoryUsage, setMemoryUsage] = useState(0);
+  const [thumbnails, setThumbnails] = useState<Map<string, CachedThumbnail>>(loadThumbnailCache);
+  const pendingThumbnailsRef = useRef(new Map<string, Promise<string | null>>());
 
   // Load cache from localStorage on mount
   useEffect(() => {
@@ -61,6 +120,14 @@ export const useVideoCache = () => {
     }
   }, [cache]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(THUMBNAIL_CACHE_KEY, JSON.stringify(Object.fromEntries(thumbnails)));
+    } catch (error) {
+      console.error('Error saving video thumbnail cache:', error);
+    }
+  }, [thumbnails]);
+
   const generateVideoId = useCallback((file: File): string => {
     return `${file.name}_${file.size}_${file.lastModified}`;
   }, []);
@@ -246,6 +313,39 @@ export const useVideoCache = () => {
     localStorage.removeItem(CACHE_KEY);
   }, []);
 
+  // Thumbnail for an uploaded video; null when no frame could be captured
+  const getVideoThumbnail = useCallback((url: string): Promise<string | null> => {
+    const cached = thumbnails.get(url);
+    if (cached) return Promise.resolve(cached.thumbnail);
+
+    const pending = pendingThumbnailsRef.current.get(url);
+    if (pending) return pending;
+
+    const request = captureRemoteThumbnail(url)
+      .then(thumbnail => {
+        setThumbnails(prev => {
+          const next = new Map(prev);
+          // Drop the oldest thumbnails first (Map keeps insertion order)
+          while (next.size >= MAX_CACHED_THUMBNAILS) {
+            next.delete(next.keys().next().value!);
+          }
+          next.set(url, { thumbnail, timestamp: Date.now() });
+          return next;
+        });
+        return thumbnail;
+      })
+      .catch(error => {
+        console.error('Error generating video thumbnail:', error);
+        return null;
+      })
+      .finally(() => {
+        pendingThumbnailsRef.current.delete(url);
+      });
+
+    pendingThumbnailsRef.current.set(url, request);
+    return request;
+  }, [thumbnails]);
+
   const getCacheStats = useCallback(() => {
     return {
       totalItems: cache.size,
@@ -273,6 +373,7 @@ export const useVideoCache = () => {
     clearCache,
     getCacheStats,
     getRecentUploads,
+    getVideoThumbnail,
     cache: Array.from(cache.values())
   };
 };
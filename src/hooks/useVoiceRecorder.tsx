@@ -0,0 +1,169 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { computeWaveform, VOICE_MESSAGE_MAX_SECONDS, VoiceMetadata } from '@/lib/messages';
+
+export interface VoiceRecording extends VoiceMetadata {
+  blob: Blob;
+  extension: string;
+}
+
+// Safari only records mp4, everyone else gets webm/opus
+const pickMimeType = () => {
+  const candidates = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+interface UseVoiceRecorderOptions {
+  onComplete: (recording: VoiceRecording) => void;
+}
+
+export const useVoiceRecorder = ({ onComplete }: UseVoiceRecorderOptions) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const timerRef = useRef<NodeJS.Timeout>();
+  const cancelledRef = useRef(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const releaseStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = undefined;
+    }
+  }, []);
+
+  const buildRecording = async (blob: Blob, mimeType: string, fallbackDuration: number): Promise<VoiceRecording> => {
+    const extension = mimeType.includes('mp4') ? 'm4a' : 'webm';
+
+    // MediaRecorder output has no duration header, so decode it once to get duration and peaks
+    try {
+      const audioContext = new AudioContext();
+      const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer());
+      await audioContext.close();
+
+      return {
+        blob,
+        extension,
+        duration: buffer.duration,
+        waveform: computeWaveform(buffer.getChannelData(0)),
+      };
+    } catch (error) {
+      console.warn('Could not decode voice message, using flat waveform:', error);
+      return {
+        blob,
+        extension,
+        duration: fallbackDuration,
+        waveform: computeWaveform(new Float32Array(0)),
+      };
+    }
+  };
+
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current?.state === 'recording') return false;
+
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      toast({
+        title: "Gravação indisponível",
+        description: "Seu navegador não suporta mensagens de voz.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+      cancelledRef.current = false;
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+
+      recorder.onstop = async () => {
+        const duration = (Date.now() - startedAtRef.current) / 1000;
+        releaseStream();
+        setIsRecording(false);
+        setElapsed(0);
+
+        // Discard accidental taps and cancelled recordings
+        if (cancelledRef.current || duration < 0.5 || chunksRef.current.length === 0) return;
+
+        const type = recorder.mimeType || mimeType || 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type });
+        onCompleteRef.current(await buildRecording(blob, type, duration));
+      };
+
+      recorder.start();
+      startedAtRef.current = Date.now();
+      setIsRecording(true);
+      setElapsed(0);
+
+      timerRef.current = setInterval(() => {
+        const seconds = (Date.now() - startedAtRef.current) / 1000;
+        setElapsed(seconds);
+        if (seconds >= VOICE_MESSAGE_MAX_SECONDS && recorder.state === 'recording') {
+          recorder.stop();
+        }
+      }, 200);
+
+      return true;
+    } catch (error) {
+      console.error('Error starting voice recording:', error);
+      releaseStream();
+      toast({
+        title: "Microfone indisponível",
+        description: "Permita o acesso ao microfone para gravar mensagens de voz.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [releaseStream]);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    } else {
+      releaseStream();
+    }
+  }, [releaseStream]);
+
+  // Never leave the microphone open when the chat unmounts
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true;
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+        recorderRef.current.stop();
+      }
+      releaseStream();
+    };
+  }, [releaseStream]);
+
+  return {
+    isRecording,
+    elapsed,
+    start,
+    stop,
+    cancel,
+  };
+};
@@ -14,6 +14,113 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_id: string | null
+          target_type: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string | null
+          target_type?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string | null
+          target_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blocked_users: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocked_users_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocked_users_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      close_friends: {
+        Row: {
+          created_at: string
+          friend_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          friend_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          friend_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "close_friends_friend_id_fkey"
+            columns: ["friend_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "close_friends_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comment_likes: {
         Row: {
           comment_id: string
@@ -35,23 +142,129 @@ export type Database = {
         }
         Relationships: []
       }
+      conversation_invites: {
+        Row: {
+          code: string
+          conversation_id: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          requires_approval: boolean
+          revoked_at: string | null
+          use_count: number
+        }
+        Insert: {
+          code: string
+          conversation_id: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          requires_approval?: boolean
+          revoked_at?: string | null
+          use_count?: number
+        }
+        Update: {
+          code?: string
+          conversation_id?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          requires_approval?: boolean
+          revoked_at?: string | null
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_invites_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_join_requests: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          id: string
+          invite_id: string | null
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          id?: string
+          invite_id?: string | null
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          invite_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_join_requests_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_join_requests_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "conversation_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_join_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversation_participants: {
         Row: {
           conversation_id: string
           id: string
           joined_at: string
+          muted_until: string | null
+          role: string
           user_id: string
         }
         Insert: {
           conversation_id: string
           id?: string
           joined_at?: string
+          muted_until?: string | null
+          role?: string
           user_id: string
         }
         Update: {
           conversation_id?: string
           id?: string
           joined_at?: string
+          muted_until?: string | null
+          role?: string
           user_id?: string
         }
         Relationships: [
@@ -66,33 +279,45 @@ export type Database = {
       }
       conversations: {
         Row: {
+          category: string | null
           created_at: string
           creator_id: string | null
           description: string | null
           id: string
+          is_featured: boolean
           is_public: boolean | null
+          members_can_pin: boolean
           name: string | null
           photo_url: string | null
+          pinned_at: string | null
           updated_at: string
         }
         Insert: {
+          category?: string | null
           created_at?: string
           creator_id?: string | null
           description?: string | null
           id?: string
+          is_featured?: boolean
           is_public?: boolean | null
+          members_can_pin?: boolean
           name?: string | null
           photo_url?: string | null
+          pinned_at?: string | null
           updated_at?: string
         }
         Update: {
+          category?: string | null
           created_at?: string
           creator_id?: string | null
           description?: string | null
           id?: string
+          is_featured?: boolean
           is_public?: boolean | null
+          members_can_pin?: boolean
           name?: string | null
           photo_url?: string | null
+          pinned_at?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -105,6 +330,42 @@ export type Database = {
           },
         ]
       }
+      follow_requests: {
+        Row: {
+          created_at: string
+          id: string
+          requester_id: string
+          target_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          requester_id: string
+          target_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          requester_id?: string
+          target_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_requests_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_requests_target_id_fkey"
+            columns: ["target_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       follows: {
         Row: {
           created_at: string
@@ -141,118 +402,362 @@ export type Database = {
           },
         ]
       }
-      messages: {
+      hashtags: {
         Row: {
-          content: string | null
-          conversation_id: string
           created_at: string
-          delivered_at: string | null
           id: string
-          media_type: string | null
-          media_url: string | null
-          message_status: string | null
-          message_type: string | null
-          read_at: string | null
-          replied_to_message_id: string | null
-          sender_id: string
-          story_id: string | null
+          name: string
         }
         Insert: {
-          content?: string | null
-          conversation_id: string
           created_at?: string
-          delivered_at?: string | null
           id?: string
-          media_type?: string | null
-          media_url?: string | null
-          message_status?: string | null
-          message_type?: string | null
-          read_at?: string | null
-          replied_to_message_id?: string | null
-          sender_id: string
-          story_id?: string | null
+          name: string
         }
         Update: {
-          content?: string | null
-          conversation_id?: string
           created_at?: string
-          delivered_at?: string | null
           id?: string
-          media_type?: string | null
-          media_url?: string | null
-          message_status?: string | null
-          message_type?: string | null
-          read_at?: string | null
-          replied_to_message_id?: string | null
-          sender_id?: string
-          story_id?: string | null
+          name?: string
+        }
+        Relationships: []
+      }
+      legacy_profile_claims: {
+        Row: {
+          auth_user_id: string
+          created_at: string
+          id: string
+          profile_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          auth_user_id: string
+          created_at?: string
+          id?: string
+          profile_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          auth_user_id?: string
+          created_at?: string
+          id?: string
+          profile_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_conversation_id_fkey"
-            columns: ["conversation_id"]
-            isOneToOne: false
-            referencedRelation: "conversations"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "messages_replied_to_message_id_fkey"
-            columns: ["replied_to_message_id"]
+            foreignKeyName: "legacy_profile_claims_profile_id_fkey"
+            columns: ["profile_id"]
             isOneToOne: false
-            referencedRelation: "messages"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "messages_story_id_fkey"
-            columns: ["story_id"]
+            foreignKeyName: "legacy_profile_claims_reviewed_by_fkey"
+            columns: ["reviewed_by"]
             isOneToOne: false
-            referencedRelation: "stories"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      notifications: {
+      message_reactions: {
         Row: {
-          actor_id: string | null
+          conversation_id: string
           created_at: string
-          entity_id: string | null
-          entity_type: string | null
+          emoji: string
           id: string
-          is_read: boolean
-          message: string
-          title: string
-          type: string
-          updated_at: string
+          message_id: string
           user_id: string
         }
         Insert: {
-          actor_id?: string | null
+          conversation_id: string
           created_at?: string
-          entity_id?: string | null
-          entity_type?: string | null
+          emoji: string
           id?: string
-          is_read?: boolean
-          message: string
-          title: string
-          type: string
-          updated_at?: string
+          message_id: string
           user_id: string
         }
         Update: {
-          actor_id?: string | null
+          conversation_id?: string
           created_at?: string
-          entity_id?: string | null
-          entity_type?: string | null
+          emoji?: string
           id?: string
-          is_read?: boolean
-          message?: string
-          title?: string
-          type?: string
-          updated_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_revisions: {
+        Row: {
+          content: string | null
+          created_at: string
+          id: string
+          message_id: string
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          message_id: string
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          content: string | null
+          conversation_id: string
+          created_at: string
+          delivered_at: string | null
+          edited_at: string | null
+          id: string
+          listened_at: string | null
+          media_duration: number | null
+          media_mime_type: string | null
+          media_name: string | null
+          media_size: number | null
+          media_type: string | null
+          media_url: string | null
+          media_waveform: number[] | null
+          message_status: string | null
+          message_type: string | null
+          read_at: string | null
+          replied_to_message_id: string | null
+          sender_id: string
+          story_id: string | null
+        }
+        Insert: {
+          content?: string | null
+          conversation_id: string
+          created_at?: string
+          delivered_at?: string | null
+          edited_at?: string | null
+          id?: string
+          listened_at?: string | null
+          media_duration?: number | null
+          media_mime_type?: string | null
+          media_name?: string | null
+          media_size?: number | null
+          media_type?: string | null
+          media_url?: string | null
+          media_waveform?: number[] | null
+          message_status?: string | null
+          message_type?: string | null
+          read_at?: string | null
+          replied_to_message_id?: string | null
+          sender_id: string
+          story_id?: string | null
+        }
+        Update: {
+          content?: string | null
+          conversation_id?: string
+          created_at?: string
+          delivered_at?: string | null
+          edited_at?: string | null
+          id?: string
+          listened_at?: string | null
+          media_duration?: number | null
+          media_mime_type?: string | null
+          media_name?: string | null
+          media_size?: number | null
+          media_type?: string | null
+          media_url?: string | null
+          media_waveform?: number[] | null
+          message_status?: string | null
+          message_type?: string | null
+          read_at?: string | null
+          replied_to_message_id?: string | null
+          sender_id?: string
+          story_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_replied_to_message_id_fkey"
+            columns: ["replied_to_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      muted_users: {
+        Row: {
+          created_at: string
+          id: string
+          muted_id: string
+          muter_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          muted_id: string
+          muter_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          muted_id?: string
+          muter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "muted_users_muted_id_fkey"
+            columns: ["muted_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "muted_users_muter_id_fkey"
+            columns: ["muter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          entity_id: string | null
+          entity_type: string | null
+          id: string
+          is_read: boolean
+          message: string
+          title: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          is_read?: boolean
+          message: string
+          title: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          is_read?: boolean
+          message?: string
+          title?: string
+          type?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      pinned_messages: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          id: string
+          message_id: string
+          pinned_by: string | null
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          id?: string
+          message_id: string
+          pinned_by?: string | null
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+          pinned_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pinned_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pinned_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pinned_messages_pinned_by_fkey"
+            columns: ["pinned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_comments: {
         Row: {
           content: string
@@ -261,6 +766,7 @@ export type Database = {
           likes_count: number
           parent_comment_id: string | null
           post_id: string
+          search_vector: unknown | null
           updated_at: string
           user_id: string
         }
@@ -271,6 +777,7 @@ export type Database = {
           likes_count?: number
           parent_comment_id?: string | null
           post_id: string
+          search_vector?: unknown | null
           updated_at?: string
           user_id: string
         }
@@ -281,6 +788,7 @@ export type Database = {
           likes_count?: number
           parent_comment_id?: string | null
           post_id?: string
+          search_vector?: unknown | null
           updated_at?: string
           user_id?: string
         }
@@ -294,6 +802,52 @@ export type Database = {
           },
         ]
       }
+      post_hashtags: {
+        Row: {
+          comment_id: string | null
+          created_at: string
+          hashtag_id: string
+          id: string
+          post_id: string
+        }
+        Insert: {
+          comment_id?: string | null
+          created_at?: string
+          hashtag_id: string
+          id?: string
+          post_id: string
+        }
+        Update: {
+          comment_id?: string | null
+          created_at?: string
+          hashtag_id?: string
+          id?: string
+          post_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_hashtags_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "post_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_hashtags_hashtag_id_fkey"
+            columns: ["hashtag_id"]
+            isOneToOne: false
+            referencedRelation: "hashtags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_hashtags_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_likes: {
         Row: {
           created_at: string
@@ -364,55 +918,383 @@ export type Database = {
             foreignKeyName: "post_tags_tagged_by_fkey"
             columns: ["tagged_by"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      posts: {
+        Row: {
+          comments_count: number
+          content: string
+          created_at: string
+          id: string
+          image_url: string | null
+          likes_count: number
+          media_type: string | null
+          search_vector: unknown | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comments_count?: number
+          content: string
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          likes_count?: number
+          media_type?: string | null
+          search_vector?: unknown | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comments_count?: number
+          content?: string
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          likes_count?: number
+          media_type?: string | null
+          search_vector?: unknown | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "posts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          auth_user_id: string | null
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          display_name: string
+          followers_count: number | null
+          following_count: number | null
+          id: string
+          is_private: boolean
+          search_vector: unknown | null
+          suspended_until: string | null
+          updated_at: string
+          username: string
+        }
+        Insert: {
+          auth_user_id?: string | null
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          display_name: string
+          followers_count?: number | null
+          following_count?: number | null
+          id?: string
+          is_private?: boolean
+          search_vector?: unknown | null
+          suspended_until?: string | null
+          updated_at?: string
+          username: string
+        }
+        Update: {
+          auth_user_id?: string | null
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          display_name?: string
+          followers_count?: number | null
+          following_count?: number | null
+          id?: string
+          is_private?: boolean
+          search_vector?: unknown | null
+          suspended_until?: string | null
+          updated_at?: string
+          username?: string
+        }
+        Relationships: []
+      }
+      public_chat_messages: {
+        Row: {
+          content: string | null
+          created_at: string
+          id: string
+          media_type: string | null
+          media_url: string | null
+          replied_to_message_id: string | null
+          sender_id: string
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          media_type?: string | null
+          media_url?: string | null
+          replied_to_message_id?: string | null
+          sender_id: string
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          media_type?: string | null
+          media_url?: string | null
+          replied_to_message_id?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_chat_messages_replied_to_message_id_fkey"
+            columns: ["replied_to_message_id"]
+            isOneToOne: false
+            referencedRelation: "public_chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      public_chat_settings: {
+        Row: {
+          id: boolean
+          rate_limit_messages: number
+          rate_limit_window_seconds: number
+          slow_mode_seconds: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          rate_limit_messages?: number
+          rate_limit_window_seconds?: number
+          slow_mode_seconds?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          rate_limit_messages?: number
+          rate_limit_window_seconds?: number
+          slow_mode_seconds?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_chat_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          content_snapshot: string | null
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_user_id: string | null
+          reporter_id: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          content_snapshot?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reported_user_id?: string | null
+          reporter_id: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          content_snapshot?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reported_user_id?: string | null
+          reporter_id?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_reported_user_id_fkey"
+            columns: ["reported_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stories: {
+        Row: {
+          audience: string
+          background_color: string | null
+          content: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          layers: Json | null
+          media_type: string | null
+          media_url: string | null
+          text_color: string | null
+          text_position: string
+          text_size: number
+          user_id: string
+        }
+        Insert: {
+          audience?: string
+          background_color?: string | null
+          content?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          layers?: Json | null
+          media_type?: string | null
+          media_url?: string | null
+          text_color?: string | null
+          text_position?: string
+          text_size?: number
+          user_id: string
+        }
+        Update: {
+          audience?: string
+          background_color?: string | null
+          content?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          layers?: Json | null
+          media_type?: string | null
+          media_url?: string | null
+          text_color?: string | null
+          text_position?: string
+          text_size?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stories_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      story_highlight_items: {
+        Row: {
+          added_at: string
+          highlight_id: string
+          story_id: string
+        }
+        Insert: {
+          added_at?: string
+          highlight_id: string
+          story_id: string
+        }
+        Update: {
+          added_at?: string
+          highlight_id?: string
+          story_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_highlight_items_highlight_id_fkey"
+            columns: ["highlight_id"]
+            isOneToOne: false
+            referencedRelation: "story_highlights"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "post_tags_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "story_highlight_items_story_id_fkey"
+            columns: ["story_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "stories"
             referencedColumns: ["id"]
           },
         ]
       }
-      posts: {
+      story_highlights: {
         Row: {
-          comments_count: number
-          content: string
+          cover_story_id: string | null
           created_at: string
           id: string
-          image_url: string | null
-          likes_count: number
-          media_type: string | null
+          position: number
+          title: string
           updated_at: string
           user_id: string
         }
         Insert: {
-          comments_count?: number
-          content: string
+          cover_story_id?: string | null
           created_at?: string
           id?: string
-          image_url?: string | null
-          likes_count?: number
-          media_type?: string | null
+          position?: number
+          title: string
           updated_at?: string
           user_id: string
         }
         Update: {
-          comments_count?: number
-          content?: string
+          cover_story_id?: string | null
           created_at?: string
           id?: string
-          image_url?: string | null
-          likes_count?: number
-          media_type?: string | null
+          position?: number
+          title?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "posts_user_id_fkey"
+            foreignKeyName: "story_highlights_cover_story_id_fkey"
+            columns: ["cover_story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "story_highlights_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -420,109 +1302,114 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      story_quiz_answers: {
         Row: {
-          avatar_url: string | null
-          bio: string | null
+          correct_index: number
           created_at: string
-          display_name: string
-          followers_count: number | null
-          following_count: number | null
-          id: string
-          updated_at: string
-          username: string
+          sticker_id: string
         }
         Insert: {
-          avatar_url?: string | null
-          bio?: string | null
+          correct_index: number
           created_at?: string
-          display_name: string
-          followers_count?: number | null
-          following_count?: number | null
-          id?: string
-          updated_at?: string
-          username: string
+          sticker_id: string
         }
         Update: {
-          avatar_url?: string | null
-          bio?: string | null
+          correct_index?: number
           created_at?: string
-          display_name?: string
-          followers_count?: number | null
-          following_count?: number | null
-          id?: string
-          updated_at?: string
-          username?: string
+          sticker_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "story_quiz_answers_sticker_id_fkey"
+            columns: ["sticker_id"]
+            isOneToOne: true
+            referencedRelation: "story_stickers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      public_chat_messages: {
+      story_sticker_responses: {
         Row: {
-          content: string
+          answer_text: string | null
           created_at: string
           id: string
-          sender_id: string
+          is_correct: boolean | null
+          option_index: number | null
+          slider_value: number | null
+          sticker_id: string
+          user_id: string
         }
         Insert: {
-          content: string
+          answer_text?: string | null
           created_at?: string
           id?: string
-          sender_id: string
+          is_correct?: boolean | null
+          option_index?: number | null
+          slider_value?: number | null
+          sticker_id: string
+          user_id: string
         }
         Update: {
-          content?: string
+          answer_text?: string | null
           created_at?: string
           id?: string
-          sender_id?: string
+          is_correct?: boolean | null
+          option_index?: number | null
+          slider_value?: number | null
+          sticker_id?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "story_sticker_responses_sticker_id_fkey"
+            columns: ["sticker_id"]
+            isOneToOne: false
+            referencedRelation: "story_stickers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "story_sticker_responses_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      stories: {
+      story_stickers: {
         Row: {
-          background_color: string | null
-          content: string | null
           created_at: string
-          expires_at: string
+          data: Json
           id: string
-          media_type: string | null
-          media_url: string | null
-          text_color: string | null
-          text_position: string
-          text_size: number
-          user_id: string
+          position_x: number
+          position_y: number
+          story_id: string
+          type: string
         }
         Insert: {
-          background_color?: string | null
-          content?: string | null
           created_at?: string
-          expires_at?: string
+          data?: Json
           id?: string
-          media_type?: string | null
-          media_url?: string | null
-          text_color?: string | null
-          text_position?: string
-          text_size?: number
-          user_id: string
+          position_x?: number
+          position_y?: number
+          story_id: string
+          type: string
         }
         Update: {
-          background_color?: string | null
-          content?: string | null
           created_at?: string
-          expires_at?: string
+          data?: Json
           id?: string
-          media_type?: string | null
-          media_url?: string | null
-          text_color?: string | null
-          text_position?: string
-          text_size?: number
-          user_id?: string
+          position_x?: number
+          position_y?: number
+          story_id?: string
+          type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "stories_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "story_stickers_story_id_fkey"
+            columns: ["story_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "stories"
             referencedColumns: ["id"]
           },
         ]
@@ -594,12 +1481,97 @@ export type Database = {
         }
         Relationships: []
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      cleanup_expired_stories: { Args: never; Returns: undefined }
+      admin_delete_all_users: { Args: never; Returns: number }
+      admin_delete_user: { Args: { p_user_id: string }; Returns: undefined }
+      admin_set_user_role: {
+        Args: {
+          p_granted: boolean
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      allowed_attachment_mime_types: { Args: never; Returns: string[] }
+      build_search_query: {
+        Args: { p_config: unknown; p_query: string }
+        Returns: unknown
+      }
+      can_add_conversation_participant: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      can_moderate_conversation_member: {
+        Args: {
+          p_actor_id: string
+          p_conversation_id: string
+          p_permission: string
+          p_target_id: string
+        }
+        Returns: boolean
+      }
+      can_view_profile_content: {
+        Args: { p_owner_id: string }
+        Returns: boolean
+      }
+      can_view_story: { Args: { p_story_id: string }; Returns: boolean }
+      can_view_story_audience: {
+        Args: { p_audience: string; p_owner_id: string }
+        Returns: boolean
+      }
+      conversation_role_rank: { Args: { p_role: string }; Returns: number }
+      create_conversation_invite: {
+        Args: {
+          p_conversation_id: string
+          p_expires_in_hours?: number
+          p_max_uses?: number
+          p_requires_approval?: boolean
+        }
+        Returns: string
+      }
       create_notification: {
         Args: {
           p_actor_id?: string
@@ -612,14 +1584,268 @@ export type Database = {
         }
         Returns: string
       }
+      delete_public_chat_message: {
+        Args: { p_message_id: string }
+        Returns: undefined
+      }
+      extract_hashtags: { Args: { p_content: string }; Returns: string[] }
+      get_blocked_user_ids: { Args: never; Returns: string[] }
+      get_conversation_invite: {
+        Args: { p_code: string }
+        Returns: {
+          conversation_id: string
+          description: string
+          has_pending_request: boolean
+          is_member: boolean
+          is_public: boolean
+          member_count: number
+          name: string
+          photo_url: string
+          requires_approval: boolean
+          status: string
+        }[]
+      }
+      get_conversation_shared_media: {
+        Args: {
+          p_conversation_id: string
+          p_kind: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          content: string
+          created_at: string
+          media_mime_type: string
+          media_name: string
+          media_size: number
+          media_type: string
+          media_url: string
+          message_id: string
+          sender_id: string
+        }[]
+      }
       get_current_user_id: { Args: never; Returns: string }
+      get_pending_legacy_claims: {
+        Args: never
+        Returns: {
+          claim_id: string
+          created_at: string
+          display_name: string
+          email: string
+          profile_id: string
+          username: string
+        }[]
+      }
+      get_public_rooms: {
+        Args: {
+          p_category?: string
+          p_limit?: number
+          p_offset?: number
+          p_search?: string
+        }
+        Returns: {
+          category: string
+          created_at: string
+          creator_id: string
+          description: string
+          id: string
+          is_featured: boolean
+          is_member: boolean
+          last_message_at: string
+          member_count: number
+          messages_last_day: number
+          my_role: string
+          name: string
+          photo_url: string
+          pinned_at: string
+        }[]
+      }
+      get_server_time: { Args: never; Returns: string }
+      get_story_sticker_totals: {
+        Args: { p_story_id: string }
+        Returns: {
+          average_value: number
+          option_index: number
+          response_count: number
+          sticker_id: string
+        }[]
+      }
+      get_trending_hashtags: {
+        Args: { p_hours?: number; p_limit?: number }
+        Returns: {
+          authors_count: number
+          name: string
+          posts_count: number
+        }[]
+      }
+      has_conversation_permission: {
+        Args: {
+          p_conversation_id: string
+          p_permission: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_blocked_between: {
+        Args: { p_user_a: string; p_user_b: string }
+        Returns: boolean
+      }
       is_conversation_participant: {
         Args: { conversation_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      is_direct_conversation_blocked: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_hidden_for_current_user: {
+        Args: { p_author_id: string }
+        Returns: boolean
+      }
+      is_legacy_profile_claimable: {
+        Args: { p_username: string }
+        Returns: boolean
+      }
+      is_staff: { Args: { p_user_id: string }; Returns: boolean }
+      is_story_highlighted: { Args: { p_story_id: string }; Returns: boolean }
+      log_admin_action: {
+        Args: {
+          p_action: string
+          p_actor_id: string
+          p_details?: Json
+          p_target_id?: string
+          p_target_type?: string
+        }
+        Returns: string
+      }
+      mark_message_listened: {
+        Args: { p_message_id: string }
+        Returns: undefined
+      }
+      mute_conversation_member: {
+        Args: {
+          p_conversation_id: string
+          p_minutes?: number
+          p_user_id: string
+        }
+        Returns: string
+      }
+      pin_message: { Args: { p_message_id: string }; Returns: undefined }
+      redeem_conversation_invite: { Args: { p_code: string }; Returns: string }
+      request_follow: { Args: { p_target_id: string }; Returns: string }
+      resolve_report: {
+        Args: {
+          p_action: string
+          p_note?: string
+          p_report_id: string
+          p_suspend_days?: number
+        }
+        Returns: number
+      }
+      respond_follow_request: {
+        Args: { p_accept: boolean; p_request_id: string }
+        Returns: undefined
+      }
+      respond_join_request: {
+        Args: { p_accept: boolean; p_request_id: string }
+        Returns: undefined
+      }
+      respond_to_story_sticker: {
+        Args: {
+          p_answer_text?: string
+          p_option_index?: number
+          p_slider_value?: number
+          p_sticker_id: string
+        }
+        Returns: boolean
+      }
+      review_legacy_claim: {
+        Args: { p_approve: boolean; p_claim_id: string }
+        Returns: undefined
+      }
+      revoke_conversation_invite: {
+        Args: { p_invite_id: string }
+        Returns: undefined
+      }
+      save_story_highlight: {
+        Args: {
+          p_cover_story_id?: string
+          p_highlight_id: string
+          p_story_ids: string[]
+          p_title: string
+        }
+        Returns: string
+      }
+      search_content: {
+        Args: {
+          p_limit?: number
+          p_offset?: number
+          p_query: string
+          p_type: string
+        }
+        Returns: {
+          author_avatar_url: string
+          author_display_name: string
+          author_id: string
+          author_username: string
+          created_at: string
+          headline: string
+          image_url: string
+          media_type: string
+          post_id: string
+          rank: number
+          result_id: string
+        }[]
+      }
+      search_conversation_messages: {
+        Args: {
+          p_conversation_id: string
+          p_limit?: number
+          p_offset?: number
+          p_query: string
+        }
+        Returns: {
+          created_at: string
+          headline: string
+          message_id: string
+          sender_avatar_url: string
+          sender_display_name: string
+          sender_id: string
+          sender_username: string
+        }[]
+      }
+      send_story_reply: {
+        Args: { p_content: string; p_is_reaction?: boolean; p_story_id: string }
+        Returns: string
+      }
+      set_conversation_role: {
+        Args: { p_conversation_id: string; p_role: string; p_user_id: string }
+        Returns: undefined
+      }
+      set_public_chat_slow_mode: {
+        Args: { p_seconds: number }
+        Returns: undefined
+      }
+      unpin_message: { Args: { p_message_id: string }; Returns: undefined }
+      update_room_listing: {
+        Args: {
+          p_category?: string
+          p_conversation_id: string
+          p_is_featured?: boolean
+          p_is_pinned?: boolean
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "moderator"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -746,6 +1972,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "moderator"],
+    },
   },
 } as const
@@ -0,0 +1,133 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Same limits as the chat-files bucket and allowed_attachment_mime_types() on the server
+export const ATTACHMENT_MAX_SIZE_BYTES = 25 * 1024 * 1024;
+
+export const ATTACHMENTS_BUCKET = 'chat-files';
+
+// MIME type by extension, for files the browser reports without one (common for rar/7z)
+const ATTACHMENT_EXTENSIONS: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  rtf: 'application/rtf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  zip: 'application/zip',
+  '7z': 'application/x-7z-compressed',
+  rar: 'application/vnd.rar',
+  gz: 'application/gzip',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+};
+
+const ATTACHMENT_MIME_TYPES = new Set([
+  ...Object.values(ATTACHMENT_EXTENSIONS),
+  'application/x-zip-compressed',
+  'application/x-rar-compressed',
+  'audio/x-m4a',
+  'audio/webm',
+]);
+
+// For the file input's accept attribute
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+export type AttachmentKind = 'pdf' | 'audio' | 'archive' | 'spreadsheet' | 'presentation' | 'document';
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+export const getAttachmentMimeType = (file: File) =>
+  file.type || ATTACHMENT_EXTENSIONS[getExtension(file.name)] || 'application/octet-stream';
+
+export const isAttachmentFile = (file: File) => ATTACHMENT_MIME_TYPES.has(getAttachmentMimeType(file));
+
+export const getAttachmentKind = (mimeType: string | null | undefined): AttachmentKind => {
+  if (!mimeType) return 'document';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (/zip|rar|7z|gzip/.test(mimeType)) return 'archive';
+  if (/spreadsheet|excel|csv/.test(mimeType)) return 'spreadsheet';
+  if (/presentation|powerpoint/.test(mimeType)) return 'presentation';
+  return 'document';
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const uploadCancelled = () => new DOMException('Upload cancelled', 'AbortError');
+
+export const isUploadCancelled = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+interface UploadOptions {
+  contentType: string;
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+// storage-js can't report progress or be cancelled, so this uploads through a signed
+// upload URL with XHR instead. Resolves to the file's public URL
+export const uploadFileWithProgress = async (
+  bucket: string,
+  path: string,
+  file: File,
+  { contentType, onProgress, signal }: UploadOptions
+) => {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path);
+  if (error) throw error;
+
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(uploadCancelled());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('Content-Type', contentType);
+    xhr.setRequestHeader('cache-control', 'max-age=3600');
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.((e.loaded / e.total) * 100);
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(100);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}: ${xhr.responseText}`));
+      }
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      reject(new Error('Upload failed'));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      reject(uploadCancelled());
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    xhr.send(file);
+  });
+
+  return supabase.storage.from(bucket).getPublicUrl(data.path).data.publicUrl;
+};
@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Group chat roles. Mirrors has_conversation_permission in the database, which
+// is what actually enforces them; the client only uses this to decide what to show.
+
+export type ConversationRole = 'owner' | 'admin' | 'member';
+
+export type ConversationPermission =
+  | 'manage_participants'
+  | 'edit_info'
+  | 'pin_messages'
+  | 'delete_messages'
+  | 'mute_members'
+  | 'manage_roles';
+
+export const CONVERSATION_ROLE_LABELS: Record<ConversationRole, string> = {
+  owner: 'Dono',
+  admin: 'Admin',
+  member: 'Membro',
+};
+
+const ROLE_RANK: Record<ConversationRole, number> = {
+  owner: 2,
+  admin: 1,
+  member: 0,
+};
+
+export const isConversationRole = (value: string | null | undefined): value is ConversationRole =>
+  !!value && value in ROLE_RANK;
+
+export const toConversationRole = (value: string | null | undefined): ConversationRole =>
+  isConversationRole(value) ? value : 'member';
+
+export const hasConversationPermission = (
+  role: ConversationRole | null | undefined,
+  permission: ConversationPermission
+) => {
+  if (!role) return false;
+  if (permission === 'manage_roles') return role === 'owner';
+  return role === 'owner' || role === 'admin';
+};
+
+// Acting on someone else also needs a higher role: admins moderate members,
+// the owner moderates everyone
+export const canModerateMember = (
+  actorRole: ConversationRole | null | undefined,
+  targetRole: ConversationRole,
+  permission: ConversationPermission
+) => !!actorRole && hasConversationPermission(actorRole, permission) && ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+
+// pin_messages also depends on the conversation: groups can open it to every member
+// and both people of a direct chat can always pin
+export const canPinMessages = (
+  role: ConversationRole | null | undefined,
+  conversation: { membersCanPin: boolean; isDirect: boolean }
+) => !!role && (hasConversationPermission(role, 'pin_messages') || conversation.membersCanPin || conversation.isDirect);
+
+export const isMuted = (mutedUntil: string | null | undefined) =>
+  !!mutedUntil && new Date(mutedUntil).getTime() > Date.now();
+
+export const MUTE_DURATIONS = [
+  { minutes: 60, label: '1 hora' },
+  { minutes: 8 * 60, label: '8 horas' },
+  { minutes: 24 * 60, label: '24 horas' },
+  { minutes: 7 * 24 * 60, label: '1 semana' },
+];
+
+export type ParticipantAction =
+  | { type: 'promote' }
+  | { type: 'demote' }
+  | { type: 'mute'; minutes: number }
+  | { type: 'unmute' }
+  | { type: 'remove' };
+
+export const setConversationRole = async (
+  conversationId: string,
+  userId: string,
+  role: Exclude<ConversationRole, 'owner'>
+) => {
+  const { error } = await supabase.rpc('set_conversation_role', {
+    p_conversation_id: conversationId,
+    p_user_id: userId,
+    p_role: role,
+  });
+
+  if (error) throw error;
+};
+
+// minutes = 0 lifts the mute. Resolves to when the mute ends
+export const muteConversationMember = async (conversationId: string, userId: string, minutes: number) => {
+  const { data, error } = await supabase.rpc('mute_conversation_member', {
+    p_conversation_id: conversationId,
+    p_user_id: userId,
+    p_minutes: minutes,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+// Invite links for group conversations. Codes are created, redeemed and revoked
+// through RPCs; the table itself is only readable by whoever manages participants.
+
+export type ConversationInvite = Database['public']['Tables']['conversation_invites']['Row'];
+
+export type InvitePreview = Database['public']['Functions']['get_conversation_invite']['Returns'][number];
+
+export type InviteStatus = 'valid' | 'revoked' | 'expired' | 'exhausted';
+
+export type RedeemResult = 'member' | 'requested' | 'joined';
+
+export const INVITE_EXPIRY_OPTIONS = [
+  { hours: 0, label: 'Nunca' },
+  { hours: 1, label: '1 hora' },
+  { hours: 24, label: '1 dia' },
+  { hours: 7 * 24, label: '7 dias' },
+];
+
+export const INVITE_MAX_USES_OPTIONS = [
+  { uses: 0, label: 'Sem limite' },
+  { uses: 1, label: '1 uso' },
+  { uses: 5, label: '5 usos' },
+  { uses: 10, label: '10 usos' },
+  { uses: 25, label: '25 usos' },
+  { uses: 100, label: '100 usos' },
+];
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  valid: 'Ativo',
+  revoked: 'Revogado',
+  expired: 'Expirado',
+  exhausted: 'Esgotado',
+};
+
+export const buildInviteUrl = (code: string) => `${window.location.origin}/join/${code}`;
+
+// Same rules as get_conversation_invite, for invites already loaded in the settings sheet
+export const getInviteStatus = (invite: ConversationInvite): InviteStatus => {
+  if (invite.revoked_at) return 'revoked';
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= Date.now()) return 'expired';
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'exhausted';
+  return 'valid';
+};
+
+export const isInviteStatus = (value: string | null | undefined): value is InviteStatus =>
+  !!value && value in INVITE_STATUS_LABELS;
+
+// 0 for either limit means none
+export const createConversationInvite = async (
+  conversationId: string,
+  options: { expiresInHours: number; maxUses: number; requiresApproval: boolean }
+) => {
+  const { data, error } = await supabase.rpc('create_conversation_invite', {
+    p_conversation_id: conversationId,
+    p_expires_in_hours: options.expiresInHours || undefined,
+    p_max_uses: options.maxUses || undefined,
+    p_requires_approval: options.requiresApproval,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const revokeConversationInvite = async (inviteId: string) => {
+  const { error } = await supabase.rpc('revoke_conversation_invite', { p_invite_id: inviteId });
+  if (error) throw error;
+};
+
+// Resolves to null for codes that never existed
+export const getInvitePreview = async (code: string): Promise<InvitePreview | null> => {
+  const { data, error } = await supabase.rpc('get_conversation_invite', { p_code: code });
+  if (error) throw error;
+  return data?.[0] ?? null;
+};
+
+export const redeemConversationInvite = async (code: string) => {
+  const { data, error } = await supabase.rpc('redeem_conversation_invite', { p_code: code });
+  if (error) throw error;
+  return data as RedeemResult;
+};
+
+export const respondJoinRequest = async (requestId: string, accept: boolean) => {
+  const { error } = await supabase.rpc('respond_join_request', {
+    p_request_id: requestId,
+    p_accept: accept,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,169 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// Must match the interval enforced by the handle_message_edit trigger
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+interface EditableMessage {
+  sender_id: string;
+  content: string | null;
+  created_at: string;
+  message_type?: string | null;
+}
+
+export const canEditMessage = (message: EditableMessage, userId: string | undefined) => {
+  if (!userId || message.sender_id !== userId) return false;
+  if (message.message_type === 'system' || !message.content) return false;
+
+  const elapsed = Date.now() - new Date(message.created_at).getTime();
+  return elapsed < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+};
+
+export const QUICK_REACTIONS = ['❤️', '😂', '😮', '😢', '😡', '👍'];
+
+export type MessageReaction = Tables<'message_reactions'>;
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+// Most used emoji first, ties keep the order in which they were first used
+export const summarizeReactions = (reactions: MessageReaction[], userId: string | undefined): ReactionSummary[] => {
+  const byEmoji = new Map<string, ReactionSummary>();
+
+  [...reactions]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .forEach((reaction) => {
+      const summary = byEmoji.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, reactedByMe: false };
+      summary.count += 1;
+      summary.reactedByMe = summary.reactedByMe || reaction.user_id === userId;
+      byEmoji.set(reaction.emoji, summary);
+    });
+
+  return Array.from(byEmoji.values()).sort((a, b) => b.count - a.count);
+};
+
+export const VOICE_MESSAGE_MAX_SECONDS = 300;
+
+export const VOICE_WAVEFORM_BARS = 40;
+
+export const VOICE_PLAYBACK_RATES = [1, 1.5, 2];
+
+export interface VoiceMetadata {
+  duration: number;
+  waveform: number[];
+}
+
+export interface FileMetadata {
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+// Extra details some media messages carry: voice messages or file attachments
+export type MediaMetadata = VoiceMetadata | FileMetadata;
+
+// The messages columns for a message's media details, null when they don't apply
+export const getMediaMetadataColumns = (metadata?: MediaMetadata) => {
+  const voice = metadata && 'waveform' in metadata ? metadata : null;
+  const file = metadata && 'mimeType' in metadata ? metadata : null;
+
+  return {
+    media_duration: voice?.duration ?? null,
+    media_waveform: voice?.waveform ?? null,
+    media_name: file?.name ?? null,
+    media_size: file?.size ?? null,
+    media_mime_type: file?.mimeType ?? null,
+  };
+};
+
+export const formatVoiceDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Peak amplitude of each slice of the recording, scaled to 0-100
+export const computeWaveform = (samples: Float32Array, bars = VOICE_WAVEFORM_BARS) => {
+  const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0;
+    const start = bar * sliceSize;
+    for (let i = start; i < Math.min(start + sliceSize, samples.length); i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+
+  const max = Math.max(...peaks, 0.01);
+  return peaks.map(peak => Math.round((peak / max) * 100));
+};
+
+// DOM id of a rendered message, used to jump to it from pins and search results
+export const getMessageElementId = (messageId: string) => `message-${messageId}`;
+
+// Scrolls the message into the middle of the view; false when it isn't rendered
+export const scrollToMessage = (messageId: string) => {
+  const element = document.getElementById(getMessageElementId(messageId));
+  if (!element) return false;
+
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  return true;
+};
+
+// Messages loaded on each side of a message that is jumped to but not in the list
+export const MESSAGE_JUMP_WINDOW = 25;
+
+// The message with up to MESSAGE_JUMP_WINDOW messages before and after it, oldest first.
+// Null when it is gone or belongs to another conversation
+export const fetchMessageWindow = async (
+  conversationId: string,
+  messageId: string
+): Promise<Tables<'messages'>[] | null> => {
+  const { data: target, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('id', messageId)
+    .eq('conversation_id', conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!target) return null;
+
+  const [before, after] = await Promise.all([
+    supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .lt('created_at', target.created_at)
+      .order('created_at', { ascending: false })
+      .limit(MESSAGE_JUMP_WINDOW),
+    supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .gt('created_at', target.created_at)
+      .order('created_at', { ascending: true })
+      .limit(MESSAGE_JUMP_WINDOW),
+  ]);
+
+  if (before.error) throw before.error;
+  if (after.error) throw after.error;
+
+  return [...before.data.reverse(), target, ...after.data];
+};
+
+// Adds rows to a chronological message list; messages already in it keep their state
+export const mergeMessages = <T extends { id: string; created_at: string }>(current: T[], incoming: T[]) => {
+  const known = new Set(current.map(message => message.id));
+  const added = incoming.filter(message => !known.has(message.id));
+  if (added.length === 0) return current;
+
+  return [...current, ...added].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+};
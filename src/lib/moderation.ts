@@ -0,0 +1,46 @@
+export type ReportTargetType = 'post' | 'comment' | 'story' | 'message' | 'profile';
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'nudity' | 'violence' | 'false_info' | 'other';
+
+export type ReportStatus = 'pending' | 'dismissed' | 'removed' | 'warned' | 'suspended';
+
+export type ModerationAction = 'dismiss' | 'remove_content' | 'warn' | 'suspend';
+
+// Order matters: this is the order shown in the report form
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam ou golpe',
+  harassment: 'Assédio ou bullying',
+  hate: 'Discurso de ódio',
+  nudity: 'Nudez ou conteúdo sexual',
+  violence: 'Violência ou ameaça',
+  false_info: 'Informação falsa',
+  other: 'Outro motivo',
+};
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'Post',
+  comment: 'Comentário',
+  story: 'Story',
+  message: 'Mensagem',
+  profile: 'Perfil',
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: 'Pendente',
+  dismissed: 'Arquivada',
+  removed: 'Conteúdo removido',
+  warned: 'Usuário advertido',
+  suspended: 'Conta suspensa',
+};
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: 'Arquivar denúncia',
+  remove_content: 'Remover conteúdo',
+  warn: 'Advertir usuário',
+  suspend: 'Suspender conta',
+};
+
+// Accounts with suspended_until in the future can't publish (enforced by the database)
+export function isSuspended(suspendedUntil: string | null | undefined): boolean {
+  return !!suspendedUntil && new Date(suspendedUntil).getTime() > Date.now();
+}
@@ -0,0 +1,205 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+
+// Messages written while offline live in IndexedDB until the server accepts them.
+// Each entry keeps the client-generated row id, so resending after an ambiguous
+// failure can never create a duplicate message.
+
+export type OutboxTable = 'messages' | 'public_chat_messages';
+
+export type OutboxPayload =
+  | { table: 'messages'; row: TablesInsert<'messages'> & { id: string } }
+  | { table: 'public_chat_messages'; row: TablesInsert<'public_chat_messages'> & { id: string } };
+
+export type OutboxEntry = OutboxPayload & {
+  id: string;
+  sender_id: string;
+  // null for the public chat
+  conversation_id: string | null;
+  queued_at: string;
+  attempts: number;
+  failed: boolean;
+};
+
+export type PrivateOutboxEntry = Extract<OutboxEntry, { table: 'messages' }>;
+
+export type PublicOutboxEntry = Extract<OutboxEntry, { table: 'public_chat_messages' }>;
+
+export const OUTBOX_CHANGED_EVENT = 'outbox-changed';
+
+const DB_NAME = 'chat-outbox';
+const DB_VERSION = 1;
+const STORE = 'messages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('queued_at', 'queued_at');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const notifyChanged = () => {
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGED_EVENT));
+};
+
+export const newClientMessageId = () => crypto.randomUUID();
+
+// fetch() rejects with a TypeError when the request never reached the server
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+  const message = (error as { message?: string } | null)?.message || '';
+  return error instanceof TypeError || /failed to fetch|network ?error|load failed/i.test(message);
+};
+
+export const getOutboxEntries = async (senderId: string) => {
+  try {
+    const entries = await withStore<OutboxEntry[]>('readonly', store => store.index('queued_at').getAll());
+    return entries.filter(entry => entry.sender_id === senderId);
+  } catch (error) {
+    console.error('Error reading outbox:', error);
+    return [];
+  }
+};
+
+export const enqueueOutboxMessage = async (
+  payload: OutboxPayload,
+  senderId: string,
+  conversationId: string | null
+) => {
+  const entry: OutboxEntry = {
+    ...payload,
+    id: payload.row.id,
+    sender_id: senderId,
+    conversation_id: conversationId,
+    queued_at: new Date().toISOString(),
+    attempts: 0,
+    failed: false,
+  };
+
+  await withStore('readwrite', store => store.put(entry));
+  notifyChanged();
+  return entry;
+};
+
+export const discardOutboxMessage = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id));
+  notifyChanged();
+};
+
+export const retryOutboxMessage = async (id: string) => {
+  const entry = await withStore<OutboxEntry | undefined>('readonly', store => store.get(id));
+  if (!entry) return;
+
+  await withStore('readwrite', store => store.put({ ...entry, failed: false }));
+  notifyChanged();
+  if (navigator.onLine) {
+    await flushOutbox(entry.sender_id);
+  }
+};
+
+const insertEntry = (entry: OutboxEntry) => {
+  // ignoreDuplicates turns the insert into ON CONFLICT DO NOTHING, so a row that
+  // already made it to the server on a previous attempt is simply skipped
+  if (entry.table === 'messages') {
+    return supabase.from('messages').upsert(entry.row, { onConflict: 'id', ignoreDuplicates: true });
+  }
+  return supabase.from('public_chat_messages').upsert(entry.row, { onConflict: 'id', ignoreDuplicates: true });
+};
+
+let flushing: Promise<void> | null = null;
+let flushRequested = false;
+
+// Sends queued messages oldest first. Stops at the first network error so later
+// messages never overtake earlier ones; rejected messages are marked failed and skipped
+export const flushOutbox = (senderId: string) => {
+  if (flushing) {
+    // Entries queued mid-flush are picked up by another pass
+    flushRequested = true;
+    return flushing;
+  }
+
+  flushing = (async () => {
+    try {
+      do {
+        flushRequested = false;
+        const entries = await getOutboxEntries(senderId);
+
+        for (const entry of entries) {
+          if (entry.failed) continue;
+
+          const { error } = await insertEntry(entry);
+
+          if (!error) {
+            await withStore('readwrite', store => store.delete(entry.id));
+            notifyChanged();
+            continue;
+          }
+
+          if (isNetworkError(error)) return;
+
+          console.error('Outbox message rejected:', error);
+          await withStore('readwrite', store => store.put({ ...entry, attempts: entry.attempts + 1, failed: true }));
+          notifyChanged();
+        }
+      } while (flushRequested);
+    } catch (error) {
+      console.error('Error flushing outbox:', error);
+    } finally {
+      flushing = null;
+    }
+  })();
+
+  return flushing;
+};
+
+export type OutboxMessageStatus = 'pending' | 'failed';
+
+export const isOutboxStatus = (status: string | null | undefined): status is OutboxMessageStatus =>
+  status === 'pending' || status === 'failed';
+
+// Shape a queued private message like a server row so the chat can render it in place
+export const outboxEntryToMessage = (entry: PrivateOutboxEntry) => ({
+  id: entry.id,
+  conversation_id: entry.row.conversation_id,
+  sender_id: entry.row.sender_id,
+  content: entry.row.content ?? null,
+  media_url: entry.row.media_url ?? null,
+  media_type: entry.row.media_type ?? null,
+  media_duration: entry.row.media_duration ?? null,
+  media_waveform: entry.row.media_waveform ?? null,
+  media_name: entry.row.media_name ?? null,
+  media_size: entry.row.media_size ?? null,
+  media_mime_type: entry.row.media_mime_type ?? null,
+  replied_to_message_id: entry.row.replied_to_message_id ?? null,
+  story_id: entry.row.story_id ?? null,
+  message_type: entry.row.message_type ?? 'user',
+  created_at: entry.queued_at,
+  delivered_at: null,
+  read_at: null,
+  edited_at: null,
+  listened_at: null,
+  message_status: entry.failed ? 'failed' : 'pending',
+});
@@ -0,0 +1,17 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// Pinning goes through RPCs so the database can check the pin_messages permission
+// and post the system message that announces it
+
+export type PinnedMessage = Tables<'pinned_messages'>;
+
+export const pinMessage = async (messageId: string) => {
+  const { error } = await supabase.rpc('pin_message', { p_message_id: messageId });
+  if (error) throw error;
+};
+
+export const unpinMessage = async (messageId: string) => {
+  const { error } = await supabase.rpc('unpin_message', { p_message_id: messageId });
+  if (error) throw error;
+};
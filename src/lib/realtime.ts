@@ -0,0 +1,399 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+// All realtime traffic of the app goes through here. Each topic (a stream of table changes
+// or a broadcast channel) is backed by a single Supabase channel shared by every subscriber,
+// kept open while someone listens and rejoined with backoff when it drops. INSERT streams
+// remember the newest created_at they delivered, so rows written while a channel was down
+// are fetched and delivered once it is back.
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'error';
+
+export type RealtimeTable = keyof Database['public']['Tables'];
+
+export type RealtimeRow = { [key: string]: unknown };
+
+export interface ChangesTopic {
+  table: RealtimeTable;
+  event: 'INSERT' | 'UPDATE' | 'DELETE';
+  // Supabase filter syntax, e.g. conversation_id=eq.<id>
+  filter?: string;
+}
+
+export type ChangesPayload<T extends RealtimeRow = RealtimeRow> = RealtimePostgresChangesPayload<T>;
+
+export interface BroadcastMessage<T = Record<string, unknown>> {
+  type: 'broadcast';
+  event: string;
+  payload: T;
+}
+
+export interface RealtimeSnapshot {
+  status: ConnectionStatus;
+  isOnline: boolean;
+  reconnectAttempts: number;
+}
+
+type Topic =
+  | { kind: 'changes'; changes: ChangesTopic }
+  | { kind: 'broadcast'; name: string };
+
+type Listener = (message: ChangesPayload | BroadcastMessage) => void;
+
+interface ChannelEntry {
+  key: string;
+  topic: Topic;
+  listeners: Set<Listener>;
+  channel: RealtimeChannel | null;
+  state: 'connecting' | 'connected' | 'reconnecting' | 'error';
+  attempts: number;
+  joinedOnce: boolean;
+  lastSeen: string | null;
+  // Ids delivered lately, so a row that arrives live while it is also replayed shows up once
+  recentIds: string[];
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  releaseTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const BASE_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+// Channels outlive their last subscriber briefly, so effects that re-run don't rejoin
+const RELEASE_DELAY = 5000;
+const RECENT_IDS_LIMIT = 200;
+const REPLAY_PAGE_SIZE = 100;
+
+const entries = new Map<string, ChannelEntry>();
+// Supabase hands out the existing channel for a name until its removal finishes
+const closing = new Map<string, Promise<unknown>>();
+const statusListeners = new Set<() => void>();
+
+let snapshot: RealtimeSnapshot = {
+  status: 'connected',
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  reconnectAttempts: 0,
+};
+
+const topicKey = (topic: Topic) =>
+  topic.kind === 'changes'
+    ? `changes:${topic.changes.table}:${topic.changes.event}:${topic.changes.filter || '*'}`
+    : `broadcast:${topic.name}`;
+
+// Broadcast channels keep their name so they reach clients on other versions of the app
+const channelName = (entry: ChannelEntry) =>
+  entry.topic.kind === 'broadcast' ? entry.topic.name : entry.key;
+
+const computeSnapshot = (): RealtimeSnapshot => {
+  const all = [...entries.values()];
+  const states = all.map(entry => entry.state);
+  const isOnline = navigator.onLine;
+
+  let status: ConnectionStatus = 'connected';
+  if (!isOnline) status = 'disconnected';
+  else if (states.includes('error')) status = 'error';
+  else if (states.includes('reconnecting')) status = 'reconnecting';
+  else if (states.includes('connecting')) status = 'connecting';
+
+  return {
+    status,
+    isOnline,
+    reconnectAttempts: Math.max(0, ...all.map(entry => entry.attempts)),
+  };
+};
+
+export const refreshRealtimeStatus = () => {
+  const next = computeSnapshot();
+  if (
+    next.status === snapshot.status &&
+    next.isOnline === snapshot.isOnline &&
+    next.reconnectAttempts === snapshot.reconnectAttempts
+  ) {
+    return;
+  }
+
+  snapshot = next;
+  statusListeners.forEach(listener => listener());
+};
+
+export const getRealtimeSnapshot = () => snapshot;
+
+export const onRealtimeStatusChange = (listener: () => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+const closeChannel = (name: string, channel: RealtimeChannel) => {
+  const removal: Promise<unknown> = supabase.removeChannel(channel).finally(() => {
+    if (closing.get(name) === removal) closing.delete(name);
+  });
+  closing.set(name, removal);
+};
+
+const deliver = (entry: ChannelEntry, message: ChangesPayload | BroadcastMessage) => {
+  if ('eventType' in message && message.eventType === 'INSERT') {
+    const id = message.new.id;
+    if (typeof id === 'string') {
+      if (entry.recentIds.includes(id)) return;
+      entry.recentIds.push(id);
+      if (entry.recentIds.length > RECENT_IDS_LIMIT) entry.recentIds.shift();
+    }
+
+    const createdAt = message.new.created_at;
+    if (typeof createdAt === 'string' && (!entry.lastSeen || new Date(createdAt) > new Date(entry.lastSeen))) {
+      entry.lastSeen = createdAt;
+    }
+  }
+
+  entry.listeners.forEach(listener => listener(message));
+};
+
+const isInsertStream = (entry: ChannelEntry) =>
+  entry.topic.kind === 'changes' && entry.topic.changes.event === 'INSERT';
+
+// Starts the replay cursor at the first join, a stream that drops before its first
+// live event would otherwise have nothing to replay from. Server time, since
+// created_at is set by the database and the device clock may be off
+const seedLastSeen = async (entry: ChannelEntry) => {
+  const { data, error } = await supabase.rpc('get_server_time');
+  if (error) {
+    console.error(`Error fetching server time for ${entry.key}:`, error);
+    return;
+  }
+
+  if (!entry.lastSeen) entry.lastSeen = data;
+};
+
+// Fetches the rows a rejoined INSERT stream missed and delivers them like live events.
+// Rows sharing the cursor's timestamp are fetched again and dropped by recentIds
+const replayMissed = async (entry: ChannelEntry) => {
+  if (entry.topic.kind !== 'changes' || !isInsertStream(entry) || !entry.lastSeen) return;
+
+  const { table, filter } = entry.topic.changes;
+  // Only equality filters can be repeated as a query, anything else would replay foreign rows
+  const match = filter?.match(/^(\w+)=eq\.(.+)$/);
+  if (filter && !match) return;
+
+  // Live events move lastSeen past rows that are still to be replayed, page on our own cursor
+  let cursor = entry.lastSeen;
+
+  try {
+    // Stops early if the stream is released or rejoins again, the next replay takes over
+    const channel = entry.channel;
+    while (entries.get(entry.key) === entry && entry.channel === channel) {
+      let query = supabase
+        .from(table)
+        .select('*')
+        .gte('created_at', cursor)
+        .order('created_at', { ascending: true })
+        .limit(REPLAY_PAGE_SIZE);
+
+      if (match) {
+        query = query.filter(match[1], 'eq', match[2]);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const rows = data as RealtimeRow[];
+      rows.forEach(row => {
+        deliver(entry, {
+          schema: 'public',
+          table,
+          commit_timestamp: String(row.created_at),
+          eventType: 'INSERT',
+          new: row,
+          old: {},
+          errors: [],
+        });
+      });
+
+      const next = rows.length ? String(rows[rows.length - 1].created_at) : cursor;
+      // A full page on a single timestamp can't advance with gte
+      if (rows.length < REPLAY_PAGE_SIZE || next === cursor) break;
+      cursor = next;
+    }
+  } catch (error) {
+    console.error(`Error replaying missed rows for ${entry.key}:`, error);
+  }
+};
+
+const scheduleReconnect = (entry: ChannelEntry) => {
+  if (entry.retryTimer) return;
+
+  if (entry.channel) {
+    closeChannel(channelName(entry), entry.channel);
+    entry.channel = null;
+  }
+
+  // The online event reopens it, retrying before that only burns attempts
+  if (!navigator.onLine) {
+    entry.state = 'reconnecting';
+    refreshRealtimeStatus();
+    return;
+  }
+
+  if (entry.attempts >= MAX_RECONNECT_ATTEMPTS) {
+    entry.state = 'error';
+    refreshRealtimeStatus();
+    return;
+  }
+
+  const delay = Math.min(BASE_RECONNECT_DELAY * 2 ** entry.attempts, MAX_RECONNECT_DELAY);
+  entry.attempts += 1;
+  entry.state = 'reconnecting';
+  refreshRealtimeStatus();
+
+  entry.retryTimer = setTimeout(() => {
+    entry.retryTimer = null;
+    openChannel(entry);
+  }, delay);
+};
+
+const openChannel = async (entry: ChannelEntry) => {
+  const name = channelName(entry);
+  const pending = closing.get(name);
+  if (pending) await pending;
+
+  // Released while waiting for the old channel to close
+  if (entries.get(entry.key) !== entry) return;
+
+  const channel = supabase.channel(name);
+
+  if (entry.topic.kind === 'changes') {
+    const { table, event, filter } = entry.topic.changes;
+    // The overloads of on() only accept a literal event, they all bind the same way
+    channel.on(
+      'postgres_changes',
+      { event: event as '*', schema: 'public', table, filter },
+      (payload: ChangesPayload) => deliver(entry, payload)
+    );
+  } else {
+    // Listeners pick their own events, one binding serves them all
+    channel.on('broadcast', { event: '*' }, (message) => deliver(entry, message as BroadcastMessage));
+  }
+
+  entry.channel = channel;
+  channel.subscribe((status) => {
+    // Late callbacks of a channel that was already replaced
+    if (entry.channel !== channel) return;
+
+    if (status === 'SUBSCRIBED') {
+      const rejoined = entry.joinedOnce;
+      entry.state = 'connected';
+      entry.attempts = 0;
+      entry.joinedOnce = true;
+      refreshRealtimeStatus();
+
+      if (rejoined) replayMissed(entry);
+      else if (isInsertStream(entry) && !entry.lastSeen) seedLastSeen(entry);
+      return;
+    }
+
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      console.warn(`Realtime channel ${name} status:`, status);
+      scheduleReconnect(entry);
+    }
+  });
+};
+
+const subscribe = (topic: Topic, listener: Listener) => {
+  const key = topicKey(topic);
+  let entry = entries.get(key);
+
+  if (!entry) {
+    entry = {
+      key,
+      topic,
+      listeners: new Set(),
+      channel: null,
+      state: 'connecting',
+      attempts: 0,
+      joinedOnce: false,
+      lastSeen: null,
+      recentIds: [],
+      retryTimer: null,
+      releaseTimer: null,
+    };
+    entries.set(key, entry);
+    openChannel(entry);
+    refreshRealtimeStatus();
+  }
+
+  const current = entry;
+  if (current.releaseTimer) {
+    clearTimeout(current.releaseTimer);
+    current.releaseTimer = null;
+  }
+  current.listeners.add(listener);
+
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size > 0 || current.releaseTimer) return;
+
+    current.releaseTimer = setTimeout(() => {
+      entries.delete(key);
+      if (current.retryTimer) clearTimeout(current.retryTimer);
+      if (current.channel) closeChannel(channelName(current), current.channel);
+      current.channel = null;
+      refreshRealtimeStatus();
+    }, RELEASE_DELAY);
+  };
+};
+
+export const changesTopicKey = (topic: ChangesTopic) => topicKey({ kind: 'changes', changes: topic });
+
+export const subscribeToChanges = <T extends RealtimeRow = RealtimeRow>(
+  topic: ChangesTopic,
+  listener: (payload: ChangesPayload<T>) => void
+) => subscribe({ kind: 'changes', changes: topic }, listener as Listener);
+
+export const subscribeToBroadcast = <T = Record<string, unknown>>(
+  name: string,
+  event: string,
+  listener: (message: BroadcastMessage<T>) => void
+) =>
+  subscribe({ kind: 'broadcast', name }, (message) => {
+    if ('event' in message && message.event === event) {
+      listener(message as BroadcastMessage<T>);
+    }
+  });
+
+export const sendBroadcast = async (name: string, event: string, payload: Record<string, unknown>) => {
+  const entry = entries.get(topicKey({ kind: 'broadcast', name }));
+  if (entry?.channel) {
+    await entry.channel.send({ type: 'broadcast', event, payload });
+    return;
+  }
+
+  // Nobody here listens on this channel, deliver over REST without joining it
+  const pending = closing.get(name);
+  if (pending) await pending;
+
+  const channel = supabase.channel(name);
+  try {
+    await channel.httpSend(event, payload);
+  } finally {
+    await supabase.removeChannel(channel);
+  }
+};
+
+// Reopens every channel that is waiting for a retry or gave up, starting the backoff over
+export const reconnectRealtime = () => {
+  entries.forEach(entry => {
+    if (entry.channel) return;
+
+    if (entry.retryTimer) {
+      clearTimeout(entry.retryTimer);
+      entry.retryTimer = null;
+    }
+
+    entry.attempts = 0;
+    entry.state = 'reconnecting';
+    openChannel(entry);
+  });
+
+  refreshRealtimeStatus();
+};
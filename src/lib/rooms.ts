@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+// Public rooms are conversations with is_public set. Anyone can read them and join
+// by adding themselves as a participant.
+
+export type PublicRoom = Database['public']['Functions']['get_public_rooms']['Returns'][number];
+
+export type RoomCategory =
+  | 'geral'
+  | 'amizade'
+  | 'esportes'
+  | 'musica'
+  | 'jogos'
+  | 'tecnologia'
+  | 'estudos'
+  | 'viagens'
+  | 'outros';
+
+export const ROOM_CATEGORY_LABELS: Record<RoomCategory, string> = {
+  geral: 'Geral',
+  amizade: 'Amizade',
+  esportes: 'Esportes',
+  musica: 'Música',
+  jogos: 'Jogos',
+  tecnologia: 'Tecnologia',
+  estudos: 'Estudos',
+  viagens: 'Viagens',
+  outros: 'Outros',
+};
+
+export const ROOM_CATEGORIES = Object.keys(ROOM_CATEGORY_LABELS) as RoomCategory[];
+
+export const ROOMS_PAGE_SIZE = 20;
+
+export const isRoomCategory = (value: string | null | undefined): value is RoomCategory =>
+  !!value && value in ROOM_CATEGORY_LABELS;
+
+// Loads the conversation and tells whether it is a public room the user already joined
+export const checkPublicChatStatus = async (conversationId: string, userId: string) => {
+  const [conversationResult, membershipResult] = await Promise.all([
+    supabase
+      .from('conversations')
+      .select('*')
+      .eq('id', conversationId)
+      .single(),
+    supabase
+      .from('conversation_participants')
+      .select('user_id')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (conversationResult.error) throw conversationResult.error;
+  if (membershipResult.error) throw membershipResult.error;
+
+  const conversation = conversationResult.data;
+  return {
+    conversation,
+    isPublic: conversation?.is_public || false,
+    isParticipant: !!membershipResult.data,
+  };
+};
+
+export const joinPublicChat = async (conversationId: string, userId: string) => {
+  const { error } = await supabase
+    .from('conversation_participants')
+    .insert({
+      conversation_id: conversationId,
+      user_id: userId
+    });
+
+  // Already a member, e.g. joined from the directory in another tab
+  if (error && error.code !== '23505') throw error;
+};
@@ -0,0 +1,75 @@
+export type SearchType = 'profiles' | 'posts' | 'comments';
+
+export const SEARCH_TYPE_LABELS: Record<SearchType, string> = {
+  profiles: 'Pessoas',
+  posts: 'Posts',
+  comments: 'Comentários',
+};
+
+export const SEARCH_PAGE_SIZE = 20;
+
+// Shorter queries match almost everything with prefix search
+export const MIN_SEARCH_LENGTH = 2;
+
+// search_content wraps every match in the headline with these control characters
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_END = '\u0002';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export const splitHighlights = (headline: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+
+  headline.split(HIGHLIGHT_START).forEach((part, index) => {
+    if (index === 0) {
+      if (part) segments.push({ text: part, match: false });
+      return;
+    }
+
+    const [matched, ...rest] = part.split(HIGHLIGHT_END);
+    if (matched) segments.push({ text: matched, match: true });
+    const tail = rest.join('');
+    if (tail) segments.push({ text: tail, match: false });
+  });
+
+  return segments;
+};
+
+const MAX_RECENT_SEARCHES = 10;
+
+const recentSearchesKey = (userId: string) => `recent_searches_${userId}`;
+
+export const getRecentSearches = (userId: string): string[] => {
+  try {
+    const stored = localStorage.getItem(recentSearchesKey(userId));
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((q): q is string => typeof q === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveRecentSearches = (userId: string, searches: string[]) => {
+  localStorage.setItem(recentSearchesKey(userId), JSON.stringify(searches));
+  return searches;
+};
+
+export const addRecentSearch = (userId: string, query: string): string[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return getRecentSearches(userId);
+
+  const searches = getRecentSearches(userId).filter(q => q.toLowerCase() !== trimmed.toLowerCase());
+  return saveRecentSearches(userId, [trimmed, ...searches].slice(0, MAX_RECENT_SEARCHES));
+};
+
+export const removeRecentSearch = (userId: string, query: string): string[] => {
+  return saveRecentSearches(userId, getRecentSearches(userId).filter(q => q !== query));
+};
+
+export const clearRecentSearches = (userId: string): string[] => {
+  localStorage.removeItem(recentSearchesKey(userId));
+  return [];
+};
@@ -0,0 +1,38 @@
+export type SharedMediaKind = 'media' | 'links' | 'files';
+
+export const SHARED_MEDIA_KIND_LABELS: Record<SharedMediaKind, string> = {
+  media: 'Mídia',
+  links: 'Links',
+  files: 'Arquivos',
+};
+
+export const SHARED_MEDIA_PAGE_SIZE = 30;
+
+export const isSharedMediaKind = (value: string): value is SharedMediaKind =>
+  value in SHARED_MEDIA_KIND_LABELS;
+
+// Trailing punctuation is almost always part of the sentence, not of the URL
+const URL_PATTERN = /https?:\/\/[^\s<>"']+[^\s<>"'.,;:!?)\]]/gi;
+
+export const extractLinks = (content: string | null) => {
+  if (!content) return [];
+  return Array.from(new Set(content.match(URL_PATTERN) ?? []));
+};
+
+export const getLinkHostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Last segment of the storage path, for files sent without a name of their own
+export const getFileNameFromUrl = (url: string) => {
+  try {
+    const path = new URL(url).pathname;
+    return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1)) || 'Arquivo';
+  } catch {
+    return 'Arquivo';
+  }
+};
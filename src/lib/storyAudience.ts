@@ -0,0 +1,19 @@
+// Who a story is shared with. Enforced by RLS on stories; close friends are picked
+// from the profile editor
+
+export type StoryAudience = 'everyone' | 'followers' | 'close_friends';
+
+export const STORY_AUDIENCE_LABELS: Record<StoryAudience, string> = {
+  everyone: 'Todos',
+  followers: 'Seguidores',
+  close_friends: 'Amigos Próximos',
+};
+
+export const DEFAULT_STORY_AUDIENCE: StoryAudience = 'everyone';
+
+// Ring around the avatar of a story group with a close friends story
+export const CLOSE_FRIENDS_RING_CLASS = 'bg-gradient-to-br from-green-400 to-emerald-600';
+
+export const isCloseFriendsStory = (story: { audience?: string | null }) => story.audience === 'close_friends';
+
+export const hasCloseFriendsStory = (stories: { audience?: string | null }[]) => stories.some(isCloseFriendsStory);
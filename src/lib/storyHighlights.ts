@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// Highlights ("Destaques") keep stories on the profile after they expire. Saving goes
+// through an RPC so the title, stories and cover are replaced in one go and only the
+// owner's stories can be added
+
+export type StoryHighlightRow = Tables<'story_highlights'>;
+
+// Shaped like the stories StoryViewerEnhanced plays
+export type ArchivedStory = Tables<'stories'> & {
+  profiles: {
+    display_name: string;
+    username: string;
+    avatar_url: string | null;
+  };
+};
+
+export interface StoryHighlight extends StoryHighlightRow {
+  // Oldest first, the order they are played in
+  stories: ArchivedStory[];
+}
+
+// Same limit as the check on story_highlights.title
+export const HIGHLIGHT_TITLE_MAX_LENGTH = 30;
+
+export interface SaveStoryHighlightInput {
+  // Omitted to create a new highlight
+  id?: string;
+  title: string;
+  storyIds: string[];
+  coverStoryId?: string | null;
+}
+
+// Resolves to the highlight id
+export const saveStoryHighlight = async ({ id, title, storyIds, coverStoryId }: SaveStoryHighlightInput) => {
+  const { data, error } = await supabase.rpc('save_story_highlight', {
+    p_highlight_id: id ?? null,
+    p_title: title.trim(),
+    p_story_ids: storyIds,
+    p_cover_story_id: coverStoryId ?? undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteStoryHighlight = async (id: string) => {
+  const { error } = await supabase.from('story_highlights').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const isStoryExpired = (story: { expires_at: string }) =>
+  new Date(story.expires_at).getTime() <= Date.now();
+
+// The chosen cover, or the first story when the cover was deleted
+export const getHighlightCover = (highlight: StoryHighlight) =>
+  highlight.stories.find(story => story.id === highlight.cover_story_id) ?? highlight.stories[0] ?? null;
@@ -0,0 +1,226 @@
+import { Json } from '@/integrations/supabase/types';
+
+// Free-form story canvas, saved as a JSON layer document in stories.layers. Positions
+// are fractions of the story's width and height and sizes are percentages of its width
+// (cqw), so a story looks the same at any size. Stories without layers keep using
+// content/text_position/text_size
+
+export const STORY_LAYERS_VERSION = 1;
+
+export type StoryFont = 'classic' | 'modern' | 'serif' | 'typewriter' | 'handwriting';
+
+export const STORY_FONTS: Record<StoryFont, { label: string; family: string; weight: number }> = {
+  classic: { label: 'Clássica', family: 'system-ui, sans-serif', weight: 700 },
+  modern: { label: 'Moderna', family: '"Helvetica Neue", Arial, sans-serif', weight: 900 },
+  serif: { label: 'Serifa', family: 'Georgia, "Times New Roman", serif', weight: 700 },
+  typewriter: { label: 'Máquina', family: '"Courier New", monospace', weight: 700 },
+  handwriting: { label: 'Manuscrita', family: '"Comic Sans MS", "Segoe Print", cursive', weight: 400 },
+};
+
+export const STORY_LAYER_COLORS = [
+  '#ffffff', '#000000', '#ff6b6b', '#feca57',
+  '#1dd1a1', '#54a0ff', '#a55eea', '#ff9ff3',
+];
+
+export const STORY_EMOJIS = ['😍', '😂', '🔥', '❤️', '🎉', '😎', '✨', '👏', '🥳', '😮', '💯', '🙌'];
+
+export const BRUSH_WIDTHS = [0.8, 1.6, 3];
+
+interface LayerTransform {
+  id: string;
+  // Center of the layer
+  x: number;
+  y: number;
+  scale: number;
+  // Degrees, clockwise
+  rotation: number;
+}
+
+export interface TextLayer extends LayerTransform {
+  type: 'text';
+  text: string;
+  color: string;
+  font: StoryFont;
+  // cqw at scale 1
+  size: number;
+  // Draws the text on a solid pill, for legibility over photos
+  background: boolean;
+}
+
+export interface StickerLayer extends LayerTransform {
+  type: 'sticker';
+  kind: 'emoji' | 'mention' | 'location';
+  value: string;
+  // Profile of a mention
+  userId?: string;
+}
+
+export interface BrushStroke {
+  color: string;
+  // cqw
+  width: number;
+  // [x, y] fractions, in drawing order
+  points: [number, number][];
+}
+
+export interface DrawingLayer {
+  id: string;
+  type: 'drawing';
+  strokes: BrushStroke[];
+}
+
+export type TransformableLayer = TextLayer | StickerLayer;
+
+export type StoryLayer = TransformableLayer | DrawingLayer;
+
+export interface StoryLayerDocument {
+  version: number;
+  layers: StoryLayer[];
+}
+
+export const MIN_LAYER_SCALE = 0.3;
+export const MAX_LAYER_SCALE = 5;
+
+const createLayerId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTextLayer = (text = '', color = '#ffffff'): TextLayer => ({
+  id: createLayerId(),
+  type: 'text',
+  text,
+  color,
+  font: 'classic',
+  size: 7,
+  background: false,
+  x: 0.5,
+  y: 0.4,
+  scale: 1,
+  rotation: 0,
+});
+
+export const createStickerLayer = (kind: StickerLayer['kind'], value: string, userId?: string): StickerLayer => ({
+  id: createLayerId(),
+  type: 'sticker',
+  kind,
+  value,
+  userId,
+  x: 0.5,
+  y: 0.5,
+  scale: 1,
+  rotation: 0,
+});
+
+export const createDrawingLayer = (): DrawingLayer => ({
+  id: createLayerId(),
+  type: 'drawing',
+  strokes: [],
+});
+
+export const isTransformableLayer = (layer: StoryLayer): layer is TransformableLayer => layer.type !== 'drawing';
+
+export const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_LAYER_SCALE), MAX_LAYER_SCALE);
+
+export const clampPosition = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Empty text boxes and drawings are dropped before saving
+export const getVisibleLayers = (layers: StoryLayer[]) =>
+  layers.filter(layer =>
+    layer.type === 'text' ? layer.text.trim().length > 0
+      : layer.type === 'drawing' ? layer.strokes.length > 0
+      : true
+  );
+
+export const toLayerDocument = (layers: StoryLayer[]): StoryLayerDocument | null => {
+  const visible = getVisibleLayers(layers);
+  return visible.length > 0 ? { version: STORY_LAYERS_VERSION, layers: visible } : null;
+};
+
+// Texts of the canvas, saved in stories.content for search, notifications and previews
+export const getLayersText = (layers: StoryLayer[]) =>
+  getVisibleLayers(layers)
+    .filter((layer): layer is TextLayer => layer.type === 'text')
+    .map(layer => layer.text.trim())
+    .join(' ');
+
+const STICKER_LAYER_KINDS: StickerLayer['kind'][] = ['emoji', 'mention', 'location'];
+
+type UnknownLayer = { [key: string]: unknown };
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const hasLayerTransform = (layer: UnknownLayer) =>
+  typeof layer.id === 'string' &&
+  isFiniteNumber(layer.x) &&
+  isFiniteNumber(layer.y) &&
+  isFiniteNumber(layer.scale) &&
+  isFiniteNumber(layer.rotation);
+
+const isBrushStroke = (value: unknown): value is BrushStroke => {
+  if (!value || typeof value !== 'object') return false;
+  const stroke = value as UnknownLayer;
+  return typeof stroke.color === 'string' &&
+    isFiniteNumber(stroke.width) &&
+    Array.isArray(stroke.points) &&
+    stroke.points.every(point =>
+      Array.isArray(point) && point.length === 2 && isFiniteNumber(point[0]) && isFiniteNumber(point[1])
+    );
+};
+
+// Layers come from stories.layers as written by any client, each one needs the fields it is drawn with
+const isStoryLayer = (value: unknown): value is StoryLayer => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const layer = value as UnknownLayer;
+
+  switch (layer.type) {
+    case 'text':
+      return hasLayerTransform(layer) &&
+        typeof layer.text === 'string' &&
+        typeof layer.color === 'string' &&
+        typeof layer.font === 'string' && layer.font in STORY_FONTS &&
+        isFiniteNumber(layer.size) &&
+        typeof layer.background === 'boolean';
+    case 'sticker':
+      return hasLayerTransform(layer) &&
+        STICKER_LAYER_KINDS.includes(layer.kind as StickerLayer['kind']) &&
+        typeof layer.value === 'string' &&
+        (layer.userId === undefined || typeof layer.userId === 'string');
+    case 'drawing':
+      return typeof layer.id === 'string' && Array.isArray(layer.strokes) && layer.strokes.every(isBrushStroke);
+    default:
+      return false;
+  }
+};
+
+// Invalid layers are dropped; a document left without layers falls back to the story's content
+export const parseLayerDocument = (value: Json | null | undefined): StoryLayerDocument | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || !Array.isArray(value.layers)) return null;
+
+  const layers = (value.layers as unknown[]).filter(isStoryLayer);
+  if (layers.length === 0) return null;
+
+  return {
+    version: isFiniteNumber(value.version) ? value.version : STORY_LAYERS_VERSION,
+    layers,
+  };
+};
+
+export const getStickerLayerLabel = (layer: StickerLayer) => {
+  if (layer.kind === 'mention') return `@${layer.value}`;
+  if (layer.kind === 'location') return `📍 ${layer.value}`;
+  return layer.value;
+};
+
+// Text drawn on a solid background of its own color needs the opposite color
+export const getContrastColor = (color: string) => {
+  const hex = color.replace('#', '');
+  if (hex.length !== 6) return '#000000';
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return r * 0.299 + g * 0.587 + b * 0.114 > 150 ? '#000000' : '#ffffff';
+};
+
+// SVG path of a stroke in a 100x100 viewBox. A single tap is drawn as a dot
+export const getStrokePath = (stroke: BrushStroke) => {
+  const points = stroke.points.length === 1 ? [stroke.points[0], stroke.points[0]] : stroke.points;
+  return points
+    .map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${(x * 100).toFixed(2)} ${(y * 100).toFixed(2)}`)
+    .join(' ');
+};
@@ -0,0 +1,27 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Replies and quick reactions to a story are sent to its author as direct messages.
+// send_story_reply finds or creates the 1-on-1 conversation and attaches the story
+
+export type StoryMessageType = 'story_reply' | 'story_reaction';
+
+export const STORY_QUICK_REACTIONS = ['😂', '😮', '😍', '😢', '👏', '🔥', '🎉', '💯'];
+
+// Same limit as send_story_reply
+export const STORY_REPLY_MAX_LENGTH = 500;
+
+// Resolves to the conversation id
+export const sendStoryReply = async (storyId: string, content: string, isReaction = false) => {
+  const { data, error } = await supabase.rpc('send_story_reply', {
+    p_story_id: storyId,
+    p_content: content.trim(),
+    p_is_reaction: isReaction,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Also true for replies whose story was deleted, which clears story_id
+export const isStoryMessage = (message: { message_type?: string | null; story_id?: string | null }) =>
+  !!message.story_id || message.message_type === 'story_reply' || message.message_type === 'story_reaction';
@@ -0,0 +1,175 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Tables } from '@/integrations/supabase/types';
+
+// Interactive stickers placed on a story. The sticker content lives in story_stickers.data
+// and viewers answer through respond_to_story_sticker, once per sticker. The right answer
+// of a quiz is kept apart in story_quiz_answers, which only the story author can read
+
+export type StickerType = 'poll' | 'question' | 'slider' | 'quiz';
+
+export interface PollStickerData {
+  question: string;
+  options: [string, string];
+}
+
+export interface QuestionStickerData {
+  prompt: string;
+}
+
+export interface SliderStickerData {
+  prompt: string;
+  emoji: string;
+}
+
+export interface QuizStickerData {
+  question: string;
+  options: string[];
+  // Set on drafts and, for the story author, by withQuizAnswers
+  correct_index?: number;
+}
+
+interface StickerDataByType {
+  poll: PollStickerData;
+  question: QuestionStickerData;
+  slider: SliderStickerData;
+  quiz: QuizStickerData;
+}
+
+export type StickerContent = {
+  [T in StickerType]: { type: T; data: StickerDataByType[T] };
+}[StickerType];
+
+// A sticker still being placed in the story creator
+export type StickerDraft = StickerContent & {
+  key: string;
+  position_x: number;
+  position_y: number;
+};
+
+export type StorySticker = StickerContent & Omit<Tables<'story_stickers'>, 'type' | 'data'>;
+
+export type StickerResponse = Tables<'story_sticker_responses'>;
+
+export type StickerTotal = Database['public']['Functions']['get_story_sticker_totals']['Returns'][number];
+
+export const STICKER_TYPE_LABELS: Record<StickerType, string> = {
+  poll: 'Enquete',
+  question: 'Pergunta',
+  slider: 'Slider',
+  quiz: 'Quiz',
+};
+
+export const STICKER_TEXT_MAX_LENGTH = 60;
+export const STICKER_OPTION_MAX_LENGTH = 24;
+export const STICKER_ANSWER_MAX_LENGTH = 200;
+export const QUIZ_MAX_OPTIONS = 4;
+export const SLIDER_EMOJIS = ['😍', '😂', '🔥', '😮', '😢', '👏'];
+
+const DEFAULT_STICKER_DATA: StickerDataByType = {
+  poll: { question: '', options: ['Sim', 'Não'] },
+  question: { prompt: 'Me faça uma pergunta' },
+  slider: { prompt: '', emoji: SLIDER_EMOJIS[0] },
+  quiz: { question: '', options: ['', ''], correct_index: 0 },
+};
+
+export const createStickerDraft = (type: StickerType): StickerDraft => ({
+  key: `${type}-${Date.now()}`,
+  type,
+  data: structuredClone(DEFAULT_STICKER_DATA[type]),
+  position_x: 0.5,
+  position_y: 0.6,
+} as StickerDraft);
+
+export const isStickerContentValid = (sticker: StickerContent) => {
+  switch (sticker.type) {
+    case 'poll':
+      return sticker.data.options.every(option => option.trim().length > 0);
+    case 'question':
+      return sticker.data.prompt.trim().length > 0;
+    case 'slider':
+      return sticker.data.emoji.length > 0;
+    case 'quiz':
+      return sticker.data.question.trim().length > 0
+        && sticker.data.options.length >= 2
+        && sticker.data.options.every(option => option.trim().length > 0)
+        && sticker.data.correct_index !== undefined
+        && sticker.data.correct_index < sticker.data.options.length;
+  }
+};
+
+// Rows for story_stickers once the story exists, and for story_quiz_answers. The ids are
+// picked here so each answer can point at its sticker
+export const toStickerRows = (storyId: string, stickers: StickerDraft[]) => {
+  const stickerRows = stickers.map(({ type, data, position_x, position_y }) => {
+    const content: Record<string, unknown> = { ...data };
+    delete content.correct_index;
+
+    return {
+      id: crypto.randomUUID(),
+      story_id: storyId,
+      type,
+      data: content as Database['public']['Tables']['story_stickers']['Insert']['data'],
+      position_x,
+      position_y,
+    };
+  });
+
+  const quizAnswerRows = stickers.flatMap((sticker, index) =>
+    sticker.type === 'quiz' ? [{ sticker_id: stickerRows[index].id, correct_index: sticker.data.correct_index ?? 0 }] : []
+  );
+
+  return { stickerRows, quizAnswerRows };
+};
+
+// Adds the right answers to the quizzes. Only the story author gets any rows back
+export const withQuizAnswers = async (stickers: StorySticker[]) => {
+  const quizIds = stickers.filter(sticker => sticker.type === 'quiz').map(sticker => sticker.id);
+  if (quizIds.length === 0) return stickers;
+
+  const { data, error } = await supabase
+    .from('story_quiz_answers')
+    .select('sticker_id, correct_index')
+    .in('sticker_id', quizIds);
+
+  if (error) throw error;
+  if (!data?.length) return stickers;
+
+  const answers = new Map(data.map(answer => [answer.sticker_id, answer.correct_index]));
+  return stickers.map(sticker =>
+    sticker.type === 'quiz' && answers.has(sticker.id)
+      ? { ...sticker, data: { ...sticker.data, correct_index: answers.get(sticker.id) } }
+      : sticker
+  );
+};
+
+export const respondToSticker = async (
+  stickerId: string,
+  answer: { optionIndex?: number; sliderValue?: number; text?: string }
+) => {
+  const { data, error } = await supabase.rpc('respond_to_story_sticker', {
+    p_sticker_id: stickerId,
+    p_option_index: answer.optionIndex,
+    p_slider_value: answer.sliderValue,
+    p_answer_text: answer.text,
+  });
+  if (error) throw error;
+  // Whether a quiz answer is right, null for the other stickers
+  return data;
+};
+
+// Vote counts of a poll or quiz, in option order
+export const getOptionCounts = (sticker: StorySticker, totals: StickerTotal[]) => {
+  const optionCount = sticker.type === 'poll' || sticker.type === 'quiz' ? sticker.data.options.length : 0;
+  return Array.from({ length: optionCount }, (_, index) =>
+    totals
+      .filter(total => total.sticker_id === sticker.id && total.option_index === index)
+      .reduce((sum, total) => sum + Number(total.response_count), 0)
+  );
+};
+
+export const getSliderAverage = (sticker: StorySticker, totals: StickerTotal[]) => {
+  const total = totals.find(row => row.sticker_id === sticker.id);
+  return total ? { average: total.average_value, count: Number(total.response_count) } : null;
+};
+
+export const getPercent = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
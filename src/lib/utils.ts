@@ -22,3 +22,9 @@ export function isVideoUrl(url: string | null | undefined): boolean {
     return /\.(mp4|webm|mov|m4v|ogg)$/i.test(url.toLowerCase());
   }
 }
+
+// Hashtags are stored lowercased (see extract_hashtags); purely numeric tags like #1 are not links
+export function normalizeHashtag(tag: string): string | null {
+  const name = tag.replace(/^#/, '').toLowerCase();
+  return /[^\d_]/.test(name) ? name : null;
+}
@@ -3,9 +3,9 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, Shield, Users, Trash2, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, Shield, ShieldCheck, ShieldOff, Users, Trash2, AlertTriangle, History } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import {
   AlertDialog,
@@ -18,6 +18,12 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { Database } from '@/integrations/supabase/types';
+import { ModerationQueue } from '@/components/ModerationQueue';
+import { LegacyClaimsQueue } from '@/components/LegacyClaimsQueue';
+import { MODERATION_ACTION_LABELS, REPORT_TARGET_LABELS, ModerationAction, ReportTargetType } from '@/lib/moderation';
+
+type AppRole = Database['public']['Enums']['app_role'];
 
 interface Profile {
   id: string;
@@ -26,22 +32,70 @@ interface Profile {
   created_at: string;
 }
 
+interface AuditLogEntry {
+  id: string;
+  action: string;
+  target_type: string | null;
+  target_id: string | null;
+  details: Database['public']['Tables']['admin_audit_log']['Row']['details'];
+  created_at: string;
+  actor: {
+    display_name: string;
+    username: string;
+  } | null;
+}
+
+const ROLE_LABELS: Record<AppRole, string> = {
+  admin: 'Admin',
+  moderator: 'Moderador',
+};
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  delete_user: 'Excluiu usuário',
+  delete_all_users: 'Excluiu todos os usuários',
+  grant_role: 'Concedeu papel',
+  revoke_role: 'Removeu papel',
+  resolve_report: 'Resolveu denúncia',
+  set_public_chat_slow_mode: 'Alterou o modo lento do chat público',
+  delete_public_chat_message: 'Apagou mensagem do chat público',
+  update_room_listing: 'Alterou canal no diretório',
+  approve_legacy_claim: 'Aprovou conta antiga',
+  reject_legacy_claim: 'Recusou conta antiga',
+};
+
+const describeAuditEntry = (entry: AuditLogEntry): string => {
+  const details = (entry.details || {}) as Record<string, unknown>;
+  const label = AUDIT_ACTION_LABELS[entry.action] || entry.action;
+
+  if (entry.action === 'grant_role' || entry.action === 'revoke_role') {
+    return `${label}: ${ROLE_LABELS[details.role as AppRole] || details.role}`;
+  }
+  if ((entry.action === 'delete_user' || entry.action === 'approve_legacy_claim' || entry.action === 'reject_legacy_claim') && details.username) {
+    return `${label}: ${details.username}`;
+  }
+  if (entry.action === 'resolve_report') {
+    const target = REPORT_TARGET_LABELS[entry.target_type as ReportTargetType] || entry.target_type;
+    return `${label} (${target}): ${MODERATION_ACTION_LABELS[details.action as ModerationAction] || details.action}`;
+  }
+  if (entry.action === 'set_public_chat_slow_mode') {
+    return Number(details.seconds) > 0 ? `${label}: ${details.seconds}s` : `${label}: desligado`;
+  }
+  if (entry.action === 'delete_all_users') {
+    return `${label} (${details.deleted_count ?? 0})`;
+  }
+  return label;
+};
+
 const Admin = () => {
-  const [password, setPassword] = useState('');
   const [users, setUsers] = useState<Profile[]>([]);
+  const [userRoles, setUserRoles] = useState<Record<string, AppRole[]>>({});
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(false);
-  const { adminLogin, isAdmin, logout } = useAuth();
+  const { user: currentUser, isAdmin, isModerator, rolesLoading, logout } = useAuth();
+  const isStaff = isAdmin || isModerator;
   const navigate = useNavigate();
 
-  const handleAdminLogin = (e: React.FormEvent) => {
-    e.preventDefault();
-    const success = adminLogin(password);
-    if (success) {
-      loadUsers();
-    }
-  };
-
   const loadUsers = async () => {
     setLoadingUsers(true);
     try {
@@ -60,6 +114,17 @@ const Admin = () => {
       }
 
       setUsers(data || []);
+
+      // Só admins enxergam os papéis de todos; moderadores recebem apenas os próprios (RLS)
+      const { data: rolesData } = await supabase
+        .from('user_roles')
+        .select('user_id, role');
+
+      const rolesByUser: Record<string, AppRole[]> = {};
+      (rolesData || []).forEach(({ user_id, role }) => {
+        rolesByUser[user_id] = [...(rolesByUser[user_id] || []), role];
+      });
+      setUserRoles(rolesByUser);
     } catch (error) {
       toast({
         title: "Erro ao carregar usuários",
@@ -71,13 +136,36 @@ const Admin = () => {
     }
   };
 
+  const loadAuditLog = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('admin_audit_log')
+        .select(`
+          id,
+          action,
+          target_type,
+          target_id,
+          details,
+          created_at,
+          actor:profiles!admin_audit_log_actor_id_fkey (
+            display_name,
+            username
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setAuditLog((data as AuditLogEntry[]) || []);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    }
+  };
+
   const deleteUser = async (userId: string, displayName: string) => {
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .delete()
-        .eq('id', userId);
+      const { error } = await supabase.rpc('admin_delete_user', { p_user_id: userId });
 
       if (error) {
         toast({
@@ -95,6 +183,7 @@ const Admin = () => {
 
       // Reload users list
       loadUsers();
+      loadAuditLog();
     } catch (error) {
       toast({
         title: "Erro ao deletar usuário",
@@ -109,10 +198,8 @@ const Admin = () => {
   const deleteAllUsers = async () => {
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .delete()
-        .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all
+      // Contas de admins e moderadores são preservadas pelo banco
+      const { data: deletedCount, error } = await supabase.rpc('admin_delete_all_users');
 
       if (error) {
         toast({
@@ -124,12 +211,13 @@ const Admin = () => {
       }
 
       toast({
-        title: "Todos os usuários deletados",
-        description: "O banco de dados foi limpo completamente",
+        title: "Usuários deletados",
+        description: `${deletedCount ?? 0} usuários foram removidos do sistema`,
       });
 
       // Reload users list
       loadUsers();
+      loadAuditLog();
     } catch (error) {
       toast({
         title: "Erro ao deletar usuários",
@@ -141,18 +229,63 @@ const Admin = () => {
     }
   };
 
+  const setUserRole = async (userId: string, role: AppRole, granted: boolean) => {
+    setLoading(true);
+    try {
+      const { error } = await supabase.rpc('admin_set_user_role', {
+        p_user_id: userId,
+        p_role: role,
+        p_granted: granted,
+      });
+
+      if (error) {
+        toast({
+          title: "Erro ao alterar papel",
+          description: "Tente novamente",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: granted ? "Papel concedido" : "Papel removido",
+        description: ROLE_LABELS[role],
+      });
+
+      loadUsers();
+      loadAuditLog();
+    } catch (error) {
+      toast({
+        title: "Erro ao alterar papel",
+        description: "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleLogout = async () => {
     await logout();
     navigate('/login');
   };
 
   useEffect(() => {
-    if (isAdmin) {
+    if (isStaff) {
       loadUsers();
+      loadAuditLog();
     }
-  }, [isAdmin]);
+  }, [isStaff]);
+
+  if (rolesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
 
-  if (!isAdmin) {
+  if (!isStaff) {
     return (
       <div className="min-h-screen bg-background mobile-container py-8 flex flex-col justify-center">
         <div className="text-center mb-8">
@@ -163,55 +296,17 @@ const Admin = () => {
             Acesso Administrativo
           </h1>
           <p className="text-muted-foreground mt-2">
-            Digite a senha administrativa
+            Sua conta não tem permissão de administrador ou moderador
           </p>
         </div>
 
-        <Card className="w-full card-shadow border-0">
-          <CardHeader className="text-center pb-6">
-            <CardTitle className="text-xl">Painel Administrativo</CardTitle>
-            <CardDescription>
-              Acesso restrito - senha obrigatória
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleAdminLogin} className="space-y-6">
-              <div>
-                <Input
-                  type="password"
-                  placeholder="Senha administrativa"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="mobile-input"
-                  required
-                />
-              </div>
-              
-              <Button
-                type="submit"
-                className="w-full magic-button"
-                disabled={loading}
-              >
-                {loading ? (
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                ) : (
-                  <>
-                    <Shield className="w-4 h-4 mr-2" />
-                    Acessar Painel
-                  </>
-                )}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-        
         <Button
           variant="ghost"
-          onClick={() => navigate('/login')}
-          className="mt-4 self-start"
+          onClick={() => navigate('/feed')}
+          className="mt-4 self-center"
         >
           <ArrowLeft className="w-4 h-4 mr-2" />
-          Voltar
+          Voltar ao Feed
         </Button>
       </div>
     );
@@ -227,9 +322,14 @@ const Admin = () => {
               <div className="w-10 h-10 rounded-full bg-destructive/10 flex items-center justify-center">
                 <Shield className="w-5 h-5 text-destructive" />
               </div>
-              <h1 className="text-xl font-bold text-destructive">
-                Painel Admin
-              </h1>
+              <div>
+                <h1 className="text-xl font-bold text-destructive">
+                  Painel Admin
+                </h1>
+                <p className="text-xs text-muted-foreground">
+                  {isAdmin ? ROLE_LABELS.admin : ROLE_LABELS.moderator}
+                </p>
+              </div>
             </div>
             
             <Button
@@ -259,6 +359,12 @@ const Admin = () => {
           </CardContent>
         </Card>
 
+        {/* Moderation Queue */}
+        <ModerationQueue onResolved={loadAuditLog} />
+
+        {/* Legacy Account Claims */}
+        <LegacyClaimsQueue onReviewed={() => { loadAuditLog(); loadUsers(); }} />
+
         {/* Users List */}
         <Card className="card-shadow border-0">
           <CardHeader>
@@ -271,6 +377,7 @@ const Admin = () => {
             </CardDescription>
           </CardHeader>
           <CardContent>
+            {isAdmin && (
             <div className="mb-4">
               <AlertDialog>
                 <AlertDialogTrigger asChild>
@@ -290,8 +397,8 @@ const Admin = () => {
                       <span>Deletar TODOS os usuários?</span>
                     </AlertDialogTitle>
                     <AlertDialogDescription>
-                      Esta ação irá <strong>DELETAR PERMANENTEMENTE</strong> todos os {users.length} usuários cadastrados. 
-                      Esta ação não pode ser desfeita!
+                      Esta ação irá <strong>DELETAR PERMANENTEMENTE</strong> todos os usuários cadastrados, 
+                      exceto administradores e moderadores. Esta ação não pode ser desfeita!
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
@@ -306,6 +413,7 @@ const Admin = () => {
                 </AlertDialogContent>
               </AlertDialog>
             </div>
+            )}
 
             {loadingUsers ? (
               <div className="flex justify-center py-8">
@@ -330,13 +438,59 @@ const Admin = () => {
                         </span>
                       </div>
                       <div>
-                        <h4 className="font-medium">{user.display_name}</h4>
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-medium">{user.display_name}</h4>
+                          {isAdmin && (userRoles[user.id] || []).map(role => (
+                            <Badge key={role} variant={role === 'admin' ? 'destructive' : 'secondary'}>
+                              {ROLE_LABELS[role]}
+                            </Badge>
+                          ))}
+                        </div>
                         <p className="text-sm text-muted-foreground">
                           {user.username} • {new Date(user.created_at).toLocaleDateString('pt-BR')}
                         </p>
                       </div>
                     </div>
                     
+                    {isAdmin && user.id !== currentUser?.id && (
+                    <div className="flex items-center">
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={loading}
+                          title={userRoles[user.id]?.includes('moderator') ? 'Remover moderador' : 'Tornar moderador'}
+                        >
+                          {userRoles[user.id]?.includes('moderator') ? (
+                            <ShieldOff className="w-4 h-4" />
+                          ) : (
+                            <ShieldCheck className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>
+                            {userRoles[user.id]?.includes('moderator') ? 'Remover moderador?' : 'Tornar moderador?'}
+                          </AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {userRoles[user.id]?.includes('moderator')
+                              ? <><strong>{user.display_name}</strong> perderá acesso às ferramentas de moderação.</>
+                              : <><strong>{user.display_name}</strong> terá acesso ao painel e às ferramentas de moderação.</>}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => setUserRole(user.id, 'moderator', !userRoles[user.id]?.includes('moderator'))}
+                          >
+                            Confirmar
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
                         <Button
@@ -369,6 +523,47 @@ const Admin = () => {
                         </AlertDialogFooter>
                       </AlertDialogContent>
                     </AlertDialog>
+                    </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Audit Log */}
+        <Card className="mt-6 card-shadow border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <History className="w-5 h-5" />
+              <span>Registro de Ações</span>
+            </CardTitle>
+            <CardDescription>
+              Últimas ações administrativas
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {auditLog.length === 0 ? (
+              <p className="text-center py-4 text-sm text-muted-foreground">
+                Nenhuma ação registrada
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {auditLog.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex items-start justify-between p-3 rounded-lg border border-border text-sm"
+                  >
+                    <div>
+                      <p className="font-medium">{describeAuditEntry(entry)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        por {entry.actor?.display_name || 'usuário removido'}
+                      </p>
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap ml-2">
+                      {new Date(entry.created_at).toLocaleString('pt-BR')}
+                    </span>
                   </div>
                 ))}
               </div>
@@ -0,0 +1,359 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, Compass, Search, X, Users, Pin, Star, MoreVertical, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import MobileLayout from '@/components/MobileLayout';
+import { CreateChatModal } from '@/components/CreateChatModal';
+import { useAuth } from '@/hooks/useAuth';
+import { useChannelDirectory, RoomListingChanges } from '@/hooks/useChannelDirectory';
+import { isRoomCategory, PublicRoom, RoomCategory, ROOM_CATEGORIES, ROOM_CATEGORY_LABELS } from '@/lib/rooms';
+import { hasConversationPermission, toConversationRole } from '@/lib/conversationRoles';
+
+const describeActivity = (room: PublicRoom) => {
+  if (!room.last_message_at) return 'Sem mensagens ainda';
+  if (room.messages_last_day > 0) {
+    return `${room.messages_last_day} mensage${room.messages_last_day === 1 ? 'm' : 'ns'} hoje`;
+  }
+  return `Ativo ${formatDistanceToNow(new Date(room.last_message_at), { addSuffix: true, locale: ptBR })}`;
+};
+
+interface RoomCardProps {
+  room: PublicRoom;
+  canManage: boolean;
+  joining: boolean;
+  onOpen: () => void;
+  onManage: () => void;
+}
+
+const RoomCard = ({ room, canManage, joining, onOpen, onManage }: RoomCardProps) => (
+  <Card className="card-shadow border-0 cursor-pointer hover:bg-muted/30 transition-colors" onClick={onOpen}>
+    <CardContent className="p-4">
+      <div className="flex items-start gap-3">
+        <Avatar className="w-12 h-12 flex-shrink-0">
+          <AvatarImage src={room.photo_url || ''} />
+          <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white">
+            <Users className="w-5 h-5" />
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1.5">
+            {room.pinned_at && <Pin className="w-3.5 h-3.5 text-primary flex-shrink-0" />}
+            {room.is_featured && <Star className="w-3.5 h-3.5 text-yellow-500 fill-yellow-500 flex-shrink-0" />}
+            <h3 className="font-semibold truncate">{room.name || 'Chat Público'}</h3>
+          </div>
+          {room.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2">{room.description}</p>
+          )}
+          <div className="flex items-center flex-wrap gap-x-2 gap-y-1 mt-1 text-xs text-muted-foreground">
+            {isRoomCategory(room.category) && (
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                {ROOM_CATEGORY_LABELS[room.category]}
+              </Badge>
+            )}
+            <span>{room.member_count} membro{room.member_count !== 1 ? 's' : ''}</span>
+            <span>·</span>
+            <span>{describeActivity(room)}</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Button
+            size="sm"
+            variant={room.is_member ? 'outline' : 'default'}
+            className="rounded-full h-8"
+            disabled={joining}
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpen();
+            }}
+          >
+            {joining ? 'Entrando...' : room.is_member ? 'Abrir' : 'Entrar'}
+          </Button>
+          {canManage && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-8 h-8 p-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                onManage();
+              }}
+            >
+              <MoreVertical className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+interface RoomListingSheetProps {
+  room: PublicRoom | null;
+  onClose: () => void;
+  onChange: (roomId: string, changes: RoomListingChanges) => void;
+}
+
+const RoomListingSheet = ({ room, onClose, onChange }: RoomListingSheetProps) => (
+  <Sheet open={!!room} onOpenChange={(open) => !open && onClose()}>
+    <SheetContent side="bottom" className="h-auto rounded-t-3xl border-0 bg-background p-0">
+      {room && (
+        <div className="p-6 space-y-5">
+          <SheetHeader>
+            <div className="flex items-center justify-center">
+              <div className="w-10 h-1 bg-muted-foreground/30 rounded-full" />
+            </div>
+            <SheetTitle className="text-center text-lg font-semibold mt-3">
+              {room.name || 'Chat Público'}
+            </SheetTitle>
+            <SheetDescription className="text-center">
+              Como o canal aparece no diretório
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="room-featured" className="font-medium">Em destaque</Label>
+              <p className="text-xs text-muted-foreground">Aparece na faixa de destaques</p>
+            </div>
+            <Switch
+              id="room-featured"
+              checked={room.is_featured}
+              onCheckedChange={(checked) => onChange(room.id, { isFeatured: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="room-pinned" className="font-medium">Fixar no topo</Label>
+              <p className="text-xs text-muted-foreground">Aparece antes dos outros canais</p>
+            </div>
+            <Switch
+              id="room-pinned"
+              checked={!!room.pinned_at}
+              onCheckedChange={(checked) => onChange(room.id, { isPinned: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-medium">Categoria</Label>
+            <div className="flex flex-wrap gap-2">
+              {ROOM_CATEGORIES.map(category => (
+                <Badge
+                  key={category}
+                  variant={room.category === category ? 'default' : 'secondary'}
+                  className="cursor-pointer"
+                  onClick={() => onChange(room.id, { category })}
+                >
+                  {ROOM_CATEGORY_LABELS[category]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </SheetContent>
+  </Sheet>
+);
+
+const Channels = () => {
+  const navigate = useNavigate();
+  const { isAdmin, isModerator } = useAuth();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [category, setCategory] = useState<RoomCategory | null>(null);
+  const [managedRoomId, setManagedRoomId] = useState<string | null>(null);
+  const [showCreateChat, setShowCreateChat] = useState(false);
+  const { rooms, loading, loadingMore, hasMore, loadMore, joinRoom, joiningId, updateListing } =
+    useChannelDirectory(debouncedQuery, category);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const isStaff = isAdmin || isModerator;
+  const featuredRooms = !debouncedQuery.trim() ? rooms.filter(room => room.is_featured) : [];
+  const managedRoom = rooms.find(room => room.id === managedRoomId) || null;
+
+  const openRoom = async (room: PublicRoom) => {
+    if (!room.is_member && !(await joinRoom(room.id))) return;
+    navigate(`/messages?chat=${room.id}`);
+  };
+
+  return (
+    <MobileLayout>
+      <div className="min-h-screen">
+        {/* Header */}
+        <div className="sticky top-0 z-50 bg-background border-b border-border">
+          <div className="mobile-container py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate(-1)}
+                  className="p-2"
+                >
+                  <ArrowLeft className="w-5 h-5" />
+                </Button>
+                <div className="flex items-center space-x-2">
+                  <Compass className="w-5 h-5 text-primary" />
+                  <h1 className="text-lg font-semibold">Canais</h1>
+                </div>
+              </div>
+              <Button
+                onClick={() => setShowCreateChat(true)}
+                size="sm"
+                className="w-9 h-9 p-0 rounded-full bg-gradient-to-r from-secondary to-accent hover:from-secondary/90 hover:to-accent/90"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="mobile-container py-6 space-y-4">
+          {/* Search */}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Buscar canais por nome ou descrição..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 pr-10 rounded-xl border-border"
+            />
+            {searchQuery && (
+              <button
+                onClick={() => setSearchQuery('')}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {/* Categories */}
+          <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1">
+            <Badge
+              variant={category === null ? 'default' : 'secondary'}
+              className="cursor-pointer whitespace-nowrap"
+              onClick={() => setCategory(null)}
+            >
+              Todos
+            </Badge>
+            {ROOM_CATEGORIES.map(value => (
+              <Badge
+                key={value}
+                variant={category === value ? 'default' : 'secondary'}
+                className="cursor-pointer whitespace-nowrap"
+                onClick={() => setCategory(category === value ? null : value)}
+              >
+                {ROOM_CATEGORY_LABELS[value]}
+              </Badge>
+            ))}
+          </div>
+
+          {/* Featured */}
+          {featuredRooms.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-semibold text-muted-foreground">Em destaque</h2>
+              <div className="flex gap-3 overflow-x-auto pb-1">
+                {featuredRooms.map(room => (
+                  <button
+                    key={room.id}
+                    onClick={() => openRoom(room)}
+                    className="flex-shrink-0 w-32 rounded-2xl bg-gradient-to-br from-primary/10 to-accent/10 p-3 text-left hover:from-primary/20 hover:to-accent/20 transition-colors"
+                  >
+                    <Avatar className="w-12 h-12 mb-2">
+                      <AvatarImage src={room.photo_url || ''} />
+                      <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-white">
+                        <Users className="w-5 h-5" />
+                      </AvatarFallback>
+                    </Avatar>
+                    <p className="text-sm font-semibold truncate">{room.name || 'Chat Público'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {room.member_count} membro{room.member_count !== 1 ? 's' : ''}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Directory */}
+          <div className="space-y-2">
+            {loading ? (
+              [...Array(4)].map((_, i) => (
+                <Card key={i} className="card-shadow border-0">
+                  <CardContent className="p-4">
+                    <div className="flex items-center gap-3 animate-pulse">
+                      <div className="w-12 h-12 bg-muted rounded-full" />
+                      <div className="flex-1 space-y-2">
+                        <div className="h-4 bg-muted rounded w-1/2" />
+                        <div className="h-3 bg-muted rounded w-3/4" />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            ) : rooms.length === 0 ? (
+              <div className="text-center py-12">
+                <Compass className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                <p className="text-muted-foreground">
+                  {debouncedQuery.trim() || category ? 'Nenhum canal encontrado' : 'Nenhum canal público ainda'}
+                </p>
+              </div>
+            ) : (
+              rooms.map(room => (
+                <RoomCard
+                  key={room.id}
+                  room={room}
+                  canManage={hasConversationPermission(toConversationRole(room.my_role), 'edit_info') || isStaff}
+                  joining={joiningId === room.id}
+                  onOpen={() => openRoom(room)}
+                  onManage={() => setManagedRoomId(room.id)}
+                />
+              ))
+            )}
+
+            {hasMore && !loading && (
+              <Button
+                variant="outline"
+                className="w-full rounded-xl"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Carregando...' : 'Carregar mais'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <RoomListingSheet
+        room={managedRoom}
+        onClose={() => setManagedRoomId(null)}
+        onChange={updateListing}
+      />
+
+      <CreateChatModal
+        isOpen={showCreateChat}
+        onClose={() => setShowCreateChat(false)}
+        onChatCreated={(chatId) => navigate(`/messages?chat=${chatId}`)}
+      />
+    </MobileLayout>
+  );
+};
+
+export default Channels;
@@ -4,14 +4,25 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Search, TrendingUp, Hash, MapPin, Users, UserPlus, UserMinus, MessageCircle } from 'lucide-react';
+import { Search, TrendingUp, Hash, MapPin, Users, UserPlus, UserMinus, MessageCircle, Clock, History, X } from 'lucide-react';
 import MobileLayout from '@/components/MobileLayout';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { useFastChat } from '@/hooks/useFastChat';
+import { useBlockedUsers } from '@/hooks/useBlockedUsers';
+import { useFollowRequests } from '@/hooks/useFollowRequests';
 import { stripUserDigits } from '@/lib/utils';
+import SearchResults from '@/components/SearchResults';
+import TrendingHashtags from '@/components/TrendingHashtags';
+import {
+  MIN_SEARCH_LENGTH,
+  addRecentSearch,
+  clearRecentSearches,
+  getRecentSearches,
+  removeRecentSearch,
+} from '@/lib/search';
 
 interface Profile {
   id: string;
@@ -27,7 +38,11 @@ const Explore = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { startChat, creating } = useFastChat();
+  const { blockedEitherWayIds } = useBlockedUsers();
+  const { requestedIds, followUser, cancelFollowRequest } = useFollowRequests();
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [followedUsers, setFollowedUsers] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
@@ -40,6 +55,20 @@ const Explore = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    setRecentSearches(user ? getRecentSearches(user.id) : []);
+  }, [user]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const rememberSearch = (query: string) => {
+    if (!user || query.trim().length < MIN_SEARCH_LENGTH) return;
+    setRecentSearches(addRecentSearch(user.id, query));
+  };
+
   const fetchProfiles = async () => {
     try {
       const { data, error } = await supabase
@@ -87,7 +116,13 @@ const Explore = () => {
     try {
       const isFollowing = followedUsers.has(userId);
 
-      if (isFollowing) {
+      if (requestedIds.has(userId)) {
+        await cancelFollowRequest(userId);
+
+        toast({
+          title: "Solicitação cancelada",
+        });
+      } else if (isFollowing) {
         // Unfollow
         const { error } = await supabase
           .from('follows')
@@ -108,15 +143,16 @@ const Explore = () => {
           description: "Usuário removido da sua lista de seguidos",
         });
       } else {
-        // Follow
-        const { error } = await supabase
-          .from('follows')
-          .insert({
-            follower_id: user.id,
-            following_id: userId,
-          });
+        // Follow (private accounts receive a request instead)
+        const result = await followUser(userId);
 
-        if (error) throw error;
+        if (result === 'requested') {
+          toast({
+            title: "Solicitação enviada",
+            description: "Você poderá ver os posts quando o pedido for aceito",
+          });
+          return;
+        }
 
         setFollowedUsers(prev => new Set([...prev, userId]));
 
@@ -144,6 +180,8 @@ const Explore = () => {
   };
 
   const filteredProfiles = profiles.filter(profile =>
+    !blockedEitherWayIds.has(profile.id)
+  ).filter(profile =>
     profile.display_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     profile.username.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -165,15 +203,73 @@ const Explore = () => {
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
           <Input
-            placeholder="Buscar pessoas..."
+            placeholder="Buscar pessoas, posts e comentários..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10 rounded-xl border-border"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') rememberSearch(searchQuery);
+            }}
+            className="pl-10 pr-10 rounded-xl border-border"
           />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
         </div>
 
-        {/* Users Grid */}
-        {loading ? (
+        {/* Recent Searches */}
+        {!searchQuery && recentSearches.length > 0 && user && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-muted-foreground">Buscas recentes</h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setRecentSearches(clearRecentSearches(user.id))}
+                className="text-primary hover:text-primary/80 h-auto py-1"
+              >
+                Limpar
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {recentSearches.map((query) => (
+                <Badge
+                  key={query}
+                  variant="secondary"
+                  className="cursor-pointer pl-2 pr-1 py-1 gap-1"
+                  onClick={() => setSearchQuery(query)}
+                >
+                  <History className="w-3 h-3" />
+                  {query}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setRecentSearches(removeRecentSearch(user.id, query));
+                    }}
+                    className="ml-1 rounded-full hover:bg-muted-foreground/20 p-0.5"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Trending Hashtags */}
+        {!searchQuery && <TrendingHashtags />}
+
+        {/* Search Results */}
+        {debouncedQuery.trim().length >= MIN_SEARCH_LENGTH ? (
+          <SearchResults
+            query={debouncedQuery}
+            onResultOpen={() => rememberSearch(debouncedQuery)}
+          />
+        ) : loading ? (
           <div className="grid grid-cols-1 gap-4">
             {[...Array(6)].map((_, i) => (
               <Card key={i} className="card-shadow border-0 animate-pulse">
@@ -255,12 +351,12 @@ const Explore = () => {
                               {/* Follow Button */}
                               <Button
                                 size="sm"
-                                variant={followedUsers.has(profile.id) ? "outline" : "default"}
+                                variant={followedUsers.has(profile.id) || requestedIds.has(profile.id) ? "outline" : "default"}
                                 onClick={(e) => {
                                   e.stopPropagation();
                                   handleFollow(profile.id);
                                 }}
-                                className={followedUsers.has(profile.id) 
+                                className={followedUsers.has(profile.id) || requestedIds.has(profile.id)
                                   ? "border-primary text-primary hover:bg-primary/10" 
                                   : "magic-button"
                                 }
@@ -270,6 +366,11 @@ const Explore = () => {
                                     <UserMinus className="w-4 h-4 mr-1" />
                                     Seguindo
                                   </>
+                                ) : requestedIds.has(profile.id) ? (
+                                  <>
+                                    <Clock className="w-4 h-4 mr-1" />
+                                    Solicitado
+                                  </>
                                 ) : (
                                   <>
                                     <UserPlus className="w-4 h-4 mr-1" />
@@ -17,6 +17,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { stripUserDigits } from '@/lib/utils';
 import { useProfileNavigation } from '@/hooks/useProfileNavigation';
+import { useBlockedUsers } from '@/hooks/useBlockedUsers';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
 
 interface Post {
   id: string;
@@ -35,7 +37,7 @@ interface Post {
 }
 
 const Feed = () => {
-  const { user, logout, isAdmin } = useAuth();
+  const { user, logout, isAdmin, isModerator } = useAuth();
   const navigate = useNavigate();
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
@@ -43,99 +45,67 @@ const Feed = () => {
   const [likedPosts, setLikedPosts] = useState<Set<string>>(new Set());
   const [phoneOpen, setPhoneOpen] = useState(false);
   const { navigateToProfile } = useProfileNavigation();
+  const { isHidden } = useBlockedUsers();
 
   useEffect(() => {
     if (user) {
       fetchPosts();
       fetchLikedPosts();
-      const cleanup = setupRealtimeSubscriptions();
-      
-      return cleanup;
     }
   }, [user]);
 
-  const setupRealtimeSubscriptions = () => {
-    if (!user) return;
+  // Post likes changes for real-time updates
+  useRealtimeChanges(
+    user ? { table: 'post_likes', event: 'INSERT' } : null,
+    (payload) => {
+      const newLike = payload.new as { post_id: string; user_id: string };
+      console.log('New like received:', newLike);
+      
+      // Update local liked posts if this user liked it
+      if (newLike.user_id === user?.id) {
+        setLikedPosts(prev => new Set([...prev, newLike.post_id]));
+      }
+      
+      // Update likes count for the post
+      setPosts(prev => prev.map(post => 
+        post.id === newLike.post_id 
+          ? { ...post, likes_count: post.likes_count + 1 }
+          : post
+      ));
+    }
+  );
 
-    // Subscribe to post likes changes for real-time updates
-    const likesChannel = supabase
-      .channel('post-likes-realtime')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'post_likes',
-        },
-        (payload) => {
-          const newLike = payload.new as any;
-          console.log('New like received:', newLike);
-          
-          // Update local liked posts if this user liked it
-          if (newLike.user_id === user.id) {
-            setLikedPosts(prev => new Set([...prev, newLike.post_id]));
-          }
-          
-          // Update likes count for the post
-          setPosts(prev => prev.map(post => 
-            post.id === newLike.post_id 
-              ? { ...post, likes_count: post.likes_count + 1 }
-              : post
-          ));
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'DELETE',
-          schema: 'public',
-          table: 'post_likes',
-        },
-        (payload) => {
-          const deletedLike = payload.old as any;
-          console.log('Like removed:', deletedLike);
-          
-          // Update local liked posts if this user unliked it
-          if (deletedLike.user_id === user.id) {
-            setLikedPosts(prev => {
-              const newSet = new Set(prev);
-              newSet.delete(deletedLike.post_id);
-              return newSet;
-            });
-          }
-          
-          // Update likes count for the post
-          setPosts(prev => prev.map(post => 
-            post.id === deletedLike.post_id 
-              ? { ...post, likes_count: Math.max(0, post.likes_count - 1) }
-              : post
-          ));
-        }
-      )
-      .subscribe();
-
-    // Subscribe to posts changes for new posts
-    const postsChannel = supabase
-      .channel('posts-realtime')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'posts',
-        },
-        (payload) => {
-          const newPost = payload.new as any;
-          fetchNewPost(newPost.id);
-        }
-      )
-      .subscribe();
+  useRealtimeChanges(
+    user ? { table: 'post_likes', event: 'DELETE' } : null,
+    (payload) => {
+      const deletedLike = payload.old as { post_id?: string; user_id?: string };
+      console.log('Like removed:', deletedLike);
+      
+      // Update local liked posts if this user unliked it
+      if (deletedLike.user_id === user?.id) {
+        setLikedPosts(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(deletedLike.post_id);
+          return newSet;
+        });
+      }
+      
+      // Update likes count for the post
+      setPosts(prev => prev.map(post => 
+        post.id === deletedLike.post_id 
+          ? { ...post, likes_count: Math.max(0, post.likes_count - 1) }
+          : post
+      ));
+    }
+  );
 
-    return () => {
-      supabase.removeChannel(likesChannel);
-      supabase.removeChannel(postsChannel);
-    };
-  };
+  // New posts
+  useRealtimeChanges(
+    user ? { table: 'posts', event: 'INSERT' } : null,
+    (payload) => {
+      fetchNewPost((payload.new as { id: string }).id);
+    }
+  );
 
   const fetchNewPost = async (postId: string) => {
     try {
@@ -325,6 +295,9 @@ const Feed = () => {
     navigate('/login');
   };
 
+  // Blocked and muted accounts are already filtered by RLS; this covers changes made during the session
+  const visiblePosts = posts.filter(post => !isHidden(post.user_id));
+
   if (!user) {
     navigate('/login');
     return null;
@@ -362,7 +335,7 @@ const Feed = () => {
                 </DropdownMenuContent>
               </DropdownMenu>
               
-              {isAdmin && (
+              {(isAdmin || isModerator) && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -426,7 +399,7 @@ const Feed = () => {
                 </Card>
               ))}
             </div>
-          ) : posts.length === 0 ? (
+          ) : visiblePosts.length === 0 ? (
             <Card className="card-shadow border-0">
               <CardContent className="p-12 text-center">
                 <MessageCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
@@ -445,7 +418,7 @@ const Feed = () => {
             </Card>
           ) : (
             <div className="space-y-4">
-              {posts.map((post) => (
+              {visiblePosts.map((post) => (
                 <Card key={post.id} className="card-shadow border-0 cursor-pointer hover:shadow-lg transition-shadow" onClick={() => handlePostClick(post)}>
                   <CardContent className="p-0">
                      {/* Post Header */}
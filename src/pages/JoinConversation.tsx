@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Globe, Link2, MessageSquare, Users, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarImage } from '@/components/ui/avatar';
+import MobileLayout from '@/components/MobileLayout';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getInvitePreview, InvitePreview, isInviteStatus, redeemConversationInvite } from '@/lib/invites';
+
+const UNAVAILABLE_MESSAGES = {
+  revoked: 'Este link de convite foi revogado.',
+  expired: 'Este link de convite expirou.',
+  exhausted: 'Este link de convite atingiu o limite de usos.',
+};
+
+const JoinConversation = () => {
+  const navigate = useNavigate();
+  const { code } = useParams();
+  const { user } = useAuth();
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [requested, setRequested] = useState(false);
+
+  useEffect(() => {
+    if (!code) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const preview = await getInvitePreview(code);
+        if (cancelled) return;
+        setInvite(preview);
+        setRequested(!!preview?.has_pending_request);
+      } catch (error) {
+        console.error('Error loading invite:', error);
+        if (!cancelled) setInvite(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  const openChat = (conversationId: string) => {
+    navigate(`/messages?chat=${conversationId}`, { replace: true });
+  };
+
+  const handleJoin = async () => {
+    if (!code || !invite || !user) return;
+
+    setJoining(true);
+    try {
+      const result = await redeemConversationInvite(code);
+
+      if (result === 'requested') {
+        setRequested(true);
+        toast({
+          title: "Pedido enviado",
+          description: "Um admin do chat precisa aprovar sua entrada.",
+        });
+        return;
+      }
+
+      openChat(invite.conversation_id);
+    } catch (error) {
+      console.error('Error joining conversation:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível entrar no chat. O link pode não ser mais válido.",
+        variant: "destructive",
+      });
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const status = invite && isInviteStatus(invite.status) ? invite.status : null;
+
+  const renderAction = () => {
+    if (!invite) return null;
+
+    if (invite.is_member) {
+      return (
+        <Button className="w-full" onClick={() => openChat(invite.conversation_id)}>
+          <MessageSquare className="w-4 h-4 mr-2" />
+          Abrir chat
+        </Button>
+      );
+    }
+
+    if (status && status !== 'valid') {
+      return <p className="text-sm text-muted-foreground">{UNAVAILABLE_MESSAGES[status]}</p>;
+    }
+
+    if (requested) {
+      return (
+        <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
+          <Clock className="w-4 h-4" />
+          Pedido enviado. Você entrará quando um admin aprovar.
+        </p>
+      );
+    }
+
+    return (
+      <Button className="w-full magic-button" onClick={handleJoin} disabled={joining}>
+        {joining
+          ? 'Entrando...'
+          : invite.requires_approval ? 'Pedir para entrar' : 'Entrar no chat'}
+      </Button>
+    );
+  };
+
+  return (
+    <MobileLayout>
+      <div className="min-h-screen">
+        {/* Header */}
+        <div className="sticky top-0 z-50 bg-background border-b border-border">
+          <div className="mobile-container py-4">
+            <div className="flex items-center space-x-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(-1)}
+                className="p-2"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div className="flex items-center space-x-2">
+                <Link2 className="w-5 h-5 text-primary" />
+                <h1 className="text-lg font-semibold">Convite</h1>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="mobile-container py-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !invite ? (
+            <p className="text-center text-muted-foreground py-12">Link de convite inválido</p>
+          ) : (
+            <Card className="card-shadow border-0">
+              <CardContent className="p-6 text-center space-y-4">
+                <Avatar className="w-20 h-20 mx-auto">
+                  {invite.photo_url ? (
+                    <AvatarImage src={invite.photo_url} className="object-cover" />
+                  ) : (
+                    <div className="w-full h-full bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+                      {invite.is_public ? (
+                        <Globe className="w-10 h-10 text-white" />
+                      ) : (
+                        <MessageSquare className="w-10 h-10 text-white" />
+                      )}
+                    </div>
+                  )}
+                </Avatar>
+
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Você foi convidado para</p>
+                  <h2 className="text-xl font-semibold">{invite.name || 'Chat'}</h2>
+                  <p className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                    <Users className="w-3 h-3" />
+                    {invite.member_count} {invite.member_count === 1 ? 'participante' : 'participantes'}
+                    {' · '}
+                    {invite.is_public ? 'Chat público' : 'Chat privado'}
+                  </p>
+                </div>
+
+                {invite.description && (
+                  <p className="text-sm text-muted-foreground leading-relaxed">{invite.description}</p>
+                )}
+
+                {renderAction()}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </MobileLayout>
+  );
+};
+
+export default JoinConversation;
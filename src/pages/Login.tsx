@@ -1,69 +1,63 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
-import { MessageCircle, ArrowRight, Keyboard } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { MessageCircle, ArrowRight, Keyboard, Lock, Mail } from 'lucide-react';
 import VirtualKeyboard from '@/components/VirtualKeyboard';
 import { cn } from '@/lib/utils';
 
+type LoginField = 'email' | 'password';
+
 const Login = () => {
-  const [username, setUsername] = useState('');
+  const { login, sendLoginCode, verifyLoginCode, savedAccount, forgetAccount, legacyAccount } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [method, setMethod] = useState<'password' | 'code'>('password');
   const [loading, setLoading] = useState(false);
-  const [rememberMe, setRememberMe] = useState(false);
-  const [showSavedAccount, setShowSavedAccount] = useState(false);
-  const [savedUser, setSavedUser] = useState<any>(null);
+  // Mostra a última conta salva ao inicializar
+  const [rememberMe, setRememberMe] = useState(!!savedAccount);
+  const [showSavedAccount, setShowSavedAccount] = useState(!!savedAccount);
   const [showVirtualKeyboard, setShowVirtualKeyboard] = useState(false);
-  const [activeField, setActiveField] = useState<'username' | null>(null);
-  const { login } = useAuth();
+  const [activeField, setActiveField] = useState<LoginField | null>(null);
   const navigate = useNavigate();
 
-  const handleVirtualKeyPress = (key: string) => {
-    if (activeField === 'username') {
-      setUsername(prev => prev + key.toLowerCase());
+  const updateActiveField = (update: (prev: string) => string) => {
+    if (activeField === 'email') {
+      setEmail(update);
+    } else if (activeField === 'password') {
+      setPassword(update);
     }
   };
 
+  const handleVirtualKeyPress = (key: string) => {
+    updateActiveField(prev => prev + (activeField === 'email' ? key.toLowerCase() : key));
+  };
+
   const handleVirtualBackspace = () => {
-    if (activeField === 'username') {
-      setUsername(prev => prev.slice(0, -1));
-    }
+    updateActiveField(prev => prev.slice(0, -1));
   };
 
   const handleVirtualSpace = () => {
-    // Username não permite espaços
+    // Email e senha não permitem espaços
   };
 
-  const handleFieldClick = (field: 'username') => {
+  const toggleVirtualKeyboard = (field: LoginField) => {
     setActiveField(field);
-    setShowVirtualKeyboard(true);
+    setShowVirtualKeyboard(!showVirtualKeyboard || activeField !== field);
   };
 
-  // Carrega o último usuário salvo ao inicializar
-  useEffect(() => {
-    const savedUserData = localStorage.getItem('magic-talk-user');
-    const wasRemembered = localStorage.getItem('magic-talk-remember-login') === 'true';
-    
-    if (savedUserData && wasRemembered) {
-      try {
-        const userData = JSON.parse(savedUserData);
-        setSavedUser(userData);
-        setShowSavedAccount(true);
-      } catch (error) {
-        console.error('Error parsing saved user:', error);
-        localStorage.removeItem('magic-talk-user');
-        localStorage.removeItem('magic-talk-remember-login');
-      }
-    }
-  }, []);
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     
-    const success = await login(username, rememberMe);
+    const success = await login(email, password, rememberMe);
     if (success) {
       navigate('/feed');
     }
@@ -71,26 +65,92 @@ const Login = () => {
     setLoading(false);
   };
 
-  const handleSavedAccountLogin = async () => {
-    if (!savedUser) return;
-    
+  const handleSendCode = async () => {
     setLoading(true);
-    const success = await login(savedUser.username, true);
+    const success = await sendLoginCode(email);
+    if (success) {
+      setCodeSent(true);
+      setCode('');
+    }
+    setLoading(false);
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const success = await verifyLoginCode(email, code, rememberMe);
     if (success) {
       navigate('/feed');
     }
+
     setLoading(false);
   };
 
+  const handleSavedAccountLogin = () => {
+    if (!savedAccount) return;
+    setEmail(savedAccount.email);
+    setShowSavedAccount(false);
+  };
+
   const handleEnterAnotherAccount = () => {
+    forgetAccount();
     setShowSavedAccount(false);
-    setSavedUser(null);
+    setEmail('');
+    setRememberMe(false);
   };
 
   const stripUserDigits = (username: string): string => {
     return username.replace(/\d{4}$/, '');
   };
 
+  const keyboardPreview = activeField === 'password' ? '•'.repeat(password.length) : email;
+
+  const renderEmailField = () => (
+    <div className="flex items-center space-x-2">
+      <Input
+        type="email"
+        placeholder="seu@email.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        onFocus={() => setActiveField('email')}
+        className="mobile-input flex-1"
+        autoComplete="email"
+        disabled={codeSent && method === 'code'}
+        required
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="w-9 h-9 p-0"
+        onClick={() => toggleVirtualKeyboard('email')}
+      >
+        <Keyboard className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+
+  const rememberMeOption = (
+    <div className="flex items-center space-x-2">
+      <Checkbox 
+        id="remember-me" 
+        checked={rememberMe}
+        onCheckedChange={(checked) => setRememberMe(!!checked)}
+      />
+      <label 
+        htmlFor="remember-me" 
+        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
+      >
+        Lembrar de mim
+      </label>
+    </div>
+  );
+
+  const spinner = (
+    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+  );
+
   return (
     <div className={cn(
       "min-h-screen bg-background mobile-container py-8 flex flex-col justify-center transition-all duration-300 ease-in-out",
@@ -112,34 +172,34 @@ const Login = () => {
         <CardHeader className="text-center pb-6">
           <CardTitle className="text-xl">Entrar</CardTitle>
           <CardDescription>
-            Digite seu nome de usuário + 4 dígitos
+            Use seu email e senha ou receba um código
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {showSavedAccount && savedUser ? (
+          {showSavedAccount && savedAccount ? (
             // Mostra a conta salva
             <div className="space-y-6">
               <div className="text-center space-y-4">
                 <div className="relative mx-auto w-20 h-20">
                   <div className="w-full h-full rounded-full overflow-hidden shadow-lg">
-                    {savedUser.avatar_url ? (
+                    {savedAccount.avatar_url ? (
                       <img 
-                        src={savedUser.avatar_url} 
-                        alt={savedUser.display_name}
+                        src={savedAccount.avatar_url} 
+                        alt={savedAccount.display_name}
                         className="w-full h-full object-cover"
                       />
                     ) : (
                       <div className="w-full h-full bg-gradient-to-br from-primary to-accent flex items-center justify-center">
                         <span className="text-white font-bold text-xl">
-                          {savedUser.display_name?.charAt(0).toUpperCase() || savedUser.username?.charAt(0).toUpperCase()}
+                          {savedAccount.display_name?.charAt(0).toUpperCase() || savedAccount.username?.charAt(0).toUpperCase()}
                         </span>
                       </div>
                     )}
                   </div>
                 </div>
                 <div>
-                  <h3 className="font-bold text-xl text-foreground">{savedUser.display_name}</h3>
-                  <p className="text-sm text-muted-foreground font-medium">@{stripUserDigits(savedUser.username)}</p>
+                  <h3 className="font-bold text-xl text-foreground">{savedAccount.display_name}</h3>
+                  <p className="text-sm text-muted-foreground font-medium">@{stripUserDigits(savedAccount.username)}</p>
                 </div>
               </div>
               
@@ -149,17 +209,10 @@ const Login = () => {
                 disabled={loading}
               >
                 <div className="absolute inset-0 bg-gradient-to-r from-white/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
-                {loading ? (
-                  <div className="flex items-center justify-center space-x-2">
-                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                    <span>Entrando...</span>
-                  </div>
-                ) : (
-                  <div className="flex items-center justify-center space-x-2">
-                    <span className="font-semibold">Continuar como {savedUser.display_name}</span>
-                    <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform duration-200" />
-                  </div>
-                )}
+                <div className="flex items-center justify-center space-x-2">
+                  <span className="font-semibold">Continuar como {savedAccount.display_name}</span>
+                  <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform duration-200" />
+                </div>
               </Button>
               
               <div className="text-center">
@@ -170,80 +223,145 @@ const Login = () => {
                   Usar outra conta
                 </button>
               </div>
-              
-              <div className="mt-4 pt-4 border-t border-border text-center">
-                <button
-                  onClick={() => navigate('/admin')}
-                  className="text-xs text-muted-foreground hover:text-foreground transition-colors"
-                >
-                  Acesso administrativo
-                </button>
-              </div>
             </div>
           ) : (
             // Mostra o formulário normal
             <>
-              <form onSubmit={handleSubmit} className="space-y-6">
-                <div>
-                  <div className="flex items-center space-x-2">
-                    <Input
-                      type="text"
-                      placeholder="Ex: ana1234"
-                      value={username}
-                      readOnly
-                      onClick={() => handleFieldClick('username')}
-                      className="mobile-input flex-1 cursor-pointer"
-                      maxLength={20}
-                      required
-                    />
+              <Tabs
+                value={method}
+                onValueChange={(value) => {
+                  setMethod(value as 'password' | 'code');
+                  setShowVirtualKeyboard(false);
+                }}
+              >
+                <TabsList className="grid w-full grid-cols-2 mb-6">
+                  <TabsTrigger value="password">
+                    <Lock className="w-4 h-4 mr-2" />
+                    Senha
+                  </TabsTrigger>
+                  <TabsTrigger value="code">
+                    <Mail className="w-4 h-4 mr-2" />
+                    Código por email
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="password">
+                  <form onSubmit={handleSubmit} className="space-y-6">
+                    {renderEmailField()}
+
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        type="password"
+                        placeholder="Senha"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        onFocus={() => setActiveField('password')}
+                        className="mobile-input flex-1"
+                        autoComplete="current-password"
+                        required
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="w-9 h-9 p-0"
+                        onClick={() => toggleVirtualKeyboard('password')}
+                      >
+                        <Keyboard className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    {rememberMeOption}
+                    
                     <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="w-9 h-9 p-0"
-                      onClick={() => {
-                        setActiveField('username');
-                        setShowVirtualKeyboard(!showVirtualKeyboard);
-                      }}
+                      type="submit"
+                      className="w-full magic-button"
+                      disabled={loading}
                     >
-                      <Keyboard className="w-4 h-4" />
+                      {loading ? spinner : (
+                        <>
+                          Entrar
+                          <ArrowRight className="w-4 h-4 ml-2" />
+                        </>
+                      )}
                     </Button>
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-2">
-                    Formato: letras + exatamente 4 números
-                  </p>
-                </div>
+                  </form>
+                </TabsContent>
 
-                {/* Opção Lembrar de mim */}
-                <div className="flex items-center space-x-2">
-                  <Checkbox 
-                    id="remember-me" 
-                    checked={rememberMe}
-                    onCheckedChange={(checked) => setRememberMe(!!checked)}
-                  />
-                  <label 
-                    htmlFor="remember-me" 
-                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
-                  >
-                    Lembrar de mim
-                  </label>
-                </div>
-                
-                <Button
-                  type="submit"
-                  className="w-full magic-button"
-                  disabled={loading}
-                >
-                  {loading ? (
-                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  ) : (
-                    <>
-                      Entrar
-                      <ArrowRight className="w-4 h-4 ml-2" />
-                    </>
-                  )}
-                </Button>
-              </form>
+                <TabsContent value="code">
+                  <form onSubmit={handleVerifyCode} className="space-y-6">
+                    {renderEmailField()}
+
+                    {codeSent ? (
+                      <>
+                        <div className="flex flex-col items-center space-y-2">
+                          <InputOTP
+                            maxLength={6}
+                            value={code}
+                            onChange={setCode}
+                          >
+                            <InputOTPGroup>
+                              {[0, 1, 2, 3, 4, 5].map((index) => (
+                                <InputOTPSlot key={index} index={index} />
+                              ))}
+                            </InputOTPGroup>
+                          </InputOTP>
+                          <p className="text-xs text-muted-foreground text-center">
+                            Digite o código de 6 dígitos ou abra o link mágico no email
+                          </p>
+                        </div>
+
+                        {rememberMeOption}
+
+                        <Button
+                          type="submit"
+                          className="w-full magic-button"
+                          disabled={loading || code.length !== 6}
+                        >
+                          {loading ? spinner : (
+                            <>
+                              Verificar código
+                              <ArrowRight className="w-4 h-4 ml-2" />
+                            </>
+                          )}
+                        </Button>
+
+                        <div className="flex justify-between">
+                          <button
+                            type="button"
+                            onClick={() => setCodeSent(false)}
+                            className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                          >
+                            Trocar email
+                          </button>
+                          <button
+                            type="button"
+                            onClick={handleSendCode}
+                            disabled={loading}
+                            className="text-xs text-primary hover:underline"
+                          >
+                            Reenviar código
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <Button
+                        type="button"
+                        className="w-full magic-button"
+                        disabled={loading}
+                        onClick={handleSendCode}
+                      >
+                        {loading ? spinner : (
+                          <>
+                            <Mail className="w-4 h-4 mr-2" />
+                            Enviar código
+                          </>
+                        )}
+                      </Button>
+                    )}
+                  </form>
+                </TabsContent>
+              </Tabs>
               
               <div className="mt-6 text-center">
                 <p className="text-sm text-muted-foreground">
@@ -255,15 +373,17 @@ const Login = () => {
                     Cadastre-se
                   </button>
                 </p>
-                
-                <div className="mt-4 pt-4 border-t border-border">
-                  <button
-                    onClick={() => navigate('/admin')}
-                    className="text-xs text-muted-foreground hover:text-foreground transition-colors"
-                  >
-                    Acesso administrativo
-                  </button>
-                </div>
+                {legacyAccount && (
+                  <p className="text-xs text-muted-foreground mt-3">
+                    Entrava como @{stripUserDigits(legacyAccount.username)}?{' '}
+                    <button
+                      onClick={() => navigate('/register?legacy=1')}
+                      className="text-primary font-medium hover:underline"
+                    >
+                      Proteja sua conta
+                    </button>
+                  </p>
+                )}
               </div>
             </>
           )}
@@ -278,7 +398,7 @@ const Login = () => {
             onBackspace={handleVirtualBackspace}
             onSpace={handleVirtualSpace}
             onClose={() => setShowVirtualKeyboard(false)}
-            currentValue={username}
+            currentValue={keyboardPreview}
           />
         </div>
       )}
@@ -9,6 +9,7 @@ import { supabase } from '@/integrations/supabase/client';
 import ProfileEditor from '@/components/ProfileEditor';
 import MobileLayout from '@/components/MobileLayout';
 import PostsGrid from '@/components/PostsGrid';
+import { StoryHighlights } from '@/components/StoryHighlights';
 import { toast } from '@/hooks/use-toast';
 import { stripUserDigits } from '@/lib/utils';
 
@@ -168,6 +169,9 @@ const Profile = () => {
           </Button>
         </div>
 
+        {/* Highlights */}
+        {user && <StoryHighlights userId={user.id} isOwnProfile />}
+
         {/* Posts Grid */}
         <div className="space-y-4">
           <div className="flex items-center justify-center border-b border-border">
@@ -1,22 +1,29 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
-import { MessageCircle, ArrowLeft, UserPlus, Keyboard } from 'lucide-react';
+import { MessageCircle, ArrowLeft, UserPlus, Keyboard, ShieldCheck } from 'lucide-react';
 import VirtualKeyboard from '@/components/VirtualKeyboard';
 import { cn } from '@/lib/utils';
 
+type RegisterField = 'username' | 'displayName' | 'email' | 'password';
+
 const Register = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { register, claimLegacyAccount, legacyAccount } = useAuth();
+  // Só o aparelho que ainda tinha a sessão antiga pode pedir a conta
+  const isLegacy = searchParams.get('legacy') === '1' && !!legacyAccount;
   const [username, setUsername] = useState('');
   const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [rememberMe, setRememberMe] = useState(true);
   const [showVirtualKeyboard, setShowVirtualKeyboard] = useState(false);
-  const [activeField, setActiveField] = useState<'username' | 'displayName' | null>(null);
-  const { register } = useAuth();
+  const [activeField, setActiveField] = useState<RegisterField | null>(null);
   const navigate = useNavigate();
 
   const handleVirtualKeyPress = (key: string) => {
@@ -24,6 +31,10 @@ const Register = () => {
       setUsername(prev => prev + key.toLowerCase());
     } else if (activeField === 'displayName') {
       setDisplayName(prev => prev + key);
+    } else if (activeField === 'email') {
+      setEmail(prev => prev + key.toLowerCase());
+    } else if (activeField === 'password') {
+      setPassword(prev => prev + key);
     }
   };
 
@@ -32,6 +43,10 @@ const Register = () => {
       setUsername(prev => prev.slice(0, -1));
     } else if (activeField === 'displayName') {
       setDisplayName(prev => prev.slice(0, -1));
+    } else if (activeField === 'email') {
+      setEmail(prev => prev.slice(0, -1));
+    } else if (activeField === 'password') {
+      setPassword(prev => prev.slice(0, -1));
     }
   };
 
@@ -46,23 +61,38 @@ const Register = () => {
     setShowVirtualKeyboard(true);
   };
 
+  const toggleVirtualKeyboard = (field: RegisterField) => {
+    setActiveField(field);
+    setShowVirtualKeyboard(!showVirtualKeyboard || activeField !== field);
+  };
+
+  const toggleLegacyMode = () => {
+    setSearchParams(isLegacy ? {} : { legacy: '1' });
+    setShowVirtualKeyboard(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     
-    const success = await register(username, displayName, rememberMe);
+    const success = isLegacy
+      ? await claimLegacyAccount(email, password)
+      : await register(username, displayName, email, password, rememberMe);
     if (success) {
-      // Salva as preferências se "Lembrar de mim" estiver marcado
-      if (rememberMe) {
-        localStorage.setItem('magic-talk-saved-username', username);
-        localStorage.setItem('magic-talk-remember-me', 'true');
-      }
-      navigate('/feed');
+      // Sem sessão (confirmação de email ou aprovação pendente) a rota protegida leva de volta ao login
+      navigate(isLegacy ? '/login' : '/feed');
     }
     
     setLoading(false);
   };
 
+  const keyboardPreview = {
+    username,
+    displayName,
+    email,
+    password: '•'.repeat(password.length),
+  }[activeField ?? 'username'];
+
   return (
     <div className={cn(
       "min-h-screen bg-background mobile-container py-8 flex flex-col justify-center transition-all duration-300 ease-in-out",
@@ -82,9 +112,11 @@ const Register = () => {
 
       <Card className="w-full card-shadow border-0">
         <CardHeader className="text-center pb-6">
-          <CardTitle className="text-xl">Criar Conta</CardTitle>
+          <CardTitle className="text-xl">{isLegacy ? 'Proteger Conta' : 'Criar Conta'}</CardTitle>
           <CardDescription>
-            Junte-se à comunidade VilaAurora
+            {isLegacy
+              ? 'Ligue seu nome de usuário antigo a um email e senha'
+              : 'Junte-se à comunidade VilaAurora'}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -94,13 +126,15 @@ const Register = () => {
                 <Input
                   type="text"
                   placeholder="Ex: ana1234"
-                  value={username}
+                  value={isLegacy ? legacyAccount.username : username}
                   readOnly
-                  onClick={() => handleFieldClick('username')}
+                  disabled={isLegacy}
+                  onClick={() => !isLegacy && handleFieldClick('username')}
                   className="mobile-input flex-1 cursor-pointer"
                   maxLength={20}
                   required
                 />
+                {!isLegacy && (
                 <Button
                   type="button"
                   variant="ghost"
@@ -113,12 +147,16 @@ const Register = () => {
                 >
                   <Keyboard className="w-4 h-4" />
                 </Button>
+                )}
               </div>
               <p className="text-xs text-muted-foreground mt-2">
-                Nome de usuário: letras + exatamente 4 números
+                {isLegacy
+                  ? 'A conta antiga deste aparelho. A equipe confirma o pedido antes de liberar o acesso'
+                  : 'Nome de usuário: letras + exatamente 4 números'}
               </p>
             </div>
             
+            {!isLegacy && (
             <div>
               <div className="flex items-center space-x-2">
                 <Input
@@ -148,8 +186,62 @@ const Register = () => {
                 Nome que aparecerá para outros usuários
               </p>
             </div>
+            )}
+
+            <div>
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="email"
+                  placeholder="seu@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onFocus={() => setActiveField('email')}
+                  className="mobile-input flex-1"
+                  autoComplete="email"
+                  required
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="w-9 h-9 p-0"
+                  onClick={() => toggleVirtualKeyboard('email')}
+                >
+                  <Keyboard className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="password"
+                  placeholder="Senha"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onFocus={() => setActiveField('password')}
+                  className="mobile-input flex-1"
+                  autoComplete="new-password"
+                  minLength={8}
+                  required
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="w-9 h-9 p-0"
+                  onClick={() => toggleVirtualKeyboard('password')}
+                >
+                  <Keyboard className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Pelo menos 8 caracteres
+              </p>
+            </div>
 
             {/* Opção Lembrar de mim */}
+            {!isLegacy && (
             <div className="flex items-center space-x-2">
               <Checkbox 
                 id="remember-me-register" 
@@ -163,6 +255,7 @@ const Register = () => {
                 Lembrar de mim
               </label>
             </div>
+            )}
             
             <Button
               type="submit"
@@ -171,6 +264,11 @@ const Register = () => {
             >
               {loading ? (
                 <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              ) : isLegacy ? (
+                <>
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Proteger Conta
+                </>
               ) : (
                 <>
                   <UserPlus className="w-4 h-4 mr-2" />
@@ -190,6 +288,18 @@ const Register = () => {
                 Entrar
               </button>
             </p>
+            {legacyAccount && (
+            <p className="text-xs text-muted-foreground mt-3">
+              {isLegacy ? 'Não tem uma conta antiga?' : 'Entrava só com o nome de usuário?'}{' '}
+              <button
+                type="button"
+                onClick={toggleLegacyMode}
+                className="text-primary font-medium hover:underline"
+              >
+                {isLegacy ? 'Criar conta nova' : 'Proteja sua conta'}
+              </button>
+            </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -211,7 +321,7 @@ const Register = () => {
             onBackspace={handleVirtualBackspace}
             onSpace={handleVirtualSpace}
             onClose={() => setShowVirtualKeyboard(false)}
-            currentValue={activeField === 'username' ? username : displayName}
+            currentValue={keyboardPreview}
           />
         </div>
       )}
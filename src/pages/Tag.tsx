@@ -0,0 +1,49 @@
+import { ArrowLeft, Hash } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useNavigate, useParams } from 'react-router-dom';
+import MobileLayout from '@/components/MobileLayout';
+import PostsGrid from '@/components/PostsGrid';
+import { normalizeHashtag } from '@/lib/utils';
+
+const Tag = () => {
+  const navigate = useNavigate();
+  const { name } = useParams();
+  const hashtag = name ? normalizeHashtag(name) : null;
+
+  return (
+    <MobileLayout>
+      <div className="min-h-screen">
+        {/* Header */}
+        <div className="sticky top-0 z-50 bg-background border-b border-border">
+          <div className="mobile-container py-4">
+            <div className="flex items-center space-x-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(-1)}
+                className="p-2"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div className="flex items-center space-x-2">
+                <Hash className="w-5 h-5 text-primary" />
+                <h1 className="text-lg font-semibold">{hashtag || name}</h1>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="mobile-container py-6">
+          {hashtag ? (
+            <PostsGrid hashtag={hashtag} showAllUsers />
+          ) : (
+            <p className="text-center text-muted-foreground py-12">Hashtag inválida</p>
+          )}
+        </div>
+      </div>
+    </MobileLayout>
+  );
+};
+
+export default Tag;
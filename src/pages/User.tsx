@@ -2,17 +2,31 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { ArrowLeft, Grid3X3, Users, UserPlus, UserMinus, MessageCircle, Navigation } from 'lucide-react';
+import { ArrowLeft, Grid3X3, Users, UserPlus, UserMinus, MessageCircle, Navigation, Flag, Ban, VolumeX, Volume2, Clock, Lock } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import MobileLayout from '@/components/MobileLayout';
 import PostsGrid from '@/components/PostsGrid';
+import { StoryHighlights } from '@/components/StoryHighlights';
 import FollowersList from '@/components/FollowersList';
 import ProfileChat from '@/components/ProfileChat';
 import ProfileNavigator from '@/components/ProfileNavigator';
+import { ReportDialog } from '@/components/ReportDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
 import { stripUserDigits } from '@/lib/utils';
 import { useFastChat } from '@/hooks/useFastChat';
+import { useBlockedUsers } from '@/hooks/useBlockedUsers';
+import { useFollowRequests } from '@/hooks/useFollowRequests';
 
 interface ProfileData {
   id: string;
@@ -22,6 +36,7 @@ interface ProfileData {
   avatar_url: string | null;
   followers_count: number;
   following_count: number;
+  is_private: boolean;
 }
 
 const UserProfile = () => {
@@ -29,6 +44,8 @@ const UserProfile = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { startChat, creating } = useFastChat();
+  const { requestedIds, followUser, cancelFollowRequest } = useFollowRequests();
+  const { blockedIds, blockedEitherWayIds, mutedIds, blockUser, unblockUser, muteUser, unmuteUser } = useBlockedUsers();
   const [profileData, setProfileData] = useState<ProfileData | null>(null);
   const [loading, setLoading] = useState(true);
   const [isFollowing, setIsFollowing] = useState(false);
@@ -37,6 +54,9 @@ const UserProfile = () => {
   const [chatOpen, setChatOpen] = useState(false);
   const [navigatorOpen, setNavigatorOpen] = useState(false);
   const [startingChat, setStartingChat] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [blockConfirmOpen, setBlockConfirmOpen] = useState(false);
+  const [restrictionLoading, setRestrictionLoading] = useState(false);
 
   useEffect(() => {
     if (username) {
@@ -52,7 +72,7 @@ const UserProfile = () => {
       // First try to find by exact username (for backwards compatibility)
       let { data, error } = await supabase
         .from('profiles')
-        .select('id, display_name, username, bio, avatar_url, followers_count, following_count')
+        .select('id, display_name, username, bio, avatar_url, followers_count, following_count, is_private')
         .eq('username', username)
         .maybeSingle();
 
@@ -65,7 +85,7 @@ const UserProfile = () => {
         
         const { data: allProfiles, error: searchError } = await supabase
           .from('profiles')
-          .select('id, display_name, username, bio, avatar_url, followers_count, following_count');
+          .select('id, display_name, username, bio, avatar_url, followers_count, following_count, is_private');
         
         if (searchError) throw searchError;
         
@@ -129,7 +149,9 @@ const UserProfile = () => {
 
     setFollowLoading(true);
     try {
-      if (isFollowing) {
+      if (requestedIds.has(profileData.id)) {
+        await cancelFollowRequest(profileData.id);
+      } else if (isFollowing) {
         const { error } = await supabase
           .from('follows')
           .delete()
@@ -140,16 +162,18 @@ const UserProfile = () => {
         setIsFollowing(false);
         setProfileData(prev => prev ? { ...prev, followers_count: prev.followers_count - 1 } : null);
       } else {
-        const { error } = await supabase
-          .from('follows')
-          .insert({
-            follower_id: user.id,
-            following_id: profileData.id,
-          });
+        // Private accounts receive a request instead of a follow
+        const result = await followUser(profileData.id);
 
-        if (error) throw error;
-        setIsFollowing(true);
-        setProfileData(prev => prev ? { ...prev, followers_count: prev.followers_count + 1 } : null);
+        if (result === 'requested') {
+          toast({
+            title: "Solicitação enviada",
+            description: "Você poderá ver os posts quando o pedido for aceito.",
+          });
+        } else {
+          setIsFollowing(true);
+          setProfileData(prev => prev ? { ...prev, followers_count: prev.followers_count + 1 } : null);
+        }
       }
     } catch (error) {
       console.error('Error following/unfollowing:', error);
@@ -168,6 +192,36 @@ const UserProfile = () => {
     await startChat(profileData.id, profileData.display_name);
   };
 
+  const handleToggleMute = async () => {
+    if (!profileData) return;
+
+    setRestrictionLoading(true);
+    if (mutedIds.has(profileData.id)) {
+      await unmuteUser(profileData.id);
+    } else {
+      await muteUser(profileData.id);
+    }
+    setRestrictionLoading(false);
+  };
+
+  const handleToggleBlock = async () => {
+    if (!profileData) return;
+
+    setRestrictionLoading(true);
+    if (blockedIds.has(profileData.id)) {
+      await unblockUser(profileData.id);
+    } else {
+      const blocked = await blockUser(profileData.id);
+      if (blocked && isFollowing) {
+        // Follows in both directions are removed by the database
+        setIsFollowing(false);
+        setProfileData(prev => prev ? { ...prev, followers_count: Math.max(0, prev.followers_count - 1) } : null);
+      }
+    }
+    setRestrictionLoading(false);
+    setBlockConfirmOpen(false);
+  };
+
   useEffect(() => {
     if (profileData && user) {
       checkIfFollowing();
@@ -207,6 +261,13 @@ const UserProfile = () => {
   if (!profileData) return null;
 
   const isOwnProfile = user?.id === profileData.id;
+  const hasBlocked = blockedIds.has(profileData.id);
+  const isMuted = mutedIds.has(profileData.id);
+  // Blocked in either direction: no content or interactions between the two accounts
+  const isUnavailable = !isOwnProfile && blockedEitherWayIds.has(profileData.id);
+  const hasRequested = requestedIds.has(profileData.id);
+  // Private accounts only share posts and follower lists with approved followers
+  const isLocked = profileData.is_private && !isOwnProfile && !isFollowing;
 
   return (
     <MobileLayout>
@@ -264,15 +325,17 @@ const UserProfile = () => {
                 <p className="text-sm text-muted-foreground">Posts</p>
               </div>
               <button 
-                className="text-center hover:bg-muted/50 rounded-lg p-2 transition-colors"
+                className="text-center hover:bg-muted/50 rounded-lg p-2 transition-colors disabled:hover:bg-transparent"
                 onClick={() => setActiveView('followers')}
+                disabled={isLocked || isUnavailable}
               >
                 <p className="text-xl font-bold">{profileData.followers_count || 0}</p>
                 <p className="text-sm text-muted-foreground">Seguidores</p>
               </button>
               <button 
-                className="text-center hover:bg-muted/50 rounded-lg p-2 transition-colors"
+                className="text-center hover:bg-muted/50 rounded-lg p-2 transition-colors disabled:hover:bg-transparent"
                 onClick={() => setActiveView('following')}
+                disabled={isLocked || isUnavailable}
               >
                 <p className="text-xl font-bold">{profileData.following_count || 0}</p>
                 <p className="text-sm text-muted-foreground">Seguindo</p>
@@ -280,7 +343,30 @@ const UserProfile = () => {
             </div>
 
             {/* Action Buttons */}
-            {!isOwnProfile && (
+            {!isOwnProfile && hasBlocked && (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Você bloqueou esta conta. Vocês não podem ver o conteúdo nem conversar um com o outro.
+                </p>
+                <Button
+                  onClick={handleToggleBlock}
+                  disabled={restrictionLoading}
+                  className="w-full rounded-xl"
+                  variant="outline"
+                >
+                  <Ban className="w-4 h-4 mr-2" />
+                  Desbloquear
+                </Button>
+              </div>
+            )}
+
+            {isUnavailable && !hasBlocked && (
+              <p className="text-sm text-muted-foreground">
+                Este perfil não está disponível.
+              </p>
+            )}
+
+            {!isOwnProfile && !isUnavailable && (
               <div className="space-y-3">
                 {/* Chat Button - Destacado */}
                 <Button 
@@ -302,7 +388,7 @@ const UserProfile = () => {
                   onClick={handleFollow}
                   disabled={followLoading}
                   className={`w-full rounded-xl ${
-                    isFollowing 
+                    isFollowing || hasRequested
                       ? 'bg-muted text-foreground hover:bg-muted/80' 
                       : 'border-primary text-primary hover:bg-primary hover:text-primary-foreground'
                   }`}
@@ -312,11 +398,50 @@ const UserProfile = () => {
                     <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
                   ) : isFollowing ? (
                     <UserMinus className="w-4 h-4 mr-2" />
+                  ) : hasRequested ? (
+                    <Clock className="w-4 h-4 mr-2" />
                   ) : (
                     <UserPlus className="w-4 h-4 mr-2" />
                   )}
-                  {isFollowing ? 'Deixar de seguir' : 'Seguir'}
+                  {isFollowing ? 'Deixar de seguir' : hasRequested ? 'Solicitado' : 'Seguir'}
                 </Button>
+
+                {/* Mute / Block / Report */}
+                <div className="grid grid-cols-3 gap-2">
+                  <Button
+                    onClick={handleToggleMute}
+                    disabled={restrictionLoading}
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-xl text-muted-foreground"
+                  >
+                    {isMuted ? (
+                      <Volume2 className="w-4 h-4 mr-1" />
+                    ) : (
+                      <VolumeX className="w-4 h-4 mr-1" />
+                    )}
+                    {isMuted ? 'Reativar' : 'Silenciar'}
+                  </Button>
+                  <Button
+                    onClick={() => setBlockConfirmOpen(true)}
+                    disabled={restrictionLoading}
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-xl text-muted-foreground hover:text-destructive"
+                  >
+                    <Ban className="w-4 h-4 mr-1" />
+                    Bloquear
+                  </Button>
+                  <Button
+                    onClick={() => setReportOpen(true)}
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-xl text-muted-foreground hover:text-destructive"
+                  >
+                    <Flag className="w-4 h-4 mr-1" />
+                    Denunciar
+                  </Button>
+                </div>
               </div>
             )}
 
@@ -333,8 +458,20 @@ const UserProfile = () => {
           </div>
 
           {/* Content based on active view */}
-          {activeView === 'profile' && (
+          {activeView === 'profile' && !isUnavailable && isLocked && (
+            <div className="text-center py-12 border-t border-border">
+              <Lock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="font-semibold mb-1">Esta conta é privada</h3>
+              <p className="text-sm text-muted-foreground">
+                Siga esta conta para ver os posts e stories.
+              </p>
+            </div>
+          )}
+
+          {activeView === 'profile' && !isUnavailable && !isLocked && (
             <div className="space-y-4">
+              <StoryHighlights userId={profileData.id} isOwnProfile={isOwnProfile} />
+
               <div className="flex items-center justify-center border-b border-border">
                 <button className="flex items-center space-x-2 pb-3 border-b-2 border-primary">
                   <Grid3X3 className="w-4 h-4" />
@@ -371,6 +508,41 @@ const UserProfile = () => {
           initialUserId={profileData.id}
         />
         
+        {/* Report Profile */}
+        {!isOwnProfile && (
+          <ReportDialog
+            open={reportOpen}
+            onOpenChange={setReportOpen}
+            targetType="profile"
+            targetId={profileData.id}
+          />
+        )}
+        
+        {/* Block Confirmation */}
+        <AlertDialog open={blockConfirmOpen} onOpenChange={setBlockConfirmOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Bloquear @{stripUserDigits(profileData.username)}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Vocês deixarão de se seguir e não poderão ver os posts, stories e comentários um do outro nem trocar mensagens. A pessoa não será avisada.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={restrictionLoading}>Cancelar</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleToggleBlock();
+                }}
+                disabled={restrictionLoading}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Bloquear
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         {/* Profile Chat */}
         {!isOwnProfile && profileData && (
           <ProfileChat
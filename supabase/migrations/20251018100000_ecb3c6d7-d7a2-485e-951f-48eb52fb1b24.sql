@@ -0,0 +1,121 @@
+-- Link profiles to Supabase Auth users so sessions carry a real identity
+ALTER TABLE public.profiles
+ADD COLUMN auth_user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_profiles_auth_user_id ON public.profiles(auth_user_id);
+
+-- Resolve the profile of the signed-in user (legacy profiles keep their old id)
+CREATE OR REPLACE FUNCTION public.get_current_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT id FROM public.profiles WHERE auth_user_id = auth.uid() LIMIT 1;
+$function$;
+
+-- Create (or claim) the profile when a new auth user signs up.
+-- New accounts send username/display_name in the signup metadata.
+-- Username-only accounts created before real auth send legacy_username instead
+-- and the existing profile is attached to the new auth user, keeping its posts,
+-- follows and messages. A legacy profile can only be claimed once.
+CREATE OR REPLACE FUNCTION public.handle_new_auth_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  legacy_username TEXT := NEW.raw_user_meta_data ->> 'legacy_username';
+  new_username TEXT := NEW.raw_user_meta_data ->> 'username';
+  claimed_profile_id UUID;
+BEGIN
+  IF legacy_username IS NOT NULL THEN
+    UPDATE profiles
+    SET auth_user_id = NEW.id
+    WHERE username = legacy_username
+      AND auth_user_id IS NULL
+    RETURNING id INTO claimed_profile_id;
+
+    IF claimed_profile_id IS NULL THEN
+      RAISE EXCEPTION 'Legacy profile % not found or already claimed', legacy_username;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF new_username IS NULL OR new_username !~ '^[a-zA-Z]+[0-9]{4}$' THEN
+    RAISE EXCEPTION 'Invalid username %', new_username;
+  END IF;
+
+  INSERT INTO profiles (id, auth_user_id, username, display_name)
+  VALUES (
+    NEW.id,
+    NEW.id,
+    new_username,
+    COALESCE(NULLIF(TRIM(NEW.raw_user_meta_data ->> 'display_name'), ''), new_username)
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_auth_user();
+
+-- Whether a username-only profile is still waiting to be claimed
+CREATE OR REPLACE FUNCTION public.is_legacy_profile_claimable(p_username TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE username = p_username AND auth_user_id IS NULL
+  );
+$function$;
+
+-- Profiles are now created by the signup trigger and only editable by their owner
+DROP POLICY IF EXISTS "Allow all profile operations" ON public.profiles;
+
+CREATE POLICY "Anyone can view profiles" 
+ON public.profiles 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can update their own profile" 
+ON public.profiles 
+FOR UPDATE 
+USING (id = public.get_current_user_id())
+WITH CHECK (id = public.get_current_user_id());
+
+-- Admin removal still goes through the client for now
+CREATE POLICY "Allow profile deletion" 
+ON public.profiles 
+FOR DELETE 
+USING (true);
+
+-- Keep auth_user_id out of reach of client-side updates
+CREATE OR REPLACE FUNCTION public.protect_profile_auth_link()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NEW.auth_user_id IS DISTINCT FROM OLD.auth_user_id
+     AND current_user NOT IN ('postgres', 'service_role', 'supabase_admin') THEN
+    RAISE EXCEPTION 'auth_user_id cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_profile_auth_link
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_auth_link();
@@ -0,0 +1,221 @@
+-- Server-side roles for the admin panel (replaces the client-side admin password)
+CREATE TYPE public.app_role AS ENUM ('admin', 'moderator');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  granted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_user_roles_user_id ON public.user_roles(user_id);
+
+-- Role check used by policies and RPCs; SECURITY DEFINER avoids RLS recursion on user_roles
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id UUID, p_role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = p_user_id AND role = p_role
+  );
+$function$;
+
+-- Admins and moderators share the moderation tools
+CREATE OR REPLACE FUNCTION public.is_staff(p_user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = p_user_id AND role IN ('admin', 'moderator')
+  );
+$function$;
+
+-- Roles are only written through the RPCs below
+CREATE POLICY "Users can view their own roles, admins can view all" 
+ON public.user_roles 
+FOR SELECT 
+USING (
+  user_id = public.get_current_user_id()
+  OR public.has_role(public.get_current_user_id(), 'admin')
+);
+
+-- Audit trail of every admin/moderator action
+CREATE TABLE public.admin_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  target_type TEXT,
+  target_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_admin_audit_log_created_at ON public.admin_audit_log(created_at DESC);
+CREATE INDEX idx_admin_audit_log_actor_id ON public.admin_audit_log(actor_id);
+
+CREATE POLICY "Staff can view the audit log" 
+ON public.admin_audit_log 
+FOR SELECT 
+USING (public.is_staff(public.get_current_user_id()));
+
+-- Internal helper: only called from other SECURITY DEFINER functions
+CREATE OR REPLACE FUNCTION public.log_admin_action(
+  p_actor_id UUID,
+  p_action TEXT,
+  p_target_type TEXT DEFAULT NULL,
+  p_target_id UUID DEFAULT NULL,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  log_id UUID;
+BEGIN
+  INSERT INTO public.admin_audit_log (actor_id, action, target_type, target_id, details)
+  VALUES (p_actor_id, p_action, p_target_type, p_target_id, COALESCE(p_details, '{}'::jsonb))
+  RETURNING id INTO log_id;
+
+  RETURN log_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.log_admin_action(UUID, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Delete a single account
+CREATE OR REPLACE FUNCTION public.admin_delete_user(p_user_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_profile RECORD;
+BEGIN
+  IF NOT public.has_role(current_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can delete users' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id = current_id THEN
+    RAISE EXCEPTION 'Admins cannot delete their own account here';
+  END IF;
+
+  SELECT id, username, display_name INTO target_profile
+  FROM profiles WHERE id = p_user_id;
+
+  IF target_profile.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  DELETE FROM profiles WHERE id = p_user_id;
+
+  PERFORM log_admin_action(
+    current_id,
+    'delete_user',
+    'user',
+    p_user_id,
+    jsonb_build_object('username', target_profile.username, 'display_name', target_profile.display_name)
+  );
+END;
+$function$;
+
+-- Delete every account except staff; returns how many were removed
+CREATE OR REPLACE FUNCTION public.admin_delete_all_users()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  deleted_count INTEGER;
+BEGIN
+  IF NOT public.has_role(current_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can delete users' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM profiles
+  WHERE NOT public.is_staff(id);
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  PERFORM log_admin_action(
+    current_id,
+    'delete_all_users',
+    'user',
+    NULL,
+    jsonb_build_object('deleted_count', deleted_count)
+  );
+
+  RETURN deleted_count;
+END;
+$function$;
+
+-- Grant or revoke a role
+CREATE OR REPLACE FUNCTION public.admin_set_user_role(
+  p_user_id UUID,
+  p_role public.app_role,
+  p_granted BOOLEAN
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+BEGIN
+  IF NOT public.has_role(current_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id = current_id AND p_role = 'admin' AND NOT p_granted THEN
+    RAISE EXCEPTION 'Admins cannot remove their own admin role';
+  END IF;
+
+  IF p_granted THEN
+    INSERT INTO user_roles (user_id, role, granted_by)
+    VALUES (p_user_id, p_role, current_id)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  ELSE
+    DELETE FROM user_roles WHERE user_id = p_user_id AND role = p_role;
+  END IF;
+
+  PERFORM log_admin_action(
+    current_id,
+    CASE WHEN p_granted THEN 'grant_role' ELSE 'revoke_role' END,
+    'user',
+    p_user_id,
+    jsonb_build_object('role', p_role)
+  );
+END;
+$function$;
+
+-- Profiles can now only be deleted by their owner; admins use admin_delete_user
+DROP POLICY IF EXISTS "Allow profile deletion" ON public.profiles;
+
+CREATE POLICY "Users can delete their own profile" 
+ON public.profiles 
+FOR DELETE 
+USING (id = public.get_current_user_id());
+
+-- The first admin has to be granted from the SQL editor, e.g.:
+-- INSERT INTO public.user_roles (user_id, role)
+-- SELECT id, 'admin' FROM public.profiles WHERE username = 'ana1234';
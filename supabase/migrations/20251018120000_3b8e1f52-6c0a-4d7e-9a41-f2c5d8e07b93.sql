@@ -0,0 +1,290 @@
+-- User reports and the moderation queue
+ALTER TABLE public.profiles
+ADD COLUMN suspended_until TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'story', 'message', 'profile')),
+  target_id UUID NOT NULL,
+  reported_user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'nudity', 'violence', 'false_info', 'other')),
+  details TEXT,
+  content_snapshot TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed', 'removed', 'warned', 'suspended')),
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (reporter_id, target_type, target_id)
+);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_reports_status_created_at ON public.reports(status, created_at DESC);
+CREATE INDEX idx_reports_target ON public.reports(target_type, target_id);
+
+CREATE POLICY "Users can create their own reports"
+ON public.reports
+FOR INSERT
+WITH CHECK (reporter_id = public.get_current_user_id());
+
+CREATE POLICY "Users can view their own reports, staff can view all"
+ON public.reports
+FOR SELECT
+USING (
+  reporter_id = public.get_current_user_id()
+  OR public.is_staff(public.get_current_user_id())
+);
+
+-- Fill in the reported user and a copy of the content, so the queue still
+-- makes sense after the original is deleted
+CREATE OR REPLACE FUNCTION public.prepare_report()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  NEW.status := 'pending';
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+  NEW.resolution_note := NULL;
+
+  IF NEW.target_type = 'post' THEN
+    SELECT user_id, content INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM posts WHERE id = NEW.target_id;
+  ELSIF NEW.target_type = 'comment' THEN
+    SELECT user_id, content INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM post_comments WHERE id = NEW.target_id;
+  ELSIF NEW.target_type = 'story' THEN
+    SELECT user_id, COALESCE(content, media_url) INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM stories WHERE id = NEW.target_id;
+  ELSIF NEW.target_type = 'message' THEN
+    SELECT sender_id, COALESCE(content, media_url) INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM messages WHERE id = NEW.target_id;
+  ELSIF NEW.target_type = 'profile' THEN
+    SELECT id, COALESCE(bio, display_name) INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM profiles WHERE id = NEW.target_id;
+  END IF;
+
+  IF NEW.reported_user_id IS NULL THEN
+    RAISE EXCEPTION 'Reported content not found';
+  END IF;
+
+  IF NEW.reported_user_id = NEW.reporter_id THEN
+    RAISE EXCEPTION 'You cannot report your own content';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prepare_report
+  BEFORE INSERT ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_report();
+
+-- New notification types for moderation outcomes
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type = ANY (ARRAY['like'::text, 'comment'::text, 'follow'::text, 'mention'::text, 'comment_like'::text, 'story_tag'::text, 'post_tag'::text, 'comment_reply'::text, 'comment_mention'::text, 'report_update'::text, 'moderation_warning'::text]));
+
+-- Resolve a report (and every other pending report on the same target)
+-- p_action: 'dismiss' | 'remove_content' | 'warn' | 'suspend'
+CREATE OR REPLACE FUNCTION public.resolve_report(
+  p_report_id UUID,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_suspend_days INTEGER DEFAULT 7
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_report RECORD;
+  new_status TEXT;
+  reporter RECORD;
+  reporter_message TEXT;
+  resolved_count INTEGER := 0;
+BEGIN
+  IF NOT public.is_staff(current_id) THEN
+    RAISE EXCEPTION 'Only staff can resolve reports' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target_report FROM reports WHERE id = p_report_id;
+
+  IF target_report.id IS NULL THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF target_report.status <> 'pending' THEN
+    RAISE EXCEPTION 'Report was already resolved';
+  END IF;
+
+  new_status := CASE p_action
+    WHEN 'dismiss' THEN 'dismissed'
+    WHEN 'remove_content' THEN 'removed'
+    WHEN 'warn' THEN 'warned'
+    WHEN 'suspend' THEN 'suspended'
+  END;
+
+  IF new_status IS NULL THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  IF p_action = 'remove_content' THEN
+    IF target_report.target_type = 'post' THEN
+      DELETE FROM posts WHERE id = target_report.target_id;
+    ELSIF target_report.target_type = 'comment' THEN
+      DELETE FROM post_comments WHERE id = target_report.target_id;
+    ELSIF target_report.target_type = 'story' THEN
+      DELETE FROM stories WHERE id = target_report.target_id;
+    ELSIF target_report.target_type = 'message' THEN
+      DELETE FROM messages WHERE id = target_report.target_id;
+    ELSIF target_report.target_type = 'profile' THEN
+      UPDATE profiles SET bio = NULL, avatar_url = NULL WHERE id = target_report.target_id;
+    END IF;
+  ELSIF p_action = 'warn' THEN
+    PERFORM create_notification(
+      target_report.reported_user_id,
+      'moderation_warning',
+      'Aviso da moderação',
+      COALESCE(NULLIF(trim(p_note), ''), 'Seu conteúdo foi denunciado e viola as regras da comunidade.'),
+      target_report.target_type,
+      target_report.target_id,
+      NULL
+    );
+  ELSIF p_action = 'suspend' THEN
+    IF public.is_staff(target_report.reported_user_id) THEN
+      RAISE EXCEPTION 'Staff accounts cannot be suspended';
+    END IF;
+
+    UPDATE profiles
+    SET suspended_until = now() + make_interval(days => GREATEST(COALESCE(p_suspend_days, 7), 1))
+    WHERE id = target_report.reported_user_id;
+  END IF;
+
+  reporter_message := CASE new_status
+    WHEN 'dismissed' THEN 'Analisamos sua denúncia e não encontramos violação das regras.'
+    WHEN 'removed' THEN 'O conteúdo que você denunciou foi removido. Obrigado por ajudar!'
+    WHEN 'warned' THEN 'O autor do conteúdo que você denunciou foi advertido. Obrigado por ajudar!'
+    WHEN 'suspended' THEN 'A conta que você denunciou foi suspensa. Obrigado por ajudar!'
+  END;
+
+  FOR reporter IN
+    UPDATE reports
+    SET status = new_status,
+        resolved_by = current_id,
+        resolved_at = now(),
+        resolution_note = p_note
+    WHERE target_type = target_report.target_type
+      AND target_id = target_report.target_id
+      AND status = 'pending'
+    RETURNING id, reporter_id
+  LOOP
+    PERFORM create_notification(
+      reporter.reporter_id,
+      'report_update',
+      'Sua denúncia foi analisada',
+      reporter_message,
+      'report',
+      reporter.id,
+      NULL
+    );
+    resolved_count := resolved_count + 1;
+  END LOOP;
+
+  PERFORM log_admin_action(
+    current_id,
+    'resolve_report',
+    target_report.target_type,
+    target_report.target_id,
+    jsonb_build_object(
+      'report_id', target_report.id,
+      'action', p_action,
+      'reported_user_id', target_report.reported_user_id,
+      'note', p_note,
+      'suspend_days', CASE WHEN p_action = 'suspend' THEN p_suspend_days END
+    )
+  );
+
+  RETURN resolved_count;
+END;
+$function$;
+
+-- Suspended accounts can still browse, but cannot publish anything
+CREATE OR REPLACE FUNCTION public.block_suspended_author()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  author_id UUID;
+BEGIN
+  IF TG_TABLE_NAME IN ('messages', 'public_chat_messages') THEN
+    author_id := NEW.sender_id;
+  ELSE
+    author_id := NEW.user_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = author_id AND suspended_until > now()
+  ) THEN
+    RAISE EXCEPTION 'Account suspended' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER block_suspended_author
+  BEFORE INSERT ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.block_suspended_author();
+
+CREATE TRIGGER block_suspended_author
+  BEFORE INSERT ON public.post_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.block_suspended_author();
+
+CREATE TRIGGER block_suspended_author
+  BEFORE INSERT ON public.stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.block_suspended_author();
+
+CREATE TRIGGER block_suspended_author
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.block_suspended_author();
+
+CREATE TRIGGER block_suspended_author
+  BEFORE INSERT ON public.public_chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.block_suspended_author();
+
+-- suspended_until is only written by resolve_report
+CREATE OR REPLACE FUNCTION public.protect_profile_auth_link()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF current_user NOT IN ('postgres', 'service_role', 'supabase_admin') THEN
+    IF NEW.auth_user_id IS DISTINCT FROM OLD.auth_user_id THEN
+      RAISE EXCEPTION 'auth_user_id cannot be changed';
+    END IF;
+
+    IF NEW.suspended_until IS DISTINCT FROM OLD.suspended_until THEN
+      RAISE EXCEPTION 'suspended_until cannot be changed';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,219 @@
+-- Blocking and muting users
+CREATE TABLE public.blocked_users (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blocker_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE TABLE public.muted_users (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  muter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  muted_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (muter_id, muted_id),
+  CHECK (muter_id <> muted_id)
+);
+
+ALTER TABLE public.blocked_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.muted_users ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_blocked_users_blocked_id ON public.blocked_users(blocked_id);
+CREATE INDEX idx_muted_users_muted_id ON public.muted_users(muted_id);
+
+-- Each user only sees and manages their own lists
+CREATE POLICY "Users can view their own blocks"
+ON public.blocked_users
+FOR SELECT
+USING (blocker_id = public.get_current_user_id());
+
+CREATE POLICY "Users can block others"
+ON public.blocked_users
+FOR INSERT
+WITH CHECK (blocker_id = public.get_current_user_id());
+
+CREATE POLICY "Users can unblock others"
+ON public.blocked_users
+FOR DELETE
+USING (blocker_id = public.get_current_user_id());
+
+CREATE POLICY "Users can view their own mutes"
+ON public.muted_users
+FOR SELECT
+USING (muter_id = public.get_current_user_id());
+
+CREATE POLICY "Users can mute others"
+ON public.muted_users
+FOR INSERT
+WITH CHECK (muter_id = public.get_current_user_id());
+
+CREATE POLICY "Users can unmute others"
+ON public.muted_users
+FOR DELETE
+USING (muter_id = public.get_current_user_id());
+
+-- True when either user has blocked the other
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_a UUID, p_user_b UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.blocked_users
+    WHERE (blocker_id = p_user_a AND blocked_id = p_user_b)
+       OR (blocker_id = p_user_b AND blocked_id = p_user_a)
+  );
+$function$;
+
+-- Content by p_author_id the current user should not see (blocked either way, or muted)
+CREATE OR REPLACE FUNCTION public.is_hidden_for_current_user(p_author_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT public.is_blocked_between(public.get_current_user_id(), p_author_id)
+    OR EXISTS (
+      SELECT 1 FROM public.muted_users
+      WHERE muter_id = public.get_current_user_id() AND muted_id = p_author_id
+    );
+$function$;
+
+-- Everyone the current user blocked or was blocked by, without telling which side
+CREATE OR REPLACE FUNCTION public.get_blocked_user_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT blocked_id FROM public.blocked_users WHERE blocker_id = public.get_current_user_id()
+  UNION
+  SELECT blocker_id FROM public.blocked_users WHERE blocked_id = public.get_current_user_id();
+$function$;
+
+-- 1-on-1 private conversation where the other participant is blocked either way
+CREATE OR REPLACE FUNCTION public.is_direct_conversation_blocked(p_conversation_id UUID, p_user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.conversation_participants cp ON cp.conversation_id = c.id
+    WHERE c.id = p_conversation_id
+      AND COALESCE(c.is_public, false) = false
+      AND cp.user_id <> p_user_id
+      AND public.is_blocked_between(p_user_id, cp.user_id)
+      AND (SELECT count(*) FROM public.conversation_participants WHERE conversation_id = c.id) = 2
+  );
+$function$;
+
+-- Restrictive policies are ANDed with the existing permissive ones
+CREATE POLICY "Hide posts from blocked and muted users"
+ON public.posts
+AS RESTRICTIVE
+FOR SELECT
+USING (NOT public.is_hidden_for_current_user(user_id));
+
+CREATE POLICY "Hide stories from blocked and muted users"
+ON public.stories
+AS RESTRICTIVE
+FOR SELECT
+USING (NOT public.is_hidden_for_current_user(user_id));
+
+CREATE POLICY "Hide comments from blocked users"
+ON public.post_comments
+AS RESTRICTIVE
+FOR SELECT
+USING (NOT public.is_blocked_between(public.get_current_user_id(), user_id));
+
+CREATE POLICY "Blocked users cannot comment"
+ON public.post_comments
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+  NOT EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND public.is_blocked_between(user_id, p.user_id)
+  )
+);
+
+CREATE POLICY "Blocked users cannot follow each other"
+ON public.follows
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (NOT public.is_blocked_between(follower_id, following_id));
+
+CREATE POLICY "Blocked users cannot be added to conversations"
+ON public.conversation_participants
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (NOT public.is_blocked_between(public.get_current_user_id(), user_id));
+
+CREATE POLICY "Blocked users cannot message each other"
+ON public.messages
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (NOT public.is_direct_conversation_blocked(conversation_id, sender_id));
+
+-- Blocking removes the follow relationship in both directions
+CREATE OR REPLACE FUNCTION public.handle_user_blocked()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  DELETE FROM follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+     OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_user_blocked
+  AFTER INSERT ON public.blocked_users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_user_blocked();
+
+-- Blocked users no longer generate notifications for each other
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_entity_type TEXT DEFAULT NULL,
+  p_entity_id UUID DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  notification_id UUID;
+BEGIN
+  IF p_actor_id IS NOT NULL AND public.is_blocked_between(p_user_id, p_actor_id) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (
+    user_id, type, title, message, entity_type, entity_id, actor_id
+  ) VALUES (
+    p_user_id, p_type, p_title, p_message, p_entity_type, p_entity_id, p_actor_id
+  ) RETURNING id INTO notification_id;
+
+  RETURN notification_id;
+END;
+$$;
@@ -0,0 +1,247 @@
+-- Private accounts and follow requests
+ALTER TABLE public.profiles
+ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.follow_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requester_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (requester_id, target_id),
+  CHECK (requester_id <> target_id)
+);
+
+ALTER TABLE public.follow_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_follow_requests_target_id ON public.follow_requests(target_id);
+
+-- Requests are created through request_follow; both sides can see them and the requester can cancel
+CREATE POLICY "Users can view their follow requests"
+ON public.follow_requests
+FOR SELECT
+USING (
+  requester_id = public.get_current_user_id()
+  OR target_id = public.get_current_user_id()
+);
+
+CREATE POLICY "Users can cancel their follow requests"
+ON public.follow_requests
+FOR DELETE
+USING (requester_id = public.get_current_user_id());
+
+-- True when the current user may see posts, stories and follower lists of p_owner_id
+CREATE OR REPLACE FUNCTION public.can_view_profile_content(p_owner_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT p_owner_id = public.get_current_user_id()
+    OR NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = p_owner_id AND is_private
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.follows
+      WHERE follower_id = public.get_current_user_id() AND following_id = p_owner_id
+    )
+    OR public.is_staff(public.get_current_user_id());
+$function$;
+
+CREATE POLICY "Private posts are only visible to approved followers"
+ON public.posts
+AS RESTRICTIVE
+FOR SELECT
+USING (public.can_view_profile_content(user_id));
+
+CREATE POLICY "Private stories are only visible to approved followers"
+ON public.stories
+AS RESTRICTIVE
+FOR SELECT
+USING (public.can_view_profile_content(user_id));
+
+-- A follow row shows up in the follower's "following" list and in the followed
+-- account's "followers" list, so both sides must be visible unless it is your own
+CREATE POLICY "Private follower lists are only visible to approved followers"
+ON public.follows
+AS RESTRICTIVE
+FOR SELECT
+USING (
+  follower_id = public.get_current_user_id()
+  OR following_id = public.get_current_user_id()
+  OR (public.can_view_profile_content(follower_id) AND public.can_view_profile_content(following_id))
+);
+
+-- Private accounts can only gain followers by accepting a request
+CREATE POLICY "Private accounts cannot be followed directly"
+ON public.follows
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+  NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = following_id AND is_private
+  )
+);
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type = ANY (ARRAY['like'::text, 'comment'::text, 'follow'::text, 'follow_request'::text, 'mention'::text, 'comment_like'::text, 'story_tag'::text, 'post_tag'::text, 'comment_reply'::text, 'comment_mention'::text, 'report_update'::text, 'moderation_warning'::text]));
+
+-- Follow p_target_id, or ask to follow when the account is private
+-- Returns 'following' or 'requested'
+CREATE OR REPLACE FUNCTION public.request_follow(p_target_id UUID)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  v_user_id UUID := public.get_current_user_id();
+  v_is_private BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_user_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot follow yourself';
+  END IF;
+
+  SELECT is_private INTO v_is_private FROM profiles WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF public.is_blocked_between(v_user_id, p_target_id) THEN
+    RAISE EXCEPTION 'Cannot follow this user';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM follows WHERE follower_id = v_user_id AND following_id = p_target_id) THEN
+    RETURN 'following';
+  END IF;
+
+  IF v_is_private THEN
+    INSERT INTO follow_requests (requester_id, target_id)
+    VALUES (v_user_id, p_target_id)
+    ON CONFLICT (requester_id, target_id) DO NOTHING;
+
+    RETURN 'requested';
+  END IF;
+
+  INSERT INTO follows (follower_id, following_id)
+  VALUES (v_user_id, p_target_id);
+
+  RETURN 'following';
+END;
+$function$;
+
+-- Accept or reject a pending request addressed to the current user
+CREATE OR REPLACE FUNCTION public.respond_follow_request(p_request_id UUID, p_accept BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  v_request follow_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM follow_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Follow request not found';
+  END IF;
+
+  IF v_request.target_id IS DISTINCT FROM public.get_current_user_id() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF p_accept AND NOT public.is_blocked_between(v_request.requester_id, v_request.target_id) THEN
+    INSERT INTO follows (follower_id, following_id)
+    VALUES (v_request.requester_id, v_request.target_id)
+    ON CONFLICT (follower_id, following_id) DO NOTHING;
+  END IF;
+
+  DELETE FROM follow_requests WHERE id = p_request_id;
+END;
+$function$;
+
+-- Notify the account owner about new requests and clean up once they are handled
+CREATE OR REPLACE FUNCTION public.handle_follow_request_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  requester_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT display_name INTO requester_name FROM profiles WHERE id = NEW.requester_id;
+
+    PERFORM create_notification(
+      NEW.target_id,
+      'follow_request',
+      'Solicitação para seguir',
+      requester_name || ' quer te seguir',
+      'follow_request',
+      NEW.id,
+      NEW.requester_id
+    );
+
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM notifications
+  WHERE type = 'follow_request' AND entity_id = OLD.id;
+
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER trigger_follow_request_notification
+  AFTER INSERT OR DELETE ON public.follow_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_follow_request_notification();
+
+-- Switching back to a public account accepts every pending request
+CREATE OR REPLACE FUNCTION public.handle_profile_privacy_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF OLD.is_private AND NOT NEW.is_private THEN
+    INSERT INTO follows (follower_id, following_id)
+    SELECT requester_id, target_id FROM follow_requests WHERE target_id = NEW.id
+    ON CONFLICT (follower_id, following_id) DO NOTHING;
+
+    DELETE FROM follow_requests WHERE target_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_profile_privacy_change
+  AFTER UPDATE OF is_private ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.handle_profile_privacy_change();
+
+-- Blocking also drops pending requests in both directions
+CREATE OR REPLACE FUNCTION public.handle_user_blocked()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  DELETE FROM follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+     OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+  DELETE FROM follow_requests
+  WHERE (requester_id = NEW.blocker_id AND target_id = NEW.blocked_id)
+     OR (requester_id = NEW.blocked_id AND target_id = NEW.blocker_id);
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,145 @@
+-- Full-text search over profiles, posts and comments
+-- Profiles use the 'simple' config so usernames and names are not stemmed
+ALTER TABLE public.profiles
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(username, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(display_name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(bio, '')), 'B')
+) STORED;
+
+ALTER TABLE public.posts
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('portuguese', coalesce(content, ''))
+) STORED;
+
+ALTER TABLE public.post_comments
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('portuguese', coalesce(content, ''))
+) STORED;
+
+CREATE INDEX idx_profiles_search_vector ON public.profiles USING GIN (search_vector);
+CREATE INDEX idx_posts_search_vector ON public.posts USING GIN (search_vector);
+CREATE INDEX idx_post_comments_search_vector ON public.post_comments USING GIN (search_vector);
+
+-- Turns free text into a prefix query ("mar prai" -> 'mar':* & 'prai':*) so results show up while typing
+CREATE OR REPLACE FUNCTION public.build_search_query(p_query TEXT, p_config regconfig)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $function$
+  SELECT to_tsquery(
+    p_config,
+    string_agg(quote_literal(term) || ':*', ' & ')
+  )
+  FROM regexp_split_to_table(
+    trim(regexp_replace(lower(coalesce(p_query, '')), '[^[:alnum:]_]+', ' ', 'g')),
+    '\s+'
+  ) AS term
+  WHERE term <> '';
+$function$;
+
+-- Ranked, paginated search. p_type: 'profiles' | 'posts' | 'comments'
+-- Runs with the caller's permissions so block, mute and private-account policies still apply.
+-- Matches in headline are wrapped in chr(1) ... chr(2) for the client to highlight.
+CREATE OR REPLACE FUNCTION public.search_content(
+  p_query TEXT,
+  p_type TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  result_id UUID,
+  post_id UUID,
+  author_id UUID,
+  author_username TEXT,
+  author_display_name TEXT,
+  author_avatar_url TEXT,
+  image_url TEXT,
+  media_type TEXT,
+  headline TEXT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = 'public'
+AS $function$
+DECLARE
+  v_simple_query tsquery := public.build_search_query(p_query, 'simple');
+  v_query tsquery := public.build_search_query(p_query, 'portuguese');
+  v_options TEXT := 'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MaxFragments=2, MaxWords=20, MinWords=5';
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+  v_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+BEGIN
+  IF v_simple_query IS NULL OR v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_type = 'profiles' THEN
+    RETURN QUERY
+    SELECT
+      pr.id,
+      NULL::UUID,
+      pr.id,
+      pr.username,
+      pr.display_name,
+      pr.avatar_url,
+      NULL::TEXT,
+      NULL::TEXT,
+      ts_headline('simple', coalesce(pr.bio, ''), v_simple_query, v_options),
+      ts_rank(pr.search_vector, v_simple_query),
+      pr.created_at
+    FROM profiles pr
+    WHERE pr.search_vector @@ v_simple_query
+      AND NOT public.is_blocked_between(public.get_current_user_id(), pr.id)
+    ORDER BY 10 DESC, pr.followers_count DESC NULLS LAST, pr.id
+    LIMIT v_limit OFFSET v_offset;
+
+  ELSIF p_type = 'posts' THEN
+    RETURN QUERY
+    SELECT
+      p.id,
+      p.id,
+      p.user_id,
+      pr.username,
+      pr.display_name,
+      pr.avatar_url,
+      p.image_url,
+      p.media_type,
+      ts_headline('portuguese', p.content, v_query, v_options),
+      ts_rank(p.search_vector, v_query),
+      p.created_at
+    FROM posts p
+    JOIN profiles pr ON pr.id = p.user_id
+    WHERE p.search_vector @@ v_query
+    ORDER BY 10 DESC, p.created_at DESC, p.id
+    LIMIT v_limit OFFSET v_offset;
+
+  ELSIF p_type = 'comments' THEN
+    -- Joining posts applies their visibility rules to the comments as well
+    RETURN QUERY
+    SELECT
+      c.id,
+      c.post_id,
+      c.user_id,
+      pr.username,
+      pr.display_name,
+      pr.avatar_url,
+      p.image_url,
+      p.media_type,
+      ts_headline('portuguese', c.content, v_query, v_options),
+      ts_rank(c.search_vector, v_query),
+      c.created_at
+    FROM post_comments c
+    JOIN posts p ON p.id = c.post_id
+    JOIN profiles pr ON pr.id = c.user_id
+    WHERE c.search_vector @@ v_query
+    ORDER BY 10 DESC, c.created_at DESC, c.id
+    LIMIT v_limit OFFSET v_offset;
+
+  ELSE
+    RAISE EXCEPTION 'Invalid search type: %', p_type;
+  END IF;
+END;
+$function$;
@@ -0,0 +1,145 @@
+-- Hashtags extracted from posts and comments
+CREATE TABLE public.hashtags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (name = lower(name) AND char_length(name) BETWEEN 1 AND 100)
+);
+
+-- comment_id is set when the tag came from a comment; the post is still the one shown on the tag page
+CREATE TABLE public.post_hashtags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  hashtag_id UUID NOT NULL REFERENCES public.hashtags(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.post_comments(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_post_hashtags_post_unique
+ON public.post_hashtags(post_id, hashtag_id)
+WHERE comment_id IS NULL;
+
+CREATE UNIQUE INDEX idx_post_hashtags_comment_unique
+ON public.post_hashtags(comment_id, hashtag_id)
+WHERE comment_id IS NOT NULL;
+
+CREATE INDEX idx_post_hashtags_hashtag_created ON public.post_hashtags(hashtag_id, created_at DESC);
+CREATE INDEX idx_post_hashtags_created_at ON public.post_hashtags(created_at DESC);
+
+ALTER TABLE public.hashtags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_hashtags ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients, rows are written by the extraction triggers
+CREATE POLICY "Anyone can view hashtags"
+ON public.hashtags
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view post hashtags"
+ON public.post_hashtags
+FOR SELECT
+USING (true);
+
+-- Lowercased, de-duplicated tags in p_content. Purely numeric tags (#1) are ignored
+CREATE OR REPLACE FUNCTION public.extract_hashtags(p_content TEXT)
+RETURNS SETOF TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $function$
+  SELECT DISTINCT lower(m[2])
+  FROM regexp_matches(coalesce(p_content, ''), '(^|[^[:alnum:]_&/])#([[:alnum:]_]{1,100})', 'g') AS m
+  WHERE m[2] ~ '[^0-9_]';
+$function$;
+
+CREATE OR REPLACE FUNCTION public.sync_post_hashtags()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  v_post_id UUID;
+  v_comment_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'post_comments' THEN
+    v_post_id := NEW.post_id;
+    v_comment_id := NEW.id;
+  ELSE
+    v_post_id := NEW.id;
+    v_comment_id := NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM post_hashtags
+    WHERE post_id = v_post_id AND comment_id IS NOT DISTINCT FROM v_comment_id;
+  END IF;
+
+  INSERT INTO hashtags (name)
+  SELECT tag FROM public.extract_hashtags(NEW.content) AS tag
+  ON CONFLICT (name) DO NOTHING;
+
+  INSERT INTO post_hashtags (post_id, hashtag_id, comment_id)
+  SELECT v_post_id, h.id, v_comment_id
+  FROM hashtags h
+  WHERE h.name IN (SELECT public.extract_hashtags(NEW.content));
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_post_hashtags
+  AFTER INSERT OR UPDATE OF content ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.sync_post_hashtags();
+
+CREATE TRIGGER sync_comment_hashtags
+  AFTER INSERT OR UPDATE OF content ON public.post_comments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_post_hashtags();
+
+-- Backfill existing content
+INSERT INTO public.hashtags (name)
+SELECT DISTINCT tag
+FROM (
+  SELECT public.extract_hashtags(content) AS tag FROM public.posts
+  UNION
+  SELECT public.extract_hashtags(content) AS tag FROM public.post_comments
+) AS tags
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.post_hashtags (post_id, hashtag_id, comment_id, created_at)
+SELECT p.id, h.id, NULL, p.created_at
+FROM public.posts p
+CROSS JOIN LATERAL public.extract_hashtags(p.content) AS tag
+JOIN public.hashtags h ON h.name = tag;
+
+INSERT INTO public.post_hashtags (post_id, hashtag_id, comment_id, created_at)
+SELECT c.post_id, h.id, c.id, c.created_at
+FROM public.post_comments c
+CROSS JOIN LATERAL public.extract_hashtags(c.content) AS tag
+JOIN public.hashtags h ON h.name = tag;
+
+-- Most used tags in the last p_hours, counting distinct posts and authors.
+-- Runs with the caller's permissions so hidden and private posts are not counted.
+CREATE OR REPLACE FUNCTION public.get_trending_hashtags(p_limit INTEGER DEFAULT 10, p_hours INTEGER DEFAULT 24)
+RETURNS TABLE (
+  name TEXT,
+  posts_count BIGINT,
+  authors_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT
+    h.name,
+    count(DISTINCT ph.post_id) AS posts_count,
+    count(DISTINCT COALESCE(c.user_id, p.user_id)) AS authors_count
+  FROM post_hashtags ph
+  JOIN hashtags h ON h.id = ph.hashtag_id
+  JOIN posts p ON p.id = ph.post_id
+  LEFT JOIN post_comments c ON c.id = ph.comment_id
+  WHERE ph.created_at > now() - make_interval(hours => GREATEST(COALESCE(p_hours, 24), 1))
+  GROUP BY h.name
+  ORDER BY authors_count DESC, posts_count DESC, h.name
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+$function$;
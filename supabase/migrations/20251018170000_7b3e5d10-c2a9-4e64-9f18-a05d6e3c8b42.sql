@@ -0,0 +1,74 @@
+-- Message editing with revision history
+ALTER TABLE public.messages
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Each row keeps the content a message had before one edit
+CREATE TABLE public.message_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_revisions_message_id ON public.message_revisions(message_id, created_at);
+
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the trigger below and readable by whoever can read the conversation
+CREATE POLICY "Participants can view message revisions"
+ON public.message_revisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id
+    WHERE m.id = message_id
+      AND (c.is_public = true OR public.is_conversation_participant(c.id, public.get_current_user_id()))
+  )
+);
+
+-- Only the sender may change the text, only within 15 minutes, and never system or media-only messages
+CREATE OR REPLACE FUNCTION public.handle_message_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    -- edited_at only moves together with the content
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF current_user NOT IN ('postgres', 'service_role', 'supabase_admin') THEN
+    IF OLD.sender_id IS DISTINCT FROM public.get_current_user_id() THEN
+      RAISE EXCEPTION 'Only the sender can edit this message';
+    END IF;
+
+    IF COALESCE(OLD.message_type, 'user') = 'system' OR OLD.content IS NULL THEN
+      RAISE EXCEPTION 'This message cannot be edited';
+    END IF;
+
+    IF OLD.created_at < now() - interval '15 minutes' THEN
+      RAISE EXCEPTION 'Edit window has expired';
+    END IF;
+
+    IF NEW.content IS NULL OR btrim(NEW.content) = '' THEN
+      RAISE EXCEPTION 'Message content cannot be empty';
+    END IF;
+  END IF;
+
+  INSERT INTO message_revisions (message_id, content)
+  VALUES (OLD.id, OLD.content);
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_message_edit
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_message_edit();
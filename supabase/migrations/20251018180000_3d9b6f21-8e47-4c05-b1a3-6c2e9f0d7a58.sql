@@ -0,0 +1,75 @@
+-- Emoji reactions on chat messages, one per user per message.
+-- conversation_id is copied from the message so realtime subscriptions can filter by conversation
+CREATE TABLE public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id),
+  CHECK (char_length(emoji) BETWEEN 1 AND 16)
+);
+
+CREATE INDEX idx_message_reactions_conversation_id ON public.message_reactions(conversation_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view message reactions"
+ON public.message_reactions
+FOR SELECT
+USING (
+  public.is_conversation_participant(conversation_id, public.get_current_user_id())
+  OR EXISTS (
+    SELECT 1 FROM public.conversations c
+    WHERE c.id = conversation_id AND c.is_public = true
+  )
+);
+
+CREATE POLICY "Participants can react to messages"
+ON public.message_reactions
+FOR INSERT
+WITH CHECK (
+  user_id = public.get_current_user_id()
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+      AND COALESCE(m.message_type, 'user') <> 'system'
+      AND public.is_conversation_participant(m.conversation_id, user_id)
+      AND NOT public.is_blocked_between(user_id, m.sender_id)
+  )
+);
+
+CREATE POLICY "Users can change their own reactions"
+ON public.message_reactions
+FOR UPDATE
+USING (user_id = public.get_current_user_id())
+WITH CHECK (user_id = public.get_current_user_id());
+
+CREATE POLICY "Users can remove their own reactions"
+ON public.message_reactions
+FOR DELETE
+USING (user_id = public.get_current_user_id());
+
+CREATE OR REPLACE FUNCTION public.set_message_reaction_conversation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM messages
+  WHERE id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_message_reaction_conversation
+  BEFORE INSERT OR UPDATE OF message_id ON public.message_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_message_reaction_conversation();
+
+-- Habilitar realtime
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
@@ -0,0 +1,30 @@
+-- Voice messages: media_type 'audio' with duration and waveform computed on the client,
+-- plus the moment a recipient first played it
+ALTER TABLE public.messages
+ADD COLUMN media_duration REAL,
+ADD COLUMN media_waveform SMALLINT[],
+ADD COLUMN listened_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_media_waveform_check
+CHECK (media_waveform IS NULL OR array_length(media_waveform, 1) <= 100);
+
+-- Recipients mark a voice message as listened without going through the generic update path
+CREATE OR REPLACE FUNCTION public.mark_message_listened(p_message_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  v_user_id UUID := public.get_current_user_id();
+BEGIN
+  UPDATE messages
+  SET listened_at = now()
+  WHERE id = p_message_id
+    AND media_type = 'audio'
+    AND listened_at IS NULL
+    AND sender_id <> v_user_id
+    AND public.is_conversation_participant(conversation_id, v_user_id);
+END;
+$function$;
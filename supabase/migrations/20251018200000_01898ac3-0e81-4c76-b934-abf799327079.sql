@@ -0,0 +1,229 @@
+-- Single public room: replies and media on public chat messages, with slow mode and
+-- per-user rate limiting enforced here so no client can skip them
+ALTER TABLE public.public_chat_messages
+ALTER COLUMN content DROP NOT NULL;
+
+ALTER TABLE public.public_chat_messages
+ADD COLUMN replied_to_message_id UUID REFERENCES public.public_chat_messages(id) ON DELETE SET NULL,
+ADD COLUMN media_url TEXT,
+ADD COLUMN media_type TEXT CHECK (media_type IN ('image', 'video'));
+
+ALTER TABLE public.public_chat_messages
+ADD CONSTRAINT public_chat_messages_not_empty_check
+CHECK (NULLIF(btrim(content), '') IS NOT NULL OR media_url IS NOT NULL) NOT VALID;
+
+ALTER TABLE public.public_chat_messages
+ADD CONSTRAINT public_chat_messages_content_length_check
+CHECK (content IS NULL OR char_length(content) <= 1000) NOT VALID;
+
+-- Cursor pagination walks (created_at, id) backwards; the limits look at one sender's latest rows
+CREATE INDEX idx_public_chat_messages_cursor ON public.public_chat_messages(created_at DESC, id DESC);
+CREATE INDEX idx_public_chat_messages_sender ON public.public_chat_messages(sender_id, created_at DESC);
+
+-- The old policy let anyone signed in post under any sender_id
+DROP POLICY IF EXISTS "Authenticated users can send public chat messages" ON public.public_chat_messages;
+
+CREATE POLICY "Users can send public chat messages as themselves"
+ON public.public_chat_messages
+FOR INSERT
+WITH CHECK (sender_id = public.get_current_user_id());
+
+-- One row holding the room settings
+CREATE TABLE public.public_chat_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  slow_mode_seconds INTEGER NOT NULL DEFAULT 0 CHECK (slow_mode_seconds BETWEEN 0 AND 3600),
+  rate_limit_messages INTEGER NOT NULL DEFAULT 10 CHECK (rate_limit_messages > 0),
+  rate_limit_window_seconds INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_window_seconds > 0),
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.public_chat_settings DEFAULT VALUES;
+
+ALTER TABLE public.public_chat_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view public chat settings"
+ON public.public_chat_settings
+FOR SELECT
+USING (true);
+
+ALTER TABLE public.public_chat_settings REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.public_chat_settings;
+
+-- Staff turn slow mode on (seconds between messages of one user) or off (0)
+CREATE OR REPLACE FUNCTION public.set_public_chat_slow_mode(p_seconds INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  previous_seconds INTEGER;
+BEGIN
+  IF NOT public.is_staff(current_id) THEN
+    RAISE EXCEPTION 'Only staff can change slow mode' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_seconds IS NULL OR p_seconds < 0 OR p_seconds > 3600 THEN
+    RAISE EXCEPTION 'Slow mode must be between 0 and 3600 seconds';
+  END IF;
+
+  SELECT slow_mode_seconds INTO previous_seconds FROM public_chat_settings WHERE id;
+
+  UPDATE public_chat_settings
+  SET slow_mode_seconds = p_seconds,
+      updated_by = current_id,
+      updated_at = now()
+  WHERE id;
+
+  PERFORM log_admin_action(
+    current_id,
+    'set_public_chat_slow_mode',
+    'public_chat',
+    NULL,
+    jsonb_build_object('seconds', p_seconds, 'previous_seconds', previous_seconds)
+  );
+END;
+$function$;
+
+-- Staff remove messages from the room
+CREATE OR REPLACE FUNCTION public.delete_public_chat_message(p_message_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_message RECORD;
+BEGIN
+  IF NOT public.is_staff(current_id) THEN
+    RAISE EXCEPTION 'Only staff can delete public chat messages' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public_chat_messages
+  WHERE id = p_message_id
+  RETURNING sender_id, content INTO target_message;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  PERFORM log_admin_action(
+    current_id,
+    'delete_public_chat_message',
+    'public_chat_message',
+    p_message_id,
+    jsonb_build_object('sender_id', target_message.sender_id, 'content', LEFT(target_message.content, 200))
+  );
+END;
+$function$;
+
+-- Slow mode and rate limit, staff are exempt. Resending a message that already made it
+-- (the outbox retries with the same id) passes through and is dropped by the conflict
+CREATE OR REPLACE FUNCTION public.enforce_public_chat_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  settings RECORD;
+  last_sent_at TIMESTAMP WITH TIME ZONE;
+  recent_count INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public_chat_messages WHERE id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.created_at := now();
+
+  IF public.is_staff(NEW.sender_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Two concurrent inserts of one sender would both see the same history otherwise
+  PERFORM pg_advisory_xact_lock(hashtext('public_chat:' || NEW.sender_id::text));
+
+  SELECT * INTO settings FROM public_chat_settings WHERE id;
+
+  IF settings.slow_mode_seconds > 0 THEN
+    SELECT MAX(created_at) INTO last_sent_at
+    FROM public_chat_messages
+    WHERE sender_id = NEW.sender_id;
+
+    IF last_sent_at > now() - make_interval(secs => settings.slow_mode_seconds) THEN
+      RAISE EXCEPTION 'Slow mode: wait % seconds',
+        CEIL(EXTRACT(EPOCH FROM last_sent_at + make_interval(secs => settings.slow_mode_seconds) - now()))::integer
+        USING ERRCODE = '54000';
+    END IF;
+  END IF;
+
+  SELECT COUNT(*) INTO recent_count
+  FROM public_chat_messages
+  WHERE sender_id = NEW.sender_id
+    AND created_at > now() - make_interval(secs => settings.rate_limit_window_seconds);
+
+  IF recent_count >= settings.rate_limit_messages THEN
+    RAISE EXCEPTION 'Rate limit exceeded' USING ERRCODE = '54000';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_public_chat_limits
+  BEFORE INSERT ON public.public_chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_public_chat_limits();
+
+-- @name in a public message notifies that user. Usernames carry a 4 digit suffix
+-- that mentions leave out, so both forms match
+CREATE OR REPLACE FUNCTION public.handle_public_chat_mention_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  mentioned_user_id UUID;
+  mentioner_name TEXT;
+BEGIN
+  IF NEW.content IS NULL OR NEW.content NOT LIKE '%@%' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT display_name INTO mentioner_name FROM profiles WHERE id = NEW.sender_id;
+
+  FOR mentioned_user_id IN
+    SELECT DISTINCT p.id
+    FROM (
+      SELECT DISTINCT LOWER(m[1]) AS mention
+      FROM regexp_matches(NEW.content, '@([A-Za-z0-9_]+)', 'g') AS m
+      LIMIT 10
+    ) mentions
+    JOIN profiles p
+      ON LOWER(p.username) = mentions.mention
+      OR LOWER(p.username) ~ ('^' || mentions.mention || '[0-9]{4}$')
+    WHERE p.id <> NEW.sender_id
+  LOOP
+    PERFORM create_notification(
+      mentioned_user_id,
+      'mention',
+      'Você foi mencionado',
+      mentioner_name || ' mencionou você no chat público: "' || LEFT(NEW.content, 50) || '..."',
+      'public_chat_message',
+      NEW.id,
+      NEW.sender_id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER public_chat_mention_notification_trigger
+  AFTER INSERT ON public.public_chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_public_chat_mention_notification();
@@ -0,0 +1,133 @@
+-- Channel directory: public conversations get a category, and their creators can
+-- feature them (shown in the highlights strip) or pin them to the top of the list
+ALTER TABLE public.conversations
+ADD COLUMN category TEXT CHECK (category IN ('geral', 'amizade', 'esportes', 'musica', 'jogos', 'tecnologia', 'estudos', 'viagens', 'outros')),
+ADD COLUMN is_featured BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN pinned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_conversations_public_directory ON public.conversations(pinned_at DESC NULLS LAST, is_featured DESC)
+WHERE is_public = true;
+
+-- Activity per room is read from its latest messages
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at ON public.messages(conversation_id, created_at DESC);
+
+-- Public rooms for the directory, pinned first, then featured, then the busiest.
+-- p_search matches name or description; p_category NULL means every category.
+-- Member counts and activity need to see rooms the caller has not joined, hence SECURITY DEFINER
+CREATE OR REPLACE FUNCTION public.get_public_rooms(
+  p_search TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  photo_url TEXT,
+  category TEXT,
+  creator_id UUID,
+  is_featured BOOLEAN,
+  pinned_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  member_count INTEGER,
+  messages_last_day INTEGER,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  is_member BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT
+    c.id,
+    c.name,
+    c.description,
+    c.photo_url,
+    c.category,
+    c.creator_id,
+    c.is_featured,
+    c.pinned_at,
+    c.created_at,
+    (SELECT COUNT(*)::integer FROM conversation_participants cp WHERE cp.conversation_id = c.id),
+    activity.messages_last_day,
+    activity.last_message_at,
+    EXISTS (
+      SELECT 1 FROM conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.user_id = public.get_current_user_id()
+    )
+  FROM conversations c
+  LEFT JOIN LATERAL (
+    SELECT
+      MAX(m.created_at) AS last_message_at,
+      (COUNT(*) FILTER (WHERE m.created_at > now() - interval '1 day'))::integer AS messages_last_day
+    FROM messages m
+    WHERE m.conversation_id = c.id
+  ) activity ON true
+  WHERE c.is_public = true
+    AND (p_category IS NULL OR c.category = p_category)
+    AND (
+      NULLIF(btrim(p_search), '') IS NULL
+      OR position(lower(btrim(p_search)) IN lower(coalesce(c.name, ''))) > 0
+      OR position(lower(btrim(p_search)) IN lower(coalesce(c.description, ''))) > 0
+    )
+    AND (c.creator_id IS NULL OR NOT public.is_blocked_between(public.get_current_user_id(), c.creator_id))
+  ORDER BY
+    c.pinned_at DESC NULLS LAST,
+    c.is_featured DESC,
+    activity.messages_last_day DESC,
+    activity.last_message_at DESC NULLS LAST,
+    c.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$function$;
+
+-- Creators (and staff) change how their room is listed. NULL arguments are left as they are
+CREATE OR REPLACE FUNCTION public.update_room_listing(
+  p_conversation_id UUID,
+  p_category TEXT DEFAULT NULL,
+  p_is_featured BOOLEAN DEFAULT NULL,
+  p_is_pinned BOOLEAN DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_room RECORD;
+BEGIN
+  SELECT id, creator_id, is_public INTO target_room
+  FROM conversations WHERE id = p_conversation_id;
+
+  IF target_room.id IS NULL OR NOT target_room.is_public THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF target_room.creator_id IS DISTINCT FROM current_id AND NOT public.is_staff(current_id) THEN
+    RAISE EXCEPTION 'Only the room creator can change its listing' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE conversations
+  SET category = COALESCE(p_category, category),
+      is_featured = COALESCE(p_is_featured, is_featured),
+      pinned_at = CASE
+        WHEN p_is_pinned IS NULL THEN pinned_at
+        WHEN p_is_pinned THEN COALESCE(pinned_at, now())
+        ELSE NULL
+      END
+  WHERE id = p_conversation_id;
+
+  IF target_room.creator_id IS DISTINCT FROM current_id THEN
+    PERFORM log_admin_action(
+      current_id,
+      'update_room_listing',
+      'conversation',
+      p_conversation_id,
+      jsonb_build_object('category', p_category, 'is_featured', p_is_featured, 'is_pinned', p_is_pinned)
+    );
+  END IF;
+END;
+$function$;
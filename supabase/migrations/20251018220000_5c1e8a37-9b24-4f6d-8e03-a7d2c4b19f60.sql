@@ -0,0 +1,471 @@
+-- Group chat roles. Every participant is the owner, an admin or a member;
+-- owners and admins moderate the group, only the owner hands out roles
+ALTER TABLE public.conversation_participants
+ADD COLUMN role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+ADD COLUMN muted_until TIMESTAMP WITH TIME ZONE;
+
+-- The creator owns the groups they are still in
+UPDATE public.conversation_participants cp
+SET role = 'owner'
+FROM public.conversations c
+WHERE c.id = cp.conversation_id
+  AND cp.user_id = c.creator_id;
+
+-- Groups whose creator already left are handed to their oldest participant
+UPDATE public.conversation_participants cp
+SET role = 'owner'
+WHERE cp.id IN (
+  SELECT DISTINCT ON (p.conversation_id) p.id
+  FROM public.conversation_participants p
+  JOIN public.conversations c ON c.id = p.conversation_id
+  WHERE c.creator_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.conversation_participants o
+      WHERE o.conversation_id = p.conversation_id AND o.role = 'owner'
+    )
+  ORDER BY p.conversation_id, p.joined_at, p.id
+);
+
+CREATE UNIQUE INDEX idx_conversation_participants_one_owner ON public.conversation_participants(conversation_id)
+WHERE role = 'owner';
+
+CREATE OR REPLACE FUNCTION public.conversation_role_rank(p_role TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT CASE p_role WHEN 'owner' THEN 2 WHEN 'admin' THEN 1 ELSE 0 END;
+$function$;
+
+-- Permissions by role. manage_roles belongs to the owner alone, everything else
+-- to owners and admins. Non-participants have no permission at all
+CREATE OR REPLACE FUNCTION public.has_conversation_permission(
+  p_conversation_id UUID,
+  p_user_id UUID,
+  p_permission TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN p_permission = 'manage_roles' THEN cp.role = 'owner'
+      WHEN p_permission IN ('manage_participants', 'edit_info', 'pin_messages', 'delete_messages', 'mute_members')
+        THEN cp.role IN ('owner', 'admin')
+      ELSE false
+    END
+    FROM conversation_participants cp
+    WHERE cp.conversation_id = p_conversation_id AND cp.user_id = p_user_id
+  ), false);
+$function$;
+
+-- Acting on another participant also needs a higher role: admins moderate
+-- members, the owner moderates everyone
+CREATE OR REPLACE FUNCTION public.can_moderate_conversation_member(
+  p_conversation_id UUID,
+  p_actor_id UUID,
+  p_target_id UUID,
+  p_permission TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT public.has_conversation_permission(p_conversation_id, p_actor_id, p_permission)
+    AND EXISTS (
+      SELECT 1
+      FROM conversation_participants actor
+      JOIN conversation_participants target
+        ON target.conversation_id = actor.conversation_id AND target.user_id = p_target_id
+      WHERE actor.conversation_id = p_conversation_id
+        AND actor.user_id = p_actor_id
+        AND public.conversation_role_rank(actor.role) > public.conversation_role_rank(target.role)
+    );
+$function$;
+
+-- Who may add p_user_id to a conversation:
+-- * direct chats (no creator) keep their old rules: the opening insert and participants re-adding
+-- * a group's creator seats themselves first, which makes them the owner
+-- * anyone joins a public room by themselves
+-- * otherwise the manage_participants permission is needed
+CREATE OR REPLACE FUNCTION public.can_add_conversation_participant(p_conversation_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_conversation RECORD;
+  has_participants BOOLEAN;
+BEGIN
+  SELECT id, creator_id, is_public INTO target_conversation
+  FROM conversations WHERE id = p_conversation_id;
+
+  IF target_conversation.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  has_participants := EXISTS (
+    SELECT 1 FROM conversation_participants WHERE conversation_id = p_conversation_id
+  );
+
+  IF target_conversation.creator_id IS NULL THEN
+    RETURN NOT has_participants
+      OR p_user_id = current_id
+      OR public.is_conversation_participant(p_conversation_id, current_id);
+  END IF;
+
+  IF NOT has_participants THEN
+    RETURN p_user_id = current_id AND target_conversation.creator_id = current_id;
+  END IF;
+
+  IF p_user_id = current_id AND target_conversation.is_public THEN
+    RETURN true;
+  END IF;
+
+  RETURN public.has_conversation_permission(p_conversation_id, current_id, 'manage_participants');
+END;
+$function$;
+
+-- Roles are never chosen on insert: the creator gets the ownership back if the
+-- group has no owner, everyone else starts as a member
+CREATE OR REPLACE FUNCTION public.assign_conversation_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  NEW.muted_until := NULL;
+
+  IF EXISTS (
+    SELECT 1 FROM conversations
+    WHERE id = NEW.conversation_id AND creator_id = NEW.user_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = NEW.conversation_id AND role = 'owner'
+  ) THEN
+    NEW.role := 'owner';
+  ELSE
+    NEW.role := 'member';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER assign_conversation_role
+  BEFORE INSERT ON public.conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_conversation_role();
+
+-- When the owner leaves, the oldest admin (or else the oldest member) takes over
+CREATE OR REPLACE FUNCTION public.transfer_conversation_ownership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF OLD.role <> 'owner' THEN
+    RETURN OLD;
+  END IF;
+
+  UPDATE conversation_participants
+  SET role = 'owner', muted_until = NULL
+  WHERE id = (
+    SELECT id FROM conversation_participants
+    WHERE conversation_id = OLD.conversation_id
+    ORDER BY public.conversation_role_rank(role) DESC, joined_at, id
+    LIMIT 1
+  );
+
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER transfer_conversation_ownership
+  AFTER DELETE ON public.conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.transfer_conversation_ownership();
+
+-- Participants: adding follows can_add_conversation_participant, removing
+-- someone else needs manage_participants and a higher role. Roles and mutes
+-- change only through the functions below
+DROP POLICY IF EXISTS "participants_insert_policy" ON public.conversation_participants;
+DROP POLICY IF EXISTS "Users can join conversations" ON public.conversation_participants;
+DROP POLICY IF EXISTS "Users can add participants to conversations they're in" ON public.conversation_participants;
+
+CREATE POLICY "Participants are added by who the group allows"
+ON public.conversation_participants
+FOR INSERT
+WITH CHECK (public.can_add_conversation_participant(conversation_id, user_id));
+
+CREATE POLICY "Users can leave or be removed by a group admin"
+ON public.conversation_participants
+FOR DELETE
+USING (
+  user_id = public.get_current_user_id()
+  OR public.can_moderate_conversation_member(conversation_id, public.get_current_user_id(), user_id, 'manage_participants')
+);
+
+-- Conversations: name, photo and description are edited with edit_info
+DROP POLICY IF EXISTS "conversations_update_policy" ON public.conversations;
+DROP POLICY IF EXISTS "Creators can update conversations" ON public.conversations;
+DROP POLICY IF EXISTS "Creators can update public chats, participants can update private chats" ON public.conversations;
+
+CREATE POLICY "Group admins can update conversations"
+ON public.conversations
+FOR UPDATE
+USING (public.has_conversation_permission(id, public.get_current_user_id(), 'edit_info'));
+
+-- Ownership, visibility and the directory listing are not part of edit_info
+CREATE OR REPLACE FUNCTION public.protect_conversation_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF current_user NOT IN ('postgres', 'service_role', 'supabase_admin') THEN
+    NEW.creator_id := OLD.creator_id;
+    NEW.is_public := OLD.is_public;
+    NEW.is_featured := OLD.is_featured;
+    NEW.pinned_at := OLD.pinned_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_conversation_columns
+  BEFORE UPDATE ON public.conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_conversation_columns();
+
+-- Messages: besides the sender, owners and admins delete messages in their group
+CREATE POLICY "Messages are deleted by their sender or a group admin"
+ON public.messages
+AS RESTRICTIVE
+FOR DELETE
+USING (
+  sender_id = public.get_current_user_id()
+  OR public.has_conversation_permission(conversation_id, public.get_current_user_id(), 'delete_messages')
+);
+
+-- Muted participants keep reading but cannot send until muted_until.
+-- System messages (joins and leaves) still go through
+CREATE OR REPLACE FUNCTION public.block_muted_sender()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF COALESCE(NEW.message_type, 'user') <> 'system' AND EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = NEW.conversation_id
+      AND user_id = NEW.sender_id
+      AND muted_until > now()
+  ) THEN
+    RAISE EXCEPTION 'Muted in this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER block_muted_sender
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.block_muted_sender();
+
+-- The owner promotes members to admin or demotes admins back to member
+CREATE OR REPLACE FUNCTION public.set_conversation_role(
+  p_conversation_id UUID,
+  p_user_id UUID,
+  p_role TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+BEGIN
+  IF p_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role %', p_role;
+  END IF;
+
+  IF NOT public.can_moderate_conversation_member(p_conversation_id, current_id, p_user_id, 'manage_roles') THEN
+    RAISE EXCEPTION 'Only the group owner can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE conversation_participants
+  SET role = p_role
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+END;
+$function$;
+
+-- Mutes a participant for p_minutes; zero or NULL lifts the mute.
+-- Returns when the mute ends
+CREATE OR REPLACE FUNCTION public.mute_conversation_member(
+  p_conversation_id UUID,
+  p_user_id UUID,
+  p_minutes INTEGER DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  new_muted_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT public.can_moderate_conversation_member(p_conversation_id, current_id, p_user_id, 'mute_members') THEN
+    RAISE EXCEPTION 'Not allowed to mute this participant' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(p_minutes, 0) > 0 THEN
+    new_muted_until := now() + make_interval(mins => p_minutes);
+  END IF;
+
+  UPDATE conversation_participants
+  SET muted_until = new_muted_until
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+  RETURN new_muted_until;
+END;
+$function$;
+
+-- The directory also tells the caller their role in each room
+DROP FUNCTION public.get_public_rooms(TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_public_rooms(
+  p_search TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  photo_url TEXT,
+  category TEXT,
+  creator_id UUID,
+  is_featured BOOLEAN,
+  pinned_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  member_count INTEGER,
+  messages_last_day INTEGER,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  is_member BOOLEAN,
+  my_role TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT
+    c.id,
+    c.name,
+    c.description,
+    c.photo_url,
+    c.category,
+    c.creator_id,
+    c.is_featured,
+    c.pinned_at,
+    c.created_at,
+    (SELECT COUNT(*)::integer FROM conversation_participants cp WHERE cp.conversation_id = c.id),
+    activity.messages_last_day,
+    activity.last_message_at,
+    membership.role IS NOT NULL,
+    membership.role
+  FROM conversations c
+  LEFT JOIN conversation_participants membership
+    ON membership.conversation_id = c.id AND membership.user_id = public.get_current_user_id()
+  LEFT JOIN LATERAL (
+    SELECT
+      MAX(m.created_at) AS last_message_at,
+      (COUNT(*) FILTER (WHERE m.created_at > now() - interval '1 day'))::integer AS messages_last_day
+    FROM messages m
+    WHERE m.conversation_id = c.id
+  ) activity ON true
+  WHERE c.is_public = true
+    AND (p_category IS NULL OR c.category = p_category)
+    AND (
+      NULLIF(btrim(p_search), '') IS NULL
+      OR position(lower(btrim(p_search)) IN lower(coalesce(c.name, ''))) > 0
+      OR position(lower(btrim(p_search)) IN lower(coalesce(c.description, ''))) > 0
+    )
+    AND (c.creator_id IS NULL OR NOT public.is_blocked_between(public.get_current_user_id(), c.creator_id))
+  ORDER BY
+    c.pinned_at DESC NULLS LAST,
+    c.is_featured DESC,
+    activity.messages_last_day DESC,
+    activity.last_message_at DESC NULLS LAST,
+    c.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$function$;
+
+-- Room listings follow the group roles now; staff can still change any room
+CREATE OR REPLACE FUNCTION public.update_room_listing(
+  p_conversation_id UUID,
+  p_category TEXT DEFAULT NULL,
+  p_is_featured BOOLEAN DEFAULT NULL,
+  p_is_pinned BOOLEAN DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_room RECORD;
+  is_room_admin BOOLEAN;
+BEGIN
+  SELECT id, is_public INTO target_room
+  FROM conversations WHERE id = p_conversation_id;
+
+  IF target_room.id IS NULL OR NOT target_room.is_public THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  is_room_admin := public.has_conversation_permission(p_conversation_id, current_id, 'edit_info');
+
+  IF NOT is_room_admin AND NOT public.is_staff(current_id) THEN
+    RAISE EXCEPTION 'Only room admins can change its listing' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE conversations
+  SET category = COALESCE(p_category, category),
+      is_featured = COALESCE(p_is_featured, is_featured),
+      pinned_at = CASE
+        WHEN p_is_pinned IS NULL THEN pinned_at
+        WHEN p_is_pinned THEN COALESCE(pinned_at, now())
+        ELSE NULL
+      END
+  WHERE id = p_conversation_id;
+
+  IF NOT is_room_admin THEN
+    PERFORM log_admin_action(
+      current_id,
+      'update_room_listing',
+      'conversation',
+      p_conversation_id,
+      jsonb_build_object('category', p_category, 'is_featured', p_is_featured, 'is_pinned', p_is_pinned)
+    );
+  END IF;
+END;
+$function$;
@@ -0,0 +1,310 @@
+-- Invite links for group conversations. Anyone with the code can join (or ask
+-- to join) until the link is revoked, expires or runs out of uses
+CREATE TABLE public.conversation_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  requires_approval BOOLEAN NOT NULL DEFAULT false,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.conversation_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_conversation_invites_conversation_id ON public.conversation_invites(conversation_id, created_at DESC);
+
+-- Invites are managed through the functions below and listed to whoever manages participants
+CREATE POLICY "Group admins can view invites"
+ON public.conversation_invites
+FOR SELECT
+USING (public.has_conversation_permission(conversation_id, public.get_current_user_id(), 'manage_participants'));
+
+-- Pending requests from invites that need an admin's approval
+CREATE TABLE public.conversation_join_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  invite_id UUID REFERENCES public.conversation_invites(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (conversation_id, user_id)
+);
+
+ALTER TABLE public.conversation_join_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_conversation_join_requests_conversation_id ON public.conversation_join_requests(conversation_id, created_at);
+
+CREATE POLICY "Users and group admins can view join requests"
+ON public.conversation_join_requests
+FOR SELECT
+USING (
+  user_id = public.get_current_user_id()
+  OR public.has_conversation_permission(conversation_id, public.get_current_user_id(), 'manage_participants')
+);
+
+CREATE POLICY "Users can cancel their join requests"
+ON public.conversation_join_requests
+FOR DELETE
+USING (user_id = public.get_current_user_id());
+
+ALTER TABLE public.conversation_join_requests REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_join_requests;
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type = ANY (ARRAY['like'::text, 'comment'::text, 'follow'::text, 'follow_request'::text, 'mention'::text, 'comment_like'::text, 'story_tag'::text, 'post_tag'::text, 'comment_reply'::text, 'comment_mention'::text, 'report_update'::text, 'moderation_warning'::text, 'join_request'::text]));
+
+-- New invite for p_conversation_id. NULL arguments mean no expiry and no use limit.
+-- Approval only applies to private groups; public rooms can be joined freely anyway
+CREATE OR REPLACE FUNCTION public.create_conversation_invite(
+  p_conversation_id UUID,
+  p_expires_in_hours INTEGER DEFAULT NULL,
+  p_max_uses INTEGER DEFAULT NULL,
+  p_requires_approval BOOLEAN DEFAULT false
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_is_public BOOLEAN;
+  new_code TEXT;
+BEGIN
+  IF NOT public.has_conversation_permission(p_conversation_id, current_id, 'manage_participants') THEN
+    RAISE EXCEPTION 'Not allowed to invite people to this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT is_public INTO target_is_public FROM conversations WHERE id = p_conversation_id;
+
+  new_code := substr(replace(gen_random_uuid()::text, '-', ''), 1, 12);
+
+  INSERT INTO conversation_invites (conversation_id, code, created_by, expires_at, max_uses, requires_approval)
+  VALUES (
+    p_conversation_id,
+    new_code,
+    current_id,
+    CASE WHEN p_expires_in_hours > 0 THEN now() + make_interval(hours => p_expires_in_hours) END,
+    NULLIF(p_max_uses, 0),
+    COALESCE(p_requires_approval, false) AND NOT COALESCE(target_is_public, false)
+  );
+
+  RETURN new_code;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.revoke_conversation_invite(p_invite_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  target_conversation_id UUID;
+BEGIN
+  SELECT conversation_id INTO target_conversation_id FROM conversation_invites WHERE id = p_invite_id;
+
+  IF NOT public.has_conversation_permission(target_conversation_id, public.get_current_user_id(), 'manage_participants') THEN
+    RAISE EXCEPTION 'Not allowed to revoke this invite' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE conversation_invites
+  SET revoked_at = COALESCE(revoked_at, now())
+  WHERE id = p_invite_id;
+END;
+$function$;
+
+-- What the /join page shows before joining. status is 'valid', 'revoked', 'expired'
+-- or 'exhausted'; an unknown code returns no row
+CREATE OR REPLACE FUNCTION public.get_conversation_invite(p_code TEXT)
+RETURNS TABLE (
+  conversation_id UUID,
+  name TEXT,
+  description TEXT,
+  photo_url TEXT,
+  is_public BOOLEAN,
+  member_count INTEGER,
+  requires_approval BOOLEAN,
+  status TEXT,
+  is_member BOOLEAN,
+  has_pending_request BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT
+    c.id,
+    c.name,
+    c.description,
+    c.photo_url,
+    COALESCE(c.is_public, false),
+    (SELECT COUNT(*)::integer FROM conversation_participants cp WHERE cp.conversation_id = c.id),
+    i.requires_approval,
+    CASE
+      WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN i.expires_at <= now() THEN 'expired'
+      WHEN i.max_uses IS NOT NULL AND i.use_count >= i.max_uses THEN 'exhausted'
+      ELSE 'valid'
+    END,
+    public.is_conversation_participant(c.id, public.get_current_user_id()),
+    EXISTS (
+      SELECT 1 FROM conversation_join_requests r
+      WHERE r.conversation_id = c.id AND r.user_id = public.get_current_user_id()
+    )
+  FROM conversation_invites i
+  JOIN conversations c ON c.id = i.conversation_id
+  WHERE i.code = p_code;
+$function$;
+
+-- Uses an invite. Returns 'member' when already in the conversation, 'requested'
+-- when an admin has to approve, 'joined' otherwise
+CREATE OR REPLACE FUNCTION public.redeem_conversation_invite(p_code TEXT)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_invite conversation_invites%ROWTYPE;
+BEGIN
+  IF current_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO target_invite FROM conversation_invites WHERE code = p_code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  IF public.is_conversation_participant(target_invite.conversation_id, current_id) THEN
+    RETURN 'member';
+  END IF;
+
+  IF target_invite.requires_approval AND EXISTS (
+    SELECT 1 FROM conversation_join_requests
+    WHERE conversation_id = target_invite.conversation_id AND user_id = current_id
+  ) THEN
+    RETURN 'requested';
+  END IF;
+
+  IF target_invite.created_by IS NOT NULL AND public.is_blocked_between(current_id, target_invite.created_by) THEN
+    RAISE EXCEPTION 'Cannot join this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  -- Claim one use atomically so concurrent joins cannot go past max_uses
+  UPDATE conversation_invites
+  SET use_count = use_count + 1
+  WHERE id = target_invite.id
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (max_uses IS NULL OR use_count < max_uses);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite is no longer valid';
+  END IF;
+
+  IF target_invite.requires_approval THEN
+    INSERT INTO conversation_join_requests (conversation_id, user_id, invite_id)
+    VALUES (target_invite.conversation_id, current_id, target_invite.id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    RETURN 'requested';
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  VALUES (target_invite.conversation_id, current_id)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN 'joined';
+END;
+$function$;
+
+-- Approve or reject a pending join request. Approved users are announced in the chat
+CREATE OR REPLACE FUNCTION public.respond_join_request(p_request_id UUID, p_accept BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  v_request conversation_join_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM conversation_join_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF NOT public.has_conversation_permission(v_request.conversation_id, public.get_current_user_id(), 'manage_participants') THEN
+    RAISE EXCEPTION 'Not allowed' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_accept THEN
+    INSERT INTO conversation_participants (conversation_id, user_id)
+    VALUES (v_request.conversation_id, v_request.user_id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    -- Posted here because requests can be answered from the settings or from a notification
+    INSERT INTO messages (conversation_id, sender_id, content, message_type)
+    SELECT v_request.conversation_id, v_request.user_id,
+           '✅ ' || regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') || ' entrou na conversa',
+           'system'
+    FROM profiles
+    WHERE id = v_request.user_id;
+  END IF;
+
+  DELETE FROM conversation_join_requests WHERE id = p_request_id;
+END;
+$function$;
+
+-- Notify the group's owner and admins about new requests and clean up once they are handled
+CREATE OR REPLACE FUNCTION public.handle_join_request_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  requester_name TEXT;
+  conversation_name TEXT;
+  admin_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT display_name INTO requester_name FROM profiles WHERE id = NEW.user_id;
+    SELECT name INTO conversation_name FROM conversations WHERE id = NEW.conversation_id;
+
+    FOR admin_id IN
+      SELECT user_id FROM conversation_participants
+      WHERE conversation_id = NEW.conversation_id AND role IN ('owner', 'admin')
+    LOOP
+      PERFORM create_notification(
+        admin_id,
+        'join_request',
+        'Pedido para entrar',
+        requester_name || ' quer entrar em ' || COALESCE(conversation_name, 'seu grupo'),
+        'conversation_join_request',
+        NEW.id,
+        NEW.user_id
+      );
+    END LOOP;
+
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM notifications
+  WHERE type = 'join_request' AND entity_id = OLD.id;
+
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER trigger_join_request_notification
+  AFTER INSERT OR DELETE ON public.conversation_join_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_join_request_notification();
@@ -0,0 +1,130 @@
+-- Pinned messages. Owners and admins always pin; groups can open pinning to
+-- every member, and in direct chats both people can pin
+ALTER TABLE public.conversations
+ADD COLUMN members_can_pin BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.pinned_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  pinned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id)
+);
+
+ALTER TABLE public.pinned_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_pinned_messages_conversation_id ON public.pinned_messages(conversation_id, created_at DESC);
+
+-- Pins are written through pin_message/unpin_message and visible to whoever reads the conversation
+CREATE POLICY "Pinned messages are visible to conversation readers"
+ON public.pinned_messages
+FOR SELECT
+USING (
+  public.is_conversation_participant(conversation_id, public.get_current_user_id())
+  OR EXISTS (
+    SELECT 1 FROM public.conversations c
+    WHERE c.id = pinned_messages.conversation_id AND c.is_public = true
+  )
+);
+
+ALTER TABLE public.pinned_messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pinned_messages;
+
+-- Same as before, except that pin_messages also follows members_can_pin and is open
+-- to both people of a direct chat (no creator)
+CREATE OR REPLACE FUNCTION public.has_conversation_permission(
+  p_conversation_id UUID,
+  p_user_id UUID,
+  p_permission TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN p_permission = 'manage_roles' THEN cp.role = 'owner'
+      WHEN p_permission = 'pin_messages'
+        THEN cp.role IN ('owner', 'admin') OR c.members_can_pin OR c.creator_id IS NULL
+      WHEN p_permission IN ('manage_participants', 'edit_info', 'delete_messages', 'mute_members')
+        THEN cp.role IN ('owner', 'admin')
+      ELSE false
+    END
+    FROM conversation_participants cp
+    JOIN conversations c ON c.id = cp.conversation_id
+    WHERE cp.conversation_id = p_conversation_id AND cp.user_id = p_user_id
+  ), false);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.pin_message(p_message_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_conversation_id UUID;
+  actor_name TEXT;
+BEGIN
+  SELECT conversation_id INTO target_conversation_id
+  FROM messages
+  WHERE id = p_message_id AND COALESCE(message_type, 'user') <> 'system';
+
+  IF target_conversation_id IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF NOT public.has_conversation_permission(target_conversation_id, current_id, 'pin_messages') THEN
+    RAISE EXCEPTION 'Not allowed to pin messages in this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO pinned_messages (conversation_id, message_id, pinned_by)
+  VALUES (target_conversation_id, p_message_id, current_id)
+  ON CONFLICT (message_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') INTO actor_name
+  FROM profiles WHERE id = current_id;
+
+  INSERT INTO messages (conversation_id, sender_id, content, message_type)
+  VALUES (target_conversation_id, current_id, '📌 ' || actor_name || ' fixou uma mensagem', 'system');
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.unpin_message(p_message_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_conversation_id UUID;
+  actor_name TEXT;
+BEGIN
+  SELECT conversation_id INTO target_conversation_id FROM pinned_messages WHERE message_id = p_message_id;
+
+  IF target_conversation_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.has_conversation_permission(target_conversation_id, current_id, 'pin_messages') THEN
+    RAISE EXCEPTION 'Not allowed to unpin messages in this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM pinned_messages WHERE message_id = p_message_id;
+
+  SELECT regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') INTO actor_name
+  FROM profiles WHERE id = current_id;
+
+  INSERT INTO messages (conversation_id, sender_id, content, message_type)
+  VALUES (target_conversation_id, current_id, actor_name || ' desafixou uma mensagem', 'system');
+END;
+$function$;
@@ -0,0 +1,62 @@
+-- Full-text search inside one conversation. An expression index instead of a stored
+-- search_vector column keeps the vector out of every realtime message payload
+CREATE INDEX idx_messages_content_search ON public.messages
+USING GIN (to_tsvector('portuguese', coalesce(content, '')));
+
+-- Newest matches first, paginated. Only readers of the conversation (participants, or anyone
+-- for public rooms) may search it. Matches in headline are wrapped in chr(1) ... chr(2)
+-- like search_content
+CREATE OR REPLACE FUNCTION public.search_conversation_messages(
+  p_conversation_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  message_id UUID,
+  sender_id UUID,
+  sender_username TEXT,
+  sender_display_name TEXT,
+  sender_avatar_url TEXT,
+  headline TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  v_query tsquery := public.build_search_query(p_query, 'portuguese');
+  v_options TEXT := 'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MaxFragments=1, MaxWords=20, MinWords=5';
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+  v_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, current_id)
+    AND NOT EXISTS (SELECT 1 FROM conversations WHERE id = p_conversation_id AND is_public = true) THEN
+    RAISE EXCEPTION 'Not allowed to search this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    pr.username,
+    pr.display_name,
+    pr.avatar_url,
+    ts_headline('portuguese', m.content, v_query, v_options),
+    m.created_at
+  FROM messages m
+  LEFT JOIN profiles pr ON pr.id = m.sender_id
+  WHERE m.conversation_id = p_conversation_id
+    AND COALESCE(m.message_type, 'user') <> 'system'
+    AND to_tsvector('portuguese', coalesce(m.content, '')) @@ v_query
+  ORDER BY m.created_at DESC, m.id
+  LIMIT v_limit OFFSET v_offset;
+END;
+$function$;
@@ -0,0 +1,53 @@
+-- Shared media, links and files of one conversation, browsed from the chat settings
+CREATE INDEX idx_messages_conversation_media ON public.messages(conversation_id, created_at DESC)
+WHERE media_url IS NOT NULL;
+
+-- Newest first, paginated. p_kind is 'media' (images and videos), 'links' (messages whose
+-- text has a URL; the URLs themselves are extracted on the client) or 'files'
+CREATE OR REPLACE FUNCTION public.get_conversation_shared_media(
+  p_conversation_id UUID,
+  p_kind TEXT,
+  p_limit INTEGER DEFAULT 30,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  message_id UUID,
+  sender_id UUID,
+  content TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 30), 1), 60);
+  v_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, current_id)
+    AND NOT EXISTS (SELECT 1 FROM conversations WHERE id = p_conversation_id AND is_public = true) THEN
+    RAISE EXCEPTION 'Not allowed to browse this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('media', 'links', 'files') THEN
+    RAISE EXCEPTION 'Unknown shared media kind: %', p_kind;
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.sender_id, m.content, m.media_url, m.media_type, m.created_at
+  FROM messages m
+  WHERE m.conversation_id = p_conversation_id
+    AND COALESCE(m.message_type, 'user') <> 'system'
+    AND CASE p_kind
+      WHEN 'media' THEN m.media_url IS NOT NULL AND m.media_type IN ('image', 'video')
+      WHEN 'files' THEN m.media_url IS NOT NULL AND m.media_type = 'file'
+      ELSE m.content ~* 'https?://'
+    END
+  ORDER BY m.created_at DESC, m.id
+  LIMIT v_limit OFFSET v_offset;
+END;
+$function$;
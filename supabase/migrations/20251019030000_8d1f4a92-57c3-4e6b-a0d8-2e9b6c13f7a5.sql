@@ -0,0 +1,129 @@
+-- Document and file attachments: media_type 'file' with the original name, size and MIME
+-- type. The same allow-list limits what the chat-files bucket accepts and what a message
+-- may claim to carry
+CREATE OR REPLACE FUNCTION public.allowed_attachment_mime_types()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT ARRAY[
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/rtf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation',
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/x-7z-compressed',
+    'application/vnd.rar',
+    'application/x-rar-compressed',
+    'application/gzip',
+    'audio/mpeg',
+    'audio/mp4',
+    'audio/x-m4a',
+    'audio/aac',
+    'audio/ogg',
+    'audio/wav',
+    'audio/webm',
+    'audio/flac'
+  ]::TEXT[];
+$function$;
+
+-- 25MB, enforced by storage on upload
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('chat-files', 'chat-files', true, 26214400, public.allowed_attachment_mime_types())
+ON CONFLICT (id) DO UPDATE
+SET file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Chat files are publicly accessible"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'chat-files');
+
+CREATE POLICY "Anyone can upload chat files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'chat-files');
+
+ALTER TABLE public.messages
+ADD COLUMN media_name TEXT,
+ADD COLUMN media_size BIGINT,
+ADD COLUMN media_mime_type TEXT;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_file_attachment_check
+CHECK (
+  media_type IS DISTINCT FROM 'file'
+  OR (
+    media_url IS NOT NULL
+    AND NULLIF(btrim(media_name), '') IS NOT NULL
+    AND char_length(media_name) <= 255
+    AND media_size BETWEEN 1 AND 26214400
+    AND media_mime_type = ANY (public.allowed_attachment_mime_types())
+  )
+) NOT VALID;
+
+-- The files tab of the shared media shows the original name, size and type
+DROP FUNCTION IF EXISTS public.get_conversation_shared_media(UUID, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_shared_media(
+  p_conversation_id UUID,
+  p_kind TEXT,
+  p_limit INTEGER DEFAULT 30,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  message_id UUID,
+  sender_id UUID,
+  content TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  media_name TEXT,
+  media_size BIGINT,
+  media_mime_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 30), 1), 60);
+  v_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, current_id)
+    AND NOT EXISTS (SELECT 1 FROM conversations WHERE id = p_conversation_id AND is_public = true) THEN
+    RAISE EXCEPTION 'Not allowed to browse this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('media', 'links', 'files') THEN
+    RAISE EXCEPTION 'Unknown shared media kind: %', p_kind;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id, m.sender_id, m.content, m.media_url, m.media_type,
+    m.media_name, m.media_size, m.media_mime_type, m.created_at
+  FROM messages m
+  WHERE m.conversation_id = p_conversation_id
+    AND COALESCE(m.message_type, 'user') <> 'system'
+    AND CASE p_kind
+      WHEN 'media' THEN m.media_url IS NOT NULL AND m.media_type IN ('image', 'video')
+      WHEN 'files' THEN m.media_url IS NOT NULL AND m.media_type = 'file'
+      ELSE m.content ~* 'https?://'
+    END
+  ORDER BY m.created_at DESC, m.id
+  LIMIT v_limit OFFSET v_offset;
+END;
+$function$;
@@ -0,0 +1,153 @@
+-- Story archive and highlights ("Destaques"). Expired stories are no longer deleted:
+-- their author keeps them in the archive, and the ones added to a highlight stay
+-- visible to whoever can see the author's profile
+CREATE TABLE public.story_highlights (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 30),
+  cover_story_id UUID REFERENCES public.stories(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.story_highlight_items (
+  highlight_id UUID NOT NULL REFERENCES public.story_highlights(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (highlight_id, story_id)
+);
+
+ALTER TABLE public.story_highlights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_highlight_items ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_story_highlights_user_id ON public.story_highlights(user_id, position);
+CREATE INDEX idx_story_highlight_items_story_id ON public.story_highlight_items(story_id);
+
+-- Highlights follow the same visibility as the author's stories. They are written
+-- through save_story_highlight and deleted directly by their owner
+CREATE POLICY "Highlights are visible to who can see the author's stories"
+ON public.story_highlights
+FOR SELECT
+USING (
+  public.can_view_profile_content(user_id)
+  AND NOT public.is_hidden_for_current_user(user_id)
+);
+
+CREATE POLICY "Users can delete their own highlights"
+ON public.story_highlights
+FOR DELETE
+USING (user_id = public.get_current_user_id());
+
+CREATE POLICY "Highlight items are visible with their highlight"
+ON public.story_highlight_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.story_highlights h
+    WHERE h.id = story_highlight_items.highlight_id
+      AND public.can_view_profile_content(h.user_id)
+      AND NOT public.is_hidden_for_current_user(h.user_id)
+  )
+);
+
+-- Security definer so the stories policy below doesn't depend on the highlight policies
+CREATE OR REPLACE FUNCTION public.is_story_highlighted(p_story_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (SELECT 1 FROM public.story_highlight_items WHERE story_id = p_story_id);
+$function$;
+
+-- Expired stories are only visible to their author (the archive) and in highlights
+CREATE POLICY "Expired stories are only visible in the archive and highlights"
+ON public.stories
+AS RESTRICTIVE
+FOR SELECT
+USING (
+  expires_at > now()
+  OR user_id = public.get_current_user_id()
+  OR public.is_story_highlighted(id)
+);
+
+-- Creates a highlight (p_highlight_id NULL) or replaces the title, stories and cover of
+-- one of the current user's highlights. Only the user's own stories can be added; the
+-- cover falls back to the first story when it isn't one of them
+CREATE OR REPLACE FUNCTION public.save_story_highlight(
+  p_highlight_id UUID,
+  p_title TEXT,
+  p_story_ids UUID[],
+  p_cover_story_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  v_title TEXT := btrim(COALESCE(p_title, ''));
+  v_story_ids UUID[];
+  v_cover_id UUID;
+  v_highlight_id UUID := p_highlight_id;
+BEGIN
+  IF current_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF char_length(v_title) NOT BETWEEN 1 AND 30 THEN
+    RAISE EXCEPTION 'Highlight title must have between 1 and 30 characters';
+  END IF;
+
+  SELECT array_agg(DISTINCT id) INTO v_story_ids
+  FROM stories
+  WHERE id = ANY(COALESCE(p_story_ids, '{}')) AND user_id = current_id;
+
+  IF v_story_ids IS NULL THEN
+    RAISE EXCEPTION 'A highlight needs at least one story';
+  END IF;
+
+  IF cardinality(v_story_ids) <> (SELECT count(DISTINCT s) FROM unnest(p_story_ids) s) THEN
+    RAISE EXCEPTION 'Only your own stories can be added to a highlight' USING ERRCODE = '42501';
+  END IF;
+
+  v_cover_id := CASE
+    WHEN p_cover_story_id = ANY(v_story_ids) THEN p_cover_story_id
+    ELSE p_story_ids[1]
+  END;
+
+  IF v_highlight_id IS NULL THEN
+    INSERT INTO story_highlights (user_id, title, cover_story_id, position)
+    VALUES (
+      current_id,
+      v_title,
+      v_cover_id,
+      COALESCE((SELECT max(position) + 1 FROM story_highlights WHERE user_id = current_id), 0)
+    )
+    RETURNING id INTO v_highlight_id;
+  ELSE
+    UPDATE story_highlights
+    SET title = v_title, cover_story_id = v_cover_id, updated_at = now()
+    WHERE id = v_highlight_id AND user_id = current_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Not allowed to edit this highlight' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM story_highlight_items
+    WHERE highlight_id = v_highlight_id AND story_id <> ALL(v_story_ids);
+  END IF;
+
+  INSERT INTO story_highlight_items (highlight_id, story_id)
+  SELECT v_highlight_id, unnest(v_story_ids)
+  ON CONFLICT (highlight_id, story_id) DO NOTHING;
+
+  RETURN v_highlight_id;
+END;
+$function$;
+
+-- Expired stories now make up the archive, so they are kept
+DROP FUNCTION IF EXISTS public.cleanup_expired_stories();
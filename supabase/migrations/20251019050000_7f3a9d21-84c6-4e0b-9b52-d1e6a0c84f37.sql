@@ -0,0 +1,67 @@
+-- Close friends ("Amigos Próximos") and story audiences. Each story is shared with
+-- everyone, only followers or only the author's close friends, enforced by RLS
+CREATE TABLE public.close_friends (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  friend_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, friend_id),
+  CHECK (user_id <> friend_id)
+);
+
+ALTER TABLE public.close_friends ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_close_friends_friend_id ON public.close_friends(friend_id);
+
+-- The list is private: people aren't told they were added
+CREATE POLICY "Users can view their close friends"
+ON public.close_friends
+FOR SELECT
+USING (user_id = public.get_current_user_id());
+
+CREATE POLICY "Users can add close friends"
+ON public.close_friends
+FOR INSERT
+WITH CHECK (user_id = public.get_current_user_id());
+
+CREATE POLICY "Users can remove close friends"
+ON public.close_friends
+FOR DELETE
+USING (user_id = public.get_current_user_id());
+
+ALTER TABLE public.stories
+ADD COLUMN audience TEXT NOT NULL DEFAULT 'everyone'
+CHECK (audience IN ('everyone', 'followers', 'close_friends'));
+
+-- True when the current user is in the audience p_audience of p_owner_id's stories.
+-- Staff always are, so reported stories can be reviewed
+CREATE OR REPLACE FUNCTION public.can_view_story_audience(p_owner_id UUID, p_audience TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT p_audience = 'everyone'
+    OR p_owner_id = public.get_current_user_id()
+    OR (
+      p_audience = 'followers'
+      AND EXISTS (
+        SELECT 1 FROM public.follows
+        WHERE follower_id = public.get_current_user_id() AND following_id = p_owner_id
+      )
+    )
+    OR (
+      p_audience = 'close_friends'
+      AND EXISTS (
+        SELECT 1 FROM public.close_friends
+        WHERE user_id = p_owner_id AND friend_id = public.get_current_user_id()
+      )
+    )
+    OR public.is_staff(public.get_current_user_id());
+$function$;
+
+CREATE POLICY "Stories are only visible to their audience"
+ON public.stories
+AS RESTRICTIVE
+FOR SELECT
+USING (public.can_view_story_audience(user_id, audience));
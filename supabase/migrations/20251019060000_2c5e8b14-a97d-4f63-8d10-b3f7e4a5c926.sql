@@ -0,0 +1,189 @@
+-- Interactive story stickers: polls, open questions, emoji sliders and quizzes.
+-- Each sticker is a structured element of its story, placed at a relative position,
+-- and viewers answer it once
+CREATE TABLE public.story_stickers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('poll', 'question', 'slider', 'quiz')),
+  -- Center of the sticker as a fraction of the story's width and height
+  position_x REAL NOT NULL DEFAULT 0.5 CHECK (position_x BETWEEN 0 AND 1),
+  position_y REAL NOT NULL DEFAULT 0.5 CHECK (position_y BETWEEN 0 AND 1),
+  -- poll: {question, options[2]}; question: {prompt}; slider: {prompt, emoji};
+  -- quiz: {question, options[2..4], correct_index}
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.story_sticker_responses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sticker_id UUID NOT NULL REFERENCES public.story_stickers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  option_index INTEGER,
+  slider_value REAL CHECK (slider_value BETWEEN 0 AND 1),
+  answer_text TEXT CHECK (char_length(answer_text) <= 200),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (sticker_id, user_id)
+);
+
+ALTER TABLE public.story_stickers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_sticker_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_story_stickers_story_id ON public.story_stickers(story_id);
+CREATE INDEX idx_story_sticker_responses_user_id ON public.story_sticker_responses(user_id);
+
+-- Stickers are visible with their story (the stories policies apply to the subquery)
+CREATE POLICY "Stickers are visible with their story"
+ON public.story_stickers
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.stories s WHERE s.id = story_stickers.story_id));
+
+CREATE POLICY "Story authors can add stickers"
+ON public.story_stickers
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.stories s
+    WHERE s.id = story_stickers.story_id AND s.user_id = public.get_current_user_id()
+  )
+);
+
+CREATE POLICY "Story authors can remove stickers"
+ON public.story_stickers
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.stories s
+    WHERE s.id = story_stickers.story_id AND s.user_id = public.get_current_user_id()
+  )
+);
+
+-- Responses are written through respond_to_story_sticker. Viewers see their own,
+-- the story author sees everyone's
+CREATE POLICY "Responses are visible to the responder and the story author"
+ON public.story_sticker_responses
+FOR SELECT
+USING (
+  user_id = public.get_current_user_id()
+  OR EXISTS (
+    SELECT 1 FROM public.story_stickers st
+    JOIN public.stories s ON s.id = st.story_id
+    WHERE st.id = story_sticker_responses.sticker_id AND s.user_id = public.get_current_user_id()
+  )
+);
+
+-- Same checks as the RESTRICTIVE policies on stories, for the security definer functions below
+CREATE OR REPLACE FUNCTION public.can_view_story(p_story_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.stories s
+    WHERE s.id = p_story_id
+      AND public.can_view_profile_content(s.user_id)
+      AND NOT public.is_hidden_for_current_user(s.user_id)
+      AND public.can_view_story_audience(s.user_id, s.audience)
+      AND (
+        s.expires_at > now()
+        OR s.user_id = public.get_current_user_id()
+        OR public.is_story_highlighted(s.id)
+      )
+  );
+$function$;
+
+-- Records the current user's answer. Only the field that matches the sticker type is
+-- used: option_index for polls and quizzes, slider_value (0 to 1) for sliders and
+-- answer_text for questions
+CREATE OR REPLACE FUNCTION public.respond_to_story_sticker(
+  p_sticker_id UUID,
+  p_option_index INTEGER DEFAULT NULL,
+  p_slider_value REAL DEFAULT NULL,
+  p_answer_text TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_sticker story_stickers%ROWTYPE;
+  story_owner_id UUID;
+  v_answer TEXT := NULLIF(btrim(COALESCE(p_answer_text, '')), '');
+  option_count INTEGER;
+BEGIN
+  IF current_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target_sticker FROM story_stickers WHERE id = p_sticker_id;
+
+  IF target_sticker.id IS NULL OR NOT public.can_view_story(target_sticker.story_id) THEN
+    RAISE EXCEPTION 'Sticker not found';
+  END IF;
+
+  SELECT user_id INTO story_owner_id FROM stories WHERE id = target_sticker.story_id;
+
+  IF story_owner_id = current_id THEN
+    RAISE EXCEPTION 'You cannot answer your own story' USING ERRCODE = '42501';
+  END IF;
+
+  IF target_sticker.type IN ('poll', 'quiz') THEN
+    option_count := COALESCE(jsonb_array_length(target_sticker.data -> 'options'), 0);
+    IF p_option_index IS NULL OR p_option_index < 0 OR p_option_index >= option_count THEN
+      RAISE EXCEPTION 'Invalid option';
+    END IF;
+
+    INSERT INTO story_sticker_responses (sticker_id, user_id, option_index)
+    VALUES (p_sticker_id, current_id, p_option_index);
+  ELSIF target_sticker.type = 'slider' THEN
+    IF p_slider_value IS NULL OR p_slider_value < 0 OR p_slider_value > 1 THEN
+      RAISE EXCEPTION 'Invalid slider value';
+    END IF;
+
+    INSERT INTO story_sticker_responses (sticker_id, user_id, slider_value)
+    VALUES (p_sticker_id, current_id, p_slider_value);
+  ELSE
+    IF v_answer IS NULL OR char_length(v_answer) > 200 THEN
+      RAISE EXCEPTION 'Answers must have between 1 and 200 characters';
+    END IF;
+
+    INSERT INTO story_sticker_responses (sticker_id, user_id, answer_text)
+    VALUES (p_sticker_id, current_id, v_answer);
+  END IF;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'You already answered this sticker' USING ERRCODE = '23505';
+END;
+$function$;
+
+-- Totals of the stickers of a story, without who answered: one row per poll/quiz option
+-- that got votes and one row per slider with its average. Open to anyone who can see
+-- the story, so viewers see the results after answering
+CREATE OR REPLACE FUNCTION public.get_story_sticker_totals(p_story_id UUID)
+RETURNS TABLE (
+  sticker_id UUID,
+  option_index INTEGER,
+  response_count BIGINT,
+  average_value REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NOT public.can_view_story(p_story_id) THEN
+    RAISE EXCEPTION 'Story not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.sticker_id, r.option_index, count(*), avg(r.slider_value)::REAL
+  FROM story_sticker_responses r
+  JOIN story_stickers st ON st.id = r.sticker_id
+  WHERE st.story_id = p_story_id AND st.type <> 'question'
+  GROUP BY r.sticker_id, r.option_index;
+END;
+$function$;
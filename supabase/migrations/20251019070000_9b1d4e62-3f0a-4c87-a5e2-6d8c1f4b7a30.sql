@@ -0,0 +1,5 @@
+-- Layered story canvas: text boxes, drawings and emoji/mention/location stickers are
+-- saved as one JSON document. Stories without layers keep rendering from
+-- content/text_position/text_size
+ALTER TABLE public.stories
+ADD COLUMN layers JSONB CHECK (layers IS NULL OR jsonb_typeof(layers) = 'object');
@@ -0,0 +1,154 @@
+-- Legacy profiles are no longer handed to whoever signs up first with their username.
+-- The signup must come from a device that still held the old username-only session
+-- (it sends that profile's id along with the username), and even then it only opens
+-- a claim that staff approve before the profile is linked to the new auth user
+CREATE TABLE public.legacy_profile_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  auth_user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.legacy_profile_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_legacy_profile_claims_profile_id ON public.legacy_profile_claims(profile_id);
+
+-- Claimants have no profile yet, so they are matched by their auth user
+CREATE POLICY "Claimants and staff can view legacy claims"
+ON public.legacy_profile_claims
+FOR SELECT
+USING (
+  auth_user_id = auth.uid()
+  OR public.is_staff(public.get_current_user_id())
+);
+
+CREATE OR REPLACE FUNCTION public.handle_new_auth_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  legacy_username TEXT := NEW.raw_user_meta_data ->> 'legacy_username';
+  legacy_profile_id UUID := NULLIF(NEW.raw_user_meta_data ->> 'legacy_profile_id', '')::uuid;
+  new_username TEXT := NEW.raw_user_meta_data ->> 'username';
+BEGIN
+  IF legacy_username IS NOT NULL THEN
+    IF legacy_profile_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = legacy_profile_id
+        AND username = legacy_username
+        AND auth_user_id IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Legacy profile % not found or already claimed', legacy_username;
+    END IF;
+
+    INSERT INTO legacy_profile_claims (profile_id, auth_user_id)
+    VALUES (legacy_profile_id, NEW.id);
+
+    RETURN NEW;
+  END IF;
+
+  IF new_username IS NULL OR new_username !~ '^[a-zA-Z]+[0-9]{4}$' THEN
+    RAISE EXCEPTION 'Invalid username %', new_username;
+  END IF;
+
+  INSERT INTO profiles (id, auth_user_id, username, display_name)
+  VALUES (
+    NEW.id,
+    NEW.id,
+    new_username,
+    COALESCE(NULLIF(TRIM(NEW.raw_user_meta_data ->> 'display_name'), ''), new_username)
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Pending claims with the email they were made with, for staff to check with the owner
+CREATE OR REPLACE FUNCTION public.get_pending_legacy_claims()
+RETURNS TABLE (
+  claim_id UUID,
+  profile_id UUID,
+  username TEXT,
+  display_name TEXT,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NOT public.is_staff(public.get_current_user_id()) THEN
+    RAISE EXCEPTION 'Only staff can review legacy claims' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, p.id, p.username, p.display_name, u.email::text, c.created_at
+  FROM legacy_profile_claims c
+  JOIN profiles p ON p.id = c.profile_id
+  JOIN auth.users u ON u.id = c.auth_user_id
+  WHERE c.status = 'pending'
+  ORDER BY c.created_at;
+END;
+$function$;
+
+-- Approving links the profile to the claimant and turns down the other claims on it
+CREATE OR REPLACE FUNCTION public.review_legacy_claim(p_claim_id UUID, p_approve BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  claim RECORD;
+BEGIN
+  IF NOT public.is_staff(current_id) THEN
+    RAISE EXCEPTION 'Only staff can review legacy claims' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT c.id, c.profile_id, c.auth_user_id, p.username INTO claim
+  FROM legacy_profile_claims c
+  JOIN profiles p ON p.id = c.profile_id
+  WHERE c.id = p_claim_id AND c.status = 'pending'
+  FOR UPDATE OF c;
+
+  IF claim.id IS NULL THEN
+    RAISE EXCEPTION 'Claim not found or already reviewed';
+  END IF;
+
+  IF p_approve THEN
+    UPDATE profiles
+    SET auth_user_id = claim.auth_user_id
+    WHERE id = claim.profile_id AND auth_user_id IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Legacy profile already claimed';
+    END IF;
+
+    UPDATE legacy_profile_claims
+    SET status = 'rejected', reviewed_by = current_id, reviewed_at = now()
+    WHERE profile_id = claim.profile_id AND status = 'pending' AND id <> claim.id;
+  END IF;
+
+  UPDATE legacy_profile_claims
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = current_id,
+      reviewed_at = now()
+  WHERE id = claim.id;
+
+  PERFORM log_admin_action(
+    current_id,
+    CASE WHEN p_approve THEN 'approve_legacy_claim' ELSE 'reject_legacy_claim' END,
+    'profile',
+    claim.profile_id,
+    jsonb_build_object('username', claim.username)
+  );
+END;
+$function$;
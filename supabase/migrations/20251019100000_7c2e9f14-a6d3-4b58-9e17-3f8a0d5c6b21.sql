@@ -0,0 +1,10 @@
+-- Current database time. Realtime clients start their replay cursor here when they
+-- first join, so rows inserted before any live event arrives are not lost on a rejoin
+CREATE OR REPLACE FUNCTION public.get_server_time()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT now();
+$function$;
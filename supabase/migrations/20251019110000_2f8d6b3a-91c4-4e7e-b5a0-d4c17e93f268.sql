@@ -0,0 +1,65 @@
+-- Two INSERT policies from the custom auth days are still in place and accept any
+-- sender_id that belongs to a profile. Permissive policies are OR'ed, so they let
+-- anyone post as someone else next to "Users can send public chat messages as themselves"
+DROP POLICY IF EXISTS "Users can send public chat messages" ON public.public_chat_messages;
+DROP POLICY IF EXISTS "Allow message insertion for profile users" ON public.public_chat_messages;
+
+-- Slow mode and rate limit, staff are exempt. The sender is checked here as well, so a
+-- policy added later can't reopen impersonation, and the staff exemption goes by who is
+-- signed in rather than whose id the row carries. Resending a message that already made
+-- it (the outbox retries with the same id) passes through and is dropped by the conflict
+CREATE OR REPLACE FUNCTION public.enforce_public_chat_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  settings RECORD;
+  last_sent_at TIMESTAMP WITH TIME ZONE;
+  recent_count INTEGER;
+BEGIN
+  IF NEW.sender_id IS DISTINCT FROM current_id THEN
+    RAISE EXCEPTION 'Public chat messages must be sent as yourself' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public_chat_messages WHERE id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.created_at := now();
+
+  IF public.is_staff(current_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Two concurrent inserts of one sender would both see the same history otherwise
+  PERFORM pg_advisory_xact_lock(hashtext('public_chat:' || current_id::text));
+
+  SELECT * INTO settings FROM public_chat_settings WHERE id;
+
+  IF settings.slow_mode_seconds > 0 THEN
+    SELECT MAX(created_at) INTO last_sent_at
+    FROM public_chat_messages
+    WHERE sender_id = current_id;
+
+    IF last_sent_at > now() - make_interval(secs => settings.slow_mode_seconds) THEN
+      RAISE EXCEPTION 'Slow mode: wait % seconds',
+        CEIL(EXTRACT(EPOCH FROM last_sent_at + make_interval(secs => settings.slow_mode_seconds) - now()))::integer
+        USING ERRCODE = '54000';
+    END IF;
+  END IF;
+
+  SELECT COUNT(*) INTO recent_count
+  FROM public_chat_messages
+  WHERE sender_id = current_id
+    AND created_at > now() - make_interval(secs => settings.rate_limit_window_seconds);
+
+  IF recent_count >= settings.rate_limit_messages THEN
+    RAISE EXCEPTION 'Rate limit exceeded' USING ERRCODE = '54000';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
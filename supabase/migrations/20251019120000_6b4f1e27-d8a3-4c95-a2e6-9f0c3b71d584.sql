@@ -0,0 +1,19 @@
+-- Policies from the custom auth days that the group roles migration missed. Permissive
+-- policies are OR'ed, so these still let anyone add any profile to any conversation
+-- and rename or re-photo any conversation, whatever their role
+DROP POLICY IF EXISTS "Allow participant creation for profiles" ON public.conversation_participants;
+DROP POLICY IF EXISTS "Allow conversation updates for profiles" ON public.conversations;
+
+-- Same check as conversations_insert_policy, one of them is enough
+DROP POLICY IF EXISTS "Allow conversation creation for profiles" ON public.conversations;
+
+-- Writes left after this:
+--   conversation_participants
+--     INSERT "Participants are added by who the group allows"
+--            "Blocked users cannot be added to conversations" (restrictive)
+--     DELETE "Users can leave or be removed by a group admin"
+--     UPDATE none, roles and mutes change through the functions
+--   conversations
+--     INSERT conversations_insert_policy
+--     UPDATE "Group admins can update conversations"
+--     DELETE none
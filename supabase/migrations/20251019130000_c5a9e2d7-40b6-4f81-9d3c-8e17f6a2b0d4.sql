@@ -0,0 +1,12 @@
+-- Uploads to chat-files were open to anyone, signed in or not, under any path.
+-- Like avatars and stories, each user now uploads only into their own folder
+DROP POLICY IF EXISTS "Anyone can upload chat files" ON storage.objects;
+
+CREATE POLICY "Users can upload chat files to their own folder"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-files'
+  AND (storage.foldername(name))[1] = public.get_current_user_id()::text
+);
@@ -0,0 +1,134 @@
+-- The right answer of a quiz sat in story_stickers.data, where every viewer could
+-- read it before answering. It now lives in its own table that only the story
+-- author can read, and viewers learn whether they got it right when they answer
+CREATE TABLE public.story_quiz_answers (
+  sticker_id UUID NOT NULL PRIMARY KEY REFERENCES public.story_stickers(id) ON DELETE CASCADE,
+  correct_index INTEGER NOT NULL CHECK (correct_index >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.story_quiz_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Story authors can view quiz answers"
+ON public.story_quiz_answers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.story_stickers st
+    JOIN public.stories s ON s.id = st.story_id
+    WHERE st.id = story_quiz_answers.sticker_id AND s.user_id = public.get_current_user_id()
+  )
+);
+
+CREATE POLICY "Story authors can add quiz answers"
+ON public.story_quiz_answers
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.story_stickers st
+    JOIN public.stories s ON s.id = st.story_id
+    WHERE st.id = story_quiz_answers.sticker_id
+      AND st.type = 'quiz'
+      AND story_quiz_answers.correct_index < COALESCE(jsonb_array_length(st.data -> 'options'), 0)
+      AND s.user_id = public.get_current_user_id()
+  )
+);
+
+INSERT INTO public.story_quiz_answers (sticker_id, correct_index)
+SELECT id, (data ->> 'correct_index')::integer
+FROM public.story_stickers
+WHERE type = 'quiz' AND data ? 'correct_index';
+
+UPDATE public.story_stickers
+SET data = data - 'correct_index'
+WHERE data ? 'correct_index';
+
+ALTER TABLE public.story_stickers
+ADD CONSTRAINT story_stickers_no_correct_index_check
+CHECK (NOT data ? 'correct_index');
+
+-- Set by respond_to_story_sticker for quizzes, so viewers keep seeing how they did
+ALTER TABLE public.story_sticker_responses
+ADD COLUMN is_correct BOOLEAN;
+
+UPDATE public.story_sticker_responses r
+SET is_correct = r.option_index = a.correct_index
+FROM public.story_quiz_answers a
+WHERE a.sticker_id = r.sticker_id;
+
+DROP FUNCTION IF EXISTS public.respond_to_story_sticker(UUID, INTEGER, REAL, TEXT);
+
+-- Records the current user's answer. Only the field that matches the sticker type is
+-- used: option_index for polls and quizzes, slider_value (0 to 1) for sliders and
+-- answer_text for questions. Returns whether a quiz answer is right, NULL otherwise
+CREATE OR REPLACE FUNCTION public.respond_to_story_sticker(
+  p_sticker_id UUID,
+  p_option_index INTEGER DEFAULT NULL,
+  p_slider_value REAL DEFAULT NULL,
+  p_answer_text TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_sticker story_stickers%ROWTYPE;
+  story_owner_id UUID;
+  v_answer TEXT := NULLIF(btrim(COALESCE(p_answer_text, '')), '');
+  option_count INTEGER;
+  v_is_correct BOOLEAN;
+BEGIN
+  IF current_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target_sticker FROM story_stickers WHERE id = p_sticker_id;
+
+  IF target_sticker.id IS NULL OR NOT public.can_view_story(target_sticker.story_id) THEN
+    RAISE EXCEPTION 'Sticker not found';
+  END IF;
+
+  SELECT user_id INTO story_owner_id FROM stories WHERE id = target_sticker.story_id;
+
+  IF story_owner_id = current_id THEN
+    RAISE EXCEPTION 'You cannot answer your own story' USING ERRCODE = '42501';
+  END IF;
+
+  IF target_sticker.type IN ('poll', 'quiz') THEN
+    option_count := COALESCE(jsonb_array_length(target_sticker.data -> 'options'), 0);
+    IF p_option_index IS NULL OR p_option_index < 0 OR p_option_index >= option_count THEN
+      RAISE EXCEPTION 'Invalid option';
+    END IF;
+
+    IF target_sticker.type = 'quiz' THEN
+      SELECT p_option_index = a.correct_index INTO v_is_correct
+      FROM story_quiz_answers a
+      WHERE a.sticker_id = p_sticker_id;
+    END IF;
+
+    INSERT INTO story_sticker_responses (sticker_id, user_id, option_index, is_correct)
+    VALUES (p_sticker_id, current_id, p_option_index, v_is_correct);
+  ELSIF target_sticker.type = 'slider' THEN
+    IF p_slider_value IS NULL OR p_slider_value < 0 OR p_slider_value > 1 THEN
+      RAISE EXCEPTION 'Invalid slider value';
+    END IF;
+
+    INSERT INTO story_sticker_responses (sticker_id, user_id, slider_value)
+    VALUES (p_sticker_id, current_id, p_slider_value);
+  ELSE
+    IF v_answer IS NULL OR char_length(v_answer) > 200 THEN
+      RAISE EXCEPTION 'Answers must have between 1 and 200 characters';
+    END IF;
+
+    INSERT INTO story_sticker_responses (sticker_id, user_id, answer_text)
+    VALUES (p_sticker_id, current_id, v_answer);
+  END IF;
+
+  RETURN v_is_correct;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'You already answered this sticker' USING ERRCODE = '23505';
+END;
+$function$;
@@ -0,0 +1,99 @@
+-- send_story_reply created its conversations with the replier as creator_id, which
+-- makes them groups: the replier became their owner and could rename them, and the
+-- chat list and send_story_reply itself then failed to find them as the direct chat
+
+-- Conversations it created that way start with a story reply or reaction, were never
+-- named and still have just the two of them. The replier also got the owner role
+WITH repaired AS (
+  UPDATE public.conversations c
+  SET creator_id = NULL
+  WHERE c.creator_id IS NOT NULL
+    AND COALESCE(c.is_public, false) = false
+    AND c.name IS NULL
+    AND (SELECT count(*) FROM public.conversation_participants WHERE conversation_id = c.id) = 2
+    AND (
+      SELECT m.message_type
+      FROM public.messages m
+      WHERE m.conversation_id = c.id
+      ORDER BY m.created_at
+      LIMIT 1
+    ) IN ('story_reply', 'story_reaction')
+  RETURNING c.id
+)
+UPDATE public.conversation_participants cp
+SET role = 'member'
+FROM repaired
+WHERE cp.conversation_id = repaired.id;
+
+CREATE OR REPLACE FUNCTION public.send_story_reply(
+  p_story_id UUID,
+  p_content TEXT,
+  p_is_reaction BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  author_id UUID;
+  target_conversation_id UUID;
+  reply TEXT := btrim(COALESCE(p_content, ''));
+BEGIN
+  IF current_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF reply = '' OR char_length(reply) > 500 THEN
+    RAISE EXCEPTION 'Reply must have between 1 and 500 characters';
+  END IF;
+
+  -- Expired stories can only be answered from a highlight, as can_view_story allows
+  IF NOT public.can_view_story(p_story_id) THEN
+    RAISE EXCEPTION 'Story not found';
+  END IF;
+
+  SELECT user_id INTO author_id FROM stories WHERE id = p_story_id;
+
+  IF author_id = current_id THEN
+    RAISE EXCEPTION 'Cannot reply to your own story';
+  END IF;
+
+  IF public.is_blocked_between(current_id, author_id) THEN
+    RAISE EXCEPTION 'Not allowed to message this user' USING ERRCODE = '42501';
+  END IF;
+
+  -- The direct conversation between both users, created on the first reply. Direct
+  -- conversations have no creator, one with a creator is a group even with two members
+  SELECT c.id INTO target_conversation_id
+  FROM conversations c
+  JOIN conversation_participants mine ON mine.conversation_id = c.id AND mine.user_id = current_id
+  JOIN conversation_participants theirs ON theirs.conversation_id = c.id AND theirs.user_id = author_id
+  WHERE c.creator_id IS NULL
+    AND COALESCE(c.is_public, false) = false
+    AND (SELECT count(*) FROM conversation_participants WHERE conversation_id = c.id) = 2
+  ORDER BY c.updated_at DESC
+  LIMIT 1;
+
+  IF target_conversation_id IS NULL THEN
+    INSERT INTO conversations (creator_id, is_public)
+    VALUES (NULL, false)
+    RETURNING id INTO target_conversation_id;
+
+    INSERT INTO conversation_participants (conversation_id, user_id)
+    VALUES (target_conversation_id, current_id), (target_conversation_id, author_id);
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, content, story_id, message_type)
+  VALUES (
+    target_conversation_id,
+    current_id,
+    reply,
+    p_story_id,
+    CASE WHEN p_is_reaction THEN 'story_reaction' ELSE 'story_reply' END
+  );
+
+  RETURN target_conversation_id;
+END;
+$function$;
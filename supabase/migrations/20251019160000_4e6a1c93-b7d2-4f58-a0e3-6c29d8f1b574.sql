@@ -0,0 +1,57 @@
+-- prepare_report runs as its owner, so it copied whatever target_id pointed at into
+-- content_snapshot, and reporters read their own reports back. Reporting the id of
+-- a private post, a story outside one's audience or someone else's DM leaked it.
+-- Content the reporter can't see now counts as not found, same as a missing row
+CREATE OR REPLACE FUNCTION public.prepare_report()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  NEW.status := 'pending';
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+  NEW.resolution_note := NULL;
+
+  IF NEW.target_type = 'post' THEN
+    SELECT user_id, content INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM posts
+    WHERE id = NEW.target_id
+      AND public.can_view_profile_content(user_id);
+  ELSIF NEW.target_type = 'comment' THEN
+    SELECT pc.user_id, pc.content INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM post_comments pc
+    JOIN posts p ON p.id = pc.post_id
+    WHERE pc.id = NEW.target_id
+      AND public.can_view_profile_content(p.user_id);
+  ELSIF NEW.target_type = 'story' THEN
+    SELECT user_id, COALESCE(content, media_url) INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM stories
+    WHERE id = NEW.target_id
+      AND public.can_view_story(id);
+  ELSIF NEW.target_type = 'message' THEN
+    SELECT m.sender_id, COALESCE(m.content, m.media_url) INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    WHERE m.id = NEW.target_id
+      AND (
+        COALESCE(c.is_public, false)
+        OR public.is_conversation_participant(m.conversation_id, NEW.reporter_id)
+      );
+  ELSIF NEW.target_type = 'profile' THEN
+    SELECT id, COALESCE(bio, display_name) INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM profiles WHERE id = NEW.target_id;
+  END IF;
+
+  IF NEW.reported_user_id IS NULL THEN
+    RAISE EXCEPTION 'Reported content not found';
+  END IF;
+
+  IF NEW.reported_user_id = NEW.reporter_id THEN
+    RAISE EXCEPTION 'You cannot report your own content';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
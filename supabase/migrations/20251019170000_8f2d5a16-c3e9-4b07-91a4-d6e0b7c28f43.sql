@@ -0,0 +1,60 @@
+-- Notifications were open to everyone: any client could read, rewrite or insert
+-- them, and call create_notification with an actor of its choosing (or none, which
+-- skipped the block check). Recipients now only read and mark their own, and
+-- notifications are only created by the triggers and functions of the database
+DROP POLICY IF EXISTS "Allow all access to notifications" ON public.notifications;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (user_id = public.get_current_user_id());
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications
+FOR UPDATE
+USING (user_id = public.get_current_user_id())
+WITH CHECK (user_id = public.get_current_user_id());
+
+-- p_actor_id is who the notification is shown as coming from; it stays NULL for
+-- moderation notices. The block check also covers whoever is signed in, so a
+-- notification can't skip it by leaving the actor out
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_entity_type TEXT DEFAULT NULL,
+  p_entity_id UUID DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  notification_id UUID;
+BEGIN
+  IF p_actor_id IS NOT NULL AND public.is_blocked_between(p_user_id, p_actor_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF current_id IS NOT NULL
+    AND NOT public.is_staff(current_id)
+    AND public.is_blocked_between(p_user_id, current_id) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (
+    user_id, type, title, message, entity_type, entity_id, actor_id
+  ) VALUES (
+    p_user_id, p_type, p_title, p_message, p_entity_type, p_entity_id, p_actor_id
+  ) RETURNING id INTO notification_id;
+
+  RETURN notification_id;
+END;
+$function$;
+
+-- Only reachable from the security definer triggers and functions that call it
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
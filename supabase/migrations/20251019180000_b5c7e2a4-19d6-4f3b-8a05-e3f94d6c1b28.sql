@@ -0,0 +1,21 @@
+-- "Allow all follow operations" still let anyone insert, update or delete any follow.
+-- Updating following_id of an existing follow to a private or blocking account
+-- skipped both the follow request and the block check, which only guard INSERT.
+-- Follows are now created and removed by the follower only and never updated
+DROP POLICY IF EXISTS "Allow all follow operations" ON public.follows;
+
+-- Follower lists of private accounts stay restricted by their RESTRICTIVE policy
+CREATE POLICY "Anyone can view follows"
+ON public.follows
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can follow as themselves"
+ON public.follows
+FOR INSERT
+WITH CHECK (follower_id = public.get_current_user_id());
+
+CREATE POLICY "Users can unfollow"
+ON public.follows
+FOR DELETE
+USING (follower_id = public.get_current_user_id());
@@ -0,0 +1,97 @@
+-- handle_message_edit runs as its owner to write message_revisions, so current_user
+-- never matched a client and the edit rules were skipped. Check the request role instead
+CREATE OR REPLACE FUNCTION public.handle_message_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    -- edited_at only moves together with the content
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    IF OLD.sender_id IS DISTINCT FROM public.get_current_user_id() THEN
+      RAISE EXCEPTION 'Only the sender can edit this message';
+    END IF;
+
+    IF COALESCE(OLD.message_type, 'user') = 'system' OR OLD.content IS NULL THEN
+      RAISE EXCEPTION 'This message cannot be edited';
+    END IF;
+
+    IF OLD.created_at < now() - interval '15 minutes' THEN
+      RAISE EXCEPTION 'Edit window has expired';
+    END IF;
+
+    IF NEW.content IS NULL OR btrim(NEW.content) = '' THEN
+      RAISE EXCEPTION 'Message content cannot be empty';
+    END IF;
+  END IF;
+
+  INSERT INTO message_revisions (message_id, content)
+  VALUES (OLD.id, OLD.content);
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$function$;
+
+-- Recipients only touch the delivery and read receipts of someone else's message
+CREATE OR REPLACE FUNCTION public.protect_message_receipts()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+DECLARE
+  v_delivered_at TIMESTAMP WITH TIME ZONE := NEW.delivered_at;
+  v_read_at TIMESTAMP WITH TIME ZONE := NEW.read_at;
+  v_message_status TEXT := NEW.message_status;
+BEGIN
+  IF current_user NOT IN ('postgres', 'service_role', 'supabase_admin')
+     AND OLD.sender_id IS DISTINCT FROM public.get_current_user_id() THEN
+    NEW := OLD;
+    NEW.delivered_at := v_delivered_at;
+    NEW.read_at := v_read_at;
+    NEW.message_status := v_message_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_message_receipts
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_message_receipts();
+
+-- The baseline policies let anyone update or delete any message
+DROP POLICY IF EXISTS "Allow all message operations" ON public.messages;
+DROP POLICY IF EXISTS "Allow message updates for profiles" ON public.messages;
+
+CREATE POLICY "Senders can update their messages"
+ON public.messages
+FOR UPDATE
+USING (sender_id = public.get_current_user_id())
+WITH CHECK (sender_id = public.get_current_user_id());
+
+CREATE POLICY "Recipients can mark messages as delivered or read"
+ON public.messages
+FOR UPDATE
+USING (
+  sender_id <> public.get_current_user_id()
+  AND public.is_conversation_participant(conversation_id, public.get_current_user_id())
+)
+WITH CHECK (
+  sender_id <> public.get_current_user_id()
+  AND public.is_conversation_participant(conversation_id, public.get_current_user_id())
+);
+
+CREATE POLICY "Senders and group admins can delete messages"
+ON public.messages
+FOR DELETE
+USING (
+  sender_id = public.get_current_user_id()
+  OR public.has_conversation_permission(conversation_id, public.get_current_user_id(), 'delete_messages')
+);
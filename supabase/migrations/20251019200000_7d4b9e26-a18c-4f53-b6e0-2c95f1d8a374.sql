@@ -0,0 +1,246 @@
+-- Messages are only sent by participants as themselves. The open baseline policies let
+-- anyone post anywhere, including muted members and system messages in someone else's name
+DROP POLICY IF EXISTS "Allow all message operations" ON public.messages;
+DROP POLICY IF EXISTS "Allow message creation for profiles" ON public.messages;
+DROP POLICY IF EXISTS "Users can create messages in their conversations" ON public.messages;
+
+CREATE POLICY "Participants can send messages as themselves"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  sender_id = public.get_current_user_id()
+  AND COALESCE(message_type, 'user') <> 'system'
+  AND public.is_conversation_participant(conversation_id, public.get_current_user_id())
+);
+
+-- Direct chats (no creator) take participants while they are being opened, from
+-- someone already in them, or from a former participant coming back to their own chat
+CREATE OR REPLACE FUNCTION public.can_add_conversation_participant(p_conversation_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_conversation RECORD;
+  has_participants BOOLEAN;
+BEGIN
+  SELECT id, creator_id, is_public INTO target_conversation
+  FROM conversations WHERE id = p_conversation_id;
+
+  IF target_conversation.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  has_participants := EXISTS (
+    SELECT 1 FROM conversation_participants WHERE conversation_id = p_conversation_id
+  );
+
+  IF target_conversation.creator_id IS NULL THEN
+    IF NOT has_participants AND NOT EXISTS (
+      SELECT 1 FROM messages WHERE conversation_id = p_conversation_id
+    ) THEN
+      RETURN true;
+    END IF;
+
+    IF public.is_conversation_participant(p_conversation_id, current_id) THEN
+      RETURN true;
+    END IF;
+
+    RETURN p_user_id = current_id AND EXISTS (
+      SELECT 1 FROM messages
+      WHERE conversation_id = p_conversation_id
+        AND sender_id = current_id
+        AND COALESCE(message_type, 'user') <> 'system'
+    );
+  END IF;
+
+  IF NOT has_participants THEN
+    RETURN p_user_id = current_id AND target_conversation.creator_id = current_id;
+  END IF;
+
+  IF p_user_id = current_id AND target_conversation.is_public THEN
+    RETURN true;
+  END IF;
+
+  RETURN public.has_conversation_permission(p_conversation_id, current_id, 'manage_participants');
+END;
+$function$;
+
+-- System messages are written here now that clients can't post them
+CREATE OR REPLACE FUNCTION public.set_conversation_role(
+  p_conversation_id UUID,
+  p_user_id UUID,
+  p_role TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+BEGIN
+  IF p_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role %', p_role;
+  END IF;
+
+  IF NOT public.can_moderate_conversation_member(p_conversation_id, current_id, p_user_id, 'manage_roles') THEN
+    RAISE EXCEPTION 'Only the group owner can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE conversation_participants
+  SET role = p_role
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id AND role <> p_role;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, content, message_type)
+  SELECT p_conversation_id, p_user_id,
+         CASE WHEN p_role = 'admin'
+           THEN '⭐ ' || regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') || ' agora é admin'
+           ELSE regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') || ' não é mais admin'
+         END,
+         'system'
+  FROM profiles
+  WHERE id = p_user_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.redeem_conversation_invite(p_code TEXT)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  target_invite conversation_invites%ROWTYPE;
+BEGIN
+  IF current_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO target_invite FROM conversation_invites WHERE code = p_code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  IF public.is_conversation_participant(target_invite.conversation_id, current_id) THEN
+    RETURN 'member';
+  END IF;
+
+  IF target_invite.requires_approval AND EXISTS (
+    SELECT 1 FROM conversation_join_requests
+    WHERE conversation_id = target_invite.conversation_id AND user_id = current_id
+  ) THEN
+    RETURN 'requested';
+  END IF;
+
+  IF target_invite.created_by IS NOT NULL AND public.is_blocked_between(current_id, target_invite.created_by) THEN
+    RAISE EXCEPTION 'Cannot join this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  -- Claim one use atomically so concurrent joins cannot go past max_uses
+  UPDATE conversation_invites
+  SET use_count = use_count + 1
+  WHERE id = target_invite.id
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (max_uses IS NULL OR use_count < max_uses);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite is no longer valid';
+  END IF;
+
+  IF target_invite.requires_approval THEN
+    INSERT INTO conversation_join_requests (conversation_id, user_id, invite_id)
+    VALUES (target_invite.conversation_id, current_id, target_invite.id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    RETURN 'requested';
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  VALUES (target_invite.conversation_id, current_id)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  INSERT INTO messages (conversation_id, sender_id, content, message_type)
+  SELECT target_invite.conversation_id, current_id,
+         '🔗 ' || regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') || ' entrou pelo link de convite',
+         'system'
+  FROM profiles
+  WHERE id = current_id;
+
+  RETURN 'joined';
+END;
+$function$;
+
+-- Leaving and removals go through a plain delete, announce them from there. Deletes
+-- cascading from a removed conversation have nothing left to post into
+CREATE OR REPLACE FUNCTION public.announce_participant_left()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM conversations WHERE id = OLD.conversation_id) THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, content, message_type)
+  SELECT OLD.conversation_id, OLD.user_id,
+         CASE WHEN OLD.user_id = public.get_current_user_id()
+           THEN '👋 ' || regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') || ' deixou a conversa'
+           ELSE '🚫 ' || regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') || ' foi removido da conversa'
+         END,
+         'system'
+  FROM profiles
+  WHERE id = OLD.user_id;
+
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER announce_participant_left
+  AFTER DELETE ON public.conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.announce_participant_left();
+
+-- Someone coming back to a direct chat they had left. A chat that is still being
+-- opened has no messages yet and stays quiet
+CREATE OR REPLACE FUNCTION public.announce_direct_chat_rejoin()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations WHERE id = NEW.conversation_id AND creator_id IS NULL
+  ) OR NOT EXISTS (
+    SELECT 1 FROM messages WHERE conversation_id = NEW.conversation_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, content, message_type)
+  SELECT NEW.conversation_id, NEW.user_id,
+         '👋 ' || regexp_replace(COALESCE(display_name, 'Usuário'), '\d{4}$', '') || ' entrou na conversa',
+         'system'
+  FROM profiles
+  WHERE id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER announce_direct_chat_rejoin
+  AFTER INSERT ON public.conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.announce_direct_chat_rejoin();
@@ -0,0 +1,41 @@
+-- Sticker totals went to every viewer, so the results of a poll or quiz could be read
+-- before answering it. The author still sees all of them, a viewer only those of the
+-- stickers they answered
+CREATE OR REPLACE FUNCTION public.get_story_sticker_totals(p_story_id UUID)
+RETURNS TABLE (
+  sticker_id UUID,
+  option_index INTEGER,
+  response_count BIGINT,
+  average_value REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  current_id UUID := public.get_current_user_id();
+  is_author BOOLEAN;
+BEGIN
+  IF NOT public.can_view_story(p_story_id) THEN
+    RAISE EXCEPTION 'Story not found';
+  END IF;
+
+  is_author := EXISTS (SELECT 1 FROM stories WHERE id = p_story_id AND user_id = current_id);
+
+  RETURN QUERY
+  SELECT r.sticker_id, r.option_index, count(*), avg(r.slider_value)::REAL
+  FROM story_sticker_responses r
+  JOIN story_stickers st ON st.id = r.sticker_id
+  WHERE st.story_id = p_story_id
+    AND st.type <> 'question'
+    AND (
+      is_author
+      OR EXISTS (
+        SELECT 1 FROM story_sticker_responses own
+        WHERE own.sticker_id = st.id AND own.user_id = current_id
+      )
+    )
+  GROUP BY r.sticker_id, r.option_index;
+END;
+$function$;